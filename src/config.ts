@@ -61,6 +61,13 @@ interface SmtpConfig {
   from: string;
 }
 
+interface PushConfig {
+  enabled: boolean;
+  vapidPublicKey: string;
+  vapidPrivateKey: string;
+  subject: string;
+}
+
 interface GiphyConfig {
   enabled: boolean;
   apiKey: string;
@@ -68,18 +75,83 @@ interface GiphyConfig {
   maxResults: number;
 }
 
+interface GroupRoleMapping {
+  group: string;
+  roleId: string;
+}
+
+interface OidcConfig {
+  enabled: boolean;
+  issuerUrl: string;
+  clientId: string;
+  clientSecret: string;
+  scopes: string[];
+  redirectUri: string;
+  buttonLabel: string;
+  usernameClaim: string;
+  groupsClaim: string;
+  groupRoleMappings: GroupRoleMapping[];
+  autoProvision: boolean;
+  requireVerifiedEmail: boolean;
+  /** Let a first SSO login attach to an existing non-admin local account with the same email */
+  linkExistingByEmail: boolean;
+  allowedReturnUrls: string[];
+  allowInsecureHttp: boolean;
+}
+
+interface LdapConfig {
+  enabled: boolean;
+  url: string;
+  startTls: boolean;
+  tlsRejectUnauthorized: boolean;
+  bindDn: string;
+  bindPassword: string;
+  userSearchBase: string;
+  userFilter: string;
+  loginAttributes: string[];
+  usernameAttribute: string;
+  emailAttribute: string;
+  groupSearchBase: string;
+  groupMemberAttribute: string;
+  groupRoleMappings: GroupRoleMapping[];
+  autoProvision: boolean;
+  /** Let a directory login attach to an existing non-admin account with the same email */
+  linkExistingByEmail: boolean;
+  syncIntervalMinutes: number;
+  timeoutMs: number;
+}
+
+export interface TwoFactorConfig {
+  requireForPrivilegedRoles: boolean;
+  webauthnRpId: string;
+  webauthnRpName: string;
+  webauthnOrigins: string[];
+}
+
+export interface LinkPreviewConfig {
+  enabled: boolean;
+  /** When non-empty, only these domains (and their subdomains) are unfurled */
+  allowedDomains: string[];
+  blockedDomains: string[];
+  timeoutMs: number;
+  maxBytes: number;
+  cacheTtlMinutes: number;
+}
+
 export interface ServerConfig {
   serverName: string;
   serverDescription: string;
   serverIconUrl: string;
   serverBannerUrl: string;
   serverPublic: boolean;
+  publicUrl: string;
   motd: string;
   port: number;
   trustProxy: boolean;
   requestLogging: boolean;
   jwtSecret: string;
   jwtExpiryDays: number;
+  accessTokenMinutes: number;
   bcryptRounds: number;
   loginMaxAttempts: number;
   loginWindowMinutes: number;
@@ -98,7 +170,12 @@ export interface ServerConfig {
   files: FilesConfig;
   smtp: SmtpConfig;
   giphy: GiphyConfig;
+  push: PushConfig;
   cors: CorsConfig;
+  oidc: OidcConfig;
+  ldap: LdapConfig;
+  twoFactor: TwoFactorConfig;
+  linkPreviews: LinkPreviewConfig;
 }
 
 const DEFAULT_CONFIG: ServerConfig = {
@@ -107,12 +184,14 @@ const DEFAULT_CONFIG: ServerConfig = {
   serverIconUrl: "",
   serverBannerUrl: "",
   serverPublic: false,
+  publicUrl: "",
   motd: "",
   port: 3001,
   trustProxy: false,
   requestLogging: true,
   jwtSecret: "",
   jwtExpiryDays: 7,
+  accessTokenMinutes: 15,
   bcryptRounds: 12,
   loginMaxAttempts: 5,
   loginWindowMinutes: 10,
@@ -176,10 +255,67 @@ const DEFAULT_CONFIG: ServerConfig = {
     rating: "pg",
     maxResults: 20,
   },
+  push: {
+    enabled: false,
+    vapidPublicKey: "",
+    vapidPrivateKey: "",
+    subject: "",
+  },
   cors: {
     allowedOrigins: ["*"],
     allowNoOrigin: false,
   },
+  oidc: {
+    enabled: false,
+    issuerUrl: "",
+    clientId: "",
+    clientSecret: "",
+    scopes: ["openid", "profile", "email"],
+    redirectUri: "",
+    buttonLabel: "Sign in with SSO",
+    usernameClaim: "preferred_username",
+    groupsClaim: "groups",
+    groupRoleMappings: [],
+    autoProvision: true,
+    requireVerifiedEmail: true,
+    linkExistingByEmail: false,
+    allowedReturnUrls: [],
+    allowInsecureHttp: false,
+  },
+  ldap: {
+    enabled: false,
+    url: "ldap://localhost:389",
+    startTls: false,
+    tlsRejectUnauthorized: true,
+    bindDn: "",
+    bindPassword: "",
+    userSearchBase: "",
+    userFilter: "(objectClass=inetOrgPerson)",
+    loginAttributes: ["uid", "mail"],
+    usernameAttribute: "uid",
+    emailAttribute: "mail",
+    groupSearchBase: "",
+    groupMemberAttribute: "member",
+    groupRoleMappings: [],
+    autoProvision: true,
+    linkExistingByEmail: false,
+    syncIntervalMinutes: 60,
+    timeoutMs: 10000,
+  },
+  twoFactor: {
+    requireForPrivilegedRoles: false,
+    webauthnRpId: "",
+    webauthnRpName: "",
+    webauthnOrigins: [],
+  },
+  linkPreviews: {
+    enabled: true,
+    allowedDomains: [],
+    blockedDomains: [],
+    timeoutMs: 5000,
+    maxBytes: 1024 * 1024,
+    cacheTtlMinutes: 1440,
+  },
 };
 
 let config: ServerConfig | null = null;
@@ -236,6 +372,126 @@ function sanitizeCorsConfig(input: CorsConfig): CorsConfig {
   };
 }
 
+function sanitizeText(value: unknown): string {
+  return typeof value === "string" ? value.trim() : "";
+}
+
+function sanitizeStringList(value: unknown): string[] {
+  if (!Array.isArray(value)) return [];
+  return Array.from(new Set(value.map(sanitizeText).filter(Boolean)));
+}
+
+function sanitizeGroupRoleMappings(value: unknown): GroupRoleMapping[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .filter(
+      (mapping) =>
+        mapping &&
+        typeof mapping.group === "string" &&
+        mapping.group.trim() &&
+        typeof mapping.roleId === "string" &&
+        mapping.roleId.trim()
+    )
+    .map((mapping) => ({ group: mapping.group.trim(), roleId: mapping.roleId.trim() }));
+}
+
+function sanitizeOidcConfig(input: OidcConfig): OidcConfig {
+  const defaults = DEFAULT_CONFIG.oidc;
+  const scopes = sanitizeStringList(input.scopes);
+  if (!scopes.includes("openid")) scopes.unshift("openid");
+  return {
+    enabled: input.enabled === true,
+    issuerUrl: sanitizeText(input.issuerUrl).replace(/\/+$/, ""),
+    clientId: sanitizeText(input.clientId),
+    clientSecret: typeof input.clientSecret === "string" ? input.clientSecret : "",
+    scopes,
+    redirectUri: sanitizeText(input.redirectUri),
+    buttonLabel: sanitizeText(input.buttonLabel) || defaults.buttonLabel,
+    usernameClaim: sanitizeText(input.usernameClaim) || defaults.usernameClaim,
+    groupsClaim: sanitizeText(input.groupsClaim) || defaults.groupsClaim,
+    groupRoleMappings: sanitizeGroupRoleMappings(input.groupRoleMappings),
+    autoProvision: input.autoProvision !== false,
+    requireVerifiedEmail: input.requireVerifiedEmail !== false,
+    linkExistingByEmail: input.linkExistingByEmail === true,
+    allowedReturnUrls: sanitizeStringList(input.allowedReturnUrls),
+    allowInsecureHttp: input.allowInsecureHttp === true,
+  };
+}
+
+function sanitizeLdapConfig(input: LdapConfig): LdapConfig {
+  const defaults = DEFAULT_CONFIG.ldap;
+  const loginAttributes = sanitizeStringList(input.loginAttributes);
+  return {
+    enabled: input.enabled === true,
+    url: sanitizeText(input.url) || defaults.url,
+    startTls: input.startTls === true,
+    tlsRejectUnauthorized: input.tlsRejectUnauthorized !== false,
+    bindDn: sanitizeText(input.bindDn),
+    bindPassword: typeof input.bindPassword === "string" ? input.bindPassword : "",
+    userSearchBase: sanitizeText(input.userSearchBase),
+    userFilter: sanitizeText(input.userFilter) || defaults.userFilter,
+    loginAttributes: loginAttributes.length ? loginAttributes : defaults.loginAttributes,
+    usernameAttribute: sanitizeText(input.usernameAttribute) || defaults.usernameAttribute,
+    emailAttribute: sanitizeText(input.emailAttribute) || defaults.emailAttribute,
+    groupSearchBase: sanitizeText(input.groupSearchBase),
+    groupMemberAttribute: sanitizeText(input.groupMemberAttribute) || defaults.groupMemberAttribute,
+    groupRoleMappings: sanitizeGroupRoleMappings(input.groupRoleMappings),
+    autoProvision: input.autoProvision !== false,
+    linkExistingByEmail: input.linkExistingByEmail === true,
+    syncIntervalMinutes:
+      Number.isInteger(input.syncIntervalMinutes) &&
+      input.syncIntervalMinutes >= 0 &&
+      input.syncIntervalMinutes <= 10080
+        ? input.syncIntervalMinutes
+        : defaults.syncIntervalMinutes,
+    timeoutMs:
+      Number.isInteger(input.timeoutMs) && input.timeoutMs >= 1000 && input.timeoutMs <= 120000
+        ? input.timeoutMs
+        : defaults.timeoutMs,
+  };
+}
+
+function sanitizeTwoFactorConfig(input: TwoFactorConfig): TwoFactorConfig {
+  return {
+    requireForPrivilegedRoles: input.requireForPrivilegedRoles === true,
+    webauthnRpId: sanitizeText(input.webauthnRpId).toLowerCase(),
+    webauthnRpName: sanitizeText(input.webauthnRpName),
+    webauthnOrigins: sanitizeStringList(input.webauthnOrigins).map(normalizeOrigin),
+  };
+}
+
+/** "*.Example.com." -> "example.com"; entries also match their subdomains */
+function normalizeDomain(domain: string): string {
+  return domain.trim().toLowerCase().replace(/^\*?\.+/, "").replace(/\.+$/, "");
+}
+
+function sanitizeLinkPreviewConfig(input: LinkPreviewConfig): LinkPreviewConfig {
+  const defaults = DEFAULT_CONFIG.linkPreviews;
+  const domains = (value: unknown) =>
+    Array.from(new Set(sanitizeStringList(value).map(normalizeDomain).filter(Boolean)));
+  return {
+    enabled: input.enabled !== false,
+    allowedDomains: domains(input.allowedDomains),
+    blockedDomains: domains(input.blockedDomains),
+    timeoutMs:
+      Number.isInteger(input.timeoutMs) && input.timeoutMs >= 1000 && input.timeoutMs <= 30000
+        ? input.timeoutMs
+        : defaults.timeoutMs,
+    maxBytes:
+      Number.isInteger(input.maxBytes) &&
+      input.maxBytes >= 16 * 1024 &&
+      input.maxBytes <= 10 * 1024 * 1024
+        ? input.maxBytes
+        : defaults.maxBytes,
+    cacheTtlMinutes:
+      Number.isInteger(input.cacheTtlMinutes) &&
+      input.cacheTtlMinutes >= 1 &&
+      input.cacheTtlMinutes <= 43200
+        ? input.cacheTtlMinutes
+        : defaults.cacheTtlMinutes,
+  };
+}
+
 export function loadConfig(): ServerConfig {
   const dataDir = getDataDir();
   const configPath = getConfigPath();
@@ -259,6 +515,7 @@ export function loadConfig(): ServerConfig {
 
   // Env vars seed values when config.json does not already define them.
   if (process.env.PORT) merged.port = parseInt(process.env.PORT, 10);
+  if (process.env.PUBLIC_URL) merged.publicUrl = process.env.PUBLIC_URL.trim();
   if (process.env.TRUST_PROXY) {
     merged.trustProxy = process.env.TRUST_PROXY.toLowerCase() === "true";
   }
@@ -350,6 +607,35 @@ export function loadConfig(): ServerConfig {
   if (process.env.GIPHY_MAX_RESULTS) {
     merged.giphy.maxResults = parseInt(process.env.GIPHY_MAX_RESULTS, 10);
   }
+  if (process.env.PUSH_ENABLED) {
+    merged.push.enabled = process.env.PUSH_ENABLED.toLowerCase() === "true";
+  }
+  if (process.env.PUSH_VAPID_PUBLIC_KEY) {
+    merged.push.vapidPublicKey = process.env.PUSH_VAPID_PUBLIC_KEY.trim();
+  }
+  if (process.env.PUSH_VAPID_PRIVATE_KEY) {
+    merged.push.vapidPrivateKey = process.env.PUSH_VAPID_PRIVATE_KEY.trim();
+  }
+  if (process.env.PUSH_SUBJECT) merged.push.subject = process.env.PUSH_SUBJECT.trim();
+  if (process.env.OIDC_ENABLED) {
+    merged.oidc.enabled = process.env.OIDC_ENABLED.toLowerCase() === "true";
+  }
+  if (process.env.OIDC_ISSUER_URL) merged.oidc.issuerUrl = process.env.OIDC_ISSUER_URL.trim();
+  if (process.env.OIDC_CLIENT_ID) merged.oidc.clientId = process.env.OIDC_CLIENT_ID.trim();
+  if (process.env.OIDC_CLIENT_SECRET) merged.oidc.clientSecret = process.env.OIDC_CLIENT_SECRET;
+  if (process.env.LDAP_ENABLED) {
+    merged.ldap.enabled = process.env.LDAP_ENABLED.toLowerCase() === "true";
+  }
+  if (process.env.LDAP_URL) merged.ldap.url = process.env.LDAP_URL.trim();
+  if (process.env.LDAP_BIND_DN) merged.ldap.bindDn = process.env.LDAP_BIND_DN.trim();
+  if (process.env.LDAP_BIND_PASSWORD) merged.ldap.bindPassword = process.env.LDAP_BIND_PASSWORD;
+  if (process.env.LDAP_USER_SEARCH_BASE) {
+    merged.ldap.userSearchBase = process.env.LDAP_USER_SEARCH_BASE.trim();
+  }
+  if (process.env.WEBAUTHN_RP_ID) merged.twoFactor.webauthnRpId = process.env.WEBAUTHN_RP_ID.trim();
+  if (process.env.LINK_PREVIEWS_ENABLED) {
+    merged.linkPreviews.enabled = process.env.LINK_PREVIEWS_ENABLED.toLowerCase() === "true";
+  }
   if (process.env.REGISTRATION_MIN_PASSWORD_LENGTH) {
     merged.registration.minPasswordLength = parseInt(
       process.env.REGISTRATION_MIN_PASSWORD_LENGTH,
@@ -366,6 +652,12 @@ export function loadConfig(): ServerConfig {
   }
 
   merged.cors = sanitizeCorsConfig(merged.cors);
+  merged.oidc = sanitizeOidcConfig(merged.oidc);
+  merged.ldap = sanitizeLdapConfig(merged.ldap);
+  merged.twoFactor = sanitizeTwoFactorConfig(merged.twoFactor);
+  merged.linkPreviews = sanitizeLinkPreviewConfig(merged.linkPreviews);
+  merged.publicUrl =
+    typeof merged.publicUrl === "string" ? merged.publicUrl.trim().replace(/\/+$/, "") : "";
   if (
     !Number.isInteger(merged.registration.minPasswordLength) ||
     merged.registration.minPasswordLength < 6
@@ -400,6 +692,13 @@ export function loadConfig(): ServerConfig {
   ) {
     merged.loginLockoutMinutes = 15;
   }
+  if (
+    !Number.isInteger(merged.accessTokenMinutes) ||
+    merged.accessTokenMinutes < 1 ||
+    merged.accessTokenMinutes > 1440
+  ) {
+    merged.accessTokenMinutes = 15;
+  }
   if (!path.isAbsolute(merged.dbPath)) {
     merged.dbPath = path.resolve(dataDir, merged.dbPath);
   }
@@ -510,6 +809,20 @@ export function getRedactedConfig(): ServerConfig {
       rating: cfg.giphy.rating,
       maxResults: cfg.giphy.maxResults,
     },
+    push: {
+      enabled: cfg.push.enabled,
+      vapidPublicKey: cfg.push.vapidPublicKey,
+      vapidPrivateKey: cfg.push.vapidPrivateKey ? REDACTED : "",
+      subject: cfg.push.subject,
+    },
+    oidc: {
+      ...cfg.oidc,
+      clientSecret: cfg.oidc.clientSecret ? REDACTED : "",
+    },
+    ldap: {
+      ...cfg.ldap,
+      bindPassword: cfg.ldap.bindPassword ? REDACTED : "",
+    },
   };
 }
 
@@ -561,8 +874,27 @@ export function updateConfig(
     if (giphy.apiKey === REDACTED) delete giphy.apiKey;
     if (Object.keys(giphy).length === 0) delete partial.giphy;
   }
+  if (partial.push) {
+    const push = partial.push as Partial<PushConfig>;
+    if (push.vapidPrivateKey === REDACTED) delete push.vapidPrivateKey;
+    if (Object.keys(push).length === 0) delete partial.push;
+  }
+  if (partial.oidc) {
+    const oidc = partial.oidc as Partial<OidcConfig>;
+    if (oidc.clientSecret === REDACTED) delete oidc.clientSecret;
+    if (Object.keys(oidc).length === 0) delete partial.oidc;
+  }
+  if (partial.ldap) {
+    const ldap = partial.ldap as Partial<LdapConfig>;
+    if (ldap.bindPassword === REDACTED) delete ldap.bindPassword;
+    if (Object.keys(ldap).length === 0) delete partial.ldap;
+  }
 
   const updated: ServerConfig = deepMerge(config, partial);
+  updated.oidc = sanitizeOidcConfig(updated.oidc);
+  updated.ldap = sanitizeLdapConfig(updated.ldap);
+  updated.twoFactor = sanitizeTwoFactorConfig(updated.twoFactor);
+  updated.linkPreviews = sanitizeLinkPreviewConfig(updated.linkPreviews);
   if (livekitCredentialsSubmitted) {
     requiresLivekitRestart =
       updated.livekit.apiKey !== config.livekit.apiKey ||
@@ -47,6 +47,15 @@ function ensureRoleCapabilityColumns(database: Database.Database) {
   if (!names.has("can_start_voice")) {
     database.exec("ALTER TABLE roles ADD COLUMN can_start_voice INTEGER NOT NULL DEFAULT 1;");
   }
+  if (!names.has("can_mention_everyone")) {
+    database.exec("ALTER TABLE roles ADD COLUMN can_mention_everyone INTEGER NOT NULL DEFAULT 0;");
+  }
+  if (!names.has("can_bypass_slow_mode")) {
+    database.exec("ALTER TABLE roles ADD COLUMN can_bypass_slow_mode INTEGER NOT NULL DEFAULT 0;");
+  }
+  if (!names.has("can_manage_emojis")) {
+    database.exec("ALTER TABLE roles ADD COLUMN can_manage_emojis INTEGER NOT NULL DEFAULT 0;");
+  }
 }
 
 function ensureModerationTables(database: Database.Database) {
@@ -104,6 +113,248 @@ function ensureMessageReplyColumn(database: Database.Database) {
   );
 }
 
+function ensureMessageEditColumns(database: Database.Database) {
+  const cols = database
+    .prepare("PRAGMA table_info(messages)")
+    .all() as Array<{ name: string }>;
+  if (!cols.length) return;
+  const names = new Set(cols.map((col) => col.name));
+  if (!names.has("edited_at")) {
+    database.exec("ALTER TABLE messages ADD COLUMN edited_at TEXT;");
+  }
+}
+
+function ensureMessageThreadColumns(database: Database.Database) {
+  const cols = database
+    .prepare("PRAGMA table_info(messages)")
+    .all() as Array<{ name: string }>;
+  if (!cols.length) return;
+  const names = new Set(cols.map((col) => col.name));
+  if (!names.has("thread_parent_id")) {
+    database.exec(
+      "ALTER TABLE messages ADD COLUMN thread_parent_id TEXT REFERENCES messages(id) ON DELETE CASCADE;"
+    );
+  }
+  if (!names.has("thread_reply_count")) {
+    database.exec(
+      "ALTER TABLE messages ADD COLUMN thread_reply_count INTEGER NOT NULL DEFAULT 0;"
+    );
+  }
+  if (!names.has("thread_last_activity_at")) {
+    database.exec("ALTER TABLE messages ADD COLUMN thread_last_activity_at TEXT;");
+  }
+  database.exec(
+    "CREATE INDEX IF NOT EXISTS idx_messages_thread_parent_id ON messages(thread_parent_id, created_at);"
+  );
+}
+
+function ensureMessageWebhookColumns(database: Database.Database) {
+  const cols = database
+    .prepare("PRAGMA table_info(messages)")
+    .all() as Array<{ name: string }>;
+  if (!cols.length) return;
+  const names = new Set(cols.map((col) => col.name));
+  // webhook_id is deliberately not a foreign key: messages stay flagged as
+  // webhook-authored after the webhook itself is deleted.
+  if (!names.has("webhook_id")) {
+    database.exec("ALTER TABLE messages ADD COLUMN webhook_id TEXT;");
+  }
+  if (!names.has("webhook_username")) {
+    database.exec("ALTER TABLE messages ADD COLUMN webhook_username TEXT;");
+  }
+  if (!names.has("webhook_avatar_url")) {
+    database.exec("ALTER TABLE messages ADD COLUMN webhook_avatar_url TEXT;");
+  }
+}
+
+function ensureMessageForwardColumns(database: Database.Database) {
+  const cols = database
+    .prepare("PRAGMA table_info(messages)")
+    .all() as Array<{ name: string }>;
+  if (!cols.length) return;
+  const names = new Set(cols.map((col) => col.name));
+  // The author, room and time are copied from the source so the attribution
+  // survives the original message being deleted.
+  if (!names.has("forwarded_from_message_id")) {
+    database.exec(
+      "ALTER TABLE messages ADD COLUMN forwarded_from_message_id TEXT REFERENCES messages(id) ON DELETE SET NULL;"
+    );
+  }
+  if (!names.has("forwarded_from_user_id")) {
+    database.exec(
+      "ALTER TABLE messages ADD COLUMN forwarded_from_user_id TEXT REFERENCES users(id) ON DELETE SET NULL;"
+    );
+  }
+  if (!names.has("forwarded_from_room_id")) {
+    database.exec(
+      "ALTER TABLE messages ADD COLUMN forwarded_from_room_id TEXT REFERENCES rooms(id) ON DELETE SET NULL;"
+    );
+  }
+  if (!names.has("forwarded_from_created_at")) {
+    database.exec("ALTER TABLE messages ADD COLUMN forwarded_from_created_at TEXT;");
+  }
+  database.exec(
+    "CREATE INDEX IF NOT EXISTS idx_messages_forwarded_from_message_id ON messages(forwarded_from_message_id);"
+  );
+}
+
+function ensureIncomingWebhookTable(database: Database.Database) {
+  database.exec(`
+    CREATE TABLE IF NOT EXISTS incoming_webhooks (
+      id TEXT PRIMARY KEY,
+      room_id TEXT NOT NULL REFERENCES rooms(id) ON DELETE CASCADE,
+      name TEXT NOT NULL,
+      token_hash TEXT NOT NULL,
+      created_by_user_id TEXT REFERENCES users(id) ON DELETE SET NULL,
+      created_at TEXT DEFAULT (datetime('now')),
+      token_rotated_at TEXT,
+      last_used_at TEXT
+    );
+    CREATE INDEX IF NOT EXISTS idx_incoming_webhooks_room_id ON incoming_webhooks(room_id);
+  `);
+}
+
+function ensureOutgoingWebhookTables(database: Database.Database) {
+  database.exec(`
+    CREATE TABLE IF NOT EXISTS outgoing_webhooks (
+      id TEXT PRIMARY KEY,
+      url TEXT NOT NULL,
+      description TEXT,
+      events TEXT NOT NULL DEFAULT '[]',
+      secret TEXT NOT NULL,
+      enabled INTEGER NOT NULL DEFAULT 1,
+      created_by_user_id TEXT REFERENCES users(id) ON DELETE SET NULL,
+      created_at TEXT DEFAULT (datetime('now')),
+      updated_at TEXT DEFAULT (datetime('now'))
+    );
+    
+    CREATE TABLE IF NOT EXISTS outgoing_webhook_deliveries (
+      id TEXT PRIMARY KEY,
+      webhook_id TEXT NOT NULL REFERENCES outgoing_webhooks(id) ON DELETE CASCADE,
+      event TEXT NOT NULL,
+      payload TEXT NOT NULL,
+      status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'succeeded', 'failed')),
+      attempts INTEGER NOT NULL DEFAULT 0,
+      next_attempt_at TEXT NOT NULL,
+      last_attempt_at TEXT,
+      response_status INTEGER,
+      last_error TEXT,
+      created_at TEXT NOT NULL,
+      delivered_at TEXT
+    );
+    CREATE INDEX IF NOT EXISTS idx_outgoing_webhook_deliveries_status ON outgoing_webhook_deliveries(status, next_attempt_at);
+    CREATE INDEX IF NOT EXISTS idx_outgoing_webhook_deliveries_webhook_id ON outgoing_webhook_deliveries(webhook_id, created_at);
+  `);
+}
+
+function ensureMessageRevisionTable(database: Database.Database) {
+  database.exec(`
+    CREATE TABLE IF NOT EXISTS message_revisions (
+      id TEXT PRIMARY KEY,
+      message_id TEXT NOT NULL REFERENCES messages(id) ON DELETE CASCADE,
+      content TEXT NOT NULL,
+      edited_by_user_id TEXT REFERENCES users(id) ON DELETE SET NULL,
+      created_at TEXT DEFAULT (datetime('now'))
+    );
+    CREATE INDEX IF NOT EXISTS idx_message_revisions_message_id ON message_revisions(message_id);
+  `);
+}
+
+function ensureMessageSearchIndex(database: Database.Database) {
+  const existing = database
+    .prepare("SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'messages_fts'")
+    .get();
+  // The FTS row shares the message rowid so triggers can address it directly;
+  // message_id is kept alongside for joins.
+  database.exec(`
+    CREATE VIRTUAL TABLE IF NOT EXISTS messages_fts USING fts5(
+      content,
+      message_id UNINDEXED,
+      tokenize = 'unicode61 remove_diacritics 2'
+    );
+    CREATE TRIGGER IF NOT EXISTS messages_fts_after_insert AFTER INSERT ON messages BEGIN
+      INSERT INTO messages_fts (rowid, content, message_id) VALUES (new.rowid, new.content, new.id);
+    END;
+    CREATE TRIGGER IF NOT EXISTS messages_fts_after_delete AFTER DELETE ON messages BEGIN
+      DELETE FROM messages_fts WHERE rowid = old.rowid;
+    END;
+    CREATE TRIGGER IF NOT EXISTS messages_fts_after_update AFTER UPDATE OF content ON messages BEGIN
+      UPDATE messages_fts SET content = new.content WHERE rowid = old.rowid;
+    END;
+  `);
+  if (!existing) {
+    database.exec(
+      "INSERT INTO messages_fts (rowid, content, message_id) SELECT rowid, content, id FROM messages;"
+    );
+  }
+}
+
+function ensureRoomReadStateTable(database: Database.Database) {
+  database.exec(`
+    CREATE TABLE IF NOT EXISTS room_read_state (
+      user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      room_id TEXT NOT NULL REFERENCES rooms(id) ON DELETE CASCADE,
+      last_read_message_id TEXT REFERENCES messages(id) ON DELETE SET NULL,
+      last_read_at TEXT NOT NULL,
+      updated_at TEXT DEFAULT (datetime('now')),
+      PRIMARY KEY (user_id, room_id)
+    );
+    CREATE INDEX IF NOT EXISTS idx_room_read_state_room_id ON room_read_state(room_id);
+    CREATE INDEX IF NOT EXISTS idx_messages_room_id_created_at ON messages(room_id, created_at);
+  `);
+}
+
+function ensureMessageMentionTable(database: Database.Database) {
+  database.exec(`
+    CREATE TABLE IF NOT EXISTS message_mentions (
+      message_id TEXT NOT NULL REFERENCES messages(id) ON DELETE CASCADE,
+      user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      room_id TEXT NOT NULL REFERENCES rooms(id) ON DELETE CASCADE,
+      mention_type TEXT NOT NULL CHECK (mention_type IN ('user', 'role', 'everyone')),
+      created_at TEXT NOT NULL,
+      PRIMARY KEY (message_id, user_id)
+    );
+    CREATE INDEX IF NOT EXISTS idx_message_mentions_user_id ON message_mentions(user_id, created_at);
+  `);
+}
+
+function ensurePushSubscriptionTable(database: Database.Database) {
+  database.exec(`
+    CREATE TABLE IF NOT EXISTS push_subscriptions (
+      id TEXT PRIMARY KEY,
+      user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      endpoint TEXT UNIQUE NOT NULL,
+      p256dh TEXT NOT NULL,
+      auth TEXT NOT NULL,
+      user_agent TEXT,
+      created_at TEXT DEFAULT (datetime('now')),
+      last_success_at TEXT
+    );
+    CREATE INDEX IF NOT EXISTS idx_push_subscriptions_user_id ON push_subscriptions(user_id);
+  `);
+}
+
+function ensureScheduledMessageTable(database: Database.Database) {
+  database.exec(`
+    CREATE TABLE IF NOT EXISTS scheduled_messages (
+      id TEXT PRIMARY KEY,
+      user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      kind TEXT NOT NULL CHECK (kind IN ('message', 'reminder')),
+      room_id TEXT NOT NULL REFERENCES rooms(id) ON DELETE CASCADE,
+      target_message_id TEXT REFERENCES messages(id) ON DELETE CASCADE,
+      content TEXT NOT NULL DEFAULT '',
+      send_at TEXT NOT NULL,
+      status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sent', 'failed', 'cancelled')),
+      failure_reason TEXT,
+      sent_message_id TEXT REFERENCES messages(id) ON DELETE SET NULL,
+      created_at TEXT DEFAULT (datetime('now')),
+      updated_at TEXT DEFAULT (datetime('now'))
+    );
+    CREATE INDEX IF NOT EXISTS idx_scheduled_messages_status_send_at ON scheduled_messages(status, send_at);
+    CREATE INDEX IF NOT EXISTS idx_scheduled_messages_user_id ON scheduled_messages(user_id, status);
+  `);
+}
+
 function ensureUserVoicePreferenceColumns(database: Database.Database) {
   const cols = database
     .prepare("PRAGMA table_info(users)")
@@ -183,6 +434,42 @@ function ensureRoomRetentionColumns(database: Database.Database) {
   }
 }
 
+function ensureRoomSlowModeColumn(database: Database.Database) {
+  const cols = database
+    .prepare("PRAGMA table_info(rooms)")
+    .all() as Array<{ name: string }>;
+  if (!cols.length) return;
+  if (!cols.some((col) => col.name === "slow_mode_seconds")) {
+    database.exec("ALTER TABLE rooms ADD COLUMN slow_mode_seconds INTEGER NOT NULL DEFAULT 0;");
+  }
+}
+
+function ensureRoomTopicColumn(database: Database.Database) {
+  const cols = database
+    .prepare("PRAGMA table_info(rooms)")
+    .all() as Array<{ name: string }>;
+  if (!cols.length) return;
+  if (!cols.some((col) => col.name === "topic")) {
+    database.exec("ALTER TABLE rooms ADD COLUMN topic TEXT;");
+  }
+}
+
+function ensureSlashCommandTable(database: Database.Database) {
+  database.exec(`
+    CREATE TABLE IF NOT EXISTS slash_commands (
+      id TEXT PRIMARY KEY,
+      bot_user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      name TEXT UNIQUE NOT NULL,
+      description TEXT NOT NULL DEFAULT '',
+      options TEXT NOT NULL DEFAULT '[]',
+      permission_key TEXT,
+      created_at TEXT DEFAULT (datetime('now')),
+      updated_at TEXT DEFAULT (datetime('now'))
+    );
+    CREATE INDEX IF NOT EXISTS idx_slash_commands_bot_user_id ON slash_commands(bot_user_id);
+  `);
+}
+
 function ensurePasswordResetTable(database: Database.Database) {
   database.exec(`
     CREATE TABLE IF NOT EXISTS password_resets (
@@ -200,6 +487,249 @@ function ensurePasswordResetTable(database: Database.Database) {
   `);
 }
 
+function ensureEmailDigestSchema(database: Database.Database) {
+  const cols = database
+    .prepare("PRAGMA table_info(users)")
+    .all() as Array<{ name: string }>;
+  if (!cols.length) return;
+  const names = new Set(cols.map((col) => col.name));
+  if (!names.has("email_digest_frequency")) {
+    database.exec(
+      "ALTER TABLE users ADD COLUMN email_digest_frequency TEXT NOT NULL DEFAULT 'off' CHECK (email_digest_frequency IN ('off', 'hourly', 'daily'));"
+    );
+  }
+  if (!names.has("email_digest_last_sent_at")) {
+    database.exec("ALTER TABLE users ADD COLUMN email_digest_last_sent_at TEXT;");
+  }
+  database.exec(`
+    CREATE TABLE IF NOT EXISTS email_unsubscribe_tokens (
+      id TEXT PRIMARY KEY,
+      user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      token_hash TEXT NOT NULL UNIQUE,
+      expires_at TEXT NOT NULL,
+      created_at TEXT DEFAULT (datetime('now'))
+    );
+    CREATE INDEX IF NOT EXISTS idx_email_unsubscribe_tokens_expires_at ON email_unsubscribe_tokens(expires_at);
+  `);
+}
+
+function ensureBotSchema(database: Database.Database) {
+  const cols = database
+    .prepare("PRAGMA table_info(users)")
+    .all() as Array<{ name: string }>;
+  if (!cols.length) return;
+  if (!cols.some((col) => col.name === "is_bot")) {
+    database.exec("ALTER TABLE users ADD COLUMN is_bot INTEGER NOT NULL DEFAULT 0;");
+  }
+  database.exec(`
+    CREATE TABLE IF NOT EXISTS bot_tokens (
+      id TEXT PRIMARY KEY,
+      bot_user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      name TEXT NOT NULL,
+      token_hash TEXT NOT NULL UNIQUE,
+      token_prefix TEXT NOT NULL,
+      created_by_user_id TEXT REFERENCES users(id) ON DELETE SET NULL,
+      created_at TEXT DEFAULT (datetime('now')),
+      last_used_at TEXT,
+      revoked_at TEXT
+    );
+    CREATE INDEX IF NOT EXISTS idx_bot_tokens_bot_user_id ON bot_tokens(bot_user_id);
+  `);
+}
+
+function ensureUserSessionTable(database: Database.Database) {
+  database.exec(`
+    CREATE TABLE IF NOT EXISTS user_sessions (
+      id TEXT PRIMARY KEY,
+      user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      device_name TEXT,
+      ip_address TEXT,
+      user_agent TEXT,
+      created_at TEXT DEFAULT (datetime('now')),
+      last_seen_at TEXT DEFAULT (datetime('now')),
+      expires_at TEXT NOT NULL,
+      revoked_at TEXT
+    );
+    CREATE INDEX IF NOT EXISTS idx_user_sessions_user_id ON user_sessions(user_id);
+
+    CREATE TABLE IF NOT EXISTS session_refresh_tokens (
+      id TEXT PRIMARY KEY,
+      session_id TEXT NOT NULL REFERENCES user_sessions(id) ON DELETE CASCADE,
+      token_hash TEXT NOT NULL UNIQUE,
+      created_at TEXT DEFAULT (datetime('now')),
+      used_at TEXT
+    );
+    CREATE INDEX IF NOT EXISTS idx_session_refresh_tokens_session_id ON session_refresh_tokens(session_id);
+  `);
+}
+
+function ensurePersonalAccessTokenTable(database: Database.Database) {
+  database.exec(`
+    CREATE TABLE IF NOT EXISTS personal_access_tokens (
+      id TEXT PRIMARY KEY,
+      user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      name TEXT NOT NULL,
+      token_hash TEXT NOT NULL UNIQUE,
+      token_prefix TEXT NOT NULL,
+      scopes TEXT NOT NULL DEFAULT '[]',
+      expires_at TEXT,
+      created_at TEXT DEFAULT (datetime('now')),
+      last_used_at TEXT,
+      revoked_at TEXT
+    );
+    CREATE INDEX IF NOT EXISTS idx_personal_access_tokens_user_id ON personal_access_tokens(user_id);
+  `);
+}
+
+function ensureOidcIdentityTable(database: Database.Database) {
+  database.exec(`
+    CREATE TABLE IF NOT EXISTS oidc_identities (
+      id TEXT PRIMARY KEY,
+      user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      issuer TEXT NOT NULL,
+      subject TEXT NOT NULL,
+      email TEXT,
+      created_at TEXT DEFAULT (datetime('now')),
+      last_login_at TEXT,
+      UNIQUE (issuer, subject)
+    );
+    CREATE INDEX IF NOT EXISTS idx_oidc_identities_user_id ON oidc_identities(user_id);
+  `);
+}
+
+function ensureWebAuthnCredentialTable(database: Database.Database) {
+  database.exec(`
+    CREATE TABLE IF NOT EXISTS webauthn_credentials (
+      id TEXT PRIMARY KEY,
+      user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      public_key BLOB NOT NULL,
+      counter INTEGER NOT NULL DEFAULT 0,
+      transports TEXT NOT NULL DEFAULT '[]',
+      nickname TEXT NOT NULL,
+      device_type TEXT NOT NULL DEFAULT 'singleDevice',
+      backed_up INTEGER NOT NULL DEFAULT 0,
+      created_at TEXT DEFAULT (datetime('now')),
+      last_used_at TEXT
+    );
+    CREATE INDEX IF NOT EXISTS idx_webauthn_credentials_user_id ON webauthn_credentials(user_id);
+  `);
+}
+
+function ensureUserDirectoryColumns(database: Database.Database) {
+  const cols = database
+    .prepare("PRAGMA table_info(users)")
+    .all() as Array<{ name: string }>;
+  if (!cols.length) return;
+  const names = new Set(cols.map((col) => col.name));
+  if (!names.has("auth_provider")) {
+    database.exec(
+      "ALTER TABLE users ADD COLUMN auth_provider TEXT NOT NULL DEFAULT 'local' CHECK (auth_provider IN ('local', 'ldap'));"
+    );
+  }
+  if (!names.has("ldap_dn")) {
+    database.exec("ALTER TABLE users ADD COLUMN ldap_dn TEXT;");
+  }
+  if (!names.has("deactivated_at")) {
+    database.exec("ALTER TABLE users ADD COLUMN deactivated_at TEXT;");
+  }
+  database.exec("CREATE INDEX IF NOT EXISTS idx_users_ldap_dn ON users(ldap_dn);");
+}
+
+function ensurePollTables(database: Database.Database) {
+  database.exec(`
+    CREATE TABLE IF NOT EXISTS polls (
+      id TEXT PRIMARY KEY,
+      message_id TEXT NOT NULL UNIQUE REFERENCES messages(id) ON DELETE CASCADE,
+      question TEXT NOT NULL,
+      allow_multiple INTEGER NOT NULL DEFAULT 0,
+      anonymous INTEGER NOT NULL DEFAULT 0,
+      closes_at TEXT,
+      closed_at TEXT,
+      closed_by_user_id TEXT REFERENCES users(id) ON DELETE SET NULL,
+      created_at TEXT DEFAULT (datetime('now'))
+    );
+
+    CREATE TABLE IF NOT EXISTS poll_options (
+      id TEXT PRIMARY KEY,
+      poll_id TEXT NOT NULL REFERENCES polls(id) ON DELETE CASCADE,
+      position INTEGER NOT NULL,
+      label TEXT NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS poll_votes (
+      poll_id TEXT NOT NULL REFERENCES polls(id) ON DELETE CASCADE,
+      option_id TEXT NOT NULL REFERENCES poll_options(id) ON DELETE CASCADE,
+      user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      created_at TEXT DEFAULT (datetime('now')),
+      PRIMARY KEY (option_id, user_id)
+    );
+    CREATE INDEX IF NOT EXISTS idx_poll_options_poll_id ON poll_options(poll_id);
+    CREATE INDEX IF NOT EXISTS idx_poll_votes_poll_user ON poll_votes(poll_id, user_id);
+    CREATE INDEX IF NOT EXISTS idx_polls_closes_at ON polls(closes_at) WHERE closed_at IS NULL;
+  `);
+}
+
+function ensureMessageBookmarkTable(database: Database.Database) {
+  database.exec(`
+    CREATE TABLE IF NOT EXISTS message_bookmarks (
+      user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      message_id TEXT NOT NULL REFERENCES messages(id) ON DELETE CASCADE,
+      note TEXT,
+      folder TEXT,
+      created_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL,
+      PRIMARY KEY (user_id, message_id)
+    );
+    CREATE INDEX IF NOT EXISTS idx_message_bookmarks_user_created ON message_bookmarks(user_id, created_at);
+    CREATE INDEX IF NOT EXISTS idx_message_bookmarks_message_id ON message_bookmarks(message_id);
+  `);
+}
+
+function ensureCustomEmojiTable(database: Database.Database) {
+  database.exec(`
+    CREATE TABLE IF NOT EXISTS custom_emojis (
+      id TEXT PRIMARY KEY,
+      shortcode TEXT NOT NULL UNIQUE,
+      kind TEXT NOT NULL DEFAULT 'emoji',
+      attachment_id TEXT NOT NULL REFERENCES attachments(id) ON DELETE CASCADE,
+      created_by_user_id TEXT REFERENCES users(id) ON DELETE SET NULL,
+      created_at TEXT DEFAULT (datetime('now'))
+    );
+    CREATE INDEX IF NOT EXISTS idx_custom_emojis_attachment_id ON custom_emojis(attachment_id);
+  `);
+}
+
+// Previews are cached per URL; each message keeps its own copy so old
+// messages still show their embeds after the cache entry expires.
+function ensureLinkPreviewTables(database: Database.Database) {
+  database.exec(`
+    CREATE TABLE IF NOT EXISTS link_previews (
+      url TEXT PRIMARY KEY,
+      status TEXT NOT NULL,
+      title TEXT,
+      description TEXT,
+      site_name TEXT,
+      image_url TEXT,
+      type TEXT,
+      fetched_at TEXT NOT NULL,
+      expires_at TEXT NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS message_embeds (
+      message_id TEXT NOT NULL REFERENCES messages(id) ON DELETE CASCADE,
+      position INTEGER NOT NULL,
+      url TEXT NOT NULL,
+      title TEXT,
+      description TEXT,
+      site_name TEXT,
+      image_url TEXT,
+      type TEXT,
+      PRIMARY KEY (message_id, position)
+    );
+    CREATE INDEX IF NOT EXISTS idx_link_previews_expires_at ON link_previews(expires_at);
+  `);
+}
+
 function ensureAuditLogTable(database: Database.Database) {
   database.exec(`
     CREATE TABLE IF NOT EXISTS audit_logs (
@@ -282,9 +812,35 @@ export function getDb(): Database.Database {
   ensureRoleCapabilityColumns(db);
   ensureModerationTables(db);
   ensureMessageReplyColumn(db);
+  ensureMessageEditColumns(db);
+  ensureMessageThreadColumns(db);
+  ensureMessageWebhookColumns(db);
+  ensureMessageForwardColumns(db);
+  ensureMessageSearchIndex(db);
+  ensureRoomReadStateTable(db);
+  ensureMessageMentionTable(db);
+  ensurePushSubscriptionTable(db);
+  ensureScheduledMessageTable(db);
+  ensureIncomingWebhookTable(db);
+  ensureOutgoingWebhookTables(db);
+  ensureMessageRevisionTable(db);
   ensureRoomRetentionColumns(db);
+  ensureRoomSlowModeColumn(db);
+  ensureRoomTopicColumn(db);
   ensureUserVoicePreferenceColumns(db);
   ensurePasswordResetTable(db);
+  ensureEmailDigestSchema(db);
+  ensureBotSchema(db);
+  ensureSlashCommandTable(db);
+  ensureUserSessionTable(db);
+  ensurePersonalAccessTokenTable(db);
+  ensureOidcIdentityTable(db);
+  ensureUserDirectoryColumns(db);
+  ensureWebAuthnCredentialTable(db);
+  ensurePollTables(db);
+  ensureMessageBookmarkTable(db);
+  ensureCustomEmojiTable(db);
+  ensureLinkPreviewTables(db);
   ensureAuditLogTable(db);
   ensureRemoteControlSettingsTable(db);
   db.exec(getSeedSQL());
@@ -8,6 +8,8 @@ CREATE TABLE IF NOT EXISTS users (
   about TEXT,
   desktop_notifications_enabled INTEGER NOT NULL DEFAULT 0,
   desktop_notifications_mentions_only INTEGER NOT NULL DEFAULT 1,
+  email_digest_frequency TEXT NOT NULL DEFAULT 'off' CHECK (email_digest_frequency IN ('off', 'hourly', 'daily')),
+  email_digest_last_sent_at TEXT,
   push_to_talk_enabled INTEGER DEFAULT 0,
   push_to_mute_enabled INTEGER DEFAULT 0,
   push_to_talk_key TEXT DEFAULT 'Space',
@@ -25,6 +27,10 @@ CREATE TABLE IF NOT EXISTS users (
   activity_game TEXT,
   last_client_version TEXT,
   is_setup_account INTEGER NOT NULL DEFAULT 0,
+  is_bot INTEGER NOT NULL DEFAULT 0,
+  auth_provider TEXT NOT NULL DEFAULT 'local' CHECK (auth_provider IN ('local', 'ldap')),
+  ldap_dn TEXT,
+  deactivated_at TEXT,
   status TEXT DEFAULT 'offline' CHECK (status IN ('online', 'offline', 'away', 'dnd')),
   created_at TEXT DEFAULT (datetime('now')),
   updated_at TEXT DEFAULT (datetime('now'))
@@ -41,7 +47,9 @@ CREATE TABLE IF NOT EXISTS rooms (
   is_temporary INTEGER NOT NULL DEFAULT 0,
   owner_user_id TEXT REFERENCES users(id) ON DELETE SET NULL,
   message_retention_mode TEXT NOT NULL DEFAULT 'inherit' CHECK (message_retention_mode IN ('inherit', 'never', 'days')),
-  message_retention_days INTEGER
+  message_retention_days INTEGER,
+  slow_mode_seconds INTEGER NOT NULL DEFAULT 0,
+  topic TEXT
 );
 
 CREATE TABLE IF NOT EXISTS room_categories (
@@ -65,6 +73,25 @@ CREATE TABLE IF NOT EXISTS messages (
   user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
   reply_to_message_id TEXT REFERENCES messages(id) ON DELETE SET NULL,
   content TEXT NOT NULL,
+  created_at TEXT DEFAULT (datetime('now')),
+  edited_at TEXT,
+  thread_parent_id TEXT REFERENCES messages(id) ON DELETE CASCADE,
+  thread_reply_count INTEGER NOT NULL DEFAULT 0,
+  thread_last_activity_at TEXT,
+  webhook_id TEXT,
+  webhook_username TEXT,
+  webhook_avatar_url TEXT,
+  forwarded_from_message_id TEXT REFERENCES messages(id) ON DELETE SET NULL,
+  forwarded_from_user_id TEXT REFERENCES users(id) ON DELETE SET NULL,
+  forwarded_from_room_id TEXT REFERENCES rooms(id) ON DELETE SET NULL,
+  forwarded_from_created_at TEXT
+);
+
+CREATE TABLE IF NOT EXISTS message_revisions (
+  id TEXT PRIMARY KEY,
+  message_id TEXT NOT NULL REFERENCES messages(id) ON DELETE CASCADE,
+  content TEXT NOT NULL,
+  edited_by_user_id TEXT REFERENCES users(id) ON DELETE SET NULL,
   created_at TEXT DEFAULT (datetime('now'))
 );
 
@@ -109,6 +136,226 @@ CREATE TABLE IF NOT EXISTS user_room_notification_prefs (
   PRIMARY KEY (user_id, room_id)
 );
 
+CREATE TABLE IF NOT EXISTS room_read_state (
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  room_id TEXT NOT NULL REFERENCES rooms(id) ON DELETE CASCADE,
+  last_read_message_id TEXT REFERENCES messages(id) ON DELETE SET NULL,
+  last_read_at TEXT NOT NULL,
+  updated_at TEXT DEFAULT (datetime('now')),
+  PRIMARY KEY (user_id, room_id)
+);
+
+CREATE TABLE IF NOT EXISTS message_mentions (
+  message_id TEXT NOT NULL REFERENCES messages(id) ON DELETE CASCADE,
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  room_id TEXT NOT NULL REFERENCES rooms(id) ON DELETE CASCADE,
+  mention_type TEXT NOT NULL CHECK (mention_type IN ('user', 'role', 'everyone')),
+  created_at TEXT NOT NULL,
+  PRIMARY KEY (message_id, user_id)
+);
+
+CREATE TABLE IF NOT EXISTS push_subscriptions (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  endpoint TEXT UNIQUE NOT NULL,
+  p256dh TEXT NOT NULL,
+  auth TEXT NOT NULL,
+  user_agent TEXT,
+  created_at TEXT DEFAULT (datetime('now')),
+  last_success_at TEXT
+);
+
+CREATE TABLE IF NOT EXISTS scheduled_messages (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL CHECK (kind IN ('message', 'reminder')),
+  room_id TEXT NOT NULL REFERENCES rooms(id) ON DELETE CASCADE,
+  target_message_id TEXT REFERENCES messages(id) ON DELETE CASCADE,
+  content TEXT NOT NULL DEFAULT '',
+  send_at TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sent', 'failed', 'cancelled')),
+  failure_reason TEXT,
+  sent_message_id TEXT REFERENCES messages(id) ON DELETE SET NULL,
+  created_at TEXT DEFAULT (datetime('now')),
+  updated_at TEXT DEFAULT (datetime('now'))
+);
+
+CREATE TABLE IF NOT EXISTS incoming_webhooks (
+  id TEXT PRIMARY KEY,
+  room_id TEXT NOT NULL REFERENCES rooms(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  token_hash TEXT NOT NULL,
+  created_by_user_id TEXT REFERENCES users(id) ON DELETE SET NULL,
+  created_at TEXT DEFAULT (datetime('now')),
+  token_rotated_at TEXT,
+  last_used_at TEXT
+);
+
+CREATE TABLE IF NOT EXISTS outgoing_webhooks (
+  id TEXT PRIMARY KEY,
+  url TEXT NOT NULL,
+  description TEXT,
+  events TEXT NOT NULL DEFAULT '[]',
+  secret TEXT NOT NULL,
+  enabled INTEGER NOT NULL DEFAULT 1,
+  created_by_user_id TEXT REFERENCES users(id) ON DELETE SET NULL,
+  created_at TEXT DEFAULT (datetime('now')),
+  updated_at TEXT DEFAULT (datetime('now'))
+);
+
+CREATE TABLE IF NOT EXISTS outgoing_webhook_deliveries (
+  id TEXT PRIMARY KEY,
+  webhook_id TEXT NOT NULL REFERENCES outgoing_webhooks(id) ON DELETE CASCADE,
+  event TEXT NOT NULL,
+  payload TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'succeeded', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at TEXT NOT NULL,
+  last_attempt_at TEXT,
+  response_status INTEGER,
+  last_error TEXT,
+  created_at TEXT NOT NULL,
+  delivered_at TEXT
+);
+
+CREATE TABLE IF NOT EXISTS slash_commands (
+  id TEXT PRIMARY KEY,
+  bot_user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  name TEXT UNIQUE NOT NULL,
+  description TEXT NOT NULL DEFAULT '',
+  options TEXT NOT NULL DEFAULT '[]',
+  permission_key TEXT,
+  created_at TEXT DEFAULT (datetime('now')),
+  updated_at TEXT DEFAULT (datetime('now'))
+);
+
+CREATE TABLE IF NOT EXISTS user_sessions (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  device_name TEXT,
+  ip_address TEXT,
+  user_agent TEXT,
+  created_at TEXT DEFAULT (datetime('now')),
+  last_seen_at TEXT DEFAULT (datetime('now')),
+  expires_at TEXT NOT NULL,
+  revoked_at TEXT
+);
+
+CREATE TABLE IF NOT EXISTS session_refresh_tokens (
+  id TEXT PRIMARY KEY,
+  session_id TEXT NOT NULL REFERENCES user_sessions(id) ON DELETE CASCADE,
+  token_hash TEXT NOT NULL UNIQUE,
+  created_at TEXT DEFAULT (datetime('now')),
+  used_at TEXT
+);
+
+CREATE TABLE IF NOT EXISTS personal_access_tokens (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  token_hash TEXT NOT NULL UNIQUE,
+  token_prefix TEXT NOT NULL,
+  scopes TEXT NOT NULL DEFAULT '[]',
+  expires_at TEXT,
+  created_at TEXT DEFAULT (datetime('now')),
+  last_used_at TEXT,
+  revoked_at TEXT
+);
+
+CREATE TABLE IF NOT EXISTS oidc_identities (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  issuer TEXT NOT NULL,
+  subject TEXT NOT NULL,
+  email TEXT,
+  created_at TEXT DEFAULT (datetime('now')),
+  last_login_at TEXT,
+  UNIQUE (issuer, subject)
+);
+
+CREATE TABLE IF NOT EXISTS webauthn_credentials (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  public_key BLOB NOT NULL,
+  counter INTEGER NOT NULL DEFAULT 0,
+  transports TEXT NOT NULL DEFAULT '[]',
+  nickname TEXT NOT NULL,
+  device_type TEXT NOT NULL DEFAULT 'singleDevice',
+  backed_up INTEGER NOT NULL DEFAULT 0,
+  created_at TEXT DEFAULT (datetime('now')),
+  last_used_at TEXT
+);
+
+CREATE TABLE IF NOT EXISTS polls (
+  id TEXT PRIMARY KEY,
+  message_id TEXT NOT NULL UNIQUE REFERENCES messages(id) ON DELETE CASCADE,
+  question TEXT NOT NULL,
+  allow_multiple INTEGER NOT NULL DEFAULT 0,
+  anonymous INTEGER NOT NULL DEFAULT 0,
+  closes_at TEXT,
+  closed_at TEXT,
+  closed_by_user_id TEXT REFERENCES users(id) ON DELETE SET NULL,
+  created_at TEXT DEFAULT (datetime('now'))
+);
+
+CREATE TABLE IF NOT EXISTS poll_options (
+  id TEXT PRIMARY KEY,
+  poll_id TEXT NOT NULL REFERENCES polls(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL,
+  label TEXT NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS poll_votes (
+  poll_id TEXT NOT NULL REFERENCES polls(id) ON DELETE CASCADE,
+  option_id TEXT NOT NULL REFERENCES poll_options(id) ON DELETE CASCADE,
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  created_at TEXT DEFAULT (datetime('now')),
+  PRIMARY KEY (option_id, user_id)
+);
+
+CREATE TABLE IF NOT EXISTS message_bookmarks (
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  message_id TEXT NOT NULL REFERENCES messages(id) ON DELETE CASCADE,
+  note TEXT,
+  folder TEXT,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL,
+  PRIMARY KEY (user_id, message_id)
+);
+
+CREATE TABLE IF NOT EXISTS custom_emojis (
+  id TEXT PRIMARY KEY,
+  shortcode TEXT NOT NULL UNIQUE,
+  kind TEXT NOT NULL DEFAULT 'emoji',
+  attachment_id TEXT NOT NULL REFERENCES attachments(id) ON DELETE CASCADE,
+  created_by_user_id TEXT REFERENCES users(id) ON DELETE SET NULL,
+  created_at TEXT DEFAULT (datetime('now'))
+);
+
+CREATE TABLE IF NOT EXISTS link_previews (
+  url TEXT PRIMARY KEY,
+  status TEXT NOT NULL,
+  title TEXT,
+  description TEXT,
+  site_name TEXT,
+  image_url TEXT,
+  type TEXT,
+  fetched_at TEXT NOT NULL,
+  expires_at TEXT NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS message_embeds (
+  message_id TEXT NOT NULL REFERENCES messages(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL,
+  url TEXT NOT NULL,
+  title TEXT,
+  description TEXT,
+  site_name TEXT,
+  image_url TEXT,
+  type TEXT,
+  PRIMARY KEY (message_id, position)
+);
+
 CREATE TABLE IF NOT EXISTS invite_links (
   id TEXT PRIMARY KEY,
   code TEXT UNIQUE NOT NULL,
@@ -138,6 +385,9 @@ CREATE TABLE IF NOT EXISTS roles (
   can_upload_files INTEGER NOT NULL DEFAULT 1,
   can_use_emojis INTEGER NOT NULL DEFAULT 1,
   can_start_voice INTEGER NOT NULL DEFAULT 1,
+  can_mention_everyone INTEGER NOT NULL DEFAULT 0,
+  can_bypass_slow_mode INTEGER NOT NULL DEFAULT 0,
+  can_manage_emojis INTEGER NOT NULL DEFAULT 0,
   is_system INTEGER NOT NULL DEFAULT 0,
   created_at TEXT DEFAULT (datetime('now'))
 );
@@ -220,10 +470,24 @@ CREATE TABLE IF NOT EXISTS remote_control_settings (
 CREATE INDEX IF NOT EXISTS idx_messages_room_id ON messages(room_id);
 CREATE INDEX IF NOT EXISTS idx_messages_created_at ON messages(created_at);
 CREATE INDEX IF NOT EXISTS idx_message_reactions_message_id ON message_reactions(message_id);
+CREATE INDEX IF NOT EXISTS idx_message_revisions_message_id ON message_revisions(message_id);
 CREATE INDEX IF NOT EXISTS idx_attachments_uploaded_by ON attachments(uploaded_by);
 CREATE INDEX IF NOT EXISTS idx_friends_user_id ON friends(user_id);
 CREATE INDEX IF NOT EXISTS idx_friends_friend_id ON friends(friend_id);
 CREATE INDEX IF NOT EXISTS idx_user_room_notification_prefs_user_id ON user_room_notification_prefs(user_id);
+CREATE INDEX IF NOT EXISTS idx_room_read_state_room_id ON room_read_state(room_id);
+CREATE INDEX IF NOT EXISTS idx_message_mentions_user_id ON message_mentions(user_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_push_subscriptions_user_id ON push_subscriptions(user_id);
+CREATE INDEX IF NOT EXISTS idx_scheduled_messages_status_send_at ON scheduled_messages(status, send_at);
+CREATE INDEX IF NOT EXISTS idx_scheduled_messages_user_id ON scheduled_messages(user_id, status);
+CREATE INDEX IF NOT EXISTS idx_incoming_webhooks_room_id ON incoming_webhooks(room_id);
+CREATE INDEX IF NOT EXISTS idx_outgoing_webhook_deliveries_status ON outgoing_webhook_deliveries(status, next_attempt_at);
+CREATE INDEX IF NOT EXISTS idx_outgoing_webhook_deliveries_webhook_id ON outgoing_webhook_deliveries(webhook_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_slash_commands_bot_user_id ON slash_commands(bot_user_id);
+CREATE INDEX IF NOT EXISTS idx_personal_access_tokens_user_id ON personal_access_tokens(user_id);
+CREATE INDEX IF NOT EXISTS idx_user_sessions_user_id ON user_sessions(user_id);
+CREATE INDEX IF NOT EXISTS idx_session_refresh_tokens_session_id ON session_refresh_tokens(session_id);
+CREATE INDEX IF NOT EXISTS idx_oidc_identities_user_id ON oidc_identities(user_id);
 CREATE INDEX IF NOT EXISTS idx_room_categories_position ON room_categories(position);
 CREATE INDEX IF NOT EXISTS idx_invite_links_code ON invite_links(code);
 CREATE INDEX IF NOT EXISTS idx_user_roles_user_id ON user_roles(user_id);
@@ -7,7 +7,11 @@ import { createServer } from "http";
 import { Server } from "socket.io";
 import { getConfig, loadConfig } from "./config.js";
 import { getDb, closeDb } from "./db/database.js";
-import { setupSocketHandlers } from "./websocket/handler.js";
+import {
+  broadcastRoomStructure,
+  disconnectUserSockets,
+  setupSocketHandlers,
+} from "./websocket/handler.js";
 import { needsSetup, runSetup, parseSetupFlags } from "./cli/setup.js";
 import authRoutes from "./routes/auth.js";
 import roomsRoutes from "./routes/rooms.js";
@@ -16,7 +20,12 @@ import filesRoutes from "./routes/files.js";
 import gifsRoutes from "./routes/gifs.js";
 import serverInfoRoutes from "./routes/serverInfo.js";
 import adminRoutes from "./routes/admin.js";
+import webhooksRoutes from "./routes/webhooks.js";
+import commandsRoutes from "./routes/commands.js";
 import { runRetentionCleanup } from "./services/retention.js";
+import { runEmailDigests } from "./services/emailDigest.js";
+import { runOutgoingWebhookDeliveries } from "./services/outgoingWebhooks.js";
+import { runLdapSync } from "./services/ldap.js";
 import { recordAuditLog } from "./services/auditLog.js";
 import { bindSocketServer, trackApiUsage } from "./services/resourceMonitor.js";
 
@@ -147,7 +156,15 @@ async function main() {
       next();
     });
   }
-  app.use(express.json());
+  // Incoming webhooks parse their own, larger JSON bodies.
+  const jsonParser = express.json();
+  app.use((req, res, next) => {
+    if (req.path.startsWith("/api/webhooks/")) {
+      next();
+      return;
+    }
+    jsonParser(req, res, next);
+  });
 
   app.use("/api", (req, res, next) => {
     const startedAt = Date.now();
@@ -241,6 +258,8 @@ async function main() {
   app.use("/api/gifs", gifsRoutes);
   app.use("/api/server", serverInfoRoutes);
   app.use("/api/admin", adminRoutes);
+  app.use("/api/webhooks", webhooksRoutes);
+  app.use("/api/commands", commandsRoutes);
 
   // Standalone admin panel (served from server/admin/)
   // __dirname = server/dist/, so go up one level to reach server/admin/
@@ -287,6 +306,78 @@ async function main() {
   cleanup(); // run once on startup
   setInterval(cleanup, 3600000); // then hourly
 
+  // Opt-in email digests of missed DMs and mentions. Each user is only
+  // emailed once per their chosen period; the check itself runs often.
+  let digestRunning = false;
+  const sendDigests = async () => {
+    if (digestRunning) return;
+    digestRunning = true;
+    try {
+      const result = await runEmailDigests(db);
+      if (result.digestsSent > 0 || result.failures > 0) {
+        console.log(
+          `  Email digest: sent ${result.digestsSent}, failed ${result.failures} ` +
+            `(users due: ${result.usersEvaluated})`
+        );
+      }
+    } catch (err) {
+      console.error("Email digest run failed:", err);
+    } finally {
+      digestRunning = false;
+    }
+  };
+  setInterval(sendDigests, 600000); // every 10 minutes
+
+  // Outgoing webhook queue. Deliveries are persisted, so anything still
+  // pending from before a restart is picked up on the first run.
+  let webhookDeliveryRunning = false;
+  const deliverWebhooks = async () => {
+    if (webhookDeliveryRunning) return;
+    webhookDeliveryRunning = true;
+    try {
+      const result = await runOutgoingWebhookDeliveries(db);
+      if (result.failed > 0) {
+        console.log(
+          `  Outgoing webhooks: delivered ${result.delivered}, retrying ${result.retried}, ` +
+            `gave up on ${result.failed}`
+        );
+      }
+    } catch (err) {
+      console.error("Outgoing webhook run failed:", err);
+    } finally {
+      webhookDeliveryRunning = false;
+    }
+  };
+  deliverWebhooks();
+  setInterval(deliverWebhooks, 5000); // every 5 seconds
+
+  // LDAP directory sync. The job checks often but only talks to the
+  // directory once ldap.syncIntervalMinutes has passed since the last run.
+  let ldapSyncRunning = false;
+  const syncDirectory = async () => {
+    if (ldapSyncRunning) return;
+    ldapSyncRunning = true;
+    try {
+      const result = await runLdapSync(db);
+      if (!result) return;
+      for (const userId of result.deactivatedUserIds) {
+        disconnectUserSockets(io, userId, "Account deactivated");
+      }
+      if (result.rolesChanged) broadcastRoomStructure(io);
+      if (result.deactivatedUserIds.length > 0 || result.reactivated > 0) {
+        console.log(
+          `  LDAP sync: deactivated ${result.deactivatedUserIds.length}, ` +
+            `reactivated ${result.reactivated} (checked ${result.usersChecked})`
+        );
+      }
+    } catch (err) {
+      console.error("LDAP sync failed:", err);
+    } finally {
+      ldapSyncRunning = false;
+    }
+  };
+  setInterval(syncDirectory, 300000); // every 5 minutes
+
   // Start server
   httpServer.listen(config.port, () => {
     console.log(`\n  ${config.serverName}`);
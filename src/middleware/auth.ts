@@ -1,20 +1,69 @@
 import jwt from "jsonwebtoken";
 import type { Request, Response, NextFunction } from "express";
 import { getConfig } from "../config.js";
+import { getDb } from "../db/database.js";
+import { authenticateBotToken, isBotToken } from "../services/botAccounts.js";
+import {
+  authenticatePersonalAccessToken,
+  isPersonalAccessToken,
+  type PersonalAccessTokenScope,
+} from "../services/personalAccessTokens.js";
+import { createUserSession, issueRefreshToken, touchUserSession } from "../services/sessions.js";
 
 export interface JwtPayload {
   userId: string;
   username: string;
   email: string;
   isAdmin: boolean;
+  isBot?: boolean;
+  /** Only set for personal access tokens, which are limited to these scopes */
+  scopes?: PersonalAccessTokenScope[];
+  /** user_sessions row the JWT is bound to; revoking it invalidates the token */
+  sessionId?: string;
   purpose?: "auth" | "two_factor_challenge";
 }
 
+export type SessionTokens = {
+  /** Short-lived access token for REST and Socket.IO */
+  token: string;
+  refreshToken: string;
+  /** Seconds until the access token expires */
+  expiresIn: number;
+};
+
+/** Sign a short-lived access token; see accessTokenMinutes. */
 export function generateToken(payload: JwtPayload): string {
   const config = getConfig();
   return jwt.sign(payload, config.jwtSecret, {
-    expiresIn: `${config.jwtExpiryDays}d`,
+    expiresIn: `${config.accessTokenMinutes}m`,
+  });
+}
+
+/** How long a session survives without a refresh */
+export function getSessionLifetimeMs(): number {
+  return getConfig().jwtExpiryDays * 24 * 60 * 60_000;
+}
+
+/**
+ * Start a new session for a login and return an access token bound to it
+ * plus the session's first refresh token. The device name comes from the
+ * optional x-client-device header.
+ */
+export function issueSessionTokens(req: Request, payload: JwtPayload): SessionTokens {
+  const db = getDb();
+  const device = req.headers["x-client-device"];
+  const session = createUserSession(db, {
+    userId: payload.userId,
+    deviceName: typeof device === "string" ? device : null,
+    ipAddress: req.ip || req.socket.remoteAddress || null,
+    userAgent: typeof req.headers["user-agent"] === "string" ? req.headers["user-agent"] : null,
+    expiresAt: new Date(Date.now() + getSessionLifetimeMs()).toISOString(),
   });
+  return {
+    token: generateToken({ ...payload, sessionId: session.id }),
+    refreshToken: issueRefreshToken(db, session.id),
+    expiresIn: getConfig().accessTokenMinutes * 60,
+  };
 }
 
 export function generateTwoFactorChallengeToken(payload: JwtPayload): string {
@@ -31,24 +80,77 @@ export function verifyToken(token: string): JwtPayload {
   return jwt.verify(token, config.jwtSecret) as JwtPayload;
 }
 
-export function requireAuth(req: Request, res: Response, next: NextFunction) {
+/**
+ * Resolve a bearer token from REST or Socket.IO to its user. Bot API tokens
+ * and personal access tokens are checked against the database; anything
+ * else must be a signed JWT. Throws when the token is invalid.
+ */
+export function authenticateToken(token: string): JwtPayload {
+  if (isBotToken(token)) {
+    const bot = authenticateBotToken(getDb(), token);
+    if (!bot) throw new Error("Invalid bot token");
+    return { ...bot, isAdmin: false, isBot: true, purpose: "auth" };
+  }
+  if (isPersonalAccessToken(token)) {
+    const user = authenticatePersonalAccessToken(getDb(), token);
+    if (!user) throw new Error("Invalid personal access token");
+    return { ...user, purpose: "auth" };
+  }
+  const payload = verifyToken(token);
+  if (payload.purpose === "two_factor_challenge") throw new Error("Invalid token");
+  if (!payload.sessionId || !touchUserSession(getDb(), payload.sessionId, payload.userId)) {
+    throw new Error("Session has ended");
+  }
+  return payload;
+}
+
+function authenticateRequest(
+  req: Request,
+  res: Response,
+  scope: PersonalAccessTokenScope | null
+): boolean {
   const header = req.headers.authorization;
   if (!header?.startsWith("Bearer ")) {
     res.status(401).json({ error: "Missing authorization token" });
-    return;
+    return false;
   }
+  let payload: JwtPayload;
   try {
-    const payload = verifyToken(header.slice(7));
-    (req as any).user = payload;
-    next();
+    payload = authenticateToken(header.slice(7));
   } catch {
     res.status(401).json({ error: "Invalid or expired token" });
+    return false;
   }
+  if (payload.scopes && (!scope || !payload.scopes.includes(scope))) {
+    res.status(403).json({
+      error: scope
+        ? `Personal access token is missing the ${scope} scope`
+        : "Personal access tokens cannot be used for this endpoint",
+    });
+    return false;
+  }
+  (req as any).user = payload;
+  return true;
+}
+
+/** Accepts session JWTs and bot tokens. Personal access tokens are rejected. */
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  if (authenticateRequest(req, res, null)) next();
+}
+
+/**
+ * Like requireAuth, but also accepts personal access tokens that carry the
+ * given scope.
+ */
+export function requireScope(scope: PersonalAccessTokenScope) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (authenticateRequest(req, res, scope)) next();
+  };
 }
 
 export function requireAdmin(req: Request, res: Response, next: NextFunction) {
   const user = (req as any).user as JwtPayload | undefined;
-  if (!user || !user.isAdmin) {
+  if (!user || !user.isAdmin || (user.scopes && !user.scopes.includes("admin"))) {
     res.status(403).json({ error: "Admin access required" });
     return;
   }
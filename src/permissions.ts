@@ -1,4 +1,5 @@
 import type Database from "better-sqlite3";
+import { getConfig } from "./config.js";
 
 export type PermissionSet = {
   canManageChannels: boolean;
@@ -13,6 +14,9 @@ export type PermissionSet = {
   canUploadFiles: boolean;
   canUseEmojis: boolean;
   canStartVoice: boolean;
+  canMentionEveryone: boolean;
+  canBypassSlowMode: boolean;
+  canManageEmojis: boolean;
 };
 
 export type PermissionKey = keyof PermissionSet;
@@ -30,6 +34,9 @@ export const PERMISSION_KEYS: PermissionKey[] = [
   "canUploadFiles",
   "canUseEmojis",
   "canStartVoice",
+  "canMentionEveryone",
+  "canBypassSlowMode",
+  "canManageEmojis",
 ];
 
 const PERMISSION_COLUMN_MAP: Record<PermissionKey, string> = {
@@ -45,6 +52,9 @@ const PERMISSION_COLUMN_MAP: Record<PermissionKey, string> = {
   canUploadFiles: "can_upload_files",
   canUseEmojis: "can_use_emojis",
   canStartVoice: "can_start_voice",
+  canMentionEveryone: "can_mention_everyone",
+  canBypassSlowMode: "can_bypass_slow_mode",
+  canManageEmojis: "can_manage_emojis",
 };
 
 const DEFAULT_PERMISSION_SET: PermissionSet = {
@@ -60,6 +70,9 @@ const DEFAULT_PERMISSION_SET: PermissionSet = {
   canUploadFiles: true,
   canUseEmojis: true,
   canStartVoice: true,
+  canMentionEveryone: false,
+  canBypassSlowMode: false,
+  canManageEmojis: false,
 };
 
 const ADMIN_PERMISSION_SET: PermissionSet = {
@@ -75,6 +88,9 @@ const ADMIN_PERMISSION_SET: PermissionSet = {
   canUploadFiles: true,
   canUseEmojis: true,
   canStartVoice: true,
+  canMentionEveryone: true,
+  canBypassSlowMode: true,
+  canManageEmojis: true,
 };
 
 export function permissionKeyToWireName(key: PermissionKey): string {
@@ -86,17 +102,27 @@ function wireNameToPermissionKey(raw: string): PermissionKey | null {
   return key || null;
 }
 
-function getRolePermissions(db: Database.Database, userId: string): PermissionSet {
+/** Roles holding any of these only apply once the user has a second factor, when required */
+const SECOND_FACTOR_PERMISSIONS: PermissionKey[] = ["canManageServer", "canBanMembers"];
+
+function getRolePermissions(
+  db: Database.Database,
+  userId: string,
+  skipSecondFactorRoles = false
+): PermissionSet {
   const selected = PERMISSION_KEYS.map(
     (key) => `MAX(r.${PERMISSION_COLUMN_MAP[key]}) AS ${PERMISSION_COLUMN_MAP[key]}`
   ).join(",\n         ");
+  const roleFilter = skipSecondFactorRoles
+    ? `AND ${SECOND_FACTOR_PERMISSIONS.map((key) => `r.${PERMISSION_COLUMN_MAP[key]} = 0`).join(" AND ")}`
+    : "";
   const row = db
     .prepare(
       `SELECT
          ${selected}
        FROM user_roles ur
        JOIN roles r ON r.id = ur.role_id
-       WHERE ur.user_id = ?`
+       WHERE ur.user_id = ? ${roleFilter}`
     )
     .get(userId) as Record<string, number | null> | undefined;
 
@@ -133,6 +159,30 @@ function getPermissionOverrides(
   return overrides;
 }
 
+/** Whether the user has TOTP turned on or at least one security key/passkey registered */
+export function hasSecondFactor(db: Database.Database, userId: string): boolean {
+  const row = db
+    .prepare(
+      `SELECT
+         (SELECT two_factor_enabled FROM users WHERE id = ?) AS totp,
+         EXISTS (SELECT 1 FROM webauthn_credentials WHERE user_id = ?) AS webauthn`
+    )
+    .get(userId, userId) as { totp: number | null; webauthn: number };
+  return row.totp === 1 || row.webauthn === 1;
+}
+
+function isMissingSecondFactor(
+  db: Database.Database,
+  userId: string,
+  permissions: PermissionSet
+): boolean {
+  return (
+    getConfig().twoFactor.requireForPrivilegedRoles &&
+    SECOND_FACTOR_PERMISSIONS.some((key) => permissions[key]) &&
+    !hasSecondFactor(db, userId)
+  );
+}
+
 export function getUserPermissions(
   db: Database.Database,
   userId: string,
@@ -141,7 +191,32 @@ export function getUserPermissions(
   if (isAdmin) return { ...ADMIN_PERMISSION_SET };
   const base = getRolePermissions(db, userId);
   const overrides = getPermissionOverrides(db, userId);
-  return { ...base, ...overrides };
+  const permissions = { ...base, ...overrides };
+  if (!isMissingSecondFactor(db, userId, permissions)) return permissions;
+
+  // Privileged roles stay dormant until the user enrolls a second factor;
+  // everything else they hold keeps working so they can still sign in and
+  // set one up.
+  const restricted = { ...getRolePermissions(db, userId, true), ...overrides };
+  for (const key of SECOND_FACTOR_PERMISSIONS) restricted[key] = false;
+  return restricted;
+}
+
+/**
+ * True when the server requires a second factor for the user's roles and
+ * they haven't enrolled one, so clients can prompt them to.
+ */
+export function isSecondFactorSetupRequired(
+  db: Database.Database,
+  userId: string,
+  isAdmin: boolean
+): boolean {
+  if (isAdmin) return false;
+  const permissions = {
+    ...getRolePermissions(db, userId),
+    ...getPermissionOverrides(db, userId),
+  };
+  return isMissingSecondFactor(db, userId, permissions);
 }
 
 export function getUserPermissionOverrides(
@@ -151,6 +226,19 @@ export function getUserPermissionOverrides(
   return getPermissionOverrides(db, userId);
 }
 
+/**
+ * Admin status normally comes from the caller's JWT; this resolves it for
+ * other users (e.g. notification recipients) from the configured admin emails.
+ */
+export function isUserAdmin(db: Database.Database, userId: string): boolean {
+  const row = db.prepare("SELECT email FROM users WHERE id = ?").get(userId) as
+    | { email: string }
+    | undefined;
+  if (!row) return false;
+  const email = row.email.trim().toLowerCase();
+  return getConfig().adminEmails.some((adminEmail) => adminEmail.trim().toLowerCase() === email);
+}
+
 function parseFutureDate(value: string | null | undefined): number | null {
   if (!value) return null;
   const ms = new Date(value).getTime();
@@ -166,8 +254,8 @@ export function ensureDefaultRole(db: Database.Database) {
       id, name, color, position, can_manage_channels, can_manage_roles, can_manage_server,
       can_kick_members, can_ban_members, can_timeout_members, can_moderate_voice,
       can_pin_messages, can_manage_messages, can_upload_files, can_use_emojis, can_start_voice,
-      is_system
-    ) VALUES ('everyone', '@everyone', '#94a3b8', 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1)`
+      can_mention_everyone, can_bypass_slow_mode, can_manage_emojis, is_system
+    ) VALUES ('everyone', '@everyone', '#94a3b8', 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 0, 0, 0, 1)`
   ).run();
 }
 
@@ -229,6 +317,28 @@ export function canAccessRoom(
   return Boolean(membership);
 }
 
+/**
+ * Whether a user should hear about messages in a room. Admins get past
+ * channel role restrictions, but DMs and temporary rooms need membership.
+ */
+export function canReceiveRoomMessages(
+  db: Database.Database,
+  roomId: string,
+  userId: string
+): boolean {
+  return (
+    canAccessRoom(db, roomId, userId, false) ||
+    (isUserAdmin(db, userId) && !isMembershipRoom(db, roomId))
+  );
+}
+
+function isMembershipRoom(db: Database.Database, roomId: string): boolean {
+  const room = db
+    .prepare("SELECT type, is_temporary FROM rooms WHERE id = ?")
+    .get(roomId) as { type: string; is_temporary: number } | undefined;
+  return !room || room.type === "dm" || room.is_temporary === 1;
+}
+
 export function getUserModerationState(db: Database.Database, userId: string) {
   const row = db
     .prepare(
@@ -10,9 +10,13 @@ import {
   updateConfig,
   type ServerConfig,
 } from "../config.js";
-import { requireAuth, requireAdmin, generateToken } from "../middleware/auth.js";
+import { requireScope, requireAdmin, issueSessionTokens } from "../middleware/auth.js";
 import { getDb } from "../db/database.js";
-import { broadcastRoomStructure } from "../websocket/handler.js";
+import {
+  broadcastPresence,
+  broadcastRoomStructure,
+  disconnectUserSockets,
+} from "../websocket/handler.js";
 import {
   createPasswordResetToken,
   isMailConfigured,
@@ -23,13 +27,39 @@ import {
   getAntivirusInstallInstructions,
   testAntivirusConnection,
 } from "../services/antivirus.js";
+import { isLdapEnabled, runLdapSync } from "../services/ldap.js";
 import { testSmtpConnection } from "../services/mailer.js";
+import { rotateVapidKeys } from "../services/pushNotifications.js";
+import {
+  OUTGOING_WEBHOOK_EVENTS,
+  createOutgoingWebhook,
+  deleteOutgoingWebhook,
+  generateWebhookSecret,
+  getOutgoingWebhook,
+  listOutgoingWebhookDeliveries,
+  listOutgoingWebhooks,
+  parseWebhookEndpoint,
+  parseWebhookEvents,
+  retryOutgoingWebhookDelivery,
+  updateOutgoingWebhook,
+  type OutgoingWebhookDeliveryRow,
+  type OutgoingWebhookEvent,
+} from "../services/outgoingWebhooks.js";
 import {
   createEncryptedDatabaseBackup,
   migrateAttachmentStorageRoot,
   restoreEncryptedDatabaseBackup,
 } from "../services/backup.js";
 import { getUserPermissions } from "../permissions.js";
+import { SYSTEM_USER_ID } from "../services/systemUser.js";
+import {
+  BOT_USERNAME_PATTERN,
+  createBotToken,
+  createBotUser,
+  getBotUser,
+  listBotUsers,
+  revokeBotToken,
+} from "../services/botAccounts.js";
 
 const router = Router();
 
@@ -137,6 +167,31 @@ function generateInviteCode(length = 10) {
 }
 
 /** Broadcast the current room list to all connected WebSocket clients */
+/** Shared check for the oidc/ldap groupRoleMappings arrays; returns an error or null */
+function validateGroupRoleMappings(prefix: string, raw: unknown): string | null {
+  if (raw === undefined) return null;
+  if (!Array.isArray(raw) || raw.length > 200) {
+    return `${prefix}.groupRoleMappings must be an array of at most 200 entries`;
+  }
+  const knownRoleIds = new Set(
+    (getDb().prepare("SELECT id FROM roles").all() as Array<{ id: string }>).map((r) => r.id)
+  );
+  for (const mapping of raw) {
+    if (
+      !mapping ||
+      typeof mapping.group !== "string" ||
+      !mapping.group.trim() ||
+      typeof mapping.roleId !== "string"
+    ) {
+      return `${prefix}.groupRoleMappings entries need a group and a roleId`;
+    }
+    if (mapping.roleId === "everyone" || !knownRoleIds.has(mapping.roleId)) {
+      return `Unknown role id: ${mapping.roleId}`;
+    }
+  }
+  return null;
+}
+
 function broadcastRooms(req: Request) {
   const io = req.app.get("io");
   if (io) broadcastRoomStructure(io);
@@ -149,13 +204,13 @@ function ensureDefaultRole() {
       id, name, color, position, can_manage_channels, can_manage_roles, can_manage_server,
       can_kick_members, can_ban_members, can_timeout_members, can_moderate_voice,
       can_pin_messages, can_manage_messages, can_upload_files, can_use_emojis, can_start_voice,
-      is_system
-    ) VALUES ('everyone', '@everyone', '#94a3b8', 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1)`
+      can_mention_everyone, can_bypass_slow_mode, can_manage_emojis, is_system
+    ) VALUES ('everyone', '@everyone', '#94a3b8', 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 0, 0, 0, 1)`
   ).run();
 }
 
 // GET /api/admin/setup-status - check if the server still has the default setup account
-router.get("/setup-status", requireAuth, requireAdmin, (_req, res) => {
+router.get("/setup-status", requireScope("admin"), requireAdmin, (_req, res) => {
   const db = getDb();
   const setupAccount = db
     .prepare("SELECT id FROM users WHERE is_setup_account = 1")
@@ -164,7 +219,7 @@ router.get("/setup-status", requireAuth, requireAdmin, (_req, res) => {
 });
 
 // POST /api/admin/complete-setup - replace the default setup account with a real admin
-router.post("/complete-setup", requireAuth, requireAdmin, (req, res) => {
+router.post("/complete-setup", requireScope("admin"), requireAdmin, (req, res) => {
   const config = getConfig();
   const db = getDb();
   const { userId } = (req as any).user;
@@ -243,7 +298,7 @@ router.post("/complete-setup", requireAuth, requireAdmin, (req, res) => {
   db.prepare("DELETE FROM users WHERE id = ?").run(setupUser.id);
 
   // Generate a new token for the new admin
-  const token = generateToken({
+  const { token, refreshToken, expiresIn } = issueSessionTokens(req, {
     userId: newUserId,
     username: trimmedUsername,
     email: trimmedEmail,
@@ -254,6 +309,8 @@ router.post("/complete-setup", requireAuth, requireAdmin, (req, res) => {
 
   res.json({
     token,
+    refreshToken,
+    expiresIn,
     user: {
       id: newUserId,
       username: trimmedUsername,
@@ -265,12 +322,12 @@ router.post("/complete-setup", requireAuth, requireAdmin, (req, res) => {
 });
 
 // GET /api/admin/config - return redacted config
-router.get("/config", requireAuth, requireAdmin, (_req, res) => {
+router.get("/config", requireScope("admin"), requireAdmin, (_req, res) => {
   res.json(getRedactedConfig());
 });
 
 // PUT /api/admin/config - partial update
-router.put("/config", requireAuth, requireAdmin, (req, res) => {
+router.put("/config", requireScope("admin"), requireAdmin, (req, res) => {
   const partial = req.body as Partial<ServerConfig>;
   const currentConfig = getConfig();
   const currentStoragePath = path.resolve(currentConfig.files.storagePath);
@@ -283,6 +340,18 @@ router.put("/config", requireAuth, requireAdmin, (req, res) => {
     res.status(400).json({ error: "port must be a number between 1 and 65535" });
     return;
   }
+  if (partial.publicUrl !== undefined) {
+    if (typeof partial.publicUrl !== "string") {
+      res.status(400).json({ error: "publicUrl must be a string" });
+      return;
+    }
+    const trimmedPublicUrl = partial.publicUrl.trim().replace(/\/+$/, "");
+    if (trimmedPublicUrl && !/^https?:\/\/[^\s/]+/i.test(trimmedPublicUrl)) {
+      res.status(400).json({ error: "publicUrl must be an http(s) URL" });
+      return;
+    }
+    partial.publicUrl = trimmedPublicUrl;
+  }
   if (
     partial.trustProxy !== undefined &&
     typeof partial.trustProxy !== "boolean"
@@ -360,6 +429,16 @@ router.put("/config", requireAuth, requireAdmin, (req, res) => {
     res.status(400).json({ error: "jwtExpiryDays must be between 1 and 365" });
     return;
   }
+  if (
+    partial.accessTokenMinutes !== undefined &&
+    (typeof partial.accessTokenMinutes !== "number" ||
+      !Number.isInteger(partial.accessTokenMinutes) ||
+      partial.accessTokenMinutes < 1 ||
+      partial.accessTokenMinutes > 1440)
+  ) {
+    res.status(400).json({ error: "accessTokenMinutes must be an integer between 1 and 1440" });
+    return;
+  }
   if (
     partial.bcryptRounds !== undefined &&
     (typeof partial.bcryptRounds !== "number" ||
@@ -459,6 +538,238 @@ router.put("/config", requireAuth, requireAdmin, (req, res) => {
     }
   }
 
+  if (partial.oidc) {
+    const oidc = partial.oidc;
+    for (const field of [
+      "enabled",
+      "autoProvision",
+      "requireVerifiedEmail",
+      "linkExistingByEmail",
+      "allowInsecureHttp",
+    ] as const) {
+      if (oidc[field] !== undefined && typeof oidc[field] !== "boolean") {
+        res.status(400).json({ error: `oidc.${field} must be a boolean` });
+        return;
+      }
+    }
+    for (const field of [
+      "clientId",
+      "clientSecret",
+      "buttonLabel",
+      "usernameClaim",
+      "groupsClaim",
+    ] as const) {
+      if (oidc[field] !== undefined && typeof oidc[field] !== "string") {
+        res.status(400).json({ error: `oidc.${field} must be a string` });
+        return;
+      }
+    }
+    for (const field of ["issuerUrl", "redirectUri"] as const) {
+      const value = oidc[field];
+      if (value === undefined) continue;
+      if (typeof value !== "string") {
+        res.status(400).json({ error: `oidc.${field} must be a string` });
+        return;
+      }
+      if (!value.trim()) continue;
+      try {
+        const parsed = new URL(value.trim());
+        if (parsed.protocol !== "http:" && parsed.protocol !== "https:") throw new Error();
+      } catch {
+        res.status(400).json({ error: `oidc.${field} must be an http(s) URL` });
+        return;
+      }
+    }
+    for (const field of ["scopes", "allowedReturnUrls"] as const) {
+      const value = oidc[field];
+      if (
+        value !== undefined &&
+        (!Array.isArray(value) ||
+          value.length > 50 ||
+          value.some((entry) => typeof entry !== "string"))
+      ) {
+        res.status(400).json({ error: `oidc.${field} must be an array of at most 50 strings` });
+        return;
+      }
+    }
+    const mappingError = validateGroupRoleMappings("oidc", oidc.groupRoleMappings);
+    if (mappingError) {
+      res.status(400).json({ error: mappingError });
+      return;
+    }
+  }
+
+  if (partial.ldap) {
+    const ldap = partial.ldap;
+    for (const field of [
+      "enabled",
+      "startTls",
+      "tlsRejectUnauthorized",
+      "autoProvision",
+      "linkExistingByEmail",
+    ] as const) {
+      if (ldap[field] !== undefined && typeof ldap[field] !== "boolean") {
+        res.status(400).json({ error: `ldap.${field} must be a boolean` });
+        return;
+      }
+    }
+    for (const field of [
+      "bindDn",
+      "bindPassword",
+      "userSearchBase",
+      "usernameAttribute",
+      "emailAttribute",
+      "groupSearchBase",
+      "groupMemberAttribute",
+    ] as const) {
+      if (ldap[field] !== undefined && typeof ldap[field] !== "string") {
+        res.status(400).json({ error: `ldap.${field} must be a string` });
+        return;
+      }
+    }
+    if (ldap.url !== undefined) {
+      if (typeof ldap.url !== "string" || !/^ldaps?:\/\/[^\s/]+\/?$/i.test(ldap.url.trim())) {
+        res.status(400).json({ error: "ldap.url must look like ldap://host:389 or ldaps://host:636" });
+        return;
+      }
+    }
+    if (ldap.userFilter !== undefined) {
+      const filter = typeof ldap.userFilter === "string" ? ldap.userFilter.trim() : "";
+      if (!filter.startsWith("(") || !filter.endsWith(")")) {
+        res.status(400).json({ error: "ldap.userFilter must be a parenthesized LDAP filter" });
+        return;
+      }
+    }
+    if (
+      ldap.loginAttributes !== undefined &&
+      (!Array.isArray(ldap.loginAttributes) ||
+        ldap.loginAttributes.length === 0 ||
+        ldap.loginAttributes.length > 10 ||
+        ldap.loginAttributes.some(
+          (attribute) => typeof attribute !== "string" || !/^[a-zA-Z][a-zA-Z0-9-]*$/.test(attribute)
+        ))
+    ) {
+      res.status(400).json({ error: "ldap.loginAttributes must be 1-10 attribute names" });
+      return;
+    }
+    if (
+      ldap.syncIntervalMinutes !== undefined &&
+      (typeof ldap.syncIntervalMinutes !== "number" ||
+        !Number.isInteger(ldap.syncIntervalMinutes) ||
+        ldap.syncIntervalMinutes < 0 ||
+        ldap.syncIntervalMinutes > 10080)
+    ) {
+      res.status(400).json({ error: "ldap.syncIntervalMinutes must be an integer between 0 and 10080" });
+      return;
+    }
+    if (
+      ldap.timeoutMs !== undefined &&
+      (typeof ldap.timeoutMs !== "number" ||
+        !Number.isInteger(ldap.timeoutMs) ||
+        ldap.timeoutMs < 1000 ||
+        ldap.timeoutMs > 120000)
+    ) {
+      res.status(400).json({ error: "ldap.timeoutMs must be an integer between 1000 and 120000" });
+      return;
+    }
+    const mappingError = validateGroupRoleMappings("ldap", ldap.groupRoleMappings);
+    if (mappingError) {
+      res.status(400).json({ error: mappingError });
+      return;
+    }
+  }
+
+  if (partial.twoFactor) {
+    const twoFactor = partial.twoFactor;
+    if (
+      twoFactor.requireForPrivilegedRoles !== undefined &&
+      typeof twoFactor.requireForPrivilegedRoles !== "boolean"
+    ) {
+      res.status(400).json({ error: "twoFactor.requireForPrivilegedRoles must be a boolean" });
+      return;
+    }
+    if (
+      twoFactor.webauthnRpId !== undefined &&
+      (typeof twoFactor.webauthnRpId !== "string" ||
+        !/^([a-z0-9-]+(\.[a-z0-9-]+)*)?$/i.test(twoFactor.webauthnRpId.trim()))
+    ) {
+      res.status(400).json({ error: "twoFactor.webauthnRpId must be a domain name like chat.example.com" });
+      return;
+    }
+    if (
+      twoFactor.webauthnRpName !== undefined &&
+      (typeof twoFactor.webauthnRpName !== "string" || twoFactor.webauthnRpName.length > 64)
+    ) {
+      res.status(400).json({ error: "twoFactor.webauthnRpName must be a string of at most 64 characters" });
+      return;
+    }
+    // Not just http(s): native apps present origins like android:apk-key-hash:...
+    if (
+      twoFactor.webauthnOrigins !== undefined &&
+      (!Array.isArray(twoFactor.webauthnOrigins) ||
+        twoFactor.webauthnOrigins.length > 50 ||
+        twoFactor.webauthnOrigins.some(
+          (origin: unknown) => typeof origin !== "string" || !/^[a-z][a-z0-9+.-]*:\S+$/i.test(origin.trim())
+        ))
+    ) {
+      res.status(400).json({ error: "twoFactor.webauthnOrigins must be an array of at most 50 origins" });
+      return;
+    }
+  }
+
+  if (partial.linkPreviews) {
+    const linkPreviews = partial.linkPreviews;
+    if (linkPreviews.enabled !== undefined && typeof linkPreviews.enabled !== "boolean") {
+      res.status(400).json({ error: "linkPreviews.enabled must be a boolean" });
+      return;
+    }
+    for (const key of ["allowedDomains", "blockedDomains"] as const) {
+      const domains = linkPreviews[key];
+      if (
+        domains !== undefined &&
+        (!Array.isArray(domains) ||
+          domains.length > 500 ||
+          domains.some(
+            (domain: unknown) =>
+              typeof domain !== "string" ||
+              !/^(\*\.)?[a-z0-9-]+(\.[a-z0-9-]+)*\.?$/i.test(domain.trim())
+          ))
+      ) {
+        res.status(400).json({
+          error: `linkPreviews.${key} must be an array of at most 500 domain names`,
+        });
+        return;
+      }
+    }
+    if (
+      linkPreviews.timeoutMs !== undefined &&
+      (!Number.isInteger(linkPreviews.timeoutMs) ||
+        linkPreviews.timeoutMs < 1000 ||
+        linkPreviews.timeoutMs > 30000)
+    ) {
+      res.status(400).json({ error: "linkPreviews.timeoutMs must be between 1000 and 30000" });
+      return;
+    }
+    if (
+      linkPreviews.maxBytes !== undefined &&
+      (!Number.isInteger(linkPreviews.maxBytes) ||
+        linkPreviews.maxBytes < 16 * 1024 ||
+        linkPreviews.maxBytes > 10 * 1024 * 1024)
+    ) {
+      res.status(400).json({ error: "linkPreviews.maxBytes must be between 16 KB and 10 MB" });
+      return;
+    }
+    if (
+      linkPreviews.cacheTtlMinutes !== undefined &&
+      (!Number.isInteger(linkPreviews.cacheTtlMinutes) ||
+        linkPreviews.cacheTtlMinutes < 1 ||
+        linkPreviews.cacheTtlMinutes > 43200)
+    ) {
+      res.status(400).json({ error: "linkPreviews.cacheTtlMinutes must be between 1 and 43200" });
+      return;
+    }
+  }
+
   if (partial.smtp) {
     if (
       partial.smtp.host !== undefined &&
@@ -626,6 +937,39 @@ router.put("/config", requireAuth, requireAdmin, (req, res) => {
     }
   }
 
+  if (partial.push) {
+    if (
+      partial.push.enabled !== undefined &&
+      typeof partial.push.enabled !== "boolean"
+    ) {
+      res.status(400).json({ error: "push.enabled must be a boolean" });
+      return;
+    }
+    if (
+      partial.push.vapidPublicKey !== undefined &&
+      typeof partial.push.vapidPublicKey !== "string"
+    ) {
+      res.status(400).json({ error: "push.vapidPublicKey must be a string" });
+      return;
+    }
+    if (
+      partial.push.vapidPrivateKey !== undefined &&
+      typeof partial.push.vapidPrivateKey !== "string"
+    ) {
+      res.status(400).json({ error: "push.vapidPrivateKey must be a string" });
+      return;
+    }
+    if (
+      partial.push.subject !== undefined &&
+      (typeof partial.push.subject !== "string" ||
+        (partial.push.subject.trim() !== "" &&
+          !/^(mailto:|https:\/\/)/i.test(partial.push.subject.trim())))
+    ) {
+      res.status(400).json({ error: "push.subject must be a mailto: or https:// URL" });
+      return;
+    }
+  }
+
   // Validate LiveKit media limits
   if (partial.livekit) {
     const validScreenRes = ["720p", "1080p", "1440p", "4k"];
@@ -689,7 +1033,7 @@ router.put("/config", requireAuth, requireAdmin, (req, res) => {
 });
 
 // GET /api/admin/stats - server statistics
-router.get("/stats", requireAuth, requireAdmin, (_req, res) => {
+router.get("/stats", requireScope("admin"), requireAdmin, (_req, res) => {
   const db = getDb();
   const users = db.prepare("SELECT COUNT(*) as count FROM users").get() as { count: number };
   const rooms = db.prepare("SELECT COUNT(*) as count FROM rooms").get() as { count: number };
@@ -705,11 +1049,12 @@ router.get("/stats", requireAuth, requireAdmin, (_req, res) => {
 });
 
 // GET /api/admin/users - list all users
-router.get("/users", requireAuth, requireAdmin, (_req, res) => {
+router.get("/users", requireScope("admin"), requireAdmin, (_req, res) => {
   const db = getDb();
   const users = db
     .prepare(
-      `SELECT id, username, email, avatar_url, about, status, last_client_version, created_at, updated_at
+      `SELECT id, username, email, avatar_url, about, status, is_bot, last_client_version,
+              auth_provider, deactivated_at, created_at, updated_at
        FROM users ORDER BY created_at DESC`
     )
     .all();
@@ -717,7 +1062,7 @@ router.get("/users", requireAuth, requireAdmin, (_req, res) => {
 });
 
 // GET /api/admin/remote-control-settings
-router.get("/remote-control-settings", requireAuth, requireAdmin, (_req, res) => {
+router.get("/remote-control-settings", requireScope("admin"), requireAdmin, (_req, res) => {
   const db = getDb();
   const row = db
     .prepare(
@@ -735,7 +1080,7 @@ router.get("/remote-control-settings", requireAuth, requireAdmin, (_req, res) =>
 });
 
 // PUT /api/admin/remote-control-settings
-router.put("/remote-control-settings", requireAuth, requireAdmin, (req, res) => {
+router.put("/remote-control-settings", requireScope("admin"), requireAdmin, (req, res) => {
   const timeoutRaw = Number(req.body?.sessionTimeoutSeconds);
   const requireModeratorPermission = req.body?.requireModeratorPermission;
 
@@ -769,7 +1114,7 @@ router.put("/remote-control-settings", requireAuth, requireAdmin, (req, res) =>
 });
 
 // POST /api/admin/users/:id/password-reset - send a password reset email
-router.post("/users/:id/password-reset", requireAuth, requireAdmin, async (req, res) => {
+router.post("/users/:id/password-reset", requireScope("admin"), requireAdmin, async (req, res) => {
   if (!isMailConfigured()) {
     res.status(503).json({
       error:
@@ -780,15 +1125,19 @@ router.post("/users/:id/password-reset", requireAuth, requireAdmin, async (req,
 
   const db = getDb();
   const targetUser = db
-    .prepare("SELECT id, username, email FROM users WHERE id = ?")
+    .prepare("SELECT id, username, email, auth_provider FROM users WHERE id = ?")
     .get(req.params.id) as
-    | { id: string; username: string; email: string }
+    | { id: string; username: string; email: string; auth_provider: string }
     | undefined;
 
   if (!targetUser) {
     res.status(404).json({ error: "User not found" });
     return;
   }
+  if (targetUser.auth_provider !== "local") {
+    res.status(400).json({ error: "This user's password is managed by the LDAP directory" });
+    return;
+  }
 
   const adminUserId = (req as any).user.userId as string;
   const adminUser = db
@@ -813,8 +1162,34 @@ router.post("/users/:id/password-reset", requireAuth, requireAdmin, async (req,
   }
 });
 
+// PUT /api/admin/users/:id/auth-provider - move a user between local and LDAP passwords
+router.put("/users/:id/auth-provider", requireScope("admin"), requireAdmin, (req, res) => {
+  const authProvider = req.body?.authProvider;
+  if (authProvider !== "local" && authProvider !== "ldap") {
+    res.status(400).json({ error: "authProvider must be 'local' or 'ldap'" });
+    return;
+  }
+  const db = getDb();
+  const targetUser = db
+    .prepare("SELECT id, is_bot, ldap_dn FROM users WHERE id = ?")
+    .get(req.params.id) as { id: string; is_bot: number; ldap_dn: string | null } | undefined;
+  if (!targetUser || targetUser.is_bot === 1 || targetUser.id === SYSTEM_USER_ID) {
+    res.status(404).json({ error: "User not found" });
+    return;
+  }
+  if (authProvider === "ldap" && !targetUser.ldap_dn) {
+    res.status(400).json({ error: "This user has not signed in with the LDAP directory yet" });
+    return;
+  }
+  db.prepare("UPDATE users SET auth_provider = ?, updated_at = datetime('now') WHERE id = ?").run(
+    authProvider,
+    targetUser.id
+  );
+  res.json({ success: true, authProvider });
+});
+
 // POST /api/admin/backup/export - generate and download encrypted backup
-router.post("/backup/export", requireAuth, requireAdmin, (req, res) => {
+router.post("/backup/export", requireScope("admin"), requireAdmin, (req, res) => {
   const passphrase =
     typeof req.body?.passphrase === "string" ? req.body.passphrase : "";
   if (passphrase.length < 12) {
@@ -839,7 +1214,7 @@ router.post("/backup/export", requireAuth, requireAdmin, (req, res) => {
 // POST /api/admin/backup/restore - restore encrypted backup payload
 router.post(
   "/backup/restore",
-  requireAuth,
+  requireScope("admin"),
   requireAdmin,
   express.raw({ type: "application/octet-stream", limit: "1024mb" }),
   (req, res) => {
@@ -868,7 +1243,7 @@ router.post(
 );
 
 // DELETE /api/admin/users/:id - delete a user
-router.delete("/users/:id", requireAuth, requireAdmin, (req, res) => {
+router.delete("/users/:id", requireScope("admin"), requireAdmin, (req, res) => {
   const db = getDb();
   const user = db.prepare("SELECT id, email FROM users WHERE id = ?").get(req.params.id) as { id: string; email: string } | undefined;
   if (!user) {
@@ -884,16 +1259,89 @@ router.delete("/users/:id", requireAuth, requireAdmin, (req, res) => {
   db.prepare("DELETE FROM room_members WHERE user_id = ?").run(req.params.id);
   db.prepare("DELETE FROM friends WHERE user_id = ? OR friend_id = ?").run(req.params.id, req.params.id);
   db.prepare("DELETE FROM users WHERE id = ?").run(req.params.id);
+  const io = req.app.get("io");
+  if (io) disconnectUserSockets(io, user.id, "Your account was deleted");
+  res.json({ success: true });
+});
+
+// GET /api/admin/bots - list bot accounts and their tokens (without secrets)
+router.get("/bots", requireScope("admin"), requireAdmin, (_req, res) => {
+  res.json(listBotUsers(getDb()));
+});
+
+// POST /api/admin/bots - create a bot account and its first API token
+router.post("/bots", requireScope("admin"), requireAdmin, (req, res) => {
+  const db = getDb();
+  const username = typeof req.body?.username === "string" ? req.body.username.trim() : "";
+  if (!BOT_USERNAME_PATTERN.test(username)) {
+    res.status(400).json({
+      error: "username must be 2-32 characters of letters, numbers, '.', '_' or '-'",
+    });
+    return;
+  }
+  const existing = db
+    .prepare("SELECT id FROM users WHERE lower(username) = lower(?)")
+    .get(username);
+  if (existing) {
+    res.status(400).json({ error: "Username already taken" });
+    return;
+  }
+  const actorId = (req as any).user.userId as string;
+  const bot = createBotUser(db, username);
+  const { token, row } = createBotToken(db, {
+    botUserId: bot.id,
+    name: typeof req.body?.tokenName === "string" && req.body.tokenName.trim()
+      ? req.body.tokenName.trim()
+      : "default",
+    createdByUserId: actorId,
+  });
+  const io = req.app.get("io");
+  if (io) broadcastPresence(io);
+  res.json({ bot: { ...bot, tokens: [row] }, token });
+});
+
+// POST /api/admin/bots/:id/tokens - issue an additional API token for a bot
+router.post("/bots/:id/tokens", requireScope("admin"), requireAdmin, (req, res) => {
+  const db = getDb();
+  const bot = getBotUser(db, req.params.id as string);
+  if (!bot) {
+    res.status(404).json({ error: "Bot not found" });
+    return;
+  }
+  const name = typeof req.body?.name === "string" ? req.body.name.trim() : "";
+  if (!name) {
+    res.status(400).json({ error: "name is required" });
+    return;
+  }
+  const { token, row } = createBotToken(db, {
+    botUserId: bot.id,
+    name,
+    createdByUserId: (req as any).user.userId,
+  });
+  res.json({ ...row, token });
+});
+
+// DELETE /api/admin/bots/:id/tokens/:tokenId - revoke a bot token
+router.delete("/bots/:id/tokens/:tokenId", requireScope("admin"), requireAdmin, (req, res) => {
+  const db = getDb();
+  const { id, tokenId } = req.params as { id: string; tokenId: string };
+  if (!revokeBotToken(db, id, tokenId)) {
+    res.status(404).json({ error: "Active token not found" });
+    return;
+  }
+  // Sockets authenticated with the revoked token lose access right away.
+  const io = req.app.get("io");
+  if (io) disconnectUserSockets(io, id, "Bot token revoked");
   res.json({ success: true });
 });
 
 // GET /api/admin/rooms - list all rooms with member/message counts
-router.get("/rooms", requireAuth, requireAdmin, (_req, res) => {
+router.get("/rooms", requireScope("admin"), requireAdmin, (_req, res) => {
   const db = getDb();
   const rooms = db
     .prepare(
       `SELECT r.id, r.name, r.type, r.created_by, r.created_at,
-              r.message_retention_mode, r.message_retention_days,
+              r.message_retention_mode, r.message_retention_days, r.slow_mode_seconds,
               (SELECT COUNT(*) FROM room_members WHERE room_id = r.id) as members,
               (SELECT COUNT(*) FROM messages WHERE room_id = r.id) as messages
        FROM rooms r ORDER BY r.created_at ASC`
@@ -903,7 +1351,7 @@ router.get("/rooms", requireAuth, requireAdmin, (_req, res) => {
 });
 
 // PUT /api/admin/rooms/:id/retention - set room message retention policy
-router.put("/rooms/:id/retention", requireAuth, requireAdmin, (req, res) => {
+router.put("/rooms/:id/retention", requireScope("admin"), requireAdmin, (req, res) => {
   const db = getDb();
   const room = db
     .prepare("SELECT id FROM rooms WHERE id = ?")
@@ -948,8 +1396,60 @@ router.put("/rooms/:id/retention", requireAuth, requireAdmin, (req, res) => {
   res.json(updated);
 });
 
+// PUT /api/admin/rooms/:id - update room name and slow mode
+router.put("/rooms/:id", requireScope("admin"), requireAdmin, (req, res) => {
+  const db = getDb();
+  const room = db
+    .prepare("SELECT id, type FROM rooms WHERE id = ?")
+    .get(req.params.id) as { id: string; type: string } | undefined;
+  if (!room) {
+    res.status(404).json({ error: "Room not found" });
+    return;
+  }
+  const patch: Record<string, string | number> = {};
+  if (req.body?.name !== undefined) {
+    if (typeof req.body.name !== "string" || !req.body.name.trim()) {
+      res.status(400).json({ error: "name must be a non-empty string" });
+      return;
+    }
+    if (room.type === "dm") {
+      res.status(400).json({ error: "Direct message rooms cannot be renamed" });
+      return;
+    }
+    patch.name = req.body.name.trim();
+  }
+  if (req.body?.slowModeSeconds !== undefined) {
+    const seconds = req.body.slowModeSeconds;
+    if (!Number.isInteger(seconds) || seconds < 0 || seconds > 21600) {
+      res.status(400).json({ error: "slowModeSeconds must be an integer between 0 and 21600" });
+      return;
+    }
+    patch.slow_mode_seconds = seconds;
+  }
+  if (Object.keys(patch).length === 0) {
+    res.status(400).json({ error: "No fields to update" });
+    return;
+  }
+  const setSql = Object.keys(patch).map((k) => `${k} = @${k}`).join(", ");
+  db.prepare(`UPDATE rooms SET ${setSql} WHERE id = @id`).run({
+    id: req.params.id,
+    ...patch,
+  });
+  broadcastRooms(req);
+
+  const updated = db
+    .prepare(
+      `SELECT id, name, type, created_by, created_at,
+              message_retention_mode, message_retention_days, slow_mode_seconds
+       FROM rooms
+       WHERE id = ?`
+    )
+    .get(req.params.id);
+  res.json(updated);
+});
+
 // POST /api/admin/rooms - create a room
-router.post("/rooms", requireAuth, requireAdmin, (req, res) => {
+router.post("/rooms", requireScope("admin"), requireAdmin, (req, res) => {
   const { name, type } = req.body;
   if (!name || !type) {
     res.status(400).json({ error: "name and type are required" });
@@ -972,7 +1472,7 @@ router.post("/rooms", requireAuth, requireAdmin, (req, res) => {
 });
 
 // DELETE /api/admin/rooms/:id - delete a room
-router.delete("/rooms/:id", requireAuth, requireAdmin, (req, res) => {
+router.delete("/rooms/:id", requireScope("admin"), requireAdmin, (req, res) => {
   const db = getDb();
   const room = db.prepare("SELECT id FROM rooms WHERE id = ?").get(req.params.id);
   if (!room) {
@@ -985,7 +1485,7 @@ router.delete("/rooms/:id", requireAuth, requireAdmin, (req, res) => {
 });
 
 // GET /api/admin/roles - list roles, user-role assignments, and room permissions
-router.get("/roles", requireAuth, requireAdmin, (_req, res) => {
+router.get("/roles", requireScope("admin"), requireAdmin, (_req, res) => {
   ensureDefaultRole();
   const db = getDb();
   const roles = db
@@ -993,7 +1493,7 @@ router.get("/roles", requireAuth, requireAdmin, (_req, res) => {
       `SELECT id, name, color, position, can_manage_channels, can_manage_roles, can_manage_server,
               can_kick_members, can_ban_members, can_timeout_members, can_moderate_voice,
               can_pin_messages, can_manage_messages, can_upload_files, can_use_emojis, can_start_voice,
-              is_system, created_at
+              can_mention_everyone, can_bypass_slow_mode, can_manage_emojis, is_system, created_at
        FROM roles
        ORDER BY is_system ASC, position ASC, created_at ASC`
     )
@@ -1038,7 +1538,7 @@ router.get("/roles", requireAuth, requireAdmin, (_req, res) => {
 });
 
 // POST /api/admin/roles - create role
-router.post("/roles", requireAuth, requireAdmin, (req, res) => {
+router.post("/roles", requireScope("admin"), requireAdmin, (req, res) => {
   ensureDefaultRole();
   const db = getDb();
   const name = typeof req.body?.name === "string" ? req.body.name.trim() : "";
@@ -1055,6 +1555,9 @@ router.post("/roles", requireAuth, requireAdmin, (req, res) => {
   const canUploadFiles = req.body?.canUploadFiles !== false;
   const canUseEmojis = req.body?.canUseEmojis !== false;
   const canStartVoice = req.body?.canStartVoice !== false;
+  const canMentionEveryone = Boolean(req.body?.canMentionEveryone);
+  const canBypassSlowMode = Boolean(req.body?.canBypassSlowMode);
+  const canManageEmojis = Boolean(req.body?.canManageEmojis);
   if (!name) {
     res.status(400).json({ error: "name is required" });
     return;
@@ -1073,8 +1576,8 @@ router.post("/roles", requireAuth, requireAdmin, (req, res) => {
         id, name, color, position, can_manage_channels, can_manage_roles, can_manage_server,
         can_kick_members, can_ban_members, can_timeout_members, can_moderate_voice,
         can_pin_messages, can_manage_messages, can_upload_files, can_use_emojis, can_start_voice,
-        is_system
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 0)`
+        can_mention_everyone, can_bypass_slow_mode, can_manage_emojis, is_system
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 0)`
     ).run(
       id,
       name,
@@ -1091,7 +1594,10 @@ router.post("/roles", requireAuth, requireAdmin, (req, res) => {
       canManageMessages ? 1 : 0,
       canUploadFiles ? 1 : 0,
       canUseEmojis ? 1 : 0,
-      canStartVoice ? 1 : 0
+      canStartVoice ? 1 : 0,
+      canMentionEveryone ? 1 : 0,
+      canBypassSlowMode ? 1 : 0,
+      canManageEmojis ? 1 : 0
     );
   } catch {
     res.status(400).json({ error: "Role name already exists" });
@@ -1102,7 +1608,7 @@ router.post("/roles", requireAuth, requireAdmin, (req, res) => {
       `SELECT id, name, color, position, can_manage_channels, can_manage_roles, can_manage_server,
               can_kick_members, can_ban_members, can_timeout_members, can_moderate_voice,
               can_pin_messages, can_manage_messages, can_upload_files, can_use_emojis, can_start_voice,
-              is_system, created_at
+              can_mention_everyone, can_bypass_slow_mode, can_manage_emojis, is_system, created_at
        FROM roles WHERE id = ?`
     )
     .get(id);
@@ -1110,7 +1616,7 @@ router.post("/roles", requireAuth, requireAdmin, (req, res) => {
 });
 
 // PUT /api/admin/roles/:id - update role
-router.put("/roles/:id", requireAuth, requireAdmin, (req, res) => {
+router.put("/roles/:id", requireScope("admin"), requireAdmin, (req, res) => {
   ensureDefaultRole();
   const db = getDb();
   const role = db
@@ -1231,6 +1737,27 @@ router.put("/roles/:id", requireAuth, requireAdmin, (req, res) => {
     }
     patch.can_start_voice = req.body.canStartVoice ? 1 : 0;
   }
+  if (req.body?.canMentionEveryone !== undefined) {
+    if (typeof req.body.canMentionEveryone !== "boolean") {
+      res.status(400).json({ error: "canMentionEveryone must be a boolean" });
+      return;
+    }
+    patch.can_mention_everyone = req.body.canMentionEveryone ? 1 : 0;
+  }
+  if (req.body?.canBypassSlowMode !== undefined) {
+    if (typeof req.body.canBypassSlowMode !== "boolean") {
+      res.status(400).json({ error: "canBypassSlowMode must be a boolean" });
+      return;
+    }
+    patch.can_bypass_slow_mode = req.body.canBypassSlowMode ? 1 : 0;
+  }
+  if (req.body?.canManageEmojis !== undefined) {
+    if (typeof req.body.canManageEmojis !== "boolean") {
+      res.status(400).json({ error: "canManageEmojis must be a boolean" });
+      return;
+    }
+    patch.can_manage_emojis = req.body.canManageEmojis ? 1 : 0;
+  }
   if (Object.keys(patch).length === 0) {
     res.status(400).json({ error: "No fields to update" });
     return;
@@ -1250,7 +1777,7 @@ router.put("/roles/:id", requireAuth, requireAdmin, (req, res) => {
       `SELECT id, name, color, position, can_manage_channels, can_manage_roles, can_manage_server,
               can_kick_members, can_ban_members, can_timeout_members, can_moderate_voice,
               can_pin_messages, can_manage_messages, can_upload_files, can_use_emojis, can_start_voice,
-              is_system, created_at
+              can_mention_everyone, can_bypass_slow_mode, can_manage_emojis, is_system, created_at
        FROM roles WHERE id = ?`
     )
     .get(req.params.id);
@@ -1258,7 +1785,7 @@ router.put("/roles/:id", requireAuth, requireAdmin, (req, res) => {
 });
 
 // DELETE /api/admin/roles/:id - delete role
-router.delete("/roles/:id", requireAuth, requireAdmin, (req, res) => {
+router.delete("/roles/:id", requireScope("admin"), requireAdmin, (req, res) => {
   ensureDefaultRole();
   const db = getDb();
   const role = db
@@ -1278,7 +1805,7 @@ router.delete("/roles/:id", requireAuth, requireAdmin, (req, res) => {
 });
 
 // GET /api/admin/users/:id/roles - list role ids for user
-router.get("/users/:id/roles", requireAuth, requireAdmin, (req, res) => {
+router.get("/users/:id/roles", requireScope("admin"), requireAdmin, (req, res) => {
   ensureDefaultRole();
   const db = getDb();
   const user = db
@@ -1295,7 +1822,7 @@ router.get("/users/:id/roles", requireAuth, requireAdmin, (req, res) => {
 });
 
 // PUT /api/admin/users/:id/roles - replace role ids for user (excluding implicit @everyone)
-router.put("/users/:id/roles", requireAuth, requireAdmin, (req, res) => {
+router.put("/users/:id/roles", requireScope("admin"), requireAdmin, (req, res) => {
   ensureDefaultRole();
   const db = getDb();
   const user = db
@@ -1335,7 +1862,7 @@ router.put("/users/:id/roles", requireAuth, requireAdmin, (req, res) => {
 });
 
 // GET /api/admin/rooms/:id/permissions - list role permissions for a room
-router.get("/rooms/:id/permissions", requireAuth, requireAdmin, (req, res) => {
+router.get("/rooms/:id/permissions", requireScope("admin"), requireAdmin, (req, res) => {
   ensureDefaultRole();
   const db = getDb();
   const room = db
@@ -1368,7 +1895,7 @@ router.get("/rooms/:id/permissions", requireAuth, requireAdmin, (req, res) => {
 });
 
 // PUT /api/admin/rooms/:id/permissions - replace room role permissions
-router.put("/rooms/:id/permissions", requireAuth, requireAdmin, (req, res) => {
+router.put("/rooms/:id/permissions", requireScope("admin"), requireAdmin, (req, res) => {
   ensureDefaultRole();
   const db = getDb();
   const room = db
@@ -1416,7 +1943,7 @@ router.put("/rooms/:id/permissions", requireAuth, requireAdmin, (req, res) => {
 });
 
 // GET /api/admin/invites - list invite links
-router.get("/invites", requireAuth, requireAdmin, (_req, res) => {
+router.get("/invites", requireScope("admin"), requireAdmin, (_req, res) => {
   const db = getDb();
   const invites = db
     .prepare(
@@ -1431,7 +1958,7 @@ router.get("/invites", requireAuth, requireAdmin, (_req, res) => {
 });
 
 // POST /api/admin/invites - create invite link
-router.post("/invites", requireAuth, requireAdmin, (req, res) => {
+router.post("/invites", requireScope("admin"), requireAdmin, (req, res) => {
   const db = getDb();
   const creatorUserId = (req as any).user.userId as string;
   const description =
@@ -1495,7 +2022,7 @@ router.post("/invites", requireAuth, requireAdmin, (req, res) => {
 });
 
 // PUT /api/admin/invites/:id - update invite link metadata
-router.put("/invites/:id", requireAuth, requireAdmin, (req, res) => {
+router.put("/invites/:id", requireScope("admin"), requireAdmin, (req, res) => {
   const db = getDb();
   const invite = db
     .prepare("SELECT id FROM invite_links WHERE id = ?")
@@ -1584,7 +2111,7 @@ router.put("/invites/:id", requireAuth, requireAdmin, (req, res) => {
 });
 
 // DELETE /api/admin/invites/:id - delete invite link
-router.delete("/invites/:id", requireAuth, requireAdmin, (req, res) => {
+router.delete("/invites/:id", requireScope("admin"), requireAdmin, (req, res) => {
   const db = getDb();
   const result = db.prepare("DELETE FROM invite_links WHERE id = ?").run(req.params.id);
   if (result.changes === 0) {
@@ -1595,7 +2122,7 @@ router.delete("/invites/:id", requireAuth, requireAdmin, (req, res) => {
 });
 
 // GET /api/admin/audit-logs - filterable/sortable audit log table data
-router.get("/audit-logs", requireAuth, requireAdmin, (req, res) => {
+router.get("/audit-logs", requireScope("admin"), requireAdmin, (req, res) => {
   const db = getDb();
   const page = Math.max(1, Number(req.query.page || 1) || 1);
   const pageSize = Math.min(
@@ -1732,12 +2259,12 @@ router.get("/audit-logs", requireAuth, requireAdmin, (req, res) => {
 });
 
 // GET /api/admin/resources - runtime system/network/connection metrics
-router.get("/resources", requireAuth, requireAdmin, (_req, res) => {
+router.get("/resources", requireScope("admin"), requireAdmin, (_req, res) => {
   res.json(getResourceSnapshot());
 });
 
 // GET /api/admin/diagnostics - check connectivity of all configured external services
-router.get("/diagnostics", requireAuth, requireAdmin, async (_req, res) => {
+router.get("/diagnostics", requireScope("admin"), requireAdmin, async (_req, res) => {
   const [livekit, smtp, antivirus] = await Promise.all([
     testLiveKitConnection(),
     testSmtpConnection(),
@@ -1747,18 +2274,212 @@ router.get("/diagnostics", requireAuth, requireAdmin, async (_req, res) => {
 });
 
 // GET /api/admin/antivirus/test - verify configured clamd connectivity
-router.get("/antivirus/test", requireAuth, requireAdmin, async (_req, res) => {
+router.get("/antivirus/test", requireScope("admin"), requireAdmin, async (_req, res) => {
   const result = await testAntivirusConnection();
   res.json(result);
 });
 
 // GET /api/admin/antivirus/install-instructions - manual setup helper
-router.get("/antivirus/install-instructions", requireAuth, requireAdmin, (_req, res) => {
+router.get("/antivirus/install-instructions", requireScope("admin"), requireAdmin, (_req, res) => {
   res.json(getAntivirusInstallInstructions());
 });
 
+// POST /api/admin/ldap/sync - run the directory sync now instead of waiting
+router.post("/ldap/sync", requireScope("admin"), requireAdmin, async (req, res) => {
+  if (!isLdapEnabled()) {
+    res.status(400).json({ error: "LDAP is not enabled" });
+    return;
+  }
+  try {
+    const result = await runLdapSync(getDb(), { force: true });
+    const io = req.app.get("io");
+    if (io && result) {
+      for (const userId of result.deactivatedUserIds) {
+        disconnectUserSockets(io, userId, "Account deactivated");
+      }
+      if (result.rolesChanged) broadcastRoomStructure(io);
+    }
+    res.json(result);
+  } catch (err) {
+    console.error("LDAP sync failed:", err);
+    res.status(502).json({ error: "Directory server is unavailable" });
+  }
+});
+
+// POST /api/admin/push/vapid/rotate - generate (or replace) the Web Push VAPID key pair
+router.post("/push/vapid/rotate", requireScope("admin"), requireAdmin, (_req, res) => {
+  try {
+    const { publicKey, removed } = rotateVapidKeys(getDb());
+    res.json({ config: getRedactedConfig(), publicKey, removedSubscriptions: removed });
+  } catch (err) {
+    console.error("Failed to rotate VAPID keys:", err);
+    res.status(500).json({ error: "Failed to rotate VAPID keys" });
+  }
+});
+
+const MIN_WEBHOOK_SECRET_LENGTH = 16;
+
+function parseWebhookSecret(
+  raw: unknown
+): { ok: true; secret: string } | { ok: false; error: string } {
+  if (raw === undefined || raw === null || raw === "") {
+    return { ok: true, secret: generateWebhookSecret() };
+  }
+  if (typeof raw !== "string" || raw.trim().length < MIN_WEBHOOK_SECRET_LENGTH) {
+    return {
+      ok: false,
+      error: `secret must be at least ${MIN_WEBHOOK_SECRET_LENGTH} characters`,
+    };
+  }
+  return { ok: true, secret: raw.trim() };
+}
+
+// GET /api/admin/webhooks/outgoing - list outgoing webhooks and the events they can subscribe to
+router.get("/webhooks/outgoing", requireScope("admin"), requireAdmin, (_req, res) => {
+  res.json({ webhooks: listOutgoingWebhooks(getDb()), events: OUTGOING_WEBHOOK_EVENTS });
+});
+
+// POST /api/admin/webhooks/outgoing - register an endpoint; the signing secret is only returned here
+router.post("/webhooks/outgoing", requireScope("admin"), requireAdmin, (req, res) => {
+  const endpoint = parseWebhookEndpoint(req.body?.url);
+  if (!endpoint.ok) {
+    res.status(400).json({ error: endpoint.error });
+    return;
+  }
+  const events = parseWebhookEvents(req.body?.events);
+  if (!events.ok) {
+    res.status(400).json({ error: events.error });
+    return;
+  }
+  const secret = parseWebhookSecret(req.body?.secret);
+  if (!secret.ok) {
+    res.status(400).json({ error: secret.error });
+    return;
+  }
+  const description =
+    typeof req.body?.description === "string" && req.body.description.trim()
+      ? req.body.description.trim().slice(0, 200)
+      : null;
+  const webhook = createOutgoingWebhook(getDb(), {
+    url: endpoint.url,
+    description,
+    events: events.events,
+    secret: secret.secret,
+    createdByUserId: (req as any).user.userId,
+  });
+  res.json({ ...webhook, secret: secret.secret });
+});
+
+// PUT /api/admin/webhooks/outgoing/:id - update endpoint, event filter or enabled state
+router.put("/webhooks/outgoing/:id", requireScope("admin"), requireAdmin, (req, res) => {
+  const db = getDb();
+  const id = req.params.id as string;
+  if (!getOutgoingWebhook(db, id)) {
+    res.status(404).json({ error: "Webhook not found" });
+    return;
+  }
+  const patch: {
+    url?: string;
+    description?: string | null;
+    events?: OutgoingWebhookEvent[];
+    enabled?: boolean;
+  } = {};
+  if (req.body?.url !== undefined) {
+    const endpoint = parseWebhookEndpoint(req.body.url);
+    if (!endpoint.ok) {
+      res.status(400).json({ error: endpoint.error });
+      return;
+    }
+    patch.url = endpoint.url;
+  }
+  if (req.body?.events !== undefined) {
+    const events = parseWebhookEvents(req.body.events);
+    if (!events.ok) {
+      res.status(400).json({ error: events.error });
+      return;
+    }
+    patch.events = events.events;
+  }
+  if (req.body?.description !== undefined) {
+    patch.description =
+      typeof req.body.description === "string" && req.body.description.trim()
+        ? req.body.description.trim().slice(0, 200)
+        : null;
+  }
+  if (req.body?.enabled !== undefined) {
+    if (typeof req.body.enabled !== "boolean") {
+      res.status(400).json({ error: "enabled must be a boolean" });
+      return;
+    }
+    patch.enabled = req.body.enabled;
+  }
+  res.json(updateOutgoingWebhook(db, id, patch));
+});
+
+// POST /api/admin/webhooks/outgoing/:id/rotate-secret - replace the HMAC signing secret
+router.post("/webhooks/outgoing/:id/rotate-secret", requireScope("admin"), requireAdmin, (req, res) => {
+  const db = getDb();
+  const id = req.params.id as string;
+  if (!getOutgoingWebhook(db, id)) {
+    res.status(404).json({ error: "Webhook not found" });
+    return;
+  }
+  const secret = parseWebhookSecret(req.body?.secret);
+  if (!secret.ok) {
+    res.status(400).json({ error: secret.error });
+    return;
+  }
+  updateOutgoingWebhook(db, id, { secret: secret.secret });
+  res.json({ secret: secret.secret });
+});
+
+// DELETE /api/admin/webhooks/outgoing/:id - remove an endpoint and its delivery log
+router.delete("/webhooks/outgoing/:id", requireScope("admin"), requireAdmin, (req, res) => {
+  if (!deleteOutgoingWebhook(getDb(), req.params.id as string)) {
+    res.status(404).json({ error: "Webhook not found" });
+    return;
+  }
+  res.json({ success: true });
+});
+
+// GET /api/admin/webhooks/outgoing/:id/deliveries - recent deliveries, newest first
+router.get("/webhooks/outgoing/:id/deliveries", requireScope("admin"), requireAdmin, (req, res) => {
+  const db = getDb();
+  const id = req.params.id as string;
+  if (!getOutgoingWebhook(db, id)) {
+    res.status(404).json({ error: "Webhook not found" });
+    return;
+  }
+  const statusRaw = typeof req.query.status === "string" ? req.query.status.trim() : "";
+  if (statusRaw && !["pending", "succeeded", "failed"].includes(statusRaw)) {
+    res.status(400).json({ error: "status must be one of: pending, succeeded, failed" });
+    return;
+  }
+  const limit = Math.min(200, Math.max(1, Number(req.query.limit || 50) || 50));
+  res.json(
+    listOutgoingWebhookDeliveries(db, id, {
+      status: (statusRaw || undefined) as OutgoingWebhookDeliveryRow["status"] | undefined,
+      limit,
+    })
+  );
+});
+
+// POST /api/admin/webhooks/outgoing/deliveries/:id/retry - requeue a failed delivery
+router.post(
+  "/webhooks/outgoing/deliveries/:id/retry",
+  requireScope("admin"),
+  requireAdmin,
+  (req, res) => {
+    if (!retryOutgoingWebhookDelivery(getDb(), req.params.id as string)) {
+      res.status(404).json({ error: "Failed delivery not found" });
+      return;
+    }
+    res.json({ success: true });
+  }
+);
+
 // POST /api/admin/restart - request service restart
-router.post("/restart", requireAuth, requireAdmin, (_req, res) => {
+router.post("/restart", requireScope("admin"), requireAdmin, (_req, res) => {
   res.json({
     ok: true,
     message: "Server restart requested. The connection may close briefly.",
@@ -1,4 +1,4 @@
-import { Router, type Request } from "express";
+import { Router, type Request, type Response } from "express";
 import bcrypt from "bcryptjs";
 import crypto from "crypto";
 import { generateSecret, generateURI, verify } from "otplib";
@@ -8,11 +8,34 @@ import { getConfig } from "../config.js";
 import {
   generateToken,
   generateTwoFactorChallengeToken,
+  getSessionLifetimeMs,
+  issueSessionTokens,
   requireAuth,
   verifyToken,
 } from "../middleware/auth.js";
-import { broadcastPresence } from "../websocket/handler.js";
-import { getUserPermissions } from "../permissions.js";
+import {
+  broadcastPresence,
+  broadcastRoomStructure,
+  disconnectSessionSockets,
+} from "../websocket/handler.js";
+import {
+  getUserPermissions,
+  hasSecondFactor,
+  isSecondFactorSetupRequired,
+  isUserAdmin,
+} from "../permissions.js";
+import {
+  getVapidPublicKey,
+  removePushSubscription,
+  savePushSubscription,
+} from "../services/pushNotifications.js";
+import {
+  EMAIL_DIGEST_FREQUENCIES,
+  findUnsubscribeTokenUser,
+  unsubscribeWithToken,
+  type EmailDigestFrequency,
+} from "../services/emailDigest.js";
+import { enqueueOutgoingWebhookEvent } from "../services/outgoingWebhooks.js";
 import {
   consumePasswordResetToken,
   createPasswordResetToken,
@@ -20,6 +43,48 @@ import {
   isMailConfigured,
   sendPasswordResetEmail,
 } from "../services/passwordReset.js";
+import {
+  MAX_PERSONAL_ACCESS_TOKEN_EXPIRY_DAYS,
+  MAX_PERSONAL_ACCESS_TOKEN_NAME_LENGTH,
+  MAX_PERSONAL_ACCESS_TOKENS_PER_USER,
+  PERSONAL_ACCESS_TOKEN_SCOPES,
+  countActivePersonalAccessTokens,
+  createPersonalAccessToken,
+  listPersonalAccessTokens,
+  parsePersonalAccessTokenScopes,
+  revokePersonalAccessToken,
+} from "../services/personalAccessTokens.js";
+import { authenticateWithPassword } from "../services/authProviders.js";
+import {
+  completeOidcLogin,
+  consumeOidcHandoffCode,
+  createOidcHandoffCode,
+  isOidcEnabled,
+  resolveOidcReturnUrl,
+  resolveOidcUser,
+  startOidcLogin,
+  takePendingOidcLogin,
+} from "../services/oidc.js";
+import { checkNewAccountAllowed } from "../services/registrationRules.js";
+import {
+  listUserSessions,
+  revokeUserSession,
+  revokeUserSessions,
+  rotateRefreshToken,
+} from "../services/sessions.js";
+import {
+  MAX_WEBAUTHN_CREDENTIALS_PER_USER,
+  MAX_WEBAUTHN_NICKNAME_LENGTH,
+  countWebAuthnCredentials,
+  deleteWebAuthnCredential,
+  finishWebAuthnAuthentication,
+  finishWebAuthnRegistration,
+  getRelyingParty,
+  listWebAuthnCredentials,
+  renameWebAuthnCredential,
+  startWebAuthnAuthentication,
+  startWebAuthnRegistration,
+} from "../services/webauthn.js";
 
 const router = Router();
 const USERNAME_PATTERN = /^[a-zA-Z0-9._-]{2,32}$/;
@@ -129,6 +194,68 @@ function getServerBaseUrl(req: Request): string {
   return `${proto}://${host}`;
 }
 
+type TwoFactorMethod = "totp" | "webauthn";
+
+/** Second factors the user can answer a login challenge with */
+function getTwoFactorMethods(user: {
+  id: string;
+  two_factor_enabled: number;
+  two_factor_secret: string | null;
+}): TwoFactorMethod[] {
+  const methods: TwoFactorMethod[] = [];
+  if (user.two_factor_enabled === 1 && user.two_factor_secret) methods.push("totp");
+  if (countWebAuthnCredentials(getDb(), user.id) > 0) methods.push("webauthn");
+  return methods;
+}
+
+type TwoFactorChallenge = {
+  userId: string;
+  username: string;
+  email: string;
+  isAdmin: boolean;
+};
+
+function readTwoFactorChallenge(challengeToken: unknown): TwoFactorChallenge | null {
+  if (typeof challengeToken !== "string" || !challengeToken.trim()) return null;
+  try {
+    const payload = verifyToken(challengeToken) as TwoFactorChallenge & { purpose?: string };
+    return payload.purpose === "two_factor_challenge" ? payload : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Mark the user online, issue a session and send the standard login response */
+function sendLoginSession(
+  req: Request,
+  res: Response,
+  user: { id: string; username: string; email: string },
+  isAdmin: boolean
+) {
+  const db = getDb();
+  db.prepare("UPDATE users SET status = 'online', activity_game = NULL WHERE id = ?").run(user.id);
+  const clientVersion = typeof req.headers["x-client-version"] === "string"
+    ? req.headers["x-client-version"]
+    : null;
+  if (clientVersion) {
+    db.prepare("UPDATE users SET last_client_version = ? WHERE id = ?").run(clientVersion, user.id);
+  }
+  const { token, refreshToken, expiresIn } = issueSessionTokens(req, {
+    userId: user.id,
+    username: user.username,
+    email: user.email,
+    isAdmin,
+  });
+  const permissions = getUserPermissions(db, user.id, isAdmin);
+  res.json({
+    token,
+    refreshToken,
+    expiresIn,
+    user: { id: user.id, username: user.username, email: user.email, isAdmin, permissions },
+    ...(isSecondFactorSetupRequired(db, user.id, isAdmin) && { requiresSecondFactorSetup: true }),
+  });
+}
+
 function canAcceptPasswordResetRequest(req: Request, normalizedEmail: string) {
   const key = `${getClientIp(req)}|${normalizedEmail}`;
   const now = Date.now();
@@ -244,47 +371,10 @@ router.post("/register", (req, res) => {
     }
   }
 
-  // Check email allowlist
-  if (config.registration.emailAllowlist.length > 0) {
-    const allowed = config.registration.emailAllowlist.some(
-      (pattern) =>
-        normalizedEmail === pattern.toLowerCase() ||
-        normalizedEmail.endsWith(
-          (pattern.startsWith("@") ? pattern : `@${pattern}`).toLowerCase()
-        )
-    );
-    if (!allowed) {
-      res.status(403).json({ error: "Email not allowed on this server" });
-      return;
-    }
-  }
-
-  // Check email blocklist
-  if (config.registration.emailBlocklist.length > 0) {
-    const blocked = config.registration.emailBlocklist.some(
-      (pattern) =>
-        normalizedEmail === pattern.toLowerCase() ||
-        normalizedEmail.endsWith(
-          (pattern.startsWith("@") ? pattern : `@${pattern}`).toLowerCase()
-        )
-    );
-    if (blocked) {
-      res.status(403).json({ error: "Email not allowed on this server" });
-      return;
-    }
-  }
-
-  // Check max users
-  if (config.maxUsers > 0) {
-    const count = db.prepare("SELECT COUNT(*) as count FROM users").get() as {
-      count: number;
-    };
-    if (count.count >= config.maxUsers) {
-      res
-        .status(403)
-        .json({ error: "Server has reached maximum user capacity" });
-      return;
-    }
+  const rejection = checkNewAccountAllowed(db, normalizedEmail);
+  if (rejection) {
+    res.status(403).json({ error: rejection });
+    return;
   }
 
   const existing = db
@@ -311,8 +401,11 @@ router.post("/register", (req, res) => {
       "UPDATE invite_links SET uses = uses + 1 WHERE id = ?"
     ).run(consumedInviteLinkId);
   }
+  enqueueOutgoingWebhookEvent(db, "member.joined", {
+    user: { id, username: normalizedUsername },
+  });
 
-  const token = generateToken({
+  const { token, refreshToken, expiresIn } = issueSessionTokens(req, {
     userId: id,
     username: normalizedUsername,
     email: normalizedEmail,
@@ -323,12 +416,14 @@ router.post("/register", (req, res) => {
 
   res.json({
     token,
+    refreshToken,
+    expiresIn,
     user: { id, username: normalizedUsername, email: normalizedEmail, isAdmin, permissions },
   });
 });
 
 // POST /api/auth/login
-router.post("/login", (req, res) => {
+router.post("/login", async (req, res) => {
   const config = getConfig();
   const { email, password } = req.body;
 
@@ -352,27 +447,12 @@ router.post("/login", (req, res) => {
   }
 
   const db = getDb();
-
-  const user = db
-    .prepare(
-      `SELECT id, username, email, password_hash,
-              two_factor_enabled, two_factor_secret,
-              is_setup_account
-       FROM users WHERE email = ?`
-    )
-    .get(normalizedEmail) as
-    | {
-        id: string;
-        username: string;
-        email: string;
-        password_hash: string;
-        two_factor_enabled: number;
-        two_factor_secret: string | null;
-        is_setup_account: number;
-      }
-    | undefined;
-
-  if (!user || !bcrypt.compareSync(password, user.password_hash)) {
+  const authResult = await authenticateWithPassword(db, normalizedEmail, password);
+  if (!authResult.ok) {
+    if (!authResult.invalidCredentials) {
+      res.status(403).json({ error: authResult.error });
+      return;
+    }
     registerFailedLogin(
       attemptKey,
       config.loginMaxAttempts,
@@ -382,6 +462,27 @@ router.post("/login", (req, res) => {
     res.status(401).json({ error: "Invalid email or password" });
     return;
   }
+  if (authResult.rolesChanged) {
+    const io = req.app.get("io");
+    if (io) broadcastRoomStructure(io);
+  }
+
+  const user = db
+    .prepare(
+      `SELECT id, username, email, deactivated_at,
+              two_factor_enabled, two_factor_secret,
+              is_setup_account
+       FROM users WHERE id = ?`
+    )
+    .get(authResult.userId) as {
+      id: string;
+      username: string;
+      email: string;
+      deactivated_at: string | null;
+      two_factor_enabled: number;
+      two_factor_secret: string | null;
+      is_setup_account: number;
+    };
 
   clearLoginAttemptsForEmail(normalizedEmail);
   const ban = db
@@ -391,6 +492,10 @@ router.post("/login", (req, res) => {
     res.status(403).json({ error: "This account is banned from this server" });
     return;
   }
+  if (user.deactivated_at) {
+    res.status(403).json({ error: "This account has been deactivated" });
+    return;
+  }
 
   const isAdmin = config.adminEmails.some(
     (adminEmail) => normalizeEmail(adminEmail) === normalizeEmail(user.email)
@@ -402,7 +507,8 @@ router.post("/login", (req, res) => {
     return;
   }
 
-  if (user.two_factor_enabled === 1 && user.two_factor_secret) {
+  const twoFactorMethods = getTwoFactorMethods(user);
+  if (twoFactorMethods.length) {
     const challengeToken = generateTwoFactorChallengeToken({
       userId: user.id,
       username: user.username,
@@ -411,6 +517,7 @@ router.post("/login", (req, res) => {
     });
     res.json({
       requiresTwoFactor: true,
+      twoFactorMethods,
       challengeToken,
       user: { id: user.id, username: user.username, email: user.email, isAdmin },
     });
@@ -426,7 +533,7 @@ router.post("/login", (req, res) => {
     db.prepare("UPDATE users SET last_client_version = ? WHERE id = ?").run(clientVersion, user.id);
   }
 
-  const token = generateToken({
+  const { token, refreshToken, expiresIn } = issueSessionTokens(req, {
     userId: user.id,
     username: user.username,
     email: user.email,
@@ -438,8 +545,11 @@ router.post("/login", (req, res) => {
 
   res.json({
     token,
+    refreshToken,
+    expiresIn,
     user: { id: user.id, username: user.username, email: user.email, isAdmin, permissions },
     ...(isSetupAccount && { requiresSetup: true }),
+    ...(isSecondFactorSetupRequired(db, user.id, isAdmin) && { requiresSecondFactorSetup: true }),
   });
 });
 
@@ -468,8 +578,12 @@ router.post("/password-reset/request", async (req, res) => {
   }
 
   const db = getDb();
+  // Directory accounts change their password in the directory, not here.
   const user = db
-    .prepare("SELECT id, username, email FROM users WHERE email = ?")
+    .prepare(
+      `SELECT id, username, email FROM users
+       WHERE email = ? AND auth_provider = 'local' AND deactivated_at IS NULL`
+    )
     .get(email) as { id: string; username: string; email: string } | undefined;
 
   if (!user) {
@@ -518,7 +632,7 @@ router.post("/password-reset/confirm", (req, res) => {
   }
 
   const user = db
-    .prepare("SELECT id, email FROM users WHERE id = ?")
+    .prepare("SELECT id, email FROM users WHERE id = ? AND auth_provider = 'local'")
     .get(consumed.userId) as { id: string; email: string } | undefined;
   if (!user) {
     res.status(400).json({ error: "Invalid reset token" });
@@ -535,47 +649,58 @@ router.post("/password-reset/confirm", (req, res) => {
 
   invalidateAllPasswordResetTokensForUser(db, user.id);
   clearLoginAttemptsForEmail(normalizeEmail(user.email));
+  // Whoever knew the old password may still be signed in somewhere.
+  const io = req.app.get("io");
+  const revoked = revokeUserSessions(db, user.id);
+  if (io) disconnectSessionSockets(io, revoked, "Your password was changed");
   res.json({ ok: true });
 });
 
-// POST /api/auth/login/2fa
+// POST /api/auth/login/2fa/webauthn/options - challenge for a security key second factor
+router.post("/login/2fa/webauthn/options", async (req, res) => {
+  const challenge = readTwoFactorChallenge(req.body?.challengeToken);
+  if (!challenge) {
+    res.status(401).json({ error: "Invalid or expired 2FA challenge" });
+    return;
+  }
+  const started = await startWebAuthnAuthentication(
+    getDb(),
+    challenge.userId,
+    getRelyingParty(getServerBaseUrl(req))
+  );
+  if (!started) {
+    res.status(400).json({ error: "No security keys are registered for this account" });
+    return;
+  }
+  res.json(started);
+});
+
+// POST /api/auth/login/2fa - answer the challenge with a TOTP code or a security key
 router.post("/login/2fa", async (req, res) => {
-  const { challengeToken, code } = req.body ?? {};
+  const { challengeToken, code, ceremonyId, credential } = req.body ?? {};
   if (typeof challengeToken !== "string" || !challengeToken.trim()) {
     res.status(400).json({ error: "challengeToken is required" });
     return;
   }
+  const useWebAuthn = credential !== undefined;
   const normalizedCode = normalizeTwoFactorCode(code);
-  if (!/^\d{6}$/.test(normalizedCode)) {
+  if (!useWebAuthn && !/^\d{6}$/.test(normalizedCode)) {
     res.status(400).json({ error: "Code must be a 6-digit number" });
     return;
   }
 
-  let payload: {
-    userId: string;
-    username: string;
-    email: string;
-    isAdmin: boolean;
-    purpose?: string;
-  };
-  try {
-    payload = verifyToken(challengeToken) as any;
-  } catch {
+  const payload = readTwoFactorChallenge(challengeToken);
+  if (!payload) {
     res.status(401).json({ error: "Invalid or expired 2FA challenge" });
     return;
   }
 
-  if (payload.purpose !== "two_factor_challenge") {
-    res.status(401).json({ error: "Invalid 2FA challenge" });
-    return;
-  }
-
   const db = getDb();
   const user = db
     .prepare(
       `SELECT id, username, email, two_factor_enabled, two_factor_secret
        FROM users
-       WHERE id = ?`
+       WHERE id = ? AND deactivated_at IS NULL`
     )
     .get(payload.userId) as
     | {
@@ -587,7 +712,7 @@ router.post("/login/2fa", async (req, res) => {
       }
     | undefined;
 
-  if (!user || user.two_factor_enabled !== 1 || !user.two_factor_secret) {
+  if (!user || !getTwoFactorMethods(user).includes(useWebAuthn ? "webauthn" : "totp")) {
     res.status(401).json({ error: "2FA is not enabled for this account" });
     return;
   }
@@ -599,37 +724,234 @@ router.post("/login/2fa", async (req, res) => {
     return;
   }
 
-  const valid = await verify({ token: normalizedCode, secret: user.two_factor_secret });
-  if (!valid) {
-    res.status(401).json({ error: "Invalid authentication code" });
+  if (useWebAuthn) {
+    const result = await finishWebAuthnAuthentication(
+      db,
+      user.id,
+      { ceremonyId, response: credential },
+      getRelyingParty(getServerBaseUrl(req))
+    );
+    if (!result.ok) {
+      res.status(401).json({ error: result.error });
+      return;
+    }
+  } else {
+    const valid = await verify({ token: normalizedCode, secret: user.two_factor_secret ?? "" });
+    if (!valid) {
+      res.status(401).json({ error: "Invalid authentication code" });
+      return;
+    }
+  }
+
+  sendLoginSession(req, res, user, payload.isAdmin);
+});
+
+// POST /api/auth/passkey/options - start a passwordless passkey login
+router.post("/passkey/options", async (req, res) => {
+  const started = await startWebAuthnAuthentication(
+    getDb(),
+    null,
+    getRelyingParty(getServerBaseUrl(req))
+  );
+  res.json(started);
+});
+
+// POST /api/auth/passkey/login - a verified passkey stands in for password and 2FA
+router.post("/passkey/login", async (req, res) => {
+  const { ceremonyId, credential } = req.body ?? {};
+  if (!credential || typeof credential !== "object") {
+    res.status(400).json({ error: "credential is required" });
     return;
   }
 
-  const isAdmin = payload.isAdmin;
-  db.prepare("UPDATE users SET status = 'online', activity_game = NULL WHERE id = ?").run(user.id);
-  const clientVersion2fa = typeof req.headers["x-client-version"] === "string"
-    ? req.headers["x-client-version"]
-    : null;
-  if (clientVersion2fa) {
-    db.prepare("UPDATE users SET last_client_version = ? WHERE id = ?").run(clientVersion2fa, user.id);
+  const config = getConfig();
+  const db = getDb();
+  const result = await finishWebAuthnAuthentication(
+    db,
+    null,
+    { ceremonyId, response: credential },
+    getRelyingParty(getServerBaseUrl(req))
+  );
+  if (!result.ok) {
+    res.status(401).json({ error: result.error });
+    return;
   }
-  const token = generateToken({
-    userId: user.id,
-    username: user.username,
-    email: user.email,
-    isAdmin,
-  });
-  const permissions = getUserPermissions(db, user.id, isAdmin);
-  res.json({
-    token,
-    user: {
-      id: user.id,
+
+  const user = db
+    .prepare("SELECT id, username, email, deactivated_at FROM users WHERE id = ?")
+    .get(result.userId) as
+    | { id: string; username: string; email: string; deactivated_at: string | null }
+    | undefined;
+  if (!user) {
+    res.status(401).json({ error: "This security key is not registered" });
+    return;
+  }
+  if (user.deactivated_at) {
+    res.status(403).json({ error: "This account has been deactivated" });
+    return;
+  }
+  const ban = db
+    .prepare("SELECT user_id FROM server_bans WHERE user_id = ?")
+    .get(user.id) as { user_id: string } | undefined;
+  if (ban) {
+    res.status(403).json({ error: "This account is banned from this server" });
+    return;
+  }
+
+  const isAdmin = isUserAdmin(db, user.id);
+  if (config.maintenanceMode && !isAdmin) {
+    res.status(503).json({ error: "Server is in maintenance mode. Please try again later." });
+    return;
+  }
+
+  sendLoginSession(req, res, user, isAdmin);
+});
+
+function getOidcRedirectUri(req: Request): string {
+  const config = getConfig();
+  return (
+    config.oidc.redirectUri ||
+    `${config.publicUrl || getServerBaseUrl(req)}/api/auth/oidc/callback`
+  );
+}
+
+function withOidcResult(returnTo: string, params: Record<string, string>): string {
+  return `${returnTo.split("#")[0]}#${new URLSearchParams(params).toString()}`;
+}
+
+// GET /api/auth/oidc/login?returnTo=<url> - redirect the browser to the IdP
+router.get("/oidc/login", async (req, res) => {
+  if (!isOidcEnabled()) {
+    res.status(404).json({ error: "Single sign-on is not enabled on this server" });
+    return;
+  }
+  const config = getConfig();
+  const returnTo = resolveOidcReturnUrl(
+    req.query.returnTo,
+    config.publicUrl || getServerBaseUrl(req)
+  );
+  if (!returnTo) {
+    res.status(400).json({ error: "returnTo is not an allowed URL" });
+    return;
+  }
+
+  try {
+    const authorizationUrl = await startOidcLogin({
+      redirectUri: getOidcRedirectUri(req),
+      returnTo,
+    });
+    res.redirect(authorizationUrl);
+  } catch (err) {
+    console.error("OIDC login failed to start:", err);
+    res.status(502).json({ error: "Identity provider is unavailable" });
+  }
+});
+
+// GET /api/auth/oidc/callback - the IdP sends the browser back here
+router.get("/oidc/callback", async (req, res) => {
+  const pending = takePendingOidcLogin(req.query.state);
+  if (!pending) {
+    res.status(400).json({ error: "Sign-in request expired or is invalid. Please try again." });
+    return;
+  }
+  if (typeof req.query.error === "string") {
+    res.redirect(withOidcResult(pending.returnTo, { oidc_error: "Sign-in was cancelled or denied" }));
+    return;
+  }
+  const code = typeof req.query.code === "string" ? req.query.code : "";
+  if (!code || !isOidcEnabled()) {
+    res.redirect(withOidcResult(pending.returnTo, { oidc_error: "Sign-in failed" }));
+    return;
+  }
+
+  let claims;
+  try {
+    claims = await completeOidcLogin(pending, code);
+  } catch (err) {
+    console.error("OIDC callback failed:", err);
+    res.redirect(withOidcResult(pending.returnTo, { oidc_error: "Sign-in failed" }));
+    return;
+  }
+
+  const result = resolveOidcUser(getDb(), claims);
+  if (!result.ok) {
+    res.redirect(withOidcResult(pending.returnTo, { oidc_error: result.error }));
+    return;
+  }
+  if (result.rolesChanged) {
+    const io = req.app.get("io");
+    if (io) broadcastRoomStructure(io);
+  }
+  res.redirect(
+    withOidcResult(pending.returnTo, { oidc_code: createOidcHandoffCode(result.userId) })
+  );
+});
+
+// POST /api/auth/oidc/exchange - trade the callback's one-time code for tokens
+router.post("/oidc/exchange", (req, res) => {
+  const userId = consumeOidcHandoffCode(req.body?.code);
+  if (!userId) {
+    res.status(400).json({ error: "Invalid or expired sign-in code" });
+    return;
+  }
+
+  const config = getConfig();
+  const db = getDb();
+  const user = db
+    .prepare(
+      `SELECT id, username, email, two_factor_enabled, two_factor_secret, deactivated_at
+       FROM users WHERE id = ?`
+    )
+    .get(userId) as
+    | {
+        id: string;
+        username: string;
+        email: string;
+        two_factor_enabled: number;
+        two_factor_secret: string | null;
+        deactivated_at: string | null;
+      }
+    | undefined;
+  if (!user) {
+    res.status(400).json({ error: "Invalid or expired sign-in code" });
+    return;
+  }
+  if (user.deactivated_at) {
+    res.status(403).json({ error: "This account has been deactivated" });
+    return;
+  }
+  const ban = db
+    .prepare("SELECT user_id FROM server_bans WHERE user_id = ?")
+    .get(user.id) as { user_id: string } | undefined;
+  if (ban) {
+    res.status(403).json({ error: "This account is banned from this server" });
+    return;
+  }
+
+  const isAdmin = isUserAdmin(db, user.id);
+  if (config.maintenanceMode && !isAdmin) {
+    res.status(503).json({ error: "Server is in maintenance mode. Please try again later." });
+    return;
+  }
+
+  const twoFactorMethods = getTwoFactorMethods(user);
+  if (twoFactorMethods.length) {
+    const challengeToken = generateTwoFactorChallengeToken({
+      userId: user.id,
       username: user.username,
       email: user.email,
       isAdmin,
-      permissions,
-    },
-  });
+    });
+    res.json({
+      requiresTwoFactor: true,
+      twoFactorMethods,
+      challengeToken,
+      user: { id: user.id, username: user.username, email: user.email, isAdmin },
+    });
+    return;
+  }
+
+  sendLoginSession(req, res, user, isAdmin);
 });
 
 // GET /api/auth/me
@@ -643,6 +965,7 @@ router.get("/me", requireAuth, (req, res) => {
               activity_game,
               desktop_notifications_enabled,
               desktop_notifications_mentions_only,
+              email_digest_frequency,
               push_to_talk_enabled, push_to_mute_enabled, push_to_talk_key,
               audio_input_sensitivity,
               noise_suppression_mode,
@@ -662,7 +985,13 @@ router.get("/me", requireAuth, (req, res) => {
   const permissions = getUserPermissions(db, userId, isAdmin);
   const isSetupAccount = profile.is_setup_account === 1;
   const { is_setup_account: _, ...profileWithout } = profile;
-  res.json({ ...profileWithout, isAdmin, permissions, ...(isSetupAccount && { requiresSetup: true }) });
+  res.json({
+    ...profileWithout,
+    isAdmin,
+    permissions,
+    ...(isSetupAccount && { requiresSetup: true }),
+    ...(isSecondFactorSetupRequired(db, userId, isAdmin) && { requiresSecondFactorSetup: true }),
+  });
 });
 
 // GET /api/auth/2fa/status
@@ -676,7 +1005,11 @@ router.get("/2fa/status", requireAuth, (req, res) => {
        WHERE id = ?`
     )
     .get(userId) as { two_factor_enabled: number } | undefined;
-  res.json({ enabled: (row?.two_factor_enabled ?? 0) === 1 });
+  res.json({
+    enabled: (row?.two_factor_enabled ?? 0) === 1,
+    webauthnCredentials: countWebAuthnCredentials(db, userId),
+    setupRequired: isSecondFactorSetupRequired(db, userId, (req as any).user.isAdmin),
+  });
 });
 
 // POST /api/auth/2fa/setup
@@ -853,9 +1186,118 @@ router.post("/2fa/disable", requireAuth, async (req, res) => {
      WHERE id = ?`
   ).run(userId);
 
+  const io = req.app.get("io");
+  const revoked = revokeUserSessions(db, userId, (req as any).user.sessionId ?? null);
+  if (io) disconnectSessionSockets(io, revoked, "Two-factor authentication was disabled");
+
   res.json({ enabled: false });
 });
 
+function parseWebAuthnNickname(raw: unknown): string | null {
+  if (typeof raw !== "string") return null;
+  const nickname = raw.trim();
+  if (!nickname || nickname.length > MAX_WEBAUTHN_NICKNAME_LENGTH) return null;
+  return nickname;
+}
+
+// GET /api/auth/webauthn/credentials
+router.get("/webauthn/credentials", requireAuth, (req, res) => {
+  const { userId } = (req as any).user;
+  res.json({ credentials: listWebAuthnCredentials(getDb(), userId) });
+});
+
+// POST /api/auth/webauthn/register/options - start registering a passkey or security key
+router.post("/webauthn/register/options", requireAuth, async (req, res) => {
+  const db = getDb();
+  const { userId } = (req as any).user;
+  const user = db
+    .prepare("SELECT id, username, email FROM users WHERE id = ?")
+    .get(userId) as { id: string; username: string; email: string } | undefined;
+  if (!user) {
+    res.status(404).json({ error: "User not found" });
+    return;
+  }
+  if (countWebAuthnCredentials(db, userId) >= MAX_WEBAUTHN_CREDENTIALS_PER_USER) {
+    res.status(400).json({
+      error: `You can register at most ${MAX_WEBAUTHN_CREDENTIALS_PER_USER} security keys`,
+    });
+    return;
+  }
+  res.json(await startWebAuthnRegistration(db, user, getRelyingParty(getServerBaseUrl(req))));
+});
+
+// POST /api/auth/webauthn/register
+router.post("/webauthn/register", requireAuth, async (req, res) => {
+  const db = getDb();
+  const { userId } = (req as any).user;
+  const { ceremonyId, credential } = req.body ?? {};
+  const nickname = parseWebAuthnNickname(req.body?.nickname);
+  if (!nickname) {
+    res.status(400).json({
+      error: `nickname is required (max ${MAX_WEBAUTHN_NICKNAME_LENGTH} characters)`,
+    });
+    return;
+  }
+  if (!credential || typeof credential !== "object") {
+    res.status(400).json({ error: "credential is required" });
+    return;
+  }
+  if (countWebAuthnCredentials(db, userId) >= MAX_WEBAUTHN_CREDENTIALS_PER_USER) {
+    res.status(400).json({
+      error: `You can register at most ${MAX_WEBAUTHN_CREDENTIALS_PER_USER} security keys`,
+    });
+    return;
+  }
+
+  const result = await finishWebAuthnRegistration(
+    db,
+    userId,
+    { ceremonyId, response: credential, nickname },
+    getRelyingParty(getServerBaseUrl(req))
+  );
+  if (!result.ok) {
+    res.status(400).json({ error: result.error });
+    return;
+  }
+  res.status(201).json({ credential: result.credential });
+});
+
+// PATCH /api/auth/webauthn/credentials/:id
+router.patch("/webauthn/credentials/:id", requireAuth, (req, res) => {
+  const { userId } = (req as any).user;
+  const nickname = parseWebAuthnNickname(req.body?.nickname);
+  if (!nickname) {
+    res.status(400).json({
+      error: `nickname is required (max ${MAX_WEBAUTHN_NICKNAME_LENGTH} characters)`,
+    });
+    return;
+  }
+  if (!renameWebAuthnCredential(getDb(), userId, req.params.id as string, nickname)) {
+    res.status(404).json({ error: "Security key not found" });
+    return;
+  }
+  res.json({ ok: true });
+});
+
+// DELETE /api/auth/webauthn/credentials/:id
+router.delete("/webauthn/credentials/:id", requireAuth, (req, res) => {
+  const db = getDb();
+  const { userId } = (req as any).user;
+  if (!deleteWebAuthnCredential(db, userId, req.params.id as string)) {
+    res.status(404).json({ error: "Security key not found" });
+    return;
+  }
+
+  // Losing the last second factor signs out other sessions, as turning off
+  // TOTP does.
+  if (!hasSecondFactor(db, userId)) {
+    const io = req.app.get("io");
+    const revoked = revokeUserSessions(db, userId, (req as any).user.sessionId ?? null);
+    if (io) disconnectSessionSockets(io, revoked, "Two-factor authentication was disabled");
+  }
+  res.json({ ok: true });
+});
+
 // PUT /api/auth/profile
 router.put("/profile", requireAuth, (req, res) => {
   const db = getDb();
@@ -967,6 +1409,15 @@ router.put("/profile", requireAuth, (req, res) => {
     updates.desktop_notifications_mentions_only = value === true || value === 1 ? 1 : 0;
   }
 
+  if (req.body.email_digest_frequency !== undefined) {
+    const value = req.body.email_digest_frequency;
+    if (typeof value !== "string" || !EMAIL_DIGEST_FREQUENCIES.includes(value as EmailDigestFrequency)) {
+      res.status(400).json({ error: "email_digest_frequency must be one of: off, hourly, daily" });
+      return;
+    }
+    updates.email_digest_frequency = value;
+  }
+
   if (req.body.push_to_mute_enabled !== undefined) {
     const value = req.body.push_to_mute_enabled;
     if (
@@ -1091,6 +1542,10 @@ router.put("/profile", requireAuth, (req, res) => {
     updates,
     "desktop_notifications_mentions_only"
   );
+  const hasEmailDigestFrequency = Object.prototype.hasOwnProperty.call(
+    updates,
+    "email_digest_frequency"
+  );
   const hasPushToMuteEnabled = Object.prototype.hasOwnProperty.call(updates, "push_to_mute_enabled");
   const hasPushToTalkKey = Object.prototype.hasOwnProperty.call(updates, "push_to_talk_key");
   const hasAudioInputSensitivity = Object.prototype.hasOwnProperty.call(updates, "audio_input_sensitivity");
@@ -1109,6 +1564,7 @@ router.put("/profile", requireAuth, (req, res) => {
     !hasPushToTalkEnabled &&
     !hasDesktopNotificationsEnabled &&
     !hasDesktopNotificationsMentionsOnly &&
+    !hasEmailDigestFrequency &&
     !hasPushToMuteEnabled &&
     !hasPushToTalkKey &&
     !hasAudioInputSensitivity &&
@@ -1141,6 +1597,10 @@ router.put("/profile", requireAuth, (req, res) => {
            WHEN @hasDesktopNotificationsMentionsOnly THEN @desktopNotificationsMentionsOnly
            ELSE desktop_notifications_mentions_only
          END,
+         email_digest_frequency = CASE
+           WHEN @hasEmailDigestFrequency THEN @emailDigestFrequency
+           ELSE email_digest_frequency
+         END,
          push_to_mute_enabled = CASE
            WHEN @hasPushToMuteEnabled THEN @pushToMuteEnabled
            ELSE push_to_mute_enabled
@@ -1179,6 +1639,8 @@ router.put("/profile", requireAuth, (req, res) => {
     desktopNotificationsEnabled: updates.desktop_notifications_enabled,
     hasDesktopNotificationsMentionsOnly: hasDesktopNotificationsMentionsOnly ? 1 : 0,
     desktopNotificationsMentionsOnly: updates.desktop_notifications_mentions_only,
+    hasEmailDigestFrequency: hasEmailDigestFrequency ? 1 : 0,
+    emailDigestFrequency: updates.email_digest_frequency,
     hasPushToMuteEnabled: hasPushToMuteEnabled ? 1 : 0,
     pushToMuteEnabled: updates.push_to_mute_enabled,
     hasPushToTalkKey: hasPushToTalkKey ? 1 : 0,
@@ -1206,6 +1668,7 @@ router.put("/profile", requireAuth, (req, res) => {
               activity_game,
               desktop_notifications_enabled,
               desktop_notifications_mentions_only,
+              email_digest_frequency,
               push_to_talk_enabled, push_to_mute_enabled, push_to_talk_key,
               audio_input_sensitivity,
               noise_suppression_mode,
@@ -1227,4 +1690,268 @@ router.put("/profile", requireAuth, (req, res) => {
   res.json({ ...profile, isAdmin, permissions });
 });
 
+// GET /api/auth/push/vapid-public-key
+router.get("/push/vapid-public-key", requireAuth, (_req, res) => {
+  const publicKey = getVapidPublicKey();
+  if (!publicKey) {
+    res.status(404).json({ error: "Push notifications are not enabled on this server" });
+    return;
+  }
+  res.json({ publicKey });
+});
+
+// POST /api/auth/push/subscriptions - register a browser PushSubscription
+router.post("/push/subscriptions", requireAuth, (req, res) => {
+  const { userId } = (req as any).user;
+  const endpoint = typeof req.body?.endpoint === "string" ? req.body.endpoint.trim() : "";
+  const p256dh = typeof req.body?.keys?.p256dh === "string" ? req.body.keys.p256dh.trim() : "";
+  const auth = typeof req.body?.keys?.auth === "string" ? req.body.keys.auth.trim() : "";
+  if (!getVapidPublicKey()) {
+    res.status(404).json({ error: "Push notifications are not enabled on this server" });
+    return;
+  }
+  if (!/^https:\/\//i.test(endpoint) || endpoint.length > 2048 || !p256dh || !auth) {
+    res.status(400).json({ error: "endpoint, keys.p256dh and keys.auth are required" });
+    return;
+  }
+  const userAgent =
+    typeof req.headers["user-agent"] === "string" ? req.headers["user-agent"].slice(0, 255) : null;
+  savePushSubscription(getDb(), userId, { endpoint, p256dh, auth, userAgent });
+  res.status(201).json({ ok: true });
+});
+
+// DELETE /api/auth/push/subscriptions
+router.delete("/push/subscriptions", requireAuth, (req, res) => {
+  const { userId } = (req as any).user;
+  const endpoint = typeof req.body?.endpoint === "string" ? req.body.endpoint.trim() : "";
+  if (!endpoint) {
+    res.status(400).json({ error: "endpoint is required" });
+    return;
+  }
+  const removed = removePushSubscription(getDb(), userId, endpoint);
+  if (!removed) {
+    res.status(404).json({ error: "Subscription not found" });
+    return;
+  }
+  res.json({ ok: true });
+});
+
+// POST /api/auth/refresh - trade a refresh token for a new access token
+// JSON body: { refreshToken }
+// The refresh token is single-use; the response carries its replacement.
+router.post("/refresh", (req, res) => {
+  const refreshToken = typeof req.body?.refreshToken === "string" ? req.body.refreshToken : "";
+  if (!refreshToken) {
+    res.status(400).json({ error: "refreshToken is required" });
+    return;
+  }
+  const db = getDb();
+  const rotated = rotateRefreshToken(db, refreshToken, getSessionLifetimeMs());
+  if (!rotated.ok) {
+    const io = req.app.get("io");
+    if (io && rotated.revokedSessionId) {
+      disconnectSessionSockets(io, [rotated.revokedSessionId], "Your session was signed out");
+    }
+    res.status(401).json({ error: rotated.error });
+    return;
+  }
+
+  const user = db
+    .prepare("SELECT id, username, email FROM users WHERE id = ?")
+    .get(rotated.session.user_id) as { id: string; username: string; email: string } | undefined;
+  if (!user) {
+    res.status(401).json({ error: "Invalid or expired refresh token" });
+    return;
+  }
+  res.json({
+    token: generateToken({
+      userId: user.id,
+      username: user.username,
+      email: user.email,
+      isAdmin: isUserAdmin(db, user.id),
+      sessionId: rotated.session.id,
+    }),
+    refreshToken: rotated.refreshToken,
+    expiresIn: getConfig().accessTokenMinutes * 60,
+  });
+});
+
+// GET /api/auth/sessions - the caller's signed-in devices
+router.get("/sessions", requireAuth, (req, res) => {
+  const { userId, sessionId } = (req as any).user;
+  res.json(
+    listUserSessions(getDb(), userId).map((session) => ({
+      ...session,
+      current: session.id === sessionId,
+    }))
+  );
+});
+
+// POST /api/auth/logout - end the caller's current session
+router.post("/logout", requireAuth, (req, res) => {
+  const { userId, sessionId } = (req as any).user;
+  if (sessionId) {
+    revokeUserSession(getDb(), userId, sessionId);
+    const io = req.app.get("io");
+    if (io) disconnectSessionSockets(io, [sessionId], "Signed out");
+  }
+  res.json({ ok: true });
+});
+
+// POST /api/auth/sessions/revoke-others - sign out everywhere except here
+router.post("/sessions/revoke-others", requireAuth, (req, res) => {
+  const { userId, sessionId } = (req as any).user;
+  const revoked = revokeUserSessions(getDb(), userId, sessionId ?? null);
+  const io = req.app.get("io");
+  if (io) disconnectSessionSockets(io, revoked, "Signed out from another device");
+  res.json({ ok: true, revoked: revoked.length });
+});
+
+// DELETE /api/auth/sessions/:id - sign out one device
+router.delete("/sessions/:id", requireAuth, (req, res) => {
+  const { userId } = (req as any).user;
+  const id = req.params.id as string;
+  if (!revokeUserSession(getDb(), userId, id)) {
+    res.status(404).json({ error: "Session not found" });
+    return;
+  }
+  const io = req.app.get("io");
+  if (io) disconnectSessionSockets(io, [id], "Signed out from another device");
+  res.json({ ok: true });
+});
+
+// GET /api/auth/tokens - the caller's personal access tokens (never the secrets)
+router.get("/tokens", requireAuth, (req, res) => {
+  const { userId } = (req as any).user;
+  res.json(listPersonalAccessTokens(getDb(), userId));
+});
+
+// POST /api/auth/tokens - create a personal access token
+// JSON body: { name, scopes: ["messages:read" | "files:write" | "admin"], expiresInDays?: number | null }
+router.post("/tokens", requireAuth, (req, res) => {
+  const db = getDb();
+  const { userId, isAdmin, isBot } = (req as any).user;
+  if (isBot) {
+    res.status(403).json({ error: "Bots use bot tokens instead" });
+    return;
+  }
+
+  const name = typeof req.body?.name === "string" ? req.body.name.trim() : "";
+  if (!name || name.length > MAX_PERSONAL_ACCESS_TOKEN_NAME_LENGTH) {
+    res.status(400).json({
+      error: `name must be between 1 and ${MAX_PERSONAL_ACCESS_TOKEN_NAME_LENGTH} characters`,
+    });
+    return;
+  }
+  const scopes = parsePersonalAccessTokenScopes(req.body?.scopes);
+  if (!scopes) {
+    res.status(400).json({
+      error: `scopes must be a non-empty array of: ${PERSONAL_ACCESS_TOKEN_SCOPES.join(", ")}`,
+    });
+    return;
+  }
+  if (scopes.includes("admin") && !isAdmin) {
+    res.status(403).json({ error: "Only admins can create tokens with the admin scope" });
+    return;
+  }
+
+  let expiresAt: string | null = null;
+  const expiresInDays = req.body?.expiresInDays;
+  if (expiresInDays !== undefined && expiresInDays !== null) {
+    if (
+      !Number.isInteger(expiresInDays) ||
+      expiresInDays < 1 ||
+      expiresInDays > MAX_PERSONAL_ACCESS_TOKEN_EXPIRY_DAYS
+    ) {
+      res.status(400).json({
+        error: `expiresInDays must be between 1 and ${MAX_PERSONAL_ACCESS_TOKEN_EXPIRY_DAYS}, or null for no expiry`,
+      });
+      return;
+    }
+    expiresAt = new Date(Date.now() + expiresInDays * 24 * 60 * 60_000).toISOString();
+  }
+
+  if (countActivePersonalAccessTokens(db, userId) >= MAX_PERSONAL_ACCESS_TOKENS_PER_USER) {
+    res.status(400).json({
+      error: `You can have at most ${MAX_PERSONAL_ACCESS_TOKENS_PER_USER} active tokens`,
+    });
+    return;
+  }
+
+  const { token, row } = createPersonalAccessToken(db, { userId, name, scopes, expiresAt });
+  res.status(201).json({ ...row, token });
+});
+
+// DELETE /api/auth/tokens/:id - revoke one of the caller's personal access tokens
+router.delete("/tokens/:id", requireAuth, (req, res) => {
+  const { userId } = (req as any).user;
+  if (!revokePersonalAccessToken(getDb(), userId, req.params.id as string)) {
+    res.status(404).json({ error: "Active token not found" });
+    return;
+  }
+  res.json({ ok: true });
+});
+
+/** A minimal HTML page; with confirmToken it carries a button that POSTs the unsubscribe */
+function renderUnsubscribePage(title: string, message: string, confirmToken?: string): string {
+  const serverName = (getConfig().serverName || "ChitChat").trim() || "ChitChat";
+  const escape = (value: string) =>
+    value.replace(/[&<>"']/g, (ch) => `&#${ch.charCodeAt(0)};`);
+  const form = confirmToken
+    ? `<form method="post" action="?token=${encodeURIComponent(confirmToken)}">` +
+      `<button type="submit">Unsubscribe</button></form>`
+    : "";
+  return `<!doctype html><html><head><meta charset="utf-8"><title>${escape(title)}</title></head>` +
+    `<body style="font-family:sans-serif;max-width:480px;margin:48px auto;padding:0 16px">` +
+    `<h1>${escape(title)}</h1><p>${escape(message)}</p>${form}<p>${escape(serverName)}</p></body></html>`;
+}
+
+// GET /api/auth/email-digest/unsubscribe?token=... - link from digest emails. Only
+// shows a confirm button, so mail scanners prefetching the link change nothing.
+router.get("/email-digest/unsubscribe", (req, res) => {
+  const token = typeof req.query.token === "string" ? req.query.token.trim() : "";
+  if (!token || !findUnsubscribeTokenUser(getDb(), token)) {
+    res
+      .status(400)
+      .type("html")
+      .send(renderUnsubscribePage("Link expired", "This unsubscribe link is invalid or has expired."));
+    return;
+  }
+  res
+    .type("html")
+    .send(
+      renderUnsubscribePage(
+        "Unsubscribe from email digests?",
+        "You will stop receiving email digests of missed messages.",
+        token
+      )
+    );
+});
+
+// POST /api/auth/email-digest/unsubscribe - the confirm button above, and RFC 8058
+// one-click unsubscribe from mail clients. Browsers get a page, everything else JSON.
+router.post("/email-digest/unsubscribe", (req, res) => {
+  const token = typeof req.query.token === "string" ? req.query.token.trim() : "";
+  const result = token ? unsubscribeWithToken(getDb(), token) : null;
+  const wantsHtml = req.accepts(["json", "html"]) === "html";
+  if (!result) {
+    if (wantsHtml) {
+      res
+        .status(400)
+        .type("html")
+        .send(renderUnsubscribePage("Link expired", "This unsubscribe link is invalid or has expired."));
+      return;
+    }
+    res.status(400).json({ error: "Invalid or expired unsubscribe token" });
+    return;
+  }
+  if (wantsHtml) {
+    res
+      .type("html")
+      .send(renderUnsubscribePage("Unsubscribed", "You will no longer receive email digests."));
+    return;
+  }
+  res.json({ ok: true });
+});
+
 export default router;
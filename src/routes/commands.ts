@@ -0,0 +1,37 @@
+import { Router } from "express";
+import { getDb } from "../db/database.js";
+import { requireAuth, type JwtPayload } from "../middleware/auth.js";
+import { getUserPermissions } from "../permissions.js";
+import { listSlashCommands, replaceBotSlashCommands } from "../services/slashCommands.js";
+
+const router = Router();
+
+// GET /api/commands - slash commands the caller may run
+router.get("/", requireAuth, (req, res) => {
+  const db = getDb();
+  const { userId, isAdmin } = (req as any).user as JwtPayload;
+  const perms = getUserPermissions(db, userId, isAdmin);
+  res.json(
+    listSlashCommands(db).filter((command) => !command.permission || perms[command.permission])
+  );
+});
+
+// PUT /api/commands - a bot replaces the full set of commands it handles
+// JSON body: { commands: [{ name, description, options, permission? }] }
+router.put("/", requireAuth, (req, res) => {
+  const user = (req as any).user as JwtPayload;
+  if (!user.isBot) {
+    res.status(403).json({ error: "Only bots can register commands" });
+    return;
+  }
+  const result = replaceBotSlashCommands(getDb(), user.userId, req.body?.commands);
+  if (!result.ok) {
+    res.status(400).json({ error: result.error });
+    return;
+  }
+  const io = req.app.get("io");
+  if (io) io.emit("commands:updated", {});
+  res.json(result.commands);
+});
+
+export default router;
@@ -1,12 +1,29 @@
 import fs from "fs";
-import path from "path";
-import crypto from "crypto";
 import express, { Router } from "express";
 import { getConfig } from "../config.js";
 import { getDb } from "../db/database.js";
-import { requireAuth } from "../middleware/auth.js";
+import { requireScope } from "../middleware/auth.js";
 import { getUserModerationState, getUserPermissions, canAccessRoom } from "../permissions.js";
-import { scanUploadForMalware } from "../services/antivirus.js";
+import {
+  discardStoredAttachment,
+  getStorageRoot,
+  safeResolveStoragePath,
+  storeAttachment,
+} from "../services/attachmentStorage.js";
+import {
+  MAX_EMOJI_BYTES,
+  MAX_STICKER_BYTES,
+  checkCustomEmojiAllowed,
+  createCustomEmoji,
+  deleteCustomEmoji,
+  detectEmojiImageType,
+  listCustomEmojis,
+  normalizeShortcode,
+  parseCustomEmojiKind,
+} from "../services/customEmojis.js";
+import { fetchEmbedImage } from "../services/linkPreviews.js";
+import { enqueueOutgoingWebhookEvent } from "../services/outgoingWebhooks.js";
+import { SYSTEM_USER_ID, ensureSystemUser } from "../services/systemUser.js";
 
 const router = Router();
 
@@ -42,50 +59,6 @@ function parseUploadBody(
   });
 }
 
-function getStorageRoot() {
-  const config = getConfig();
-  return path.resolve(config.files.storagePath);
-}
-
-function sanitizeFilename(filename: string) {
-  const trimmed = filename.trim().normalize("NFKC");
-  const base = path.basename(trimmed || "upload");
-  const noControlChars = base.replace(/[\u0000-\u001f\u007f]/g, "");
-  const cleaned = noControlChars
-    .replace(/[^\w.\-() ]+/g, "_")
-    .replace(/^[.\s]+/, "")
-    .replace(/[.\s]+$/, "")
-    .slice(0, 255);
-  return cleaned.length > 0 ? cleaned : "upload";
-}
-
-function sanitizeExtension(originalName: string) {
-  const ext = path.extname(originalName).toLowerCase().slice(0, 20);
-  const safe = ext.replace(/[^a-z0-9.]/g, "");
-  // Only keep normal extensions like ".png", ".tar.gz" => ".gz"
-  if (!safe.startsWith(".") || safe === ".") return "";
-  return safe;
-}
-
-function buildStorageRelativePath(attachmentId: string, originalName: string) {
-  const now = new Date();
-  const yyyy = now.getUTCFullYear().toString();
-  const mm = String(now.getUTCMonth() + 1).padStart(2, "0");
-  const dd = String(now.getUTCDate()).padStart(2, "0");
-  const ext = sanitizeExtension(originalName);
-  const fileName = `${attachmentId}${ext}`;
-  return path.join(yyyy, mm, dd, fileName);
-}
-
-function safeResolveStoragePath(root: string, relativePath: string) {
-  const fullPath = path.resolve(root, relativePath);
-  const relative = path.relative(root, fullPath);
-  if (relative === "" || relative.startsWith("..") || path.isAbsolute(relative)) {
-    throw new Error("Invalid storage path");
-  }
-  return fullPath;
-}
-
 function getDisposition(mimeType: string) {
   if (
     mimeType.startsWith("image/") ||
@@ -99,181 +72,6 @@ function getDisposition(mimeType: string) {
   return "attachment";
 }
 
-function looksLikeJpeg(buf: Buffer) {
-  return buf.length >= 4 && buf[0] === 0xff && buf[1] === 0xd8;
-}
-
-function stripJpegExif(input: Buffer): { buffer: Buffer; stripped: boolean } {
-  if (!looksLikeJpeg(input)) return { buffer: input, stripped: false };
-  const out: Buffer[] = [input.subarray(0, 2)]; // SOI
-  let offset = 2;
-  let stripped = false;
-
-  while (offset + 4 <= input.length) {
-    if (input[offset] !== 0xff) {
-      return { buffer: input, stripped: false };
-    }
-
-    while (offset < input.length && input[offset] === 0xff) {
-      offset += 1;
-    }
-    if (offset >= input.length) break;
-    const marker = input[offset];
-    const markerStart = offset - 1;
-
-    // Start of scan: copy remaining compressed image data unchanged.
-    if (marker === 0xda) {
-      out.push(input.subarray(markerStart));
-      return { buffer: Buffer.concat(out), stripped };
-    }
-    // End of image.
-    if (marker === 0xd9) {
-      out.push(input.subarray(markerStart, markerStart + 2));
-      return { buffer: Buffer.concat(out), stripped };
-    }
-    // Standalone markers (no length field).
-    if ((marker >= 0xd0 && marker <= 0xd7) || marker === 0x01) {
-      out.push(input.subarray(markerStart, markerStart + 2));
-      offset = markerStart + 2;
-      continue;
-    }
-
-    if (markerStart + 4 > input.length) {
-      return { buffer: input, stripped: false };
-    }
-    const segmentLength = input.readUInt16BE(markerStart + 2);
-    const segmentEnd = markerStart + 2 + segmentLength;
-    if (segmentLength < 2 || segmentEnd > input.length) {
-      return { buffer: input, stripped: false };
-    }
-
-    const isApp1 = marker === 0xe1;
-    if (isApp1) {
-      stripped = true;
-    } else {
-      out.push(input.subarray(markerStart, segmentEnd));
-    }
-    offset = segmentEnd;
-  }
-
-  return { buffer: input, stripped: false };
-}
-
-function looksLikePng(buf: Buffer) {
-  if (buf.length < 8) return false;
-  const sig = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
-  for (let i = 0; i < sig.length; i += 1) {
-    if (buf[i] !== sig[i]) return false;
-  }
-  return true;
-}
-
-function stripPngMetadata(input: Buffer): { buffer: Buffer; stripped: boolean } {
-  if (!looksLikePng(input)) return { buffer: input, stripped: false };
-  const out: Buffer[] = [input.subarray(0, 8)];
-  let offset = 8;
-  let stripped = false;
-
-  while (offset + 12 <= input.length) {
-    const length = input.readUInt32BE(offset);
-    const chunkStart = offset;
-    const typeStart = offset + 4;
-    const dataStart = offset + 8;
-    const crcStart = dataStart + length;
-    const next = crcStart + 4;
-    if (length > 0x7fffffff || next > input.length) {
-      return { buffer: input, stripped: false };
-    }
-
-    const type = input.subarray(typeStart, typeStart + 4).toString("ascii");
-    const shouldStrip =
-      type === "eXIf" ||
-      type === "tEXt" ||
-      type === "zTXt" ||
-      type === "iTXt" ||
-      type === "tIME";
-
-    if (shouldStrip) {
-      stripped = true;
-    } else {
-      out.push(input.subarray(chunkStart, next));
-    }
-
-    offset = next;
-    if (type === "IEND") {
-      return { buffer: Buffer.concat(out), stripped };
-    }
-  }
-
-  return { buffer: input, stripped: false };
-}
-
-function looksLikeWebp(buf: Buffer) {
-  return (
-    buf.length >= 12 &&
-    buf.subarray(0, 4).toString("ascii") === "RIFF" &&
-    buf.subarray(8, 12).toString("ascii") === "WEBP"
-  );
-}
-
-function stripWebpMetadata(input: Buffer): { buffer: Buffer; stripped: boolean } {
-  if (!looksLikeWebp(input)) return { buffer: input, stripped: false };
-  const out: Buffer[] = [Buffer.from("RIFF"), Buffer.alloc(4), Buffer.from("WEBP")];
-  let offset = 12;
-  let stripped = false;
-
-  while (offset + 8 <= input.length) {
-    const chunkId = input.subarray(offset, offset + 4).toString("ascii");
-    const chunkSize = input.readUInt32LE(offset + 4);
-    const dataStart = offset + 8;
-    const paddedSize = chunkSize + (chunkSize % 2);
-    const next = dataStart + paddedSize;
-    if (next > input.length) {
-      return { buffer: input, stripped: false };
-    }
-
-    const shouldStrip = chunkId === "EXIF" || chunkId === "XMP ";
-    if (shouldStrip) {
-      stripped = true;
-    } else {
-      out.push(input.subarray(offset, next));
-    }
-    offset = next;
-  }
-
-  const merged = Buffer.concat(out);
-  // RIFF size excludes first 8 bytes.
-  merged.writeUInt32LE(Math.max(0, merged.length - 8), 4);
-  return { buffer: merged, stripped };
-}
-
-function maybeStripImageMetadata(
-  payload: Buffer,
-  mimeType: string,
-  originalName: string,
-  enabled: boolean
-): { buffer: Buffer; stripped: boolean } {
-  if (!enabled) return { buffer: payload, stripped: false };
-  const lower = originalName.toLowerCase();
-  const lowerMime = mimeType.toLowerCase();
-  const isJpegMime = mimeType.toLowerCase().startsWith("image/jpeg");
-  const isJpegName = lower.endsWith(".jpg") || lower.endsWith(".jpeg");
-  if (isJpegMime || isJpegName || looksLikeJpeg(payload)) {
-    return stripJpegExif(payload);
-  }
-  const isPngMime = lowerMime.startsWith("image/png");
-  const isPngName = lower.endsWith(".png");
-  if (isPngMime || isPngName || looksLikePng(payload)) {
-    return stripPngMetadata(payload);
-  }
-  const isWebpMime = lowerMime.startsWith("image/webp");
-  const isWebpName = lower.endsWith(".webp");
-  if (isWebpMime || isWebpName || looksLikeWebp(payload)) {
-    return stripWebpMetadata(payload);
-  }
-  return { buffer: payload, stripped: false };
-}
-
 // POST /api/files/upload
 // Upload raw bytes with header:
 //   x-file-name: original file name
@@ -281,12 +79,11 @@ function maybeStripImageMetadata(
 //   content-type: MIME type
 router.post(
   "/upload",
-  requireAuth,
+  requireScope("files:write"),
   parseUploadBody,
   async (req, res) => {
-    const user = (req as any).user as { userId: string; isAdmin: boolean };
+    const user = (req as any).user as { userId: string; username: string; isAdmin: boolean };
     const db = getDb();
-    const config = getConfig();
     const body = req.body as Buffer;
     const perms = getUserPermissions(db, user.userId, Boolean(user.isAdmin));
     if (!perms.canUploadFiles) {
@@ -306,84 +103,45 @@ router.post(
       return;
     }
 
-    const maxBytes = config.files.maxUploadSizeMB * 1024 * 1024;
-    if (body.length > maxBytes) {
-      res.status(413).json({
-        error: `File exceeds maxUploadSizeMB (${config.files.maxUploadSizeMB} MB)`,
-      });
-      return;
-    }
-
     const requestedName = (
       req.header("x-file-name") ||
       req.query.filename ||
       "upload.bin"
     ).toString();
-    const originalName = sanitizeFilename(requestedName);
     const mimeType = (
       req.header("content-type") || "application/octet-stream"
     ).toString();
 
-    const attachmentId = crypto.randomUUID();
-    const storageRoot = getStorageRoot();
-    const relativeStoragePath = buildStorageRelativePath(
-      attachmentId,
-      originalName,
-    );
-    const fullPath = safeResolveStoragePath(storageRoot, relativeStoragePath);
-
     try {
-      const scanResult = await scanUploadForMalware(body);
-      if (scanResult.infected) {
-        res.status(422).json({
-          error: `Upload rejected by malware scan (${scanResult.threatName})`,
-        });
+      const result = await storeAttachment(db, {
+        uploadedBy: user.userId,
+        fileName: requestedName,
+        mimeType,
+        body,
+      });
+      if (!result.ok) {
+        res.status(result.status).json({ error: result.error });
         return;
       }
-      if (!scanResult.clean) {
-        if (config.files.antivirus.failClosed) {
-          res.status(503).json({
-            error: "Upload rejected because malware scanner is unavailable",
-          });
-          return;
-        }
-        console.warn(
-          `  Warning: malware scan failed but upload allowed (failClosed=false): ${scanResult.detail}`
-        );
-      }
-
-      const exifResult = maybeStripImageMetadata(
-        body,
-        mimeType,
-        originalName,
-        config.files.stripImageExif === true
-      );
-      const storedBytes = exifResult.buffer;
-
-      fs.mkdirSync(path.dirname(fullPath), { recursive: true });
-      fs.writeFileSync(fullPath, storedBytes);
-
-      db.prepare(
-        `INSERT INTO attachments
-         (id, uploaded_by, original_name, mime_type, size_bytes, storage_path)
-         VALUES (?, ?, ?, ?, ?, ?)`,
-      ).run(
-        attachmentId,
-        user.userId,
-        originalName,
-        mimeType,
-        storedBytes.length,
-        relativeStoragePath,
-      );
+      const { attachment } = result;
+      enqueueOutgoingWebhookEvent(db, "file.uploaded", {
+        attachment: {
+          id: attachment.id,
+          original_name: attachment.originalName,
+          mime_type: attachment.mimeType,
+          size_bytes: attachment.sizeBytes,
+        },
+        uploaded_by: { id: user.userId, username: user.username },
+      });
 
       res.json({
-        id: attachmentId,
-        originalName,
-        mimeType,
-        sizeBytes: storedBytes.length,
-        exifStripped: exifResult.stripped,
-        metadataStripped: exifResult.stripped,
-        url: `/api/files/${attachmentId}`,
+        id: attachment.id,
+        originalName: attachment.originalName,
+        mimeType: attachment.mimeType,
+        sizeBytes: attachment.sizeBytes,
+        exifStripped: attachment.metadataStripped,
+        metadataStripped: attachment.metadataStripped,
+        url: `/api/files/${attachment.id}`,
       });
     } catch (err) {
       console.error("Failed to store file:", err);
@@ -394,9 +152,123 @@ router.post(
   },
 );
 
+function broadcastCustomEmojis(req: express.Request) {
+  const io = req.app.get("io");
+  if (io) io.emit("emojis:update", { emojis: listCustomEmojis(getDb()) });
+}
+
+// POST /api/files/emojis
+// Upload a custom emoji or sticker as raw image bytes with:
+//   x-emoji-shortcode (or ?shortcode=): 2-32 of a-z, 0-9 and _
+// Optional:
+//   x-emoji-kind (or ?kind=): "emoji" (default) or "sticker"
+router.post(
+  "/emojis",
+  requireScope("files:write"),
+  parseUploadBody,
+  async (req, res) => {
+    const user = (req as any).user as { userId: string; isAdmin: boolean };
+    const db = getDb();
+    const body = req.body as Buffer;
+    if (!getUserPermissions(db, user.userId, Boolean(user.isAdmin)).canManageEmojis) {
+      res.status(403).json({ error: "Missing permission to manage emoji" });
+      return;
+    }
+
+    const shortcode = normalizeShortcode(
+      req.header("x-emoji-shortcode") ?? req.query.shortcode,
+    );
+    if (!shortcode) {
+      res.status(400).json({
+        error: "Shortcode must be 2-32 lowercase letters, numbers or underscores",
+      });
+      return;
+    }
+    const kind = parseCustomEmojiKind(req.header("x-emoji-kind") ?? req.query.kind);
+    if (!kind) {
+      res.status(400).json({ error: 'kind must be "emoji" or "sticker"' });
+      return;
+    }
+    if (!Buffer.isBuffer(body) || body.length === 0) {
+      res.status(400).json({ error: "Image body is required" });
+      return;
+    }
+    const maxBytes = kind === "sticker" ? MAX_STICKER_BYTES : MAX_EMOJI_BYTES;
+    if (body.length > maxBytes) {
+      res.status(413).json({
+        error: `${kind === "sticker" ? "Stickers" : "Emoji"} must be at most ${maxBytes / 1024} KB`,
+      });
+      return;
+    }
+    const mimeType = detectEmojiImageType(body);
+    if (!mimeType) {
+      res.status(415).json({ error: "Emoji must be PNG, GIF, WebP or JPEG images" });
+      return;
+    }
+    const rejection = checkCustomEmojiAllowed(db, shortcode);
+    if (rejection) {
+      res.status(409).json({ error: rejection });
+      return;
+    }
+
+    let storedAttachmentId: string | null = null;
+    try {
+      // The image belongs to the server rather than the uploader, so the
+      // emoji outlives the account that added it.
+      ensureSystemUser(db);
+      const stored = await storeAttachment(db, {
+        uploadedBy: SYSTEM_USER_ID,
+        fileName: `${shortcode}.${mimeType.split("/")[1]}`,
+        mimeType,
+        body,
+      });
+      if (!stored.ok) {
+        res.status(stored.status).json({ error: stored.error });
+        return;
+      }
+      storedAttachmentId = stored.attachment.id;
+      // The shortcode may have been claimed while the upload was scanned.
+      const lateRejection = checkCustomEmojiAllowed(db, shortcode);
+      if (lateRejection) {
+        discardStoredAttachment(db, stored.attachment.id);
+        res.status(409).json({ error: lateRejection });
+        return;
+      }
+      const emoji = createCustomEmoji(db, {
+        shortcode,
+        kind,
+        attachmentId: stored.attachment.id,
+        createdBy: user.userId,
+      });
+      broadcastCustomEmojis(req);
+      res.status(201).json(emoji);
+    } catch (err) {
+      console.error("Failed to store custom emoji:", err);
+      if (storedAttachmentId) discardStoredAttachment(db, storedAttachmentId);
+      res.status(500).json({ error: "Failed to store custom emoji" });
+    }
+  },
+);
+
+// DELETE /api/files/emojis/:id
+router.delete("/emojis/:id", requireScope("files:write"), (req, res) => {
+  const user = (req as any).user as { userId: string; isAdmin: boolean };
+  const db = getDb();
+  if (!getUserPermissions(db, user.userId, Boolean(user.isAdmin)).canManageEmojis) {
+    res.status(403).json({ error: "Missing permission to manage emoji" });
+    return;
+  }
+  if (!deleteCustomEmoji(db, req.params.id as string)) {
+    res.status(404).json({ error: "Emoji not found" });
+    return;
+  }
+  broadcastCustomEmojis(req);
+  res.json({ ok: true });
+});
+
 // POST /api/files/link
 // Attach an uploaded file to a message.
-router.post("/link", requireAuth, (req, res) => {
+router.post("/link", requireScope("files:write"), (req, res) => {
   const { messageId, attachmentId } = req.body as {
     messageId?: string;
     attachmentId?: string;
@@ -449,7 +321,7 @@ router.post("/link", requireAuth, (req, res) => {
 
 // GET /api/files/message/:messageId
 // List attachments for a message.
-router.get("/message/:messageId", requireAuth, (req, res) => {
+router.get("/message/:messageId", requireScope("messages:read"), (req, res) => {
   const user = (req as any).user as { userId: string; isAdmin: boolean };
   const db = getDb();
 
@@ -494,9 +366,55 @@ router.get("/message/:messageId", requireAuth, (req, res) => {
   );
 });
 
+// GET /api/files/previews/:messageId/:position/image
+// Proxy a link preview's image so clients never contact the linked site.
+router.get(
+  "/previews/:messageId/:position/image",
+  requireScope("messages:read"),
+  async (req, res) => {
+    const user = (req as any).user as { userId: string; isAdmin: boolean };
+    const db = getDb();
+    const config = getConfig();
+    if (!config.linkPreviews.enabled) {
+      res.status(404).json({ error: "Link previews are disabled" });
+      return;
+    }
+
+    const embed = db
+      .prepare(
+        `SELECT e.image_url, m.room_id
+         FROM message_embeds e
+         JOIN messages m ON m.id = e.message_id
+         WHERE e.message_id = ? AND e.position = ?`,
+      )
+      .get(req.params.messageId, Number(req.params.position)) as
+      | { image_url: string | null; room_id: string }
+      | undefined;
+    if (!embed || !embed.image_url) {
+      res.status(404).json({ error: "Preview image not found" });
+      return;
+    }
+    if (!canAccessRoom(db, embed.room_id, user.userId, Boolean(user.isAdmin))) {
+      res.status(403).json({ error: "Not authorized to access this message" });
+      return;
+    }
+
+    const image = await fetchEmbedImage(embed.image_url);
+    if (!image.ok) {
+      res.status(502).json({ error: image.error });
+      return;
+    }
+    res.setHeader("Content-Type", image.contentType);
+    res.setHeader("Content-Length", String(image.body.length));
+    res.setHeader("Cache-Control", `private, max-age=${config.linkPreviews.cacheTtlMinutes * 60}`);
+    res.setHeader("X-Content-Type-Options", "nosniff");
+    res.end(image.body);
+  },
+);
+
 // GET /api/files/:id
 // Authenticated file read/preview endpoint.
-router.get("/:id", requireAuth, (req, res) => {
+router.get("/:id", requireScope("messages:read"), (req, res) => {
   const user = (req as any).user as { userId: string; isAdmin: boolean };
   const db = getDb();
   const row = db
@@ -519,17 +437,20 @@ router.get("/:id", requireAuth, (req, res) => {
     return;
   }
 
-  // Verify user has access to the room this file belongs to
-  const link = db
+  // Verify user has access to a room the file was posted in. Forwarded
+  // messages share attachments, so one file can appear in several rooms.
+  const links = db
     .prepare(
-      `SELECT m.room_id
+      `SELECT DISTINCT m.room_id
        FROM message_attachments ma
        JOIN messages m ON m.id = ma.message_id
-       WHERE ma.attachment_id = ?
-       LIMIT 1`,
+       WHERE ma.attachment_id = ?`,
     )
-    .get(req.params.id) as { room_id: string } | undefined;
-  if (link && !canAccessRoom(db, link.room_id, user.userId, Boolean(user.isAdmin))) {
+    .all(req.params.id) as Array<{ room_id: string }>;
+  if (
+    links.length > 0 &&
+    !links.some((link) => canAccessRoom(db, link.room_id, user.userId, Boolean(user.isAdmin)))
+  ) {
     res.status(403).json({ error: "Not authorized to access this file" });
     return;
   }
@@ -2,16 +2,18 @@ import { Router } from "express";
 import crypto from "crypto";
 import { getDb } from "../db/database.js";
 import { getConfig } from "../config.js";
-import { requireAuth } from "../middleware/auth.js";
+import { requireAuth, requireScope } from "../middleware/auth.js";
 import { canAccessRoom } from "../permissions.js";
 
 const router = Router();
 const MAX_ROOM_NAME_LENGTH = 50;
 const ROOM_NAME_PATTERN = /^[a-zA-Z0-9 _-]+$/;
 const ALLOWED_ROOM_TYPES = new Set(["text", "voice"]);
+const DEFAULT_MESSAGE_PAGE_SIZE = 50;
+const MAX_MESSAGE_PAGE_SIZE = 100;
 
 // GET /api/rooms
-router.get("/", requireAuth, (req, res) => {
+router.get("/", requireScope("messages:read"), (req, res) => {
   const user = (req as any).user as { userId: string; isAdmin: boolean };
   const db = getDb();
   const rooms = db.prepare("SELECT * FROM rooms ORDER BY created_at ASC").all() as Array<{ id: string; [key: string]: unknown }>;
@@ -21,6 +23,38 @@ router.get("/", requireAuth, (req, res) => {
   res.json(accessible);
 });
 
+// GET /api/rooms/:id/messages?before=<created_at>&limit=<n>
+// Top-level messages, oldest first. Pass the first message's created_at as
+// `before` to page further back.
+router.get("/:id/messages", requireScope("messages:read"), (req, res) => {
+  const user = (req as any).user as { userId: string; isAdmin: boolean };
+  const db = getDb();
+  const roomId = req.params.id as string;
+  if (!canAccessRoom(db, roomId, user.userId, Boolean(user.isAdmin))) {
+    res.status(404).json({ error: "Room not found" });
+    return;
+  }
+  const before = typeof req.query.before === "string" ? req.query.before : null;
+  const requestedLimit = Number(req.query.limit);
+  const limit = Number.isInteger(requestedLimit)
+    ? Math.max(1, Math.min(MAX_MESSAGE_PAGE_SIZE, requestedLimit))
+    : DEFAULT_MESSAGE_PAGE_SIZE;
+  const rows = db
+    .prepare(
+      `SELECT m.id, m.room_id, m.user_id, COALESCE(m.webhook_username, u.username) AS username,
+              m.content, m.created_at, m.edited_at, m.reply_to_message_id,
+              m.thread_reply_count, m.webhook_id
+       FROM messages m
+       JOIN users u ON u.id = m.user_id
+       WHERE m.room_id = ? AND m.thread_parent_id IS NULL
+         AND (? IS NULL OR m.created_at < ?)
+       ORDER BY m.created_at DESC
+       LIMIT ?`
+    )
+    .all(roomId, before, before, limit);
+  res.json(rows.reverse());
+});
+
 // POST /api/rooms
 router.post("/", requireAuth, (req, res) => {
   const config = getConfig();
@@ -1,6 +1,7 @@
 import { Router } from "express";
 import { getConfig } from "../config.js";
 import crypto from "crypto";
+import { isOidcEnabled } from "../services/oidc.js";
 
 const router = Router();
 
@@ -81,6 +82,10 @@ router.get("/info", (req, res) => {
     gifs: {
       enabled: config.giphy.enabled && Boolean(config.giphy.apiKey),
     },
+    sso: {
+      enabled: isOidcEnabled(),
+      buttonLabel: config.oidc.buttonLabel,
+    },
   });
 });
 
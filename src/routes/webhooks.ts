@@ -0,0 +1,224 @@
+import express, { Router } from "express";
+import { getConfig } from "../config.js";
+import { getDb } from "../db/database.js";
+import { publishIntegrationMessage } from "../websocket/handler.js";
+import { discardStoredAttachment, storeAttachment } from "../services/attachmentStorage.js";
+import { markIncomingWebhookUsed, verifyIncomingWebhook } from "../services/incomingWebhooks.js";
+import { SYSTEM_USER_ID, ensureSystemUser } from "../services/systemUser.js";
+
+const router = Router();
+const MAX_WEBHOOK_ATTACHMENTS = 10;
+const MAX_WEBHOOK_USERNAME_LENGTH = 80;
+const MAX_WEBHOOK_AVATAR_URL_LENGTH = 2048;
+
+// Rate limiting: track post timestamps per webhook
+const webhookRateLimitBuckets = new Map<string, number[]>();
+
+type WebhookAttachmentInput = {
+  filename?: unknown;
+  content_type?: unknown;
+  data?: unknown;
+};
+
+// Attachments arrive base64-encoded inside the JSON body, so this route
+// parses its own body with a limit sized for uploads instead of the app-wide one.
+function parseWebhookBody(
+  req: express.Request,
+  res: express.Response,
+  next: express.NextFunction,
+) {
+  const config = getConfig();
+  const maxUploadSizeMB = Math.max(
+    1,
+    Math.min(1024, config.files.maxUploadSizeMB || 25),
+  );
+
+  express.json({
+    limit: `${Math.ceil(maxUploadSizeMB * 1.4) + 1}mb`,
+  })(req, res, (err?: unknown) => {
+    if (!err) {
+      next();
+      return;
+    }
+
+    const bodyError = err as { type?: string };
+    if (bodyError.type === "entity.too.large") {
+      res.status(413).json({
+        error: `Webhook payload exceeds maxUploadSizeMB (${maxUploadSizeMB} MB)`,
+      });
+      return;
+    }
+    if (bodyError.type === "entity.parse.failed") {
+      res.status(400).json({ error: "Webhook payload must be valid JSON" });
+      return;
+    }
+
+    next(err as Error);
+  });
+}
+
+function consumeWebhookRateLimit(webhookId: string): boolean {
+  const config = getConfig();
+  if (config.rateLimitPerMinute <= 0) return true;
+  const now = Date.now();
+  const windowStart = now - 60_000;
+  let bucket = webhookRateLimitBuckets.get(webhookId) ?? [];
+  bucket = bucket.filter((ts) => ts > windowStart);
+  if (bucket.length >= config.rateLimitPerMinute) {
+    webhookRateLimitBuckets.set(webhookId, bucket);
+    return false;
+  }
+  bucket.push(now);
+  webhookRateLimitBuckets.set(webhookId, bucket);
+  return true;
+}
+
+function isHttpUrl(value: string) {
+  try {
+    const url = new URL(value);
+    return url.protocol === "https:" || url.protocol === "http:";
+  } catch {
+    return false;
+  }
+}
+
+// POST /api/webhooks/:id/:token
+// JSON body:
+//   content: message text
+//   username, avatar_url: optional display overrides for this message
+//   attachments: optional [{ filename, content_type, data (base64) }]
+router.post("/:id/:token", parseWebhookBody, async (req, res) => {
+  const db = getDb();
+  const config = getConfig();
+  const { id, token } = req.params as { id: string; token: string };
+  const webhook = verifyIncomingWebhook(db, id, token);
+  if (!webhook) {
+    res.status(404).json({ error: "Unknown webhook" });
+    return;
+  }
+  if (!consumeWebhookRateLimit(webhook.id)) {
+    res.status(429).json({ error: "Webhook is posting too fast. Slow down!" });
+    return;
+  }
+
+  const body = (req.body ?? {}) as {
+    content?: unknown;
+    username?: unknown;
+    avatar_url?: unknown;
+    attachments?: unknown;
+  };
+  if (body.content !== undefined && typeof body.content !== "string") {
+    res.status(400).json({ error: "content must be a string" });
+    return;
+  }
+  const content = (body.content ?? "").trim();
+  if (content.length > config.maxMessageLength) {
+    res.status(400).json({
+      error: `Message exceeds maximum length of ${config.maxMessageLength} characters`,
+    });
+    return;
+  }
+
+  let username: string | null = null;
+  if (body.username !== undefined && body.username !== null) {
+    if (
+      typeof body.username !== "string" ||
+      !body.username.trim() ||
+      body.username.trim().length > MAX_WEBHOOK_USERNAME_LENGTH
+    ) {
+      res.status(400).json({
+        error: `username must be between 1 and ${MAX_WEBHOOK_USERNAME_LENGTH} characters`,
+      });
+      return;
+    }
+    username = body.username.trim();
+  }
+
+  let avatarUrl: string | null = null;
+  if (body.avatar_url !== undefined && body.avatar_url !== null) {
+    if (
+      typeof body.avatar_url !== "string" ||
+      body.avatar_url.length > MAX_WEBHOOK_AVATAR_URL_LENGTH ||
+      !isHttpUrl(body.avatar_url)
+    ) {
+      res.status(400).json({ error: "avatar_url must be an http(s) URL" });
+      return;
+    }
+    avatarUrl = body.avatar_url;
+  }
+
+  const attachments: Array<{ fileName: string; mimeType: string; body: Buffer }> = [];
+  if (body.attachments !== undefined) {
+    if (!Array.isArray(body.attachments) || body.attachments.length > MAX_WEBHOOK_ATTACHMENTS) {
+      res.status(400).json({
+        error: `attachments must be an array of at most ${MAX_WEBHOOK_ATTACHMENTS} files`,
+      });
+      return;
+    }
+    for (const entry of body.attachments as WebhookAttachmentInput[]) {
+      const data = typeof entry?.data === "string" ? Buffer.from(entry.data, "base64") : null;
+      if (!data || data.length === 0) {
+        res.status(400).json({ error: "Each attachment needs base64 data" });
+        return;
+      }
+      attachments.push({
+        fileName: typeof entry.filename === "string" ? entry.filename : "upload.bin",
+        mimeType:
+          typeof entry.content_type === "string" && entry.content_type.trim()
+            ? entry.content_type.trim()
+            : "application/octet-stream",
+        body: data,
+      });
+    }
+  }
+
+  if (!content && attachments.length === 0) {
+    res.status(400).json({ error: "Message or attachment is required" });
+    return;
+  }
+
+  // Reject oversized files before anything is written; scan failures are
+  // only known while storing, so those roll back what was already stored.
+  const maxUploadSizeMB = getConfig().files.maxUploadSizeMB;
+  if (attachments.some((attachment) => attachment.body.length > maxUploadSizeMB * 1024 * 1024)) {
+    res.status(413).json({ error: `File exceeds maxUploadSizeMB (${maxUploadSizeMB} MB)` });
+    return;
+  }
+
+  const attachmentIds: string[] = [];
+  const discardAttachments = () => {
+    for (const id of attachmentIds) discardStoredAttachment(db, id);
+  };
+  try {
+    ensureSystemUser(db);
+    for (const attachment of attachments) {
+      const stored = await storeAttachment(db, {
+        uploadedBy: SYSTEM_USER_ID,
+        ...attachment,
+      });
+      if (!stored.ok) {
+        discardAttachments();
+        res.status(stored.status).json({ error: stored.error });
+        return;
+      }
+      attachmentIds.push(stored.attachment.id);
+    }
+
+    const message = publishIntegrationMessage(req.app.get("io"), {
+      roomId: webhook.room_id,
+      userId: SYSTEM_USER_ID,
+      content,
+      attachmentIds,
+      canMentionEveryone: false,
+      webhook: { id: webhook.id, username: username ?? webhook.name, avatarUrl },
+    });
+    markIncomingWebhookUsed(db, webhook.id);
+    res.json({ ok: true, message });
+  } catch (err) {
+    console.error("Failed to post webhook message:", err);
+    discardAttachments();
+    res.status(500).json({ error: "Failed to post message" });
+  }
+});
+
+export default router;
@@ -0,0 +1,338 @@
+import fs from "fs";
+import path from "path";
+import crypto from "crypto";
+import type Database from "better-sqlite3";
+import { getConfig } from "../config.js";
+import { scanUploadForMalware } from "./antivirus.js";
+
+export type StoredAttachment = {
+  id: string;
+  originalName: string;
+  mimeType: string;
+  sizeBytes: number;
+  metadataStripped: boolean;
+};
+
+export function getStorageRoot() {
+  const config = getConfig();
+  return path.resolve(config.files.storagePath);
+}
+
+export function sanitizeFilename(filename: string) {
+  const trimmed = filename.trim().normalize("NFKC");
+  const base = path.basename(trimmed || "upload");
+  const noControlChars = base.replace(/[\u0000-\u001f\u007f]/g, "");
+  const cleaned = noControlChars
+    .replace(/[^\w.\-() ]+/g, "_")
+    .replace(/^[.\s]+/, "")
+    .replace(/[.\s]+$/, "")
+    .slice(0, 255);
+  return cleaned.length > 0 ? cleaned : "upload";
+}
+
+function sanitizeExtension(originalName: string) {
+  const ext = path.extname(originalName).toLowerCase().slice(0, 20);
+  const safe = ext.replace(/[^a-z0-9.]/g, "");
+  // Only keep normal extensions like ".png", ".tar.gz" => ".gz"
+  if (!safe.startsWith(".") || safe === ".") return "";
+  return safe;
+}
+
+function buildStorageRelativePath(attachmentId: string, originalName: string) {
+  const now = new Date();
+  const yyyy = now.getUTCFullYear().toString();
+  const mm = String(now.getUTCMonth() + 1).padStart(2, "0");
+  const dd = String(now.getUTCDate()).padStart(2, "0");
+  const ext = sanitizeExtension(originalName);
+  const fileName = `${attachmentId}${ext}`;
+  return path.join(yyyy, mm, dd, fileName);
+}
+
+export function safeResolveStoragePath(root: string, relativePath: string) {
+  const fullPath = path.resolve(root, relativePath);
+  const relative = path.relative(root, fullPath);
+  if (relative === "" || relative.startsWith("..") || path.isAbsolute(relative)) {
+    throw new Error("Invalid storage path");
+  }
+  return fullPath;
+}
+
+function looksLikeJpeg(buf: Buffer) {
+  return buf.length >= 4 && buf[0] === 0xff && buf[1] === 0xd8;
+}
+
+function stripJpegExif(input: Buffer): { buffer: Buffer; stripped: boolean } {
+  if (!looksLikeJpeg(input)) return { buffer: input, stripped: false };
+  const out: Buffer[] = [input.subarray(0, 2)]; // SOI
+  let offset = 2;
+  let stripped = false;
+
+  while (offset + 4 <= input.length) {
+    if (input[offset] !== 0xff) {
+      return { buffer: input, stripped: false };
+    }
+
+    while (offset < input.length && input[offset] === 0xff) {
+      offset += 1;
+    }
+    if (offset >= input.length) break;
+    const marker = input[offset];
+    const markerStart = offset - 1;
+
+    // Start of scan: copy remaining compressed image data unchanged.
+    if (marker === 0xda) {
+      out.push(input.subarray(markerStart));
+      return { buffer: Buffer.concat(out), stripped };
+    }
+    // End of image.
+    if (marker === 0xd9) {
+      out.push(input.subarray(markerStart, markerStart + 2));
+      return { buffer: Buffer.concat(out), stripped };
+    }
+    // Standalone markers (no length field).
+    if ((marker >= 0xd0 && marker <= 0xd7) || marker === 0x01) {
+      out.push(input.subarray(markerStart, markerStart + 2));
+      offset = markerStart + 2;
+      continue;
+    }
+
+    if (markerStart + 4 > input.length) {
+      return { buffer: input, stripped: false };
+    }
+    const segmentLength = input.readUInt16BE(markerStart + 2);
+    const segmentEnd = markerStart + 2 + segmentLength;
+    if (segmentLength < 2 || segmentEnd > input.length) {
+      return { buffer: input, stripped: false };
+    }
+
+    const isApp1 = marker === 0xe1;
+    if (isApp1) {
+      stripped = true;
+    } else {
+      out.push(input.subarray(markerStart, segmentEnd));
+    }
+    offset = segmentEnd;
+  }
+
+  return { buffer: input, stripped: false };
+}
+
+function looksLikePng(buf: Buffer) {
+  if (buf.length < 8) return false;
+  const sig = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+  for (let i = 0; i < sig.length; i += 1) {
+    if (buf[i] !== sig[i]) return false;
+  }
+  return true;
+}
+
+function stripPngMetadata(input: Buffer): { buffer: Buffer; stripped: boolean } {
+  if (!looksLikePng(input)) return { buffer: input, stripped: false };
+  const out: Buffer[] = [input.subarray(0, 8)];
+  let offset = 8;
+  let stripped = false;
+
+  while (offset + 12 <= input.length) {
+    const length = input.readUInt32BE(offset);
+    const chunkStart = offset;
+    const typeStart = offset + 4;
+    const dataStart = offset + 8;
+    const crcStart = dataStart + length;
+    const next = crcStart + 4;
+    if (length > 0x7fffffff || next > input.length) {
+      return { buffer: input, stripped: false };
+    }
+
+    const type = input.subarray(typeStart, typeStart + 4).toString("ascii");
+    const shouldStrip =
+      type === "eXIf" ||
+      type === "tEXt" ||
+      type === "zTXt" ||
+      type === "iTXt" ||
+      type === "tIME";
+
+    if (shouldStrip) {
+      stripped = true;
+    } else {
+      out.push(input.subarray(chunkStart, next));
+    }
+
+    offset = next;
+    if (type === "IEND") {
+      return { buffer: Buffer.concat(out), stripped };
+    }
+  }
+
+  return { buffer: input, stripped: false };
+}
+
+function looksLikeWebp(buf: Buffer) {
+  return (
+    buf.length >= 12 &&
+    buf.subarray(0, 4).toString("ascii") === "RIFF" &&
+    buf.subarray(8, 12).toString("ascii") === "WEBP"
+  );
+}
+
+function stripWebpMetadata(input: Buffer): { buffer: Buffer; stripped: boolean } {
+  if (!looksLikeWebp(input)) return { buffer: input, stripped: false };
+  const out: Buffer[] = [Buffer.from("RIFF"), Buffer.alloc(4), Buffer.from("WEBP")];
+  let offset = 12;
+  let stripped = false;
+
+  while (offset + 8 <= input.length) {
+    const chunkId = input.subarray(offset, offset + 4).toString("ascii");
+    const chunkSize = input.readUInt32LE(offset + 4);
+    const dataStart = offset + 8;
+    const paddedSize = chunkSize + (chunkSize % 2);
+    const next = dataStart + paddedSize;
+    if (next > input.length) {
+      return { buffer: input, stripped: false };
+    }
+
+    const shouldStrip = chunkId === "EXIF" || chunkId === "XMP ";
+    if (shouldStrip) {
+      stripped = true;
+    } else {
+      out.push(input.subarray(offset, next));
+    }
+    offset = next;
+  }
+
+  const merged = Buffer.concat(out);
+  // RIFF size excludes first 8 bytes.
+  merged.writeUInt32LE(Math.max(0, merged.length - 8), 4);
+  return { buffer: merged, stripped };
+}
+
+function maybeStripImageMetadata(
+  payload: Buffer,
+  mimeType: string,
+  originalName: string,
+  enabled: boolean
+): { buffer: Buffer; stripped: boolean } {
+  if (!enabled) return { buffer: payload, stripped: false };
+  const lower = originalName.toLowerCase();
+  const lowerMime = mimeType.toLowerCase();
+  const isJpegMime = mimeType.toLowerCase().startsWith("image/jpeg");
+  const isJpegName = lower.endsWith(".jpg") || lower.endsWith(".jpeg");
+  if (isJpegMime || isJpegName || looksLikeJpeg(payload)) {
+    return stripJpegExif(payload);
+  }
+  const isPngMime = lowerMime.startsWith("image/png");
+  const isPngName = lower.endsWith(".png");
+  if (isPngMime || isPngName || looksLikePng(payload)) {
+    return stripPngMetadata(payload);
+  }
+  const isWebpMime = lowerMime.startsWith("image/webp");
+  const isWebpName = lower.endsWith(".webp");
+  if (isWebpMime || isWebpName || looksLikeWebp(payload)) {
+    return stripWebpMetadata(payload);
+  }
+  return { buffer: payload, stripped: false };
+}
+
+/**
+ * Remove an attachment that never made it into a message or custom emoji:
+ * its file and its `attachments` row. Linked attachments are left alone.
+ */
+export function discardStoredAttachment(db: Database.Database, attachmentId: string) {
+  const row = db
+    .prepare(
+      `SELECT storage_path FROM attachments a
+       WHERE id = ?
+         AND NOT EXISTS (SELECT 1 FROM message_attachments ma WHERE ma.attachment_id = a.id)
+         AND NOT EXISTS (SELECT 1 FROM custom_emojis ce WHERE ce.attachment_id = a.id)`
+    )
+    .get(attachmentId) as { storage_path: string } | undefined;
+  if (!row) return;
+  try {
+    fs.rmSync(safeResolveStoragePath(getStorageRoot(), row.storage_path), { force: true });
+  } catch (err) {
+    console.warn(`  Warning: failed to remove attachment file ${attachmentId}:`, err);
+  }
+  db.prepare("DELETE FROM attachments WHERE id = ?").run(attachmentId);
+}
+
+/**
+ * Scan, strip metadata from and persist an uploaded file, then record it in
+ * `attachments` owned by `uploadedBy`. Rejections carry the HTTP status the
+ * caller should answer with; storage failures throw.
+ */
+export async function storeAttachment(
+  db: Database.Database,
+  input: { uploadedBy: string; fileName: string; mimeType: string; body: Buffer }
+): Promise<
+  { ok: true; attachment: StoredAttachment } | { ok: false; status: number; error: string }
+> {
+  const config = getConfig();
+  const maxBytes = config.files.maxUploadSizeMB * 1024 * 1024;
+  if (input.body.length > maxBytes) {
+    return {
+      ok: false,
+      status: 413,
+      error: `File exceeds maxUploadSizeMB (${config.files.maxUploadSizeMB} MB)`,
+    };
+  }
+
+  const originalName = sanitizeFilename(input.fileName);
+  const attachmentId = crypto.randomUUID();
+  const relativeStoragePath = buildStorageRelativePath(attachmentId, originalName);
+  const fullPath = safeResolveStoragePath(getStorageRoot(), relativeStoragePath);
+
+  const scanResult = await scanUploadForMalware(input.body);
+  if (scanResult.infected) {
+    return {
+      ok: false,
+      status: 422,
+      error: `Upload rejected by malware scan (${scanResult.threatName})`,
+    };
+  }
+  if (!scanResult.clean) {
+    if (config.files.antivirus.failClosed) {
+      return {
+        ok: false,
+        status: 503,
+        error: "Upload rejected because malware scanner is unavailable",
+      };
+    }
+    console.warn(
+      `  Warning: malware scan failed but upload allowed (failClosed=false): ${scanResult.detail}`
+    );
+  }
+
+  const exifResult = maybeStripImageMetadata(
+    input.body,
+    input.mimeType,
+    originalName,
+    config.files.stripImageExif === true
+  );
+  const storedBytes = exifResult.buffer;
+
+  fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+  fs.writeFileSync(fullPath, storedBytes);
+
+  db.prepare(
+    `INSERT INTO attachments
+     (id, uploaded_by, original_name, mime_type, size_bytes, storage_path)
+     VALUES (?, ?, ?, ?, ?, ?)`
+  ).run(
+    attachmentId,
+    input.uploadedBy,
+    originalName,
+    input.mimeType,
+    storedBytes.length,
+    relativeStoragePath
+  );
+
+  return {
+    ok: true,
+    attachment: {
+      id: attachmentId,
+      originalName,
+      mimeType: input.mimeType,
+      sizeBytes: storedBytes.length,
+      metadataStripped: exifResult.stripped,
+    },
+  };
+}
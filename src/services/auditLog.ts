@@ -1,6 +1,6 @@
 import type { Request } from "express";
 import { getDb } from "../db/database.js";
-import { verifyToken, type JwtPayload } from "../middleware/auth.js";
+import { authenticateToken, type JwtPayload } from "../middleware/auth.js";
 
 const SENSITIVE_KEYS = new Set([
   "password",
@@ -14,7 +14,12 @@ const SENSITIVE_KEYS = new Set([
   "smtp_pass",
   "smtp_passphrase",
   "apisecret",
+  "clientsecret",
+  "bindpassword",
   "secret",
+  "vapidprivatekey",
+  "p256dh",
+  "auth",
 ]);
 
 function truncate(value: string, max = 4000): string {
@@ -52,7 +57,7 @@ function parseActorFromRequest(req: Request): JwtPayload | null {
   const authHeader = req.headers.authorization;
   if (!authHeader?.startsWith("Bearer ")) return null;
   try {
-    return verifyToken(authHeader.slice(7));
+    return authenticateToken(authHeader.slice(7));
   } catch {
     return null;
   }
@@ -73,8 +78,10 @@ export function recordAuditLog(args: {
   responseBytes: number;
 }) {
   const { req, statusCode, durationMs, responseBytes } = args;
-  const path = req.originalUrl?.split("?")[0] || req.path || "/";
-  if (!path.startsWith("/api/")) return;
+  const rawPath = req.originalUrl?.split("?")[0] || req.path || "/";
+  if (!rawPath.startsWith("/api/")) return;
+  // Incoming webhook URLs carry their secret token as the last path segment.
+  const path = rawPath.replace(/^(\/api\/webhooks\/[^/]+\/)[^/]+/, "$1[REDACTED]");
 
   const actor = parseActorFromRequest(req);
   const reqBody =
@@ -0,0 +1,66 @@
+import bcrypt from "bcryptjs";
+import type Database from "better-sqlite3";
+import { ldapAuthProvider } from "./ldap.js";
+
+export type AuthProviderName = "local" | "ldap";
+
+export type AuthProviderResult =
+  | { ok: true; userId: string; rolesChanged?: boolean }
+  | { ok: false; error: string; invalidCredentials: boolean };
+
+/**
+ * A source of truth for passwords. Providers are asked in order; each one
+ * either claims the login (success or failure) or returns null to pass.
+ */
+export interface AuthProvider {
+  name: AuthProviderName;
+  isEnabled(): boolean;
+  authenticate(
+    db: Database.Database,
+    login: string,
+    password: string
+  ): Promise<AuthProviderResult | null>;
+}
+
+const INVALID_CREDENTIALS: AuthProviderResult = {
+  ok: false,
+  error: "Invalid email or password",
+  invalidCredentials: true,
+};
+
+/** Accounts that log in with a password stored here, looked up by email */
+const localAuthProvider: AuthProvider = {
+  name: "local",
+  isEnabled: () => true,
+  async authenticate(db, login, password) {
+    const user = db
+      .prepare("SELECT id, password_hash FROM users WHERE email = ? AND auth_provider = 'local'")
+      .get(login) as { id: string; password_hash: string } | undefined;
+    if (!user) return null;
+    if (!bcrypt.compareSync(password, user.password_hash)) return INVALID_CREDENTIALS;
+    return { ok: true, userId: user.id };
+  },
+};
+
+const AUTH_PROVIDERS: AuthProvider[] = [localAuthProvider, ldapAuthProvider];
+
+/**
+ * Check a login/password pair against every enabled provider. The first
+ * success wins. A local password mismatch still lets the directory try, which
+ * only reaches a local account once it has been linked to a directory entry.
+ */
+export async function authenticateWithPassword(
+  db: Database.Database,
+  login: string,
+  password: string
+): Promise<AuthProviderResult> {
+  let failure: AuthProviderResult | null = null;
+  for (const provider of AUTH_PROVIDERS) {
+    if (!provider.isEnabled()) continue;
+    const result = await provider.authenticate(db, login, password);
+    if (!result) continue;
+    if (result.ok) return result;
+    if (!failure || (failure.ok === false && failure.invalidCredentials)) failure = result;
+  }
+  return failure ?? INVALID_CREDENTIALS;
+}
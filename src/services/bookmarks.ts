@@ -0,0 +1,176 @@
+import type Database from "better-sqlite3";
+import { getAccessibleRoomIds } from "./messageSearch.js";
+
+export const MAX_BOOKMARKS_PER_USER = 1000;
+export const MAX_BOOKMARK_NOTE_LENGTH = 500;
+export const MAX_BOOKMARK_FOLDER_LENGTH = 64;
+
+export type BookmarkRow = {
+  message_id: string;
+  room_id: string;
+  note: string | null;
+  folder: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+export type BookmarkDetails = {
+  note: string | null;
+  folder: string | null;
+};
+
+/**
+ * Validate the optional note and folder sent with bookmark:add. Blank values
+ * clear the field; a missing field keeps whatever the bookmark already has.
+ */
+export function parseBookmarkDetails(input: {
+  note?: unknown;
+  folder?: unknown;
+}): { ok: true; details: Partial<BookmarkDetails> } | { ok: false; error: string } {
+  const details: Partial<BookmarkDetails> = {};
+  if (input.note !== undefined) {
+    if (input.note !== null && typeof input.note !== "string") {
+      return { ok: false, error: "note must be a string" };
+    }
+    const note = (input.note ?? "").trim();
+    if (note.length > MAX_BOOKMARK_NOTE_LENGTH) {
+      return { ok: false, error: `Notes must be at most ${MAX_BOOKMARK_NOTE_LENGTH} characters` };
+    }
+    details.note = note || null;
+  }
+  if (input.folder !== undefined) {
+    if (input.folder !== null && typeof input.folder !== "string") {
+      return { ok: false, error: "folder must be a string" };
+    }
+    const folder = (input.folder ?? "").trim();
+    if (folder.length > MAX_BOOKMARK_FOLDER_LENGTH) {
+      return {
+        ok: false,
+        error: `Folder names must be at most ${MAX_BOOKMARK_FOLDER_LENGTH} characters`,
+      };
+    }
+    details.folder = folder || null;
+  }
+  return { ok: true, details };
+}
+
+/**
+ * Save a message for a user, or update the note and folder of an existing
+ * bookmark. Bookmarks are private, so nothing is broadcast beyond the owner.
+ */
+export function saveBookmark(
+  db: Database.Database,
+  userId: string,
+  messageId: string,
+  details: Partial<BookmarkDetails>
+): { ok: true; bookmark: BookmarkRow } | { ok: false; error: string } {
+  const now = new Date().toISOString();
+  const existing = db
+    .prepare("SELECT note, folder FROM message_bookmarks WHERE user_id = ? AND message_id = ?")
+    .get(userId, messageId) as BookmarkDetails | undefined;
+
+  if (existing) {
+    db.prepare(
+      `UPDATE message_bookmarks
+       SET note = ?, folder = ?, updated_at = ?
+       WHERE user_id = ? AND message_id = ?`
+    ).run(
+      details.note !== undefined ? details.note : existing.note,
+      details.folder !== undefined ? details.folder : existing.folder,
+      now,
+      userId,
+      messageId
+    );
+  } else {
+    const { count } = db
+      .prepare("SELECT COUNT(*) AS count FROM message_bookmarks WHERE user_id = ?")
+      .get(userId) as { count: number };
+    if (count >= MAX_BOOKMARKS_PER_USER) {
+      return {
+        ok: false,
+        error: `You can save at most ${MAX_BOOKMARKS_PER_USER} messages. Remove some first.`,
+      };
+    }
+    db.prepare(
+      `INSERT INTO message_bookmarks (user_id, message_id, note, folder, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?)`
+    ).run(userId, messageId, details.note ?? null, details.folder ?? null, now, now);
+  }
+
+  const bookmark = db
+    .prepare(
+      `SELECT b.message_id, m.room_id, b.note, b.folder, b.created_at, b.updated_at
+       FROM message_bookmarks b
+       JOIN messages m ON m.id = b.message_id
+       WHERE b.user_id = ? AND b.message_id = ?`
+    )
+    .get(userId, messageId) as BookmarkRow;
+  return { ok: true, bookmark };
+}
+
+export function removeBookmark(db: Database.Database, userId: string, messageId: string): boolean {
+  const result = db
+    .prepare("DELETE FROM message_bookmarks WHERE user_id = ? AND message_id = ?")
+    .run(userId, messageId);
+  return result.changes > 0;
+}
+
+/**
+ * A user's bookmarks, most recently saved first, limited to rooms they can
+ * still view. Bookmarks in rooms they lost access to are kept, so they come
+ * back if access is restored. Pass the created_at of the last row as
+ * `before` for the next page.
+ */
+export function listBookmarks(
+  db: Database.Database,
+  options: {
+    userId: string;
+    isAdmin: boolean;
+    folder?: string | null;
+    before?: string | null;
+    limit: number;
+  }
+): { rows: BookmarkRow[]; folders: string[]; hasMore: boolean } {
+  const roomIds = getAccessibleRoomIds(db, options.userId, options.isAdmin);
+  if (!roomIds.length) return { rows: [], folders: [], hasMore: false };
+  const accessibleRooms = JSON.stringify(roomIds);
+
+  const rows = db
+    .prepare(
+      `SELECT b.message_id, m.room_id, b.note, b.folder, b.created_at, b.updated_at
+       FROM message_bookmarks b
+       JOIN messages m ON m.id = b.message_id
+       WHERE b.user_id = ?
+         AND m.room_id IN (SELECT value FROM json_each(?))
+         AND (? IS NULL OR b.folder = ?)
+         AND (? IS NULL OR b.created_at < ?)
+       ORDER BY b.created_at DESC
+       LIMIT ?`
+    )
+    .all(
+      options.userId,
+      accessibleRooms,
+      options.folder ?? null,
+      options.folder ?? null,
+      options.before ?? null,
+      options.before ?? null,
+      options.limit + 1
+    ) as BookmarkRow[];
+
+  const folders = (
+    db
+      .prepare(
+        `SELECT DISTINCT b.folder
+         FROM message_bookmarks b
+         JOIN messages m ON m.id = b.message_id
+         WHERE b.user_id = ?
+           AND b.folder IS NOT NULL
+           AND m.room_id IN (SELECT value FROM json_each(?))
+         ORDER BY b.folder COLLATE NOCASE ASC`
+      )
+      .all(options.userId, accessibleRooms) as Array<{ folder: string }>
+  ).map((row) => row.folder);
+
+  const hasMore = rows.length > options.limit;
+  return { rows: hasMore ? rows.slice(0, options.limit) : rows, folders, hasMore };
+}
@@ -0,0 +1,155 @@
+import crypto from "crypto";
+import type Database from "better-sqlite3";
+import { SYSTEM_USER_ID } from "./systemUser.js";
+
+// Bot tokens are opaque and looked up by hash; the prefix lets auth tell
+// them apart from JWTs without a database hit.
+export const BOT_TOKEN_PREFIX = "ccb_";
+export const BOT_USERNAME_PATTERN = /^[a-zA-Z0-9._-]{2,32}$/;
+const BOT_EMAIL_DOMAIN = "bots.chitchat.invalid";
+const MAX_BOT_TOKEN_NAME_LENGTH = 80;
+const LAST_USED_RESOLUTION_SECONDS = 60;
+
+export type BotTokenRow = {
+  id: string;
+  bot_user_id: string;
+  name: string;
+  token_prefix: string;
+  created_by_user_id: string | null;
+  created_at: string;
+  last_used_at: string | null;
+  revoked_at: string | null;
+};
+
+export type BotUserRow = {
+  id: string;
+  username: string;
+  avatar_url: string | null;
+  about: string | null;
+  status: string;
+  created_at: string;
+};
+
+function hashBotToken(token: string) {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}
+
+export function isBotToken(token: string): boolean {
+  return token.startsWith(BOT_TOKEN_PREFIX);
+}
+
+export function getBotUser(db: Database.Database, id: string): BotUserRow | undefined {
+  return db
+    .prepare(
+      `SELECT id, username, avatar_url, about, status, created_at
+       FROM users
+       WHERE id = ? AND is_bot = 1 AND id != ?`
+    )
+    .get(id, SYSTEM_USER_ID) as BotUserRow | undefined;
+}
+
+export function listBotUsers(
+  db: Database.Database
+): Array<BotUserRow & { tokens: BotTokenRow[] }> {
+  const bots = db
+    .prepare(
+      `SELECT id, username, avatar_url, about, status, created_at
+       FROM users
+       WHERE is_bot = 1 AND id != ?
+       ORDER BY username COLLATE NOCASE ASC`
+    )
+    .all(SYSTEM_USER_ID) as BotUserRow[];
+  return bots.map((bot) => ({ ...bot, tokens: listBotTokens(db, bot.id) }));
+}
+
+export function createBotUser(db: Database.Database, username: string): BotUserRow {
+  const id = crypto.randomUUID();
+  // Bots never log in with a password; '!' can never match a bcrypt hash.
+  db.prepare(
+    `INSERT INTO users (id, username, email, password_hash, status, is_bot)
+     VALUES (?, ?, ?, '!', 'offline', 1)`
+  ).run(id, username, `bot-${id}@${BOT_EMAIL_DOMAIN}`);
+  return getBotUser(db, id)!;
+}
+
+export function listBotTokens(db: Database.Database, botUserId: string): BotTokenRow[] {
+  return db
+    .prepare(
+      `SELECT id, bot_user_id, name, token_prefix, created_by_user_id, created_at,
+              last_used_at, revoked_at
+       FROM bot_tokens
+       WHERE bot_user_id = ?
+       ORDER BY created_at ASC`
+    )
+    .all(botUserId) as BotTokenRow[];
+}
+
+/** Issue a token for a bot. The plaintext is returned once and never stored. */
+export function createBotToken(
+  db: Database.Database,
+  input: { botUserId: string; name: string; createdByUserId: string }
+): { token: string; row: BotTokenRow } {
+  const id = crypto.randomUUID();
+  const token = `${BOT_TOKEN_PREFIX}${crypto.randomBytes(32).toString("base64url")}`;
+  db.prepare(
+    `INSERT INTO bot_tokens (id, bot_user_id, name, token_hash, token_prefix, created_by_user_id)
+     VALUES (?, ?, ?, ?, ?, ?)`
+  ).run(
+    id,
+    input.botUserId,
+    input.name.slice(0, MAX_BOT_TOKEN_NAME_LENGTH),
+    hashBotToken(token),
+    token.slice(0, BOT_TOKEN_PREFIX.length + 6),
+    input.createdByUserId
+  );
+  const row = db
+    .prepare(
+      `SELECT id, bot_user_id, name, token_prefix, created_by_user_id, created_at,
+              last_used_at, revoked_at
+       FROM bot_tokens
+       WHERE id = ?`
+    )
+    .get(id) as BotTokenRow;
+  return { token, row };
+}
+
+export function revokeBotToken(db: Database.Database, botUserId: string, tokenId: string): boolean {
+  const result = db
+    .prepare(
+      `UPDATE bot_tokens
+       SET revoked_at = datetime('now')
+       WHERE id = ? AND bot_user_id = ? AND revoked_at IS NULL`
+    )
+    .run(tokenId, botUserId);
+  return result.changes > 0;
+}
+
+/**
+ * Resolve a bot token to its bot user, or null when the token is unknown,
+ * revoked, or its bot is banned or deactivated. Bots skip password, 2FA and
+ * login lockout entirely.
+ */
+export function authenticateBotToken(
+  db: Database.Database,
+  token: string
+): { userId: string; username: string; email: string } | null {
+  const row = db
+    .prepare(
+      `SELECT bt.id AS token_id, u.id, u.username, u.email
+       FROM bot_tokens bt
+       JOIN users u ON u.id = bt.bot_user_id AND u.is_bot = 1
+       WHERE bt.token_hash = ? AND bt.revoked_at IS NULL AND u.deactivated_at IS NULL`
+    )
+    .get(hashBotToken(token)) as
+    | { token_id: string; id: string; username: string; email: string }
+    | undefined;
+  if (!row) return null;
+  const banned = db.prepare("SELECT 1 FROM server_bans WHERE user_id = ?").get(row.id);
+  if (banned) return null;
+  db.prepare(
+    `UPDATE bot_tokens
+     SET last_used_at = datetime('now')
+     WHERE id = ? AND (last_used_at IS NULL OR last_used_at < datetime('now', ?))`
+  ).run(row.token_id, `-${LAST_USED_RESOLUTION_SECONDS} seconds`);
+  return { userId: row.id, username: row.username, email: row.email };
+}
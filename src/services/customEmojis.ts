@@ -0,0 +1,173 @@
+import crypto from "crypto";
+import type Database from "better-sqlite3";
+
+export const MAX_CUSTOM_EMOJIS = 500;
+export const MAX_EMOJI_BYTES = 256 * 1024;
+export const MAX_STICKER_BYTES = 512 * 1024;
+
+export type CustomEmojiKind = "emoji" | "sticker";
+
+export type CustomEmojiPayload = {
+  id: string;
+  shortcode: string;
+  kind: CustomEmojiKind;
+  mime_type: string;
+  url: string;
+  created_by_user_id: string | null;
+  created_at: string;
+};
+
+type CustomEmojiRow = {
+  id: string;
+  shortcode: string;
+  kind: CustomEmojiKind;
+  attachment_id: string;
+  mime_type: string;
+  created_by_user_id: string | null;
+  created_at: string;
+};
+
+const SHORTCODE_PATTERN = /^[a-z0-9_]{2,32}$/;
+
+// Messages and reactions carry custom emoji as "<:shortcode:id>". The id is
+// what counts; the shortcode keeps the text readable in clients that don't
+// render custom emoji.
+const CUSTOM_EMOJI_TOKEN = /<:([^:<>\s]{1,64}):([^:<>\s]{1,64})>/g;
+
+/** Accepts "party_parrot" or ":party_parrot:"; null when invalid */
+export function normalizeShortcode(raw: unknown): string | null {
+  if (typeof raw !== "string") return null;
+  const shortcode = raw.trim().replace(/^:|:$/g, "").toLowerCase();
+  return SHORTCODE_PATTERN.test(shortcode) ? shortcode : null;
+}
+
+export function parseCustomEmojiKind(raw: unknown): CustomEmojiKind | null {
+  if (raw === undefined || raw === null || raw === "") return "emoji";
+  return raw === "emoji" || raw === "sticker" ? raw : null;
+}
+
+/**
+ * Identify the image format from its first bytes. Only still and animated
+ * images browsers render inline are accepted, and the sniffed type wins
+ * over whatever the client claimed.
+ */
+export function detectEmojiImageType(body: Buffer): string | null {
+  if (body.length >= 8 && body.subarray(0, 8).equals(Buffer.from("89504e470d0a1a0a", "hex"))) {
+    return "image/png";
+  }
+  if (body.length >= 6 && /^GIF8[79]a$/.test(body.subarray(0, 6).toString("ascii"))) {
+    return "image/gif";
+  }
+  if (
+    body.length >= 12 &&
+    body.subarray(0, 4).toString("ascii") === "RIFF" &&
+    body.subarray(8, 12).toString("ascii") === "WEBP"
+  ) {
+    return "image/webp";
+  }
+  if (body.length >= 3 && body[0] === 0xff && body[1] === 0xd8 && body[2] === 0xff) {
+    return "image/jpeg";
+  }
+  return null;
+}
+
+function toPayload(row: CustomEmojiRow): CustomEmojiPayload {
+  return {
+    id: row.id,
+    shortcode: row.shortcode,
+    kind: row.kind,
+    mime_type: row.mime_type,
+    url: `/api/files/${row.attachment_id}`,
+    created_by_user_id: row.created_by_user_id,
+    created_at: row.created_at,
+  };
+}
+
+const SELECT_CUSTOM_EMOJI = `SELECT ce.id, ce.shortcode, ce.kind, ce.attachment_id, a.mime_type,
+       ce.created_by_user_id, ce.created_at
+     FROM custom_emojis ce
+     JOIN attachments a ON a.id = ce.attachment_id`;
+
+export function listCustomEmojis(db: Database.Database): CustomEmojiPayload[] {
+  const rows = db
+    .prepare(`${SELECT_CUSTOM_EMOJI} ORDER BY ce.kind ASC, ce.shortcode ASC`)
+    .all() as CustomEmojiRow[];
+  return rows.map(toPayload);
+}
+
+export function getCustomEmoji(db: Database.Database, id: string): CustomEmojiPayload | null {
+  const row = db.prepare(`${SELECT_CUSTOM_EMOJI} WHERE ce.id = ?`).get(id) as
+    | CustomEmojiRow
+    | undefined;
+  return row ? toPayload(row) : null;
+}
+
+/** Why a new emoji can't be added under this shortcode, or null when it can */
+export function checkCustomEmojiAllowed(db: Database.Database, shortcode: string): string | null {
+  const { count } = db.prepare("SELECT COUNT(*) AS count FROM custom_emojis").get() as {
+    count: number;
+  };
+  if (count >= MAX_CUSTOM_EMOJIS) {
+    return `This server already has ${MAX_CUSTOM_EMOJIS} custom emoji and stickers`;
+  }
+  if (db.prepare("SELECT 1 FROM custom_emojis WHERE shortcode = ?").get(shortcode)) {
+    return `:${shortcode}: is already taken`;
+  }
+  return null;
+}
+
+export function createCustomEmoji(
+  db: Database.Database,
+  input: { shortcode: string; kind: CustomEmojiKind; attachmentId: string; createdBy: string }
+): CustomEmojiPayload {
+  const id = crypto.randomUUID();
+  db.prepare(
+    `INSERT INTO custom_emojis (id, shortcode, kind, attachment_id, created_by_user_id)
+     VALUES (?, ?, ?, ?, ?)`
+  ).run(id, input.shortcode, input.kind, input.attachmentId, input.createdBy);
+  return getCustomEmoji(db, id)!;
+}
+
+/**
+ * Remove a custom emoji. Its image becomes an orphan attachment that the
+ * retention job cleans up; messages keep their "<:shortcode:id>" text.
+ */
+export function deleteCustomEmoji(db: Database.Database, id: string): boolean {
+  return db.prepare("DELETE FROM custom_emojis WHERE id = ?").run(id).changes > 0;
+}
+
+/**
+ * The custom emoji a reaction refers to. Returns undefined for ordinary
+ * emoji, null for an unknown or non-reactable custom emoji, and otherwise
+ * the canonical token so every reaction groups under the same string.
+ */
+export function resolveCustomReaction(
+  db: Database.Database,
+  emoji: string
+): string | null | undefined {
+  const match = /^<:([^:<>\s]{1,64}):([^:<>\s]{1,64})>$/.exec(emoji);
+  if (!match) return undefined;
+  const row = db
+    .prepare("SELECT id, shortcode, kind FROM custom_emojis WHERE id = ?")
+    .get(match[2]) as { id: string; shortcode: string; kind: CustomEmojiKind } | undefined;
+  if (!row || row.kind !== "emoji") return null;
+  return `<:${row.shortcode}:${row.id}>`;
+}
+
+/** Shortcodes of "<:shortcode:id>" tokens in content whose id doesn't exist */
+export function findUnknownCustomEmoji(db: Database.Database, content: string): string[] {
+  const tokens = Array.from(content.matchAll(CUSTOM_EMOJI_TOKEN));
+  if (!tokens.length) return [];
+  const ids = Array.from(new Set(tokens.map((token) => token[2])));
+  const placeholders = ids.map(() => "?").join(", ");
+  const known = new Set(
+    (
+      db.prepare(`SELECT id FROM custom_emojis WHERE id IN (${placeholders})`).all(...ids) as Array<{
+        id: string;
+      }>
+    ).map((row) => row.id)
+  );
+  return Array.from(
+    new Set(tokens.filter((token) => !known.has(token[2])).map((token) => token[1]))
+  );
+}
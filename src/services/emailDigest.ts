@@ -0,0 +1,244 @@
+import crypto from "crypto";
+import type Database from "better-sqlite3";
+import { getConfig } from "../config.js";
+import { canAccessRoom, isUserAdmin } from "../permissions.js";
+import { isMailConfigured, sendMail } from "./mailer.js";
+
+export type EmailDigestFrequency = "off" | "hourly" | "daily";
+
+export const EMAIL_DIGEST_FREQUENCIES: EmailDigestFrequency[] = ["off", "hourly", "daily"];
+
+const DIGEST_PERIOD_MS: Record<Exclude<EmailDigestFrequency, "off">, number> = {
+  hourly: 60 * 60_000,
+  daily: 24 * 60 * 60_000,
+};
+const UNSUBSCRIBE_TOKEN_TTL_DAYS = 30;
+const DIGEST_MAX_ITEMS = 20;
+const DIGEST_SNIPPET_LENGTH = 120;
+
+type DigestUserRow = {
+  id: string;
+  username: string;
+  email: string;
+  email_digest_frequency: EmailDigestFrequency;
+  email_digest_last_sent_at: string | null;
+};
+
+type DigestItemRow = {
+  id: string;
+  room_id: string;
+  room_name: string;
+  content: string;
+  created_at: string;
+  author: string | null;
+};
+
+function hashUnsubscribeToken(token: string) {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}
+
+export function purgeExpiredUnsubscribeTokens(db: Database.Database) {
+  db.prepare(
+    "DELETE FROM email_unsubscribe_tokens WHERE datetime(expires_at) <= datetime('now')"
+  ).run();
+}
+
+export function createUnsubscribeToken(db: Database.Database, userId: string) {
+  const token = crypto.randomBytes(32).toString("hex");
+  const expiresAt = new Date(
+    Date.now() + UNSUBSCRIBE_TOKEN_TTL_DAYS * 24 * 60 * 60_000
+  ).toISOString();
+  db.prepare(
+    `INSERT INTO email_unsubscribe_tokens (id, user_id, token_hash, expires_at)
+     VALUES (?, ?, ?, ?)`
+  ).run(crypto.randomUUID(), userId, hashUnsubscribeToken(token), expiresAt);
+  return token;
+}
+
+/** The owner of a live unsubscribe token, without acting on it */
+export function findUnsubscribeTokenUser(db: Database.Database, token: string): string | null {
+  purgeExpiredUnsubscribeTokens(db);
+  const row = db
+    .prepare(
+      `SELECT user_id
+       FROM email_unsubscribe_tokens
+       WHERE token_hash = ? AND datetime(expires_at) > datetime('now')`
+    )
+    .get(hashUnsubscribeToken(token)) as { user_id: string } | undefined;
+  return row?.user_id ?? null;
+}
+
+/**
+ * Turn the digest off for the token's owner. Tokens are not consumed, so
+ * confirming twice is harmless.
+ */
+export function unsubscribeWithToken(
+  db: Database.Database,
+  token: string
+): { userId: string } | null {
+  const userId = findUnsubscribeTokenUser(db, token);
+  if (!userId) return null;
+  db.prepare(
+    "UPDATE users SET email_digest_frequency = 'off', updated_at = datetime('now') WHERE id = ?"
+  ).run(userId);
+  return { userId };
+}
+
+function snippet(content: string): string {
+  const flat = content.replace(/\s+/g, " ").trim() || "(attachment)";
+  return flat.length > DIGEST_SNIPPET_LENGTH
+    ? `${flat.slice(0, DIGEST_SNIPPET_LENGTH - 1)}…`
+    : flat;
+}
+
+function getMissedDirectMessages(
+  db: Database.Database,
+  userId: string,
+  since: string
+): DigestItemRow[] {
+  return db
+    .prepare(
+      `SELECT m.id, m.room_id, r.name AS room_name, m.content, m.created_at, u.username AS author
+       FROM messages m
+       JOIN rooms r ON r.id = m.room_id AND r.type = 'dm'
+       JOIN room_members rm ON rm.room_id = m.room_id AND rm.user_id = @userId
+       LEFT JOIN room_read_state rs ON rs.room_id = m.room_id AND rs.user_id = @userId
+       LEFT JOIN user_room_notification_prefs p ON p.room_id = m.room_id AND p.user_id = @userId
+       LEFT JOIN users u ON u.id = m.user_id
+       WHERE m.user_id != @userId
+         AND m.thread_parent_id IS NULL
+         AND m.created_at > @since
+         AND (rs.last_read_at IS NULL OR m.created_at > rs.last_read_at)
+         AND COALESCE(p.mode, 'all') != 'mute'
+       ORDER BY m.created_at DESC
+       LIMIT @limit`
+    )
+    .all({ userId, since, limit: DIGEST_MAX_ITEMS }) as DigestItemRow[];
+}
+
+function getMissedMentions(
+  db: Database.Database,
+  userId: string,
+  since: string
+): DigestItemRow[] {
+  const rows = db
+    .prepare(
+      `SELECT m.id, m.room_id, r.name AS room_name, m.content, m.created_at, u.username AS author
+       FROM message_mentions mm
+       JOIN messages m ON m.id = mm.message_id
+       JOIN rooms r ON r.id = m.room_id AND r.type != 'dm'
+       LEFT JOIN room_read_state rs ON rs.room_id = m.room_id AND rs.user_id = @userId
+       LEFT JOIN user_room_notification_prefs p ON p.room_id = m.room_id AND p.user_id = @userId
+       LEFT JOIN users u ON u.id = m.user_id
+       WHERE mm.user_id = @userId
+         AND mm.created_at > @since
+         AND (rs.last_read_at IS NULL OR m.created_at > rs.last_read_at)
+         AND COALESCE(p.mode, 'all') != 'mute'
+       ORDER BY m.created_at DESC
+       LIMIT @limit`
+    )
+    .all({ userId, since, limit: DIGEST_MAX_ITEMS }) as DigestItemRow[];
+  const isAdmin = isUserAdmin(db, userId);
+  return rows.filter((row) => canAccessRoom(db, row.room_id, userId, isAdmin));
+}
+
+function buildDigestText(input: {
+  serverName: string;
+  publicUrl: string;
+  username: string;
+  directMessages: DigestItemRow[];
+  mentions: DigestItemRow[];
+  unsubscribeUrl: string;
+}): string {
+  const lines = [`Hi ${input.username},`, "", `While you were away on ${input.serverName}:`, ""];
+  if (input.directMessages.length) {
+    lines.push(`Direct messages (${input.directMessages.length})`);
+    for (const item of input.directMessages) {
+      lines.push(`  ${item.author ?? "Someone"}: ${snippet(item.content)}`);
+    }
+    lines.push("");
+  }
+  if (input.mentions.length) {
+    lines.push(`Mentions (${input.mentions.length})`);
+    for (const item of input.mentions) {
+      lines.push(`  ${item.author ?? "Someone"} in #${item.room_name}: ${snippet(item.content)}`);
+    }
+    lines.push("");
+  }
+  lines.push(`Open ${input.publicUrl} to catch up.`, "");
+  lines.push(`Unsubscribe from these emails: ${input.unsubscribeUrl}`);
+  return lines.join("\n");
+}
+
+/**
+ * Email each opted-in, offline user a summary of the DMs and mentions they
+ * have not read since their last digest. Users with nothing new are skipped
+ * but their window still advances.
+ */
+export async function runEmailDigests(
+  db: Database.Database
+): Promise<{ usersEvaluated: number; digestsSent: number; failures: number }> {
+  const result = { usersEvaluated: 0, digestsSent: 0, failures: 0 };
+  const config = getConfig();
+  // Without a public URL there is nowhere to point the unsubscribe link.
+  if (!config.publicUrl || !isMailConfigured()) return result;
+  purgeExpiredUnsubscribeTokens(db);
+
+  const users = db
+    .prepare(
+      `SELECT id, username, email, email_digest_frequency, email_digest_last_sent_at
+       FROM users
+       WHERE email_digest_frequency IN ('hourly', 'daily') AND status = 'offline'`
+    )
+    .all() as DigestUserRow[];
+  const serverName = (config.serverName || "ChitChat").trim() || "ChitChat";
+  const now = Date.now();
+
+  for (const user of users) {
+    const frequency = user.email_digest_frequency as Exclude<EmailDigestFrequency, "off">;
+    const periodMs = DIGEST_PERIOD_MS[frequency];
+    const lastSentMs = user.email_digest_last_sent_at
+      ? Date.parse(user.email_digest_last_sent_at)
+      : Number.NaN;
+    if (!Number.isNaN(lastSentMs) && now - lastSentMs < periodMs) continue;
+    result.usersEvaluated += 1;
+
+    const since = Number.isNaN(lastSentMs)
+      ? new Date(now - periodMs).toISOString()
+      : new Date(lastSentMs).toISOString();
+    const directMessages = getMissedDirectMessages(db, user.id, since);
+    const mentions = getMissedMentions(db, user.id, since);
+    const sentAt = new Date(now).toISOString();
+
+    if (directMessages.length || mentions.length) {
+      const token = createUnsubscribeToken(db, user.id);
+      const unsubscribeUrl = `${config.publicUrl}/api/auth/email-digest/unsubscribe?token=${token}`;
+      try {
+        await sendMail({
+          to: user.email,
+          subject: `${serverName}: ${directMessages.length + mentions.length} things you missed`,
+          text: buildDigestText({
+            serverName,
+            publicUrl: config.publicUrl,
+            username: user.username,
+            directMessages,
+            mentions,
+            unsubscribeUrl,
+          }),
+          headers: {
+            "List-Unsubscribe": `<${unsubscribeUrl}>`,
+            "List-Unsubscribe-Post": "List-Unsubscribe=One-Click",
+          },
+        });
+        result.digestsSent += 1;
+      } catch (err) {
+        // Leave the window untouched so the next run retries.
+        result.failures += 1;
+        console.error(`Email digest for ${user.id} failed:`, err);
+        continue;
+      }
+    }
+    db.prepare("UPDATE users SET email_digest_last_sent_at = ? WHERE id = ?").run(sentAt, user.id);
+  }
+  return result;
+}
@@ -0,0 +1,41 @@
+import type Database from "better-sqlite3";
+
+/**
+ * Keep the roles named in a set of group-to-role mappings in step with the
+ * groups an external identity source reports for a user. Roles no mapping
+ * mentions are left alone, and nothing changes when the source reported no
+ * groups at all (null). Group names compare case-insensitively.
+ *
+ * Returns true when any role was granted or removed.
+ */
+export function syncMappedRoles(
+  db: Database.Database,
+  userId: string,
+  mappings: Array<{ group: string; roleId: string }>,
+  groups: string[] | null
+): boolean {
+  if (!mappings.length || !groups) return false;
+
+  const memberOf = new Set(groups.map((group) => group.toLowerCase()));
+  const knownRoleIds = new Set(
+    (db.prepare("SELECT id FROM roles").all() as Array<{ id: string }>).map((row) => row.id)
+  );
+  const managed = new Set<string>();
+  const desired = new Set<string>();
+  for (const mapping of mappings) {
+    if (mapping.roleId === "everyone" || !knownRoleIds.has(mapping.roleId)) continue;
+    managed.add(mapping.roleId);
+    if (memberOf.has(mapping.group.toLowerCase())) desired.add(mapping.roleId);
+  }
+
+  let changed = false;
+  const insert = db.prepare("INSERT OR IGNORE INTO user_roles (user_id, role_id) VALUES (?, ?)");
+  const remove = db.prepare("DELETE FROM user_roles WHERE user_id = ? AND role_id = ?");
+  db.transaction(() => {
+    for (const roleId of managed) {
+      const result = desired.has(roleId) ? insert.run(userId, roleId) : remove.run(userId, roleId);
+      if (result.changes > 0) changed = true;
+    }
+  })();
+  return changed;
+}
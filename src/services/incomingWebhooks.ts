@@ -0,0 +1,97 @@
+import crypto from "crypto";
+import type Database from "better-sqlite3";
+import { getConfig } from "../config.js";
+
+export type IncomingWebhookRow = {
+  id: string;
+  room_id: string;
+  name: string;
+  created_by_user_id: string | null;
+  created_at: string;
+  token_rotated_at: string | null;
+  last_used_at: string | null;
+};
+
+export const MAX_WEBHOOK_NAME_LENGTH = 80;
+export const MAX_WEBHOOKS_PER_ROOM = 15;
+
+function hashWebhookToken(token: string) {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}
+
+/** Full URL when publicUrl is configured, otherwise a server-relative path */
+export function buildWebhookUrl(id: string, token: string): string {
+  return `${getConfig().publicUrl}/api/webhooks/${id}/${token}`;
+}
+
+export function listIncomingWebhooks(db: Database.Database, roomId: string): IncomingWebhookRow[] {
+  return db
+    .prepare(
+      `SELECT id, room_id, name, created_by_user_id, created_at, token_rotated_at, last_used_at
+       FROM incoming_webhooks
+       WHERE room_id = ?
+       ORDER BY created_at ASC`
+    )
+    .all(roomId) as IncomingWebhookRow[];
+}
+
+export function getIncomingWebhook(
+  db: Database.Database,
+  id: string
+): IncomingWebhookRow | undefined {
+  return db
+    .prepare(
+      `SELECT id, room_id, name, created_by_user_id, created_at, token_rotated_at, last_used_at
+       FROM incoming_webhooks
+       WHERE id = ?`
+    )
+    .get(id) as IncomingWebhookRow | undefined;
+}
+
+/** Create a webhook and return it with its token, which is only ever shown here */
+export function createIncomingWebhook(
+  db: Database.Database,
+  input: { roomId: string; name: string; createdByUserId: string }
+): { webhook: IncomingWebhookRow; token: string } {
+  const id = crypto.randomUUID();
+  const token = crypto.randomBytes(32).toString("hex");
+  db.prepare(
+    `INSERT INTO incoming_webhooks (id, room_id, name, token_hash, created_by_user_id)
+     VALUES (?, ?, ?, ?, ?)`
+  ).run(id, input.roomId, input.name, hashWebhookToken(token), input.createdByUserId);
+  return { webhook: getIncomingWebhook(db, id)!, token };
+}
+
+/** Replace the webhook's token; the old URL stops working immediately. */
+export function rotateIncomingWebhookToken(db: Database.Database, id: string): string {
+  const token = crypto.randomBytes(32).toString("hex");
+  db.prepare(
+    `UPDATE incoming_webhooks
+     SET token_hash = ?, token_rotated_at = datetime('now')
+     WHERE id = ?`
+  ).run(hashWebhookToken(token), id);
+  return token;
+}
+
+export function deleteIncomingWebhook(db: Database.Database, id: string): boolean {
+  return db.prepare("DELETE FROM incoming_webhooks WHERE id = ?").run(id).changes > 0;
+}
+
+export function verifyIncomingWebhook(
+  db: Database.Database,
+  id: string,
+  token: string
+): IncomingWebhookRow | null {
+  const row = db
+    .prepare("SELECT token_hash FROM incoming_webhooks WHERE id = ?")
+    .get(id) as { token_hash: string } | undefined;
+  if (!row) return null;
+  const expected = Buffer.from(row.token_hash, "hex");
+  const actual = Buffer.from(hashWebhookToken(token), "hex");
+  if (!crypto.timingSafeEqual(expected, actual)) return null;
+  return getIncomingWebhook(db, id) ?? null;
+}
+
+export function markIncomingWebhookUsed(db: Database.Database, id: string) {
+  db.prepare("UPDATE incoming_webhooks SET last_used_at = datetime('now') WHERE id = ?").run(id);
+}
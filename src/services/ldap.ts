@@ -0,0 +1,327 @@
+import crypto from "crypto";
+import bcrypt from "bcryptjs";
+import type Database from "better-sqlite3";
+import {
+  Client,
+  EqualityFilter,
+  InvalidCredentialsError,
+  OrFilter,
+  type Entry,
+} from "ldapts";
+import { getConfig } from "../config.js";
+import { isUserAdmin } from "../permissions.js";
+import type { AuthProvider, AuthProviderResult } from "./authProviders.js";
+import { syncMappedRoles } from "./groupRoleSync.js";
+import { enqueueOutgoingWebhookEvent } from "./outgoingWebhooks.js";
+import { checkNewAccountAllowed, pickAvailableUsername } from "./registrationRules.js";
+import { revokeUserSessions } from "./sessions.js";
+import { SYSTEM_USER_ID } from "./systemUser.js";
+
+const SYNC_PAGE_SIZE = 500;
+
+let lastSyncAt = 0;
+
+export function isLdapEnabled(): boolean {
+  const { ldap } = getConfig();
+  return ldap.enabled && Boolean(ldap.url) && Boolean(ldap.userSearchBase);
+}
+
+function readValues(entry: Entry, attribute: string): string[] {
+  const value = entry[attribute];
+  if (value === undefined) return [];
+  const values = Array.isArray(value) ? value : [value];
+  return values.map((entryValue) =>
+    Buffer.isBuffer(entryValue) ? entryValue.toString("utf8") : String(entryValue)
+  );
+}
+
+function readValue(entry: Entry, attribute: string): string {
+  return readValues(entry, attribute)[0]?.trim() ?? "";
+}
+
+/** "cn=Chat Admins,ou=groups,dc=example,dc=org" -> "Chat Admins" */
+function commonNameOf(dn: string): string | null {
+  const match = /^cn=((?:\\.|[^,])+)/i.exec(dn.trim());
+  return match ? match[1].replace(/\\(.)/g, "$1") : null;
+}
+
+/**
+ * Run operations on a fresh connection bound as the configured service
+ * account (or anonymously when none is set). The connection is always closed.
+ */
+async function withDirectory<T>(fn: (client: Client) => Promise<T>): Promise<T> {
+  const { ldap } = getConfig();
+  // ldapts switches to TLS whenever tlsOptions is present, so only pass
+  // them for ldaps:// URLs.
+  const client = new Client({
+    url: ldap.url,
+    timeout: ldap.timeoutMs,
+    connectTimeout: ldap.timeoutMs,
+    ...(ldap.url.toLowerCase().startsWith("ldaps://") && {
+      tlsOptions: { rejectUnauthorized: ldap.tlsRejectUnauthorized },
+    }),
+  });
+  try {
+    if (ldap.startTls) {
+      await client.startTLS({ rejectUnauthorized: ldap.tlsRejectUnauthorized });
+    }
+    if (ldap.bindDn) await client.bind(ldap.bindDn, ldap.bindPassword);
+    return await fn(client);
+  } finally {
+    await client.unbind().catch(() => {});
+  }
+}
+
+function userAttributes(): string[] {
+  const { ldap } = getConfig();
+  return Array.from(new Set([ldap.usernameAttribute, ldap.emailAttribute, "memberOf"]));
+}
+
+/** The one directory entry matching the login, or null when there are none or several */
+async function findUserEntry(client: Client, login: string): Promise<Entry | null> {
+  const { ldap } = getConfig();
+  const loginFilter = new OrFilter({
+    filters: ldap.loginAttributes.map(
+      (attribute) => new EqualityFilter({ attribute, value: login })
+    ),
+  });
+  const { searchEntries } = await client.search(ldap.userSearchBase, {
+    scope: "sub",
+    filter: `(&${ldap.userFilter}${loginFilter.toString()})`,
+    attributes: userAttributes(),
+  });
+  return searchEntries.length === 1 ? searchEntries[0] : null;
+}
+
+/**
+ * Group names and DNs for a user. With a group search base, groups are found
+ * by their member attribute; otherwise the user's memberOf values are used.
+ */
+async function readUserGroups(client: Client, entry: Entry): Promise<string[]> {
+  const { ldap } = getConfig();
+  const groupDns = ldap.groupSearchBase
+    ? (
+        await client.search(ldap.groupSearchBase, {
+          scope: "sub",
+          filter: new EqualityFilter({ attribute: ldap.groupMemberAttribute, value: entry.dn }),
+          attributes: ["cn"],
+        })
+      ).searchEntries.map((group) => group.dn)
+    : readValues(entry, "memberOf");
+
+  const groups: string[] = [];
+  for (const dn of groupDns) {
+    groups.push(dn);
+    const cn = commonNameOf(dn);
+    if (cn) groups.push(cn);
+  }
+  return groups;
+}
+
+/**
+ * Find or create the local account for a directory entry. Accounts are tied
+ * to their DN. An existing account with the same email is only linked when
+ * ldap.linkExistingByEmail is on and it is not an admin; linking records the
+ * DN but leaves auth_provider alone until an admin switches it. New accounts
+ * follow the registration limits.
+ */
+function linkDirectoryUser(
+  db: Database.Database,
+  entry: Entry,
+  groups: string[]
+): AuthProviderResult {
+  const config = getConfig();
+  const dn = entry.dn.toLowerCase();
+  let user = db
+    .prepare("SELECT id FROM users WHERE ldap_dn = ?")
+    .get(dn) as { id: string } | undefined;
+
+  if (!user) {
+    const email = readValue(entry, config.ldap.emailAttribute).toLowerCase();
+    if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+      return { ok: false, error: "Directory account has no email address", invalidCredentials: false };
+    }
+    const existing = db
+      .prepare("SELECT id, is_bot FROM users WHERE email = ?")
+      .get(email) as { id: string; is_bot: number } | undefined;
+    if (existing) {
+      if (existing.is_bot === 1 || existing.id === SYSTEM_USER_ID) {
+        return {
+          ok: false,
+          error: "This email belongs to an account that cannot sign in",
+          invalidCredentials: false,
+        };
+      }
+      if (!config.ldap.linkExistingByEmail) {
+        return {
+          ok: false,
+          error: "An account with this email already exists and is not linked to the directory",
+          invalidCredentials: false,
+        };
+      }
+      if (isUserAdmin(db, existing.id)) {
+        return {
+          ok: false,
+          error: "Admin accounts must be linked to the directory by an admin",
+          invalidCredentials: false,
+        };
+      }
+      db.prepare("UPDATE users SET ldap_dn = ? WHERE id = ?").run(dn, existing.id);
+      user = { id: existing.id };
+    } else {
+      if (!config.ldap.autoProvision) {
+        return { ok: false, error: "No account exists for this directory user", invalidCredentials: false };
+      }
+      const rejection = checkNewAccountAllowed(db, email);
+      if (rejection) return { ok: false, error: rejection, invalidCredentials: false };
+
+      const id = crypto.randomUUID();
+      const username = pickAvailableUsername(
+        db,
+        readValue(entry, config.ldap.usernameAttribute) || email.split("@")[0]
+      );
+      // The directory owns the password; the local hash only has to be
+      // unguessable because local login skips LDAP accounts anyway.
+      const passwordHash = bcrypt.hashSync(
+        crypto.randomBytes(32).toString("hex"),
+        config.bcryptRounds
+      );
+      db.prepare(
+        `INSERT INTO users (id, username, email, password_hash, status, activity_game, auth_provider, ldap_dn)
+         VALUES (?, ?, ?, ?, 'online', NULL, 'ldap', ?)`
+      ).run(id, username, email, passwordHash, dn);
+      enqueueOutgoingWebhookEvent(db, "member.joined", { user: { id, username } });
+      user = { id };
+    }
+  }
+
+  // A successful directory bind means the account exists there again.
+  db.prepare("UPDATE users SET deactivated_at = NULL WHERE id = ?").run(user.id);
+  const rolesChanged = syncMappedRoles(db, user.id, config.ldap.groupRoleMappings, groups);
+  return { ok: true, userId: user.id, rolesChanged };
+}
+
+/** Look the login up in the directory, then bind as that entry to check the password */
+export const ldapAuthProvider: AuthProvider = {
+  name: "ldap",
+  isEnabled: isLdapEnabled,
+  async authenticate(db, login, password) {
+    // An empty password would turn the bind into an unauthenticated bind,
+    // which many servers accept without checking anything.
+    if (!login || !password) return null;
+
+    let found: { entry: Entry; groups: string[]; bound: boolean } | null;
+    try {
+      found = await withDirectory(async (client) => {
+        const entry = await findUserEntry(client, login);
+        if (!entry) return null;
+        const groups = await readUserGroups(client, entry);
+        try {
+          await client.bind(entry.dn, password);
+        } catch (err) {
+          if (err instanceof InvalidCredentialsError) return { entry, groups, bound: false };
+          throw err;
+        }
+        return { entry, groups, bound: true };
+      });
+    } catch (err) {
+      console.error("LDAP login failed:", err);
+      return { ok: false, error: "Directory server is unavailable", invalidCredentials: false };
+    }
+
+    if (!found) return null;
+    if (!found.bound) {
+      return { ok: false, error: "Invalid email or password", invalidCredentials: true };
+    }
+    return linkDirectoryUser(db, found.entry, found.groups);
+  },
+};
+
+export type LdapSyncResult = {
+  usersChecked: number;
+  deactivatedUserIds: string[];
+  reactivated: number;
+  rolesChanged: boolean;
+};
+
+/**
+ * Compare LDAP-backed accounts with the directory. Accounts whose entry is
+ * gone are deactivated and signed out; accounts that reappear are
+ * reactivated, and mapped roles follow directory groups. Runs when the sync
+ * interval has elapsed, or immediately with force.
+ */
+export async function runLdapSync(
+  db: Database.Database,
+  options: { force?: boolean } = {}
+): Promise<LdapSyncResult | null> {
+  const { ldap } = getConfig();
+  if (!isLdapEnabled()) return null;
+  if (!options.force) {
+    if (ldap.syncIntervalMinutes <= 0) return null;
+    if (Date.now() - lastSyncAt < ldap.syncIntervalMinutes * 60_000) return null;
+  }
+  lastSyncAt = Date.now();
+
+  const result: LdapSyncResult = {
+    usersChecked: 0,
+    deactivatedUserIds: [],
+    reactivated: 0,
+    rolesChanged: false,
+  };
+  const linked = db
+    .prepare(
+      `SELECT id, ldap_dn, deactivated_at
+       FROM users
+       WHERE auth_provider = 'ldap' AND ldap_dn IS NOT NULL`
+    )
+    .all() as Array<{ id: string; ldap_dn: string; deactivated_at: string | null }>;
+  if (!linked.length) return result;
+
+  const directory = await withDirectory(async (client) => {
+    const entries = new Map<string, Entry>();
+    for await (const page of client.searchPaginated(ldap.userSearchBase, {
+      scope: "sub",
+      filter: ldap.userFilter,
+      attributes: userAttributes(),
+      paged: { pageSize: SYNC_PAGE_SIZE },
+    })) {
+      for (const entry of page.searchEntries) entries.set(entry.dn.toLowerCase(), entry);
+    }
+    const groupsByDn = new Map<string, string[]>();
+    if (ldap.groupRoleMappings.length) {
+      for (const user of linked) {
+        const entry = entries.get(user.ldap_dn);
+        if (entry) groupsByDn.set(user.ldap_dn, await readUserGroups(client, entry));
+      }
+    }
+    return { entries, groupsByDn };
+  });
+
+  // An empty result is far more likely a wrong search base or filter than
+  // every user leaving at once, so don't lock everyone out over it.
+  if (directory.entries.size === 0) {
+    console.warn("LDAP sync: directory search returned no users; skipping deactivation");
+    return result;
+  }
+
+  for (const user of linked) {
+    result.usersChecked += 1;
+    if (directory.entries.has(user.ldap_dn)) {
+      if (user.deactivated_at) {
+        db.prepare("UPDATE users SET deactivated_at = NULL WHERE id = ?").run(user.id);
+        result.reactivated += 1;
+      }
+      const groups = directory.groupsByDn.get(user.ldap_dn) ?? null;
+      if (syncMappedRoles(db, user.id, ldap.groupRoleMappings, groups)) {
+        result.rolesChanged = true;
+      }
+    } else if (!user.deactivated_at) {
+      db.prepare("UPDATE users SET deactivated_at = datetime('now'), status = 'offline' WHERE id = ?").run(
+        user.id
+      );
+      revokeUserSessions(db, user.id);
+      result.deactivatedUserIds.push(user.id);
+    }
+  }
+  return result;
+}
@@ -0,0 +1,586 @@
+import dns from "dns";
+import http from "http";
+import https from "https";
+import net from "net";
+import zlib from "zlib";
+import type Database from "better-sqlite3";
+import { getConfig } from "../config.js";
+
+export const MAX_PREVIEWS_PER_MESSAGE = 3;
+const MAX_REDIRECTS = 3;
+const MAX_FAILURE_CACHE_MINUTES = 60;
+const MAX_URL_LENGTH = 2048;
+const USER_AGENT = "ChitChat-LinkPreview/1.0";
+
+export type LinkPreview = {
+  url: string;
+  title: string | null;
+  description: string | null;
+  site_name: string | null;
+  image_url: string | null;
+  type: string | null;
+};
+
+/** A preview as sent to clients; the image is served through the server */
+export type MessageEmbedPayload = Omit<LinkPreview, "image_url"> & {
+  position: number;
+  image_url: string | null;
+};
+
+type CachedPreviewRow = LinkPreview & { status: "ok" | "failed" };
+
+type FetchedResource = { url: URL; contentType: string; body: Buffer };
+
+// Anything a server can reach but the internet can't: loopback, private,
+// link-local, CGNAT, multicast, documentation and translation ranges.
+// BlockList checks IPv4-mapped IPv6 addresses against the IPv4 rules.
+const BLOCKED_ADDRESSES = new net.BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.0.2.0", 24],
+  ["192.88.99.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["198.51.100.0", 24],
+  ["203.0.113.0", 24],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 128],
+  ["::1", 128],
+  ["64:ff9b::", 96],
+  ["100::", 64],
+  ["2001::", 32],
+  ["2001:db8::", 32],
+  ["2002::", 16],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, "ipv6");
+}
+
+const inFlight = new Map<string, Promise<LinkPreview | null>>();
+
+export function isPublicAddress(address: string): boolean {
+  const family = net.isIP(address);
+  if (family === 0) return false;
+  return !BLOCKED_ADDRESSES.check(address, family === 4 ? "ipv4" : "ipv6");
+}
+
+function matchesDomain(hostname: string, domains: string[]): boolean {
+  return domains.some((domain) => hostname === domain || hostname.endsWith(`.${domain}`));
+}
+
+/** Blocked domains win; a non-empty allow list limits previews to its domains */
+export function isDomainPermitted(hostname: string): boolean {
+  const { linkPreviews } = getConfig();
+  const host = hostname.toLowerCase().replace(/\.+$/, "");
+  if (matchesDomain(host, linkPreviews.blockedDomains)) return false;
+  if (linkPreviews.allowedDomains.length && !matchesDomain(host, linkPreviews.allowedDomains)) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * http(s) links in message text, in order and without duplicates. Links
+ * inside code and links wrapped in <angle brackets> are skipped, the latter
+ * being the usual way to ask for no preview.
+ */
+export function extractPreviewUrls(content: string): string[] {
+  const text = (content || "")
+    .replace(/```[\s\S]*?```/g, " ")
+    .replace(/`[^`\n]*`/g, " ")
+    .replace(/<https?:\/\/[^\s>]+>/gi, " ");
+  const urls: string[] = [];
+  for (const match of text.matchAll(/https?:\/\/[^\s<>"'`]+/gi)) {
+    let candidate = match[0].replace(/[.,;:!?'"]+$/, "");
+    // Keep balanced parentheses (Wikipedia links), drop a closing one from prose.
+    while (
+      candidate.endsWith(")") &&
+      (candidate.match(/\)/g) ?? []).length > (candidate.match(/\(/g) ?? []).length
+    ) {
+      candidate = candidate.slice(0, -1);
+    }
+    if (candidate.length > MAX_URL_LENGTH) continue;
+    let parsed: URL;
+    try {
+      parsed = new URL(candidate);
+    } catch {
+      continue;
+    }
+    parsed.hash = "";
+    const normalized = parsed.toString();
+    if (!urls.includes(normalized)) urls.push(normalized);
+    if (urls.length >= MAX_PREVIEWS_PER_MESSAGE) break;
+  }
+  return urls;
+}
+
+/**
+ * Resolve a host and insist every address is public. The request is then
+ * pinned to the checked address so a second DNS answer can't redirect it.
+ */
+async function resolvePublicAddress(
+  hostname: string
+): Promise<{ address: string; family: number }> {
+  const host = hostname.replace(/^\[|\]$/g, "");
+  const addresses = net.isIP(host)
+    ? [{ address: host, family: net.isIP(host) }]
+    : await dns.promises.lookup(host, { all: true, verbatim: true });
+  if (!addresses.length || addresses.some((entry) => !isPublicAddress(entry.address))) {
+    throw new Error(`Refusing to fetch ${hostname}: not a public address`);
+  }
+  return addresses[0];
+}
+
+function checkFetchableUrl(url: URL) {
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    throw new Error("Only http and https links are previewed");
+  }
+  if (url.username || url.password) throw new Error("Links with credentials are not previewed");
+  // Standard ports only, so previews can't be used to probe other services.
+  if (url.port && url.port !== (url.protocol === "https:" ? "443" : "80")) {
+    throw new Error("Only standard ports are previewed");
+  }
+  if (!isDomainPermitted(url.hostname)) throw new Error("Domain is not allowed for previews");
+}
+
+function decompress(encoding: string | undefined): NodeJS.ReadWriteStream | null {
+  switch ((encoding || "").toLowerCase()) {
+    case "gzip":
+    case "x-gzip":
+      return zlib.createGunzip();
+    case "deflate":
+      return zlib.createInflate();
+    case "br":
+      return zlib.createBrotliDecompress();
+    default:
+      return null;
+  }
+}
+
+/** One GET to a checked address; redirects are returned, not followed */
+function requestOnce(
+  url: URL,
+  pinned: { address: string; family: number },
+  accept: string,
+  maxBytes: number,
+  signal: AbortSignal
+): Promise<{ redirect: string | null; contentType: string; body: Buffer }> {
+  return new Promise((resolve, reject) => {
+    const client = url.protocol === "https:" ? https : http;
+    const req = client.request(
+      url,
+      {
+        method: "GET",
+        signal,
+        headers: {
+          "User-Agent": USER_AGENT,
+          Accept: accept,
+          "Accept-Encoding": "gzip, deflate, br",
+        },
+        // Happy-eyeballs connects ask for every address; plain ones for one.
+        lookup: ((
+          _hostname: string,
+          options: dns.LookupOptions,
+          callback: (...args: unknown[]) => void
+        ) => {
+          if (options.all) callback(null, [pinned]);
+          else callback(null, pinned.address, pinned.family);
+        }) as net.LookupFunction,
+      },
+      (res) => {
+        const status = res.statusCode ?? 0;
+        if (status >= 300 && status < 400 && res.headers.location) {
+          res.resume();
+          resolve({ redirect: res.headers.location, contentType: "", body: Buffer.alloc(0) });
+          return;
+        }
+        if (status < 200 || status >= 300) {
+          res.resume();
+          reject(new Error(`Responded ${status}`));
+          return;
+        }
+
+        const decoder = decompress(res.headers["content-encoding"]);
+        const stream = decoder ? res.pipe(decoder) : res;
+        const chunks: Buffer[] = [];
+        let received = 0;
+        let finished = false;
+        const finish = () => {
+          if (finished) return;
+          finished = true;
+          resolve({
+            redirect: null,
+            contentType: String(res.headers["content-type"] || "").toLowerCase(),
+            body: Buffer.concat(chunks, Math.min(received, maxBytes)),
+          });
+        };
+        // Stop reading at the size limit and keep what arrived: page
+        // metadata lives at the top, and the limit counts decompressed bytes.
+        stream.on("data", (chunk: Buffer) => {
+          if (finished) return;
+          chunks.push(chunk);
+          received += chunk.length;
+          if (received >= maxBytes) {
+            finish();
+            req.destroy();
+          }
+        });
+        stream.on("end", finish);
+        stream.on("error", (err) => {
+          if (!finished) reject(err);
+        });
+      }
+    );
+    req.on("error", reject);
+    req.end();
+  });
+}
+
+/**
+ * GET a public URL within the configured size and time limits, following a
+ * few redirects. Every hop is checked against the domain lists and resolved
+ * to a public address before connecting.
+ */
+async function fetchPublicResource(rawUrl: string, accept: string): Promise<FetchedResource> {
+  const { linkPreviews } = getConfig();
+  const signal = AbortSignal.timeout(linkPreviews.timeoutMs);
+  let url = new URL(rawUrl);
+  for (let hop = 0; hop <= MAX_REDIRECTS; hop += 1) {
+    checkFetchableUrl(url);
+    const pinned = await resolvePublicAddress(url.hostname);
+    const result = await requestOnce(url, pinned, accept, linkPreviews.maxBytes, signal);
+    if (!result.redirect) return { url, contentType: result.contentType, body: result.body };
+    url = new URL(result.redirect, url);
+  }
+  throw new Error("Too many redirects");
+}
+
+function decodeBody(body: Buffer, contentType: string): string {
+  const charset = /charset=["']?([\w-]+)/i.exec(contentType)?.[1];
+  try {
+    return new TextDecoder(charset || "utf-8").decode(body);
+  } catch {
+    return new TextDecoder("utf-8").decode(body);
+  }
+}
+
+function decodeEntities(value: string): string {
+  return value
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => safeFromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec) => safeFromCodePoint(parseInt(dec, 10)))
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&apos;/g, "'")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&amp;/g, "&");
+}
+
+function safeFromCodePoint(codePoint: number): string {
+  try {
+    return String.fromCodePoint(codePoint);
+  } catch {
+    return "";
+  }
+}
+
+function cleanText(value: string | undefined, maxLength: number): string | null {
+  if (!value) return null;
+  const text = decodeEntities(value).replace(/\s+/g, " ").trim();
+  if (!text) return null;
+  return text.length > maxLength ? `${text.slice(0, maxLength - 1)}…` : text;
+}
+
+function absoluteHttpUrl(value: string | undefined, base: URL): string | null {
+  if (!value) return null;
+  try {
+    const url = new URL(decodeEntities(value.trim()), base);
+    if (url.protocol !== "http:" && url.protocol !== "https:") return null;
+    return url.toString().length <= MAX_URL_LENGTH ? url.toString() : null;
+  } catch {
+    return null;
+  }
+}
+
+function parseAttributes(tag: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const match of tag.matchAll(/([^\s=/<>"']+)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+))/g)) {
+    attributes[match[1].toLowerCase()] = match[2] ?? match[3] ?? match[4] ?? "";
+  }
+  return attributes;
+}
+
+type PageMetadata = {
+  meta: Map<string, string>;
+  title: string | undefined;
+  oembedUrl: string | undefined;
+};
+
+function parseHtmlMetadata(html: string): PageMetadata {
+  const headEnd = html.search(/<\/head\s*>/i);
+  const head = headEnd >= 0 ? html.slice(0, headEnd) : html;
+  const meta = new Map<string, string>();
+  for (const tag of head.match(/<meta\s[^>]*>/gi) ?? []) {
+    const attributes = parseAttributes(tag);
+    const key = (attributes.property || attributes.name || "").toLowerCase();
+    if (key && attributes.content !== undefined && !meta.has(key)) {
+      meta.set(key, attributes.content);
+    }
+  }
+  let oembedUrl: string | undefined;
+  for (const tag of head.match(/<link\s[^>]*>/gi) ?? []) {
+    const attributes = parseAttributes(tag);
+    if (
+      (attributes.rel || "").toLowerCase().split(/\s+/).includes("alternate") &&
+      (attributes.type || "").toLowerCase() === "application/json+oembed" &&
+      attributes.href
+    ) {
+      oembedUrl = attributes.href;
+      break;
+    }
+  }
+  const title = /<title[^>]*>([\s\S]*?)<\/title>/i.exec(head)?.[1];
+  return { meta, title, oembedUrl };
+}
+
+/**
+ * oEmbed adds what OpenGraph often lacks (author, provider, thumbnails).
+ * Its `html` field is ignored: rendering third-party markup is exactly what
+ * previews are meant to avoid.
+ */
+async function fetchOembed(href: string, base: URL): Promise<Record<string, unknown> | null> {
+  const url = absoluteHttpUrl(href, base);
+  if (!url) return null;
+  try {
+    const resource = await fetchPublicResource(url, "application/json");
+    const parsed = JSON.parse(decodeBody(resource.body, resource.contentType));
+    return parsed && typeof parsed === "object" ? (parsed as Record<string, unknown>) : null;
+  } catch {
+    return null;
+  }
+}
+
+async function unfurl(url: string): Promise<LinkPreview | null> {
+  const page = await fetchPublicResource(url, "text/html,application/xhtml+xml;q=0.9,*/*;q=0.1");
+  if (!/^(text\/html|application\/xhtml\+xml)/.test(page.contentType)) return null;
+
+  const { meta, title, oembedUrl } = parseHtmlMetadata(decodeBody(page.body, page.contentType));
+  const oembed = oembedUrl ? await fetchOembed(oembedUrl, page.url) : null;
+  const oembedText = (key: string) =>
+    typeof oembed?.[key] === "string" ? (oembed[key] as string) : undefined;
+
+  const preview: LinkPreview = {
+    url,
+    title: cleanText(
+      meta.get("og:title") || meta.get("twitter:title") || oembedText("title") || title,
+      300
+    ),
+    description: cleanText(
+      meta.get("og:description") || meta.get("twitter:description") || meta.get("description"),
+      1000
+    ),
+    site_name: cleanText(meta.get("og:site_name") || oembedText("provider_name"), 100),
+    image_url: absoluteHttpUrl(
+      meta.get("og:image:secure_url") ||
+        meta.get("og:image") ||
+        meta.get("og:image:url") ||
+        meta.get("twitter:image") ||
+        oembedText("thumbnail_url"),
+      page.url
+    ),
+    type: cleanText(meta.get("og:type") || oembedText("type"), 50),
+  };
+  return preview.title || preview.description || preview.image_url ? preview : null;
+}
+
+/**
+ * The preview for a URL, from the cache while it is fresh, otherwise
+ * fetched. Failures are cached too (for at most an hour) so a broken link
+ * posted repeatedly isn't fetched every time.
+ */
+export async function getLinkPreview(
+  db: Database.Database,
+  url: string
+): Promise<LinkPreview | null> {
+  const cached = db
+    .prepare(
+      `SELECT url, status, title, description, site_name, image_url, type
+       FROM link_previews
+       WHERE url = ? AND expires_at > ?`
+    )
+    .get(url, new Date().toISOString()) as CachedPreviewRow | undefined;
+  if (cached) {
+    if (cached.status !== "ok") return null;
+    const { status: _status, ...preview } = cached;
+    return preview;
+  }
+
+  const pending = inFlight.get(url);
+  if (pending) return pending;
+  const task = (async () => {
+    let preview: LinkPreview | null = null;
+    try {
+      preview = await unfurl(url);
+    } catch (err) {
+      console.warn(`Link preview failed for ${url}:`, err instanceof Error ? err.message : err);
+    }
+    const { linkPreviews } = getConfig();
+    const ttlMinutes = preview
+      ? linkPreviews.cacheTtlMinutes
+      : Math.min(linkPreviews.cacheTtlMinutes, MAX_FAILURE_CACHE_MINUTES);
+    const now = new Date();
+    db.prepare(
+      `INSERT INTO link_previews
+         (url, status, title, description, site_name, image_url, type, fetched_at, expires_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+       ON CONFLICT(url) DO UPDATE SET
+         status = excluded.status,
+         title = excluded.title,
+         description = excluded.description,
+         site_name = excluded.site_name,
+         image_url = excluded.image_url,
+         type = excluded.type,
+         fetched_at = excluded.fetched_at,
+         expires_at = excluded.expires_at`
+    ).run(
+      url,
+      preview ? "ok" : "failed",
+      preview?.title ?? null,
+      preview?.description ?? null,
+      preview?.site_name ?? null,
+      preview?.image_url ?? null,
+      preview?.type ?? null,
+      now.toISOString(),
+      new Date(now.getTime() + ttlMinutes * 60_000).toISOString()
+    );
+    return preview;
+  })().finally(() => inFlight.delete(url));
+  inFlight.set(url, task);
+  return task;
+}
+
+function toEmbedPayload(
+  messageId: string,
+  row: LinkPreview & { position: number }
+): MessageEmbedPayload {
+  return {
+    position: row.position,
+    url: row.url,
+    title: row.title,
+    description: row.description,
+    site_name: row.site_name,
+    type: row.type,
+    image_url: row.image_url ? `/api/files/previews/${messageId}/${row.position}/image` : null,
+  };
+}
+
+/**
+ * Fetch previews for the links in a message and store them as its embeds,
+ * replacing any it had. Returns null when the message is gone or previews
+ * are turned off, so callers know there is nothing to announce.
+ */
+export async function unfurlMessageLinks(
+  db: Database.Database,
+  message: { id: string; content: string }
+): Promise<MessageEmbedPayload[] | null> {
+  if (!getConfig().linkPreviews.enabled) return null;
+  db.prepare("DELETE FROM link_previews WHERE expires_at <= ?").run(new Date().toISOString());
+
+  const urls = extractPreviewUrls(message.content).filter((url) => {
+    try {
+      return isDomainPermitted(new URL(url).hostname);
+    } catch {
+      return false;
+    }
+  });
+  const previews = await Promise.all(urls.map((url) => getLinkPreview(db, url)));
+
+  const exists = db.prepare("SELECT 1 FROM messages WHERE id = ?").get(message.id);
+  if (!exists) return null;
+  const rows = previews
+    .filter((preview): preview is LinkPreview => Boolean(preview))
+    .map((preview, position) => ({ ...preview, position }));
+  const txn = db.transaction(() => {
+    db.prepare("DELETE FROM message_embeds WHERE message_id = ?").run(message.id);
+    const insert = db.prepare(
+      `INSERT INTO message_embeds
+         (message_id, position, url, title, description, site_name, image_url, type)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+    );
+    for (const row of rows) {
+      insert.run(
+        message.id,
+        row.position,
+        row.url,
+        row.title,
+        row.description,
+        row.site_name,
+        row.image_url,
+        row.type
+      );
+    }
+  });
+  txn();
+  return rows.map((row) => toEmbedPayload(message.id, row));
+}
+
+/** Stored embeds for the given messages, keyed by message id */
+export function getMessageEmbeds(
+  db: Database.Database,
+  messageIds: string[]
+): Map<string, MessageEmbedPayload[]> {
+  const byMessageId = new Map<string, MessageEmbedPayload[]>();
+  if (!messageIds.length) return byMessageId;
+  const placeholders = messageIds.map(() => "?").join(", ");
+  const rows = db
+    .prepare(
+      `SELECT message_id, position, url, title, description, site_name, image_url, type
+       FROM message_embeds
+       WHERE message_id IN (${placeholders})
+       ORDER BY position ASC`
+    )
+    .all(...messageIds) as Array<LinkPreview & { message_id: string; position: number }>;
+  for (const row of rows) {
+    if (!byMessageId.has(row.message_id)) byMessageId.set(row.message_id, []);
+    byMessageId.get(row.message_id)!.push(toEmbedPayload(row.message_id, row));
+  }
+  return byMessageId;
+}
+
+/**
+ * Fetch an embed's image on the client's behalf so viewers never contact the
+ * linked site. SVG is refused because it can carry script.
+ */
+export async function fetchEmbedImage(
+  imageUrl: string
+): Promise<{ ok: true; contentType: string; body: Buffer } | { ok: false; error: string }> {
+  try {
+    const resource = await fetchPublicResource(
+      imageUrl,
+      "image/avif,image/webp,image/png,image/*;q=0.8"
+    );
+    const contentType = resource.contentType.split(";")[0].trim();
+    if (!contentType.startsWith("image/") || contentType === "image/svg+xml") {
+      return { ok: false, error: "Preview image is not a supported image" };
+    }
+    if (resource.body.length >= getConfig().linkPreviews.maxBytes) {
+      return { ok: false, error: "Preview image is too large" };
+    }
+    return { ok: true, contentType, body: resource.body };
+  } catch (err) {
+    return { ok: false, error: err instanceof Error ? err.message : "Preview image unavailable" };
+  }
+}
@@ -77,6 +77,7 @@ export async function sendMail(input: {
   subject: string;
   text: string;
   html?: string;
+  headers?: Record<string, string>;
 }) {
   const cfg = readMailConfig();
   if (!cfg) {
@@ -101,5 +102,6 @@ export async function sendMail(input: {
     subject: input.subject,
     text: input.text,
     html: input.html,
+    headers: input.headers,
   });
 }
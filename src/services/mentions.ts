@@ -0,0 +1,162 @@
+import type Database from "better-sqlite3";
+import { canReceiveRoomMessages } from "../permissions.js";
+import { getAccessibleRoomIds } from "./messageSearch.js";
+import { SYSTEM_USER_ID } from "./systemUser.js";
+
+export type MentionType = "user" | "role" | "everyone";
+
+export type ResolvedMention = {
+  userId: string;
+  type: MentionType;
+};
+
+export type MentionRow = {
+  message_id: string;
+  room_id: string;
+  mention_type: MentionType;
+  created_at: string;
+};
+
+// A direct mention outranks a role mention, which outranks @everyone.
+const MENTION_PRIORITY: Record<MentionType, number> = { user: 3, role: 2, everyone: 1 };
+
+/**
+ * Pull `@name` tokens out of message content. Code spans and fenced blocks
+ * are skipped so pasted snippets do not ping anyone.
+ */
+export function extractMentionTokens(content: string): string[] {
+  const withoutCode = (content || "").replace(/```[\s\S]*?```/g, " ").replace(/`[^`\n]*`/g, " ");
+  const tokens = new Set<string>();
+  const pattern = /(^|[^\p{L}\p{N}_@])@([\p{L}\p{N}_.-]+)/gu;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(withoutCode)) !== null) {
+    const token = match[2].replace(/[.-]+$/, "").toLowerCase();
+    if (token) tokens.add(token);
+  }
+  return Array.from(tokens);
+}
+
+/**
+ * Resolve mention tokens to the users who should be notified. @everyone and
+ * role mentions are dropped unless the author holds canMentionEveryone, the
+ * author never mentions themselves, and only users who can view the room
+ * are returned. Admins count for any channel, but DMs and temporary rooms
+ * need membership.
+ */
+export function resolveMentions(
+  db: Database.Database,
+  input: {
+    content: string;
+    authorId: string;
+    roomId: string;
+    canMentionEveryone: boolean;
+  }
+): ResolvedMention[] {
+  const tokens = extractMentionTokens(input.content);
+  if (!tokens.length) return [];
+
+  const byUser = new Map<string, MentionType>();
+  const add = (userId: string, type: MentionType) => {
+    const current = byUser.get(userId);
+    if (!current || MENTION_PRIORITY[type] > MENTION_PRIORITY[current]) {
+      byUser.set(userId, type);
+    }
+  };
+
+  const users = db
+    .prepare(
+      `SELECT id FROM users WHERE lower(username) IN (SELECT value FROM json_each(?))`
+    )
+    .all(JSON.stringify(tokens)) as Array<{ id: string }>;
+  for (const user of users) add(user.id, "user");
+
+  if (input.canMentionEveryone) {
+    if (tokens.includes("everyone")) {
+      const everyone = db
+        .prepare("SELECT id FROM users WHERE id != ?")
+        .all(SYSTEM_USER_ID) as Array<{ id: string }>;
+      for (const user of everyone) add(user.id, "everyone");
+    }
+    const roleMembers = db
+      .prepare(
+        `SELECT DISTINCT ur.user_id
+         FROM roles r
+         JOIN user_roles ur ON ur.role_id = r.id
+         WHERE r.id != 'everyone' AND lower(r.name) IN (SELECT value FROM json_each(?))`
+      )
+      .all(JSON.stringify(tokens)) as Array<{ user_id: string }>;
+    for (const member of roleMembers) add(member.user_id, "role");
+  }
+
+  byUser.delete(input.authorId);
+  const out: ResolvedMention[] = [];
+  for (const [userId, type] of byUser) {
+    if (!canReceiveRoomMessages(db, input.roomId, userId)) continue;
+    out.push({ userId, type });
+  }
+  return out;
+}
+
+/**
+ * Replace the stored mentions of a message and return only the users that
+ * were not mentioned before, so edits never re-notify anyone.
+ */
+export function syncMessageMentions(
+  db: Database.Database,
+  message: { id: string; room_id: string; created_at: string },
+  mentions: ResolvedMention[]
+): ResolvedMention[] {
+  const existing = new Set(
+    (
+      db
+        .prepare("SELECT user_id FROM message_mentions WHERE message_id = ?")
+        .all(message.id) as Array<{ user_id: string }>
+    ).map((row) => row.user_id)
+  );
+  const wanted = new Set(mentions.map((mention) => mention.userId));
+
+  const remove = db.prepare("DELETE FROM message_mentions WHERE message_id = ? AND user_id = ?");
+  for (const userId of existing) {
+    if (!wanted.has(userId)) remove.run(message.id, userId);
+  }
+  const upsert = db.prepare(
+    `INSERT INTO message_mentions (message_id, user_id, room_id, mention_type, created_at)
+     VALUES (?, ?, ?, ?, ?)
+     ON CONFLICT(message_id, user_id) DO UPDATE SET mention_type = excluded.mention_type`
+  );
+  for (const mention of mentions) {
+    upsert.run(message.id, mention.userId, message.room_id, mention.type, message.created_at);
+  }
+  return mentions.filter((mention) => !existing.has(mention.userId));
+}
+
+/**
+ * Most recent mentions of a user, newest first, limited to rooms they can
+ * still view. Pass the created_at of the last row as `before` for the next page.
+ */
+export function getRecentMentions(
+  db: Database.Database,
+  options: { userId: string; isAdmin: boolean; before?: string | null; limit: number }
+): { rows: MentionRow[]; hasMore: boolean } {
+  const roomIds = getAccessibleRoomIds(db, options.userId, options.isAdmin);
+  if (!roomIds.length) return { rows: [], hasMore: false };
+  const rows = db
+    .prepare(
+      `SELECT message_id, room_id, mention_type, created_at
+       FROM message_mentions
+       WHERE user_id = ?
+         AND room_id IN (SELECT value FROM json_each(?))
+         AND (? IS NULL OR created_at < ?)
+       ORDER BY created_at DESC
+       LIMIT ?`
+    )
+    .all(
+      options.userId,
+      JSON.stringify(roomIds),
+      options.before ?? null,
+      options.before ?? null,
+      options.limit + 1
+    ) as MentionRow[];
+  const hasMore = rows.length > options.limit;
+  return { rows: hasMore ? rows.slice(0, options.limit) : rows, hasMore };
+}
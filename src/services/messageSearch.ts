@@ -0,0 +1,292 @@
+import type Database from "better-sqlite3";
+import { canAccessRoom } from "../permissions.js";
+
+// Private-use code points wrap highlighted terms in snippets so clients can
+// split on them without having to parse (or trust) HTML.
+export const SEARCH_HIGHLIGHT_START = "\uE000";
+export const SEARCH_HIGHLIGHT_END = "\uE001";
+
+const SNIPPET_TOKENS = 16;
+
+export type SearchSort = "relevance" | "recent";
+
+export interface ParsedSearchQuery {
+  terms: string[];
+  from: string[];
+  in: string[];
+  hasAttachment: boolean;
+  isPinned: boolean;
+  before: string | null;
+  after: string | null;
+}
+
+export type SearchResultRow = {
+  id: string;
+  room_id: string;
+  user_id: string;
+  reply_to_message_id: string | null;
+  thread_parent_id: string | null;
+  thread_reply_count: number;
+  thread_last_activity_at: string | null;
+  pinned: number;
+  content: string;
+  created_at: string;
+  edited_at: string | null;
+  username?: string;
+  avatar_url?: string | null;
+  role_color?: string | null;
+  room_name: string;
+  room_type: "text" | "voice" | "dm";
+  snippet: string | null;
+};
+
+function parseDateFilter(value: string): number | null {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return null;
+  const ms = Date.parse(`${value}T00:00:00.000Z`);
+  return Number.isNaN(ms) ? null : ms;
+}
+
+/**
+ * Split a raw query into free-text terms and `key:value` filters. Values may
+ * be double-quoted to include spaces (`in:"general chat"`); unknown keys are
+ * treated as plain text.
+ */
+export function parseSearchQuery(raw: string): ParsedSearchQuery {
+  const parsed: ParsedSearchQuery = {
+    terms: [],
+    from: [],
+    in: [],
+    hasAttachment: false,
+    isPinned: false,
+    before: null,
+    after: null,
+  };
+  const tokenPattern = /([a-zA-Z]+):(?:"([^"]*)"|(\S+))|"([^"]*)"|(\S+)/g;
+  let match: RegExpExecArray | null;
+  while ((match = tokenPattern.exec(raw || "")) !== null) {
+    const [whole, key, quotedValue, bareValue, phrase, word] = match;
+    if (key) {
+      const value = (quotedValue ?? bareValue ?? "").trim();
+      const normalizedKey = key.toLowerCase();
+      if (normalizedKey === "from" && value) {
+        parsed.from.push(value.replace(/^@/, ""));
+        continue;
+      }
+      if (normalizedKey === "in" && value) {
+        parsed.in.push(value.replace(/^#/, ""));
+        continue;
+      }
+      if (normalizedKey === "has" && value.toLowerCase() === "attachment") {
+        parsed.hasAttachment = true;
+        continue;
+      }
+      if (normalizedKey === "is" && value.toLowerCase() === "pinned") {
+        parsed.isPinned = true;
+        continue;
+      }
+      if (normalizedKey === "before" || normalizedKey === "after") {
+        const ms = parseDateFilter(value);
+        if (ms !== null) {
+          if (normalizedKey === "before") {
+            parsed.before = new Date(ms).toISOString();
+          } else {
+            // "after:2024-05-01" means strictly after that day
+            parsed.after = new Date(ms + 86_400_000).toISOString();
+          }
+          continue;
+        }
+      }
+      parsed.terms.push(whole);
+      continue;
+    }
+    const term = (phrase ?? word ?? "").trim();
+    if (term) parsed.terms.push(term);
+  }
+  return parsed;
+}
+
+/**
+ * Turn free-text terms into an FTS5 MATCH expression. Every term is quoted so
+ * user input can never inject FTS operators; the last one is a prefix match
+ * to support search-as-you-type.
+ */
+export function buildFtsMatchExpression(terms: string[]): string | null {
+  const phrases = terms
+    .map((term) => term.replace(/"/g, "\"\"").trim())
+    .filter((term) => /[\p{L}\p{N}]/u.test(term));
+  if (!phrases.length) return null;
+  return phrases
+    .map((term, index) => (index === phrases.length - 1 ? `"${term}"*` : `"${term}"`))
+    .join(" ");
+}
+
+export function encodeSearchCursor(offset: number): string {
+  return Buffer.from(JSON.stringify({ o: offset }), "utf8").toString("base64url");
+}
+
+export function decodeSearchCursor(cursor: string | null | undefined): number {
+  if (!cursor) return 0;
+  try {
+    const parsed = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8")) as { o?: unknown };
+    const offset = Number(parsed.o);
+    return Number.isInteger(offset) && offset >= 0 ? offset : 0;
+  } catch {
+    return 0;
+  }
+}
+
+/**
+ * Rooms whose messages the user may read. Admins skip channel role checks,
+ * but DMs and temporary rooms always require membership.
+ */
+export function getAccessibleRoomIds(
+  db: Database.Database,
+  userId: string,
+  isAdmin: boolean
+): string[] {
+  const rooms = db
+    .prepare("SELECT id, type, is_temporary FROM rooms")
+    .all() as Array<{ id: string; type: string; is_temporary: number }>;
+  return rooms
+    .filter((room) => {
+      const membershipOnly = room.type === "dm" || room.is_temporary === 1;
+      return canAccessRoom(db, room.id, userId, isAdmin && !membershipOnly);
+    })
+    .map((room) => room.id);
+}
+
+export function searchMessages(
+  db: Database.Database,
+  options: {
+    userId: string;
+    isAdmin: boolean;
+    query: string;
+    roomId?: string | null;
+    sort?: SearchSort;
+    limit: number;
+    offset: number;
+  }
+): { rows: SearchResultRow[]; hasMore: boolean } {
+  const parsed = parseSearchQuery(options.query);
+  const matchExpression = buildFtsMatchExpression(parsed.terms);
+  // A bare filter query ("from:alice") is fine; nothing searchable at all is not.
+  const hasFilters =
+    parsed.from.length > 0 ||
+    parsed.in.length > 0 ||
+    parsed.hasAttachment ||
+    parsed.isPinned ||
+    Boolean(parsed.before) ||
+    Boolean(parsed.after);
+  if (!matchExpression && !hasFilters) return { rows: [], hasMore: false };
+
+  let roomIds = getAccessibleRoomIds(db, options.userId, options.isAdmin);
+  if (options.roomId) {
+    roomIds = roomIds.filter((id) => id === options.roomId);
+  }
+  if (parsed.in.length) {
+    const wanted = parsed.in.map((value) => value.toLowerCase());
+    const candidates = roomIds.length
+      ? (db
+          .prepare(
+            `SELECT id, name FROM rooms WHERE id IN (SELECT value FROM json_each(?))`
+          )
+          .all(JSON.stringify(roomIds)) as Array<{ id: string; name: string }>)
+      : [];
+    roomIds = candidates
+      .filter((room) => wanted.includes(room.id.toLowerCase()) || wanted.includes(room.name.toLowerCase()))
+      .map((room) => room.id);
+  }
+  if (!roomIds.length) return { rows: [], hasMore: false };
+
+  const where: string[] = ["m.room_id IN (SELECT value FROM json_each(?))"];
+  const params: unknown[] = [JSON.stringify(roomIds)];
+
+  if (parsed.from.length) {
+    const usernames = parsed.from.map((value) => value.toLowerCase());
+    const users = db
+      .prepare(
+        `SELECT id, username FROM users WHERE lower(username) IN (SELECT value FROM json_each(?))`
+      )
+      .all(JSON.stringify(usernames)) as Array<{ id: string; username: string }>;
+    const userIds = users.map((user) => user.id);
+    if (usernames.includes("me") && !userIds.includes(options.userId)) {
+      userIds.push(options.userId);
+    }
+    if (!userIds.length) return { rows: [], hasMore: false };
+    where.push("m.user_id IN (SELECT value FROM json_each(?))");
+    params.push(JSON.stringify(userIds));
+  }
+  if (parsed.hasAttachment) {
+    where.push("EXISTS(SELECT 1 FROM message_attachments ma WHERE ma.message_id = m.id)");
+  }
+  if (parsed.isPinned) {
+    where.push("EXISTS(SELECT 1 FROM pinned_messages pm WHERE pm.message_id = m.id)");
+  }
+  if (parsed.before) {
+    where.push("m.created_at < ?");
+    params.push(parsed.before);
+  }
+  if (parsed.after) {
+    where.push("m.created_at >= ?");
+    params.push(parsed.after);
+  }
+
+  const sort: SearchSort = matchExpression && options.sort !== "recent" ? "relevance" : "recent";
+  const columns = `
+         m.id,
+         m.room_id,
+         m.user_id,
+         m.reply_to_message_id,
+         m.thread_parent_id,
+         m.thread_reply_count,
+         m.thread_last_activity_at,
+         EXISTS(SELECT 1 FROM pinned_messages pm WHERE pm.message_id = m.id) AS pinned,
+         m.content,
+         m.created_at,
+         m.edited_at,
+         u.username,
+         u.avatar_url,
+         COALESCE(
+           (
+             SELECT r.color
+             FROM user_roles ur
+             JOIN roles r ON r.id = ur.role_id
+             WHERE ur.user_id = m.user_id
+             ORDER BY r.position DESC, r.created_at DESC
+             LIMIT 1
+           ),
+           '#94a3b8'
+         ) AS role_color,
+         room.name AS room_name,
+         room.type AS room_type`;
+
+  let sql: string;
+  const queryParams: unknown[] = [];
+  if (matchExpression) {
+    sql = `SELECT ${columns},
+         snippet(messages_fts, 0, ?, ?, '…', ${SNIPPET_TOKENS}) AS snippet
+       FROM messages_fts
+       JOIN messages m ON m.id = messages_fts.message_id
+       JOIN rooms room ON room.id = m.room_id
+       LEFT JOIN users u ON u.id = m.user_id
+       WHERE messages_fts MATCH ? AND ${where.join(" AND ")}
+       ORDER BY ${sort === "relevance" ? "bm25(messages_fts) ASC, m.created_at DESC" : "m.created_at DESC"}
+       LIMIT ? OFFSET ?`;
+    queryParams.push(SEARCH_HIGHLIGHT_START, SEARCH_HIGHLIGHT_END, matchExpression, ...params);
+  } else {
+    sql = `SELECT ${columns},
+         NULL AS snippet
+       FROM messages m
+       JOIN rooms room ON room.id = m.room_id
+       LEFT JOIN users u ON u.id = m.user_id
+       WHERE ${where.join(" AND ")}
+       ORDER BY m.created_at DESC
+       LIMIT ? OFFSET ?`;
+    queryParams.push(...params);
+  }
+  queryParams.push(options.limit + 1, options.offset);
+
+  const rows = db.prepare(sql).all(...queryParams) as SearchResultRow[];
+  const hasMore = rows.length > options.limit;
+  return { rows: hasMore ? rows.slice(0, options.limit) : rows, hasMore };
+}
@@ -0,0 +1,131 @@
+import type Database from "better-sqlite3";
+import { canReceiveRoomMessages } from "../permissions.js";
+
+export type NotificationMode = "all" | "mentions" | "mute";
+
+/**
+ * deliver: alert the recipient (sound / desktop notification).
+ * silent: update badges only, never alert.
+ * suppress: send nothing at all.
+ */
+export type NotificationDecision = "deliver" | "silent" | "suppress";
+
+export type NotificationRoute = {
+  userId: string;
+  decision: NotificationDecision;
+  mentioned: boolean;
+};
+
+/**
+ * Decide, per recipient, how a new message should be surfaced.
+ *
+ * - Recipients who cannot view the room never hear about it. Admins may see
+ *   any channel, but DMs and temporary rooms need a room_members row.
+ * - Thread replies only reach the thread's participants and anyone mentioned.
+ * - `mute` rooms stay silent; mentions there still bump the badge.
+ * - `mentions` rooms only alert when the recipient is mentioned. Channels
+ *   without a room preference follow desktop_notifications_mentions_only.
+ * - DND downgrades every alert to a silent badge update.
+ */
+export function routeMessageNotification(
+  db: Database.Database,
+  input: {
+    roomId: string;
+    authorId: string;
+    candidateUserIds: Iterable<string>;
+    mentionedUserIds: Iterable<string>;
+    threadParentId?: string | null;
+  }
+): NotificationRoute[] {
+  const mentioned = new Set(input.mentionedUserIds);
+  const candidates = Array.from(new Set(input.candidateUserIds)).filter(
+    (userId) => userId !== input.authorId
+  );
+  if (!candidates.length) return [];
+
+  let threadParticipants: Set<string> | null = null;
+  if (input.threadParentId) {
+    const rows = db
+      .prepare(
+        `SELECT user_id FROM messages WHERE id = ?
+         UNION
+         SELECT user_id FROM messages WHERE thread_parent_id = ?`
+      )
+      .all(input.threadParentId, input.threadParentId) as Array<{ user_id: string }>;
+    threadParticipants = new Set(rows.map((row) => row.user_id));
+  }
+
+  const ids = JSON.stringify(candidates);
+  const modes = new Map(
+    (
+      db
+        .prepare(
+          `SELECT user_id, mode
+           FROM user_room_notification_prefs
+           WHERE room_id = ? AND user_id IN (SELECT value FROM json_each(?))`
+        )
+        .all(input.roomId, ids) as Array<{ user_id: string; mode: NotificationMode }>
+    ).map((row) => [row.user_id, row.mode])
+  );
+  const users = new Map(
+    (
+      db
+        .prepare(
+          `SELECT id, status, desktop_notifications_mentions_only
+           FROM users
+           WHERE id IN (SELECT value FROM json_each(?))`
+        )
+        .all(ids) as Array<{
+          id: string;
+          status: string | null;
+          desktop_notifications_mentions_only: number;
+        }>
+    ).map((row) => [row.id, row])
+  );
+  // DMs always alert unless the room itself is set otherwise.
+  const room = db.prepare("SELECT type FROM rooms WHERE id = ?").get(input.roomId) as
+    | { type: string }
+    | undefined;
+  const isDm = room?.type === "dm";
+
+  const routes: NotificationRoute[] = [];
+  for (const userId of candidates) {
+    const user = users.get(userId);
+    if (!user) continue;
+    const isMentioned = mentioned.has(userId);
+    const defaultMode: NotificationMode =
+      !isDm && user.desktop_notifications_mentions_only === 1 ? "mentions" : "all";
+    routes.push({
+      userId,
+      mentioned: isMentioned,
+      decision: decide({
+        canView: canReceiveRoomMessages(db, input.roomId, userId),
+        inThread: !threadParticipants || threadParticipants.has(userId) || isMentioned,
+        mode: modes.get(userId) ?? defaultMode,
+        mentioned: isMentioned,
+        dnd: user.status === "dnd",
+      }),
+    });
+  }
+  return routes;
+}
+
+function decide(input: {
+  canView: boolean;
+  inThread: boolean;
+  mode: NotificationMode;
+  mentioned: boolean;
+  dnd: boolean;
+}): NotificationDecision {
+  if (!input.canView || !input.inThread) return "suppress";
+  let decision: NotificationDecision;
+  if (input.mode === "mute") {
+    decision = input.mentioned ? "silent" : "suppress";
+  } else if (input.mode === "mentions") {
+    decision = input.mentioned ? "deliver" : "silent";
+  } else {
+    decision = "deliver";
+  }
+  if (decision === "deliver" && input.dnd) return "silent";
+  return decision;
+}
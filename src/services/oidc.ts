@@ -0,0 +1,475 @@
+import crypto from "crypto";
+import bcrypt from "bcryptjs";
+import jwt from "jsonwebtoken";
+import type Database from "better-sqlite3";
+import { getConfig } from "../config.js";
+import { isUserAdmin } from "../permissions.js";
+import { syncMappedRoles } from "./groupRoleSync.js";
+import { enqueueOutgoingWebhookEvent } from "./outgoingWebhooks.js";
+import { checkNewAccountAllowed, pickAvailableUsername } from "./registrationRules.js";
+import { SYSTEM_USER_ID } from "./systemUser.js";
+
+type OidcProviderMetadata = {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+  userinfo_endpoint?: string;
+  token_endpoint_auth_methods_supported?: string[];
+};
+
+type OidcClaims = Record<string, unknown> & { sub: string };
+
+type PendingOidcLogin = {
+  codeVerifier: string;
+  nonce: string;
+  redirectUri: string;
+  returnTo: string;
+  expiresAt: number;
+};
+
+const FETCH_TIMEOUT_MS = 10_000;
+const DISCOVERY_CACHE_MS = 60 * 60_000;
+const JWKS_CACHE_MS = 60 * 60_000;
+// Unknown key ids trigger a JWKS refetch (key rotation), but no more often
+// than this so a forged kid can't be used to hammer the provider.
+const JWKS_MIN_REFRESH_MS = 60_000;
+const LOGIN_STATE_TTL_MS = 10 * 60_000;
+const HANDOFF_CODE_TTL_MS = 60_000;
+const MAX_PENDING_LOGINS = 1000;
+const ID_TOKEN_CLOCK_TOLERANCE_SECONDS = 60;
+const ID_TOKEN_ALGORITHMS: jwt.Algorithm[] = [
+  "RS256",
+  "RS384",
+  "RS512",
+  "PS256",
+  "PS384",
+  "PS512",
+  "ES256",
+  "ES384",
+  "ES512",
+];
+
+let discoveryCache: { issuerUrl: string; metadata: OidcProviderMetadata; fetchedAt: number } | null =
+  null;
+let jwksCache: { uri: string; keys: crypto.JsonWebKey[]; fetchedAt: number } | null = null;
+
+// Both maps are short-lived and single-use, so they live in memory like the
+// login attempt counters. A restart just means the user clicks "sign in" again.
+const pendingLogins = new Map<string, PendingOidcLogin>();
+const handoffCodes = new Map<string, { userId: string; expiresAt: number }>();
+
+export function isOidcEnabled(): boolean {
+  const { oidc } = getConfig();
+  return oidc.enabled && Boolean(oidc.issuerUrl) && Boolean(oidc.clientId);
+}
+
+function assertAllowedProviderUrl(raw: string, label: string): URL {
+  let url: URL;
+  try {
+    url = new URL(raw);
+  } catch {
+    throw new Error(`OIDC ${label} is not a valid URL`);
+  }
+  const loopback = ["localhost", "127.0.0.1", "[::1]"].includes(url.hostname);
+  if (url.protocol === "https:") return url;
+  if (url.protocol === "http:" && (loopback || getConfig().oidc.allowInsecureHttp)) return url;
+  throw new Error(`OIDC ${label} must use https`);
+}
+
+async function fetchJson(url: string, init: RequestInit = {}): Promise<any> {
+  const response = await fetch(url, {
+    ...init,
+    headers: { Accept: "application/json", ...(init.headers ?? {}) },
+    redirect: "error",
+    signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+  });
+  if (!response.ok) {
+    const detail = (await response.text().catch(() => "")).slice(0, 200);
+    throw new Error(`OIDC request to ${url} failed with ${response.status} ${detail}`.trim());
+  }
+  return response.json();
+}
+
+async function getProviderMetadata(): Promise<OidcProviderMetadata> {
+  const { issuerUrl } = getConfig().oidc;
+  if (
+    discoveryCache &&
+    discoveryCache.issuerUrl === issuerUrl &&
+    Date.now() - discoveryCache.fetchedAt < DISCOVERY_CACHE_MS
+  ) {
+    return discoveryCache.metadata;
+  }
+
+  assertAllowedProviderUrl(issuerUrl, "issuer URL");
+  const metadata = (await fetchJson(
+    `${issuerUrl}/.well-known/openid-configuration`
+  )) as Partial<OidcProviderMetadata>;
+  if (
+    typeof metadata.issuer !== "string" ||
+    metadata.issuer.replace(/\/+$/, "") !== issuerUrl
+  ) {
+    throw new Error("OIDC discovery document issuer does not match the configured issuer URL");
+  }
+  for (const field of ["authorization_endpoint", "token_endpoint", "jwks_uri"] as const) {
+    if (typeof metadata[field] !== "string") {
+      throw new Error(`OIDC discovery document is missing ${field}`);
+    }
+    assertAllowedProviderUrl(metadata[field], field);
+  }
+  if (metadata.userinfo_endpoint !== undefined) {
+    assertAllowedProviderUrl(metadata.userinfo_endpoint, "userinfo_endpoint");
+  }
+
+  discoveryCache = {
+    issuerUrl,
+    metadata: metadata as OidcProviderMetadata,
+    fetchedAt: Date.now(),
+  };
+  if (jwksCache && jwksCache.uri !== metadata.jwks_uri) jwksCache = null;
+  return discoveryCache.metadata;
+}
+
+async function getSigningKey(
+  jwksUri: string,
+  kid: string | undefined,
+  alg: string
+): Promise<crypto.KeyObject> {
+  const kty = alg.startsWith("ES") ? "EC" : "RSA";
+  const pick = (keys: crypto.JsonWebKey[]) =>
+    keys.find(
+      (key) =>
+        key.kty === kty &&
+        key.use !== "enc" &&
+        (kid ? key.kid === kid : true)
+    );
+
+  const cacheAge = jwksCache?.uri === jwksUri ? Date.now() - jwksCache.fetchedAt : Infinity;
+  let key = cacheAge < JWKS_CACHE_MS ? pick(jwksCache!.keys) : undefined;
+  if (!key && cacheAge >= JWKS_MIN_REFRESH_MS) {
+    const body = await fetchJson(jwksUri);
+    const keys = Array.isArray(body?.keys) ? (body.keys as crypto.JsonWebKey[]) : [];
+    jwksCache = { uri: jwksUri, keys, fetchedAt: Date.now() };
+    key = pick(keys);
+  }
+  if (!key) throw new Error("No matching OIDC signing key found");
+  return crypto.createPublicKey({ key, format: "jwk" });
+}
+
+function prunePendingLogins() {
+  const now = Date.now();
+  for (const [state, pending] of pendingLogins) {
+    if (pending.expiresAt <= now) pendingLogins.delete(state);
+  }
+  while (pendingLogins.size >= MAX_PENDING_LOGINS) {
+    const oldest = pendingLogins.keys().next().value;
+    if (oldest === undefined) break;
+    pendingLogins.delete(oldest);
+  }
+  for (const [code, handoff] of handoffCodes) {
+    if (handoff.expiresAt <= now) handoffCodes.delete(code);
+  }
+}
+
+function matchesReturnUrlPrefix(url: string, prefix: string): boolean {
+  if (url === prefix) return true;
+  if (!url.startsWith(prefix)) return false;
+  return /[/?#]$/.test(prefix) || /^[/?#]/.test(url.slice(prefix.length));
+}
+
+/**
+ * Where the browser is sent once sign-in finishes. Defaults to the server
+ * itself; anything else must share its origin or start with one of
+ * oidc.allowedReturnUrls (which is how desktop apps register custom schemes).
+ */
+export function resolveOidcReturnUrl(raw: unknown, serverBaseUrl: string): string | null {
+  if (raw === undefined || raw === "") return `${serverBaseUrl}/`;
+  if (typeof raw !== "string") return null;
+  const returnTo = raw.trim();
+  if (getConfig().oidc.allowedReturnUrls.some((prefix) => matchesReturnUrlPrefix(returnTo, prefix))) {
+    return returnTo;
+  }
+  try {
+    return new URL(returnTo).origin === new URL(serverBaseUrl).origin ? returnTo : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Begin an authorization code + PKCE login and return the provider URL to visit */
+export async function startOidcLogin(input: {
+  redirectUri: string;
+  returnTo: string;
+}): Promise<string> {
+  const { oidc } = getConfig();
+  const metadata = await getProviderMetadata();
+
+  const state = crypto.randomBytes(24).toString("base64url");
+  const nonce = crypto.randomBytes(24).toString("base64url");
+  const codeVerifier = crypto.randomBytes(48).toString("base64url");
+  const codeChallenge = crypto.createHash("sha256").update(codeVerifier).digest("base64url");
+
+  prunePendingLogins();
+  pendingLogins.set(state, {
+    codeVerifier,
+    nonce,
+    redirectUri: input.redirectUri,
+    returnTo: input.returnTo,
+    expiresAt: Date.now() + LOGIN_STATE_TTL_MS,
+  });
+
+  const url = new URL(metadata.authorization_endpoint);
+  url.searchParams.set("response_type", "code");
+  url.searchParams.set("client_id", oidc.clientId);
+  url.searchParams.set("redirect_uri", input.redirectUri);
+  url.searchParams.set("scope", oidc.scopes.join(" "));
+  url.searchParams.set("state", state);
+  url.searchParams.set("nonce", nonce);
+  url.searchParams.set("code_challenge", codeChallenge);
+  url.searchParams.set("code_challenge_method", "S256");
+  return url.toString();
+}
+
+/** Look up and forget a pending login, so each state value works once */
+export function takePendingOidcLogin(state: unknown): PendingOidcLogin | null {
+  if (typeof state !== "string" || !state) return null;
+  const pending = pendingLogins.get(state);
+  pendingLogins.delete(state);
+  if (!pending || pending.expiresAt <= Date.now()) return null;
+  return pending;
+}
+
+async function exchangeAuthorizationCode(
+  metadata: OidcProviderMetadata,
+  code: string,
+  pending: PendingOidcLogin
+): Promise<{ idToken: string; accessToken: string | null }> {
+  const { oidc } = getConfig();
+  const body = new URLSearchParams({
+    grant_type: "authorization_code",
+    code,
+    redirect_uri: pending.redirectUri,
+    code_verifier: pending.codeVerifier,
+  });
+  const headers: Record<string, string> = {
+    "Content-Type": "application/x-www-form-urlencoded",
+  };
+  const authMethods = metadata.token_endpoint_auth_methods_supported ?? ["client_secret_basic"];
+  if (!oidc.clientSecret) {
+    body.set("client_id", oidc.clientId);
+  } else if (authMethods.includes("client_secret_basic")) {
+    const credentials = `${encodeURIComponent(oidc.clientId)}:${encodeURIComponent(oidc.clientSecret)}`;
+    headers.Authorization = `Basic ${Buffer.from(credentials).toString("base64")}`;
+  } else {
+    body.set("client_id", oidc.clientId);
+    body.set("client_secret", oidc.clientSecret);
+  }
+
+  const tokens = await fetchJson(metadata.token_endpoint, {
+    method: "POST",
+    headers,
+    body: body.toString(),
+  });
+  if (typeof tokens?.id_token !== "string") {
+    throw new Error("OIDC token response did not include an id_token");
+  }
+  return {
+    idToken: tokens.id_token,
+    accessToken: typeof tokens.access_token === "string" ? tokens.access_token : null,
+  };
+}
+
+async function verifyIdToken(
+  metadata: OidcProviderMetadata,
+  idToken: string,
+  nonce: string
+): Promise<OidcClaims> {
+  const { clientId } = getConfig().oidc;
+  const decoded = jwt.decode(idToken, { complete: true });
+  if (!decoded || typeof decoded.payload === "string") {
+    throw new Error("OIDC id_token is malformed");
+  }
+  const alg = decoded.header.alg as jwt.Algorithm;
+  if (!ID_TOKEN_ALGORITHMS.includes(alg)) {
+    throw new Error(`OIDC id_token uses unsupported algorithm ${alg}`);
+  }
+
+  const key = await getSigningKey(metadata.jwks_uri, decoded.header.kid, alg);
+  const claims = jwt.verify(idToken, key, {
+    algorithms: [alg],
+    issuer: metadata.issuer,
+    audience: clientId,
+    clockTolerance: ID_TOKEN_CLOCK_TOLERANCE_SECONDS,
+  }) as jwt.JwtPayload;
+  if (claims.nonce !== nonce) {
+    throw new Error("OIDC id_token nonce does not match");
+  }
+  if (Array.isArray(claims.aud) && claims.aud.length > 1 && claims.azp !== clientId) {
+    throw new Error("OIDC id_token was issued to a different client");
+  }
+  if (typeof claims.sub !== "string" || !claims.sub) {
+    throw new Error("OIDC id_token has no subject");
+  }
+  return claims as OidcClaims;
+}
+
+async function fetchUserInfo(
+  metadata: OidcProviderMetadata,
+  accessToken: string,
+  subject: string
+): Promise<Record<string, unknown>> {
+  if (!metadata.userinfo_endpoint) return {};
+  const userinfo = await fetchJson(metadata.userinfo_endpoint, {
+    headers: { Authorization: `Bearer ${accessToken}` },
+  });
+  // Userinfo for someone else must never be merged into this login.
+  if (!userinfo || userinfo.sub !== subject) return {};
+  return userinfo as Record<string, unknown>;
+}
+
+/**
+ * Finish the provider round trip: redeem the code, verify the id_token and
+ * collect claims. Userinfo fills in anything the id_token left out.
+ */
+export async function completeOidcLogin(
+  pending: PendingOidcLogin,
+  code: string
+): Promise<OidcClaims> {
+  const { oidc } = getConfig();
+  const metadata = await getProviderMetadata();
+  const { idToken, accessToken } = await exchangeAuthorizationCode(metadata, code, pending);
+  const claims = await verifyIdToken(metadata, idToken, pending.nonce);
+  if (accessToken && (claims.email === undefined || claims[oidc.groupsClaim] === undefined)) {
+    const userinfo = await fetchUserInfo(metadata, accessToken, claims.sub);
+    return { ...userinfo, ...claims };
+  }
+  return claims;
+}
+
+function readClaimString(claims: Record<string, unknown>, name: string): string {
+  const value = claims[name];
+  return typeof value === "string" ? value.trim() : "";
+}
+
+function readGroups(claims: Record<string, unknown>, name: string): string[] | null {
+  const value = claims[name];
+  if (typeof value === "string") return [value];
+  if (Array.isArray(value)) return value.filter((entry): entry is string => typeof entry === "string");
+  return null;
+}
+
+/**
+ * Map verified claims to a local account: a known issuer/subject pair first,
+ * then, with oidc.linkExistingByEmail on, an existing non-admin local account
+ * with the same verified email (which gets linked), then a new account when
+ * auto-provisioning is on and registration limits allow it.
+ */
+export function resolveOidcUser(
+  db: Database.Database,
+  claims: OidcClaims
+):
+  | { ok: true; userId: string; created: boolean; rolesChanged: boolean }
+  | { ok: false; error: string } {
+  const config = getConfig();
+  const issuer = config.oidc.issuerUrl;
+  const email = readClaimString(claims, "email").toLowerCase();
+  const emailVerified = claims.email_verified === true || claims.email_verified === "true";
+
+  const identity = db
+    .prepare("SELECT id, user_id FROM oidc_identities WHERE issuer = ? AND subject = ?")
+    .get(issuer, claims.sub) as { id: string; user_id: string } | undefined;
+
+  let userId = identity?.user_id ?? null;
+  let created = false;
+  if (!userId) {
+    if (!email || !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+      return { ok: false, error: "The identity provider did not supply an email address" };
+    }
+    if (config.oidc.requireVerifiedEmail && !emailVerified) {
+      return { ok: false, error: "The identity provider has not verified this email address" };
+    }
+
+    const existing = db
+      .prepare("SELECT id, is_bot, auth_provider FROM users WHERE email = ?")
+      .get(email) as { id: string; is_bot: number; auth_provider: string } | undefined;
+    if (existing) {
+      if (existing.is_bot === 1 || existing.id === SYSTEM_USER_ID) {
+        return { ok: false, error: "This email belongs to an account that cannot sign in" };
+      }
+      if (!config.oidc.linkExistingByEmail) {
+        return { ok: false, error: "An account with this email already exists and is not linked to SSO" };
+      }
+      if (existing.auth_provider !== "local") {
+        return { ok: false, error: "This account is managed by the LDAP directory" };
+      }
+      if (isUserAdmin(db, existing.id)) {
+        return { ok: false, error: "Admin accounts cannot be linked to SSO automatically" };
+      }
+      userId = existing.id;
+    } else {
+      if (!config.oidc.autoProvision) {
+        return { ok: false, error: "No account exists for this identity" };
+      }
+      const rejection = checkNewAccountAllowed(db, email);
+      if (rejection) return { ok: false, error: rejection };
+
+      userId = crypto.randomUUID();
+      const username = pickAvailableUsername(
+        db,
+        readClaimString(claims, config.oidc.usernameClaim) ||
+          readClaimString(claims, "preferred_username") ||
+          email.split("@")[0]
+      );
+      // SSO accounts get an unguessable password; a password reset can set a
+      // real one later if the user also wants to log in locally.
+      const passwordHash = bcrypt.hashSync(
+        crypto.randomBytes(32).toString("hex"),
+        config.bcryptRounds
+      );
+      db.prepare(
+        "INSERT INTO users (id, username, email, password_hash, status, activity_game) VALUES (?, ?, ?, ?, 'online', NULL)"
+      ).run(userId, username, email, passwordHash);
+      enqueueOutgoingWebhookEvent(db, "member.joined", { user: { id: userId, username } });
+      created = true;
+    }
+
+    db.prepare(
+      `INSERT INTO oidc_identities (id, user_id, issuer, subject, email)
+       VALUES (?, ?, ?, ?, ?)`
+    ).run(crypto.randomUUID(), userId, issuer, claims.sub, email);
+  }
+
+  db.prepare(
+    `UPDATE oidc_identities
+     SET last_login_at = datetime('now'), email = COALESCE(?, email)
+     WHERE issuer = ? AND subject = ?`
+  ).run(email || null, issuer, claims.sub);
+
+  const rolesChanged = syncMappedRoles(
+    db,
+    userId,
+    config.oidc.groupRoleMappings,
+    readGroups(claims, config.oidc.groupsClaim)
+  );
+  return { ok: true, userId, created, rolesChanged };
+}
+
+/**
+ * The callback runs in a browser, but tokens belong to the client app. The
+ * browser gets a short-lived single-use code instead, which the client trades
+ * for tokens.
+ */
+export function createOidcHandoffCode(userId: string): string {
+  prunePendingLogins();
+  const code = crypto.randomBytes(32).toString("base64url");
+  handoffCodes.set(code, { userId, expiresAt: Date.now() + HANDOFF_CODE_TTL_MS });
+  return code;
+}
+
+export function consumeOidcHandoffCode(code: unknown): string | null {
+  if (typeof code !== "string" || !code) return null;
+  const handoff = handoffCodes.get(code);
+  handoffCodes.delete(code);
+  if (!handoff || handoff.expiresAt <= Date.now()) return null;
+  return handoff.userId;
+}
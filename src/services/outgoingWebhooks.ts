@@ -0,0 +1,369 @@
+import crypto from "crypto";
+import type Database from "better-sqlite3";
+
+export type OutgoingWebhookEvent =
+  | "message.created"
+  | "member.joined"
+  | "member.banned"
+  | "voice.joined"
+  | "file.uploaded"
+  | "command.invoked";
+
+export const OUTGOING_WEBHOOK_EVENTS: OutgoingWebhookEvent[] = [
+  "message.created",
+  "member.joined",
+  "member.banned",
+  "voice.joined",
+  "file.uploaded",
+  "command.invoked",
+];
+
+export type OutgoingWebhookRow = {
+  id: string;
+  url: string;
+  description: string | null;
+  events: OutgoingWebhookEvent[];
+  enabled: boolean;
+  created_by_user_id: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+export type OutgoingWebhookDeliveryRow = {
+  id: string;
+  webhook_id: string;
+  event: OutgoingWebhookEvent;
+  payload: string;
+  status: "pending" | "succeeded" | "failed";
+  attempts: number;
+  next_attempt_at: string;
+  last_attempt_at: string | null;
+  response_status: number | null;
+  last_error: string | null;
+  created_at: string;
+  delivered_at: string | null;
+};
+
+type StoredWebhookRow = Omit<OutgoingWebhookRow, "events" | "enabled"> & {
+  events: string;
+  enabled: number;
+  secret: string;
+};
+
+const MAX_DELIVERY_ATTEMPTS = 8;
+const RETRY_BASE_MS = 30_000;
+const RETRY_MAX_MS = 60 * 60_000;
+const DELIVERY_TIMEOUT_MS = 10_000;
+const DELIVERY_BATCH_SIZE = 50;
+const DELIVERY_LOG_RETENTION_DAYS = 30;
+const MAX_ERROR_LENGTH = 500;
+
+function toWebhook(row: StoredWebhookRow): OutgoingWebhookRow {
+  let events: OutgoingWebhookEvent[] = [];
+  try {
+    const parsed = JSON.parse(row.events);
+    if (Array.isArray(parsed)) {
+      events = parsed.filter((event): event is OutgoingWebhookEvent =>
+        OUTGOING_WEBHOOK_EVENTS.includes(event)
+      );
+    }
+  } catch {
+    events = [];
+  }
+  return {
+    id: row.id,
+    url: row.url,
+    description: row.description,
+    events,
+    enabled: row.enabled === 1,
+    created_by_user_id: row.created_by_user_id,
+    created_at: row.created_at,
+    updated_at: row.updated_at,
+  };
+}
+
+export function generateWebhookSecret() {
+  return `whsec_${crypto.randomBytes(32).toString("hex")}`;
+}
+
+/**
+ * Validate an admin-supplied endpoint. Returns the normalized URL or an
+ * error suitable for a 400 response.
+ */
+export function parseWebhookEndpoint(
+  raw: unknown
+): { ok: true; url: string } | { ok: false; error: string } {
+  if (typeof raw !== "string" || !raw.trim()) {
+    return { ok: false, error: "url is required" };
+  }
+  try {
+    const url = new URL(raw.trim());
+    if (url.protocol !== "https:" && url.protocol !== "http:") {
+      return { ok: false, error: "url must use http or https" };
+    }
+    return { ok: true, url: url.toString() };
+  } catch {
+    return { ok: false, error: "url must be a valid URL" };
+  }
+}
+
+export function parseWebhookEvents(
+  raw: unknown
+): { ok: true; events: OutgoingWebhookEvent[] } | { ok: false; error: string } {
+  if (!Array.isArray(raw) || raw.length === 0) {
+    return { ok: false, error: "events must be a non-empty array" };
+  }
+  const unknown = raw.filter(
+    (event) => !OUTGOING_WEBHOOK_EVENTS.includes(event as OutgoingWebhookEvent)
+  );
+  if (unknown.length) {
+    return {
+      ok: false,
+      error: `events must be any of: ${OUTGOING_WEBHOOK_EVENTS.join(", ")}`,
+    };
+  }
+  return { ok: true, events: Array.from(new Set(raw as OutgoingWebhookEvent[])) };
+}
+
+export function listOutgoingWebhooks(db: Database.Database): OutgoingWebhookRow[] {
+  const rows = db
+    .prepare("SELECT * FROM outgoing_webhooks ORDER BY created_at ASC")
+    .all() as StoredWebhookRow[];
+  return rows.map(toWebhook);
+}
+
+export function getOutgoingWebhook(
+  db: Database.Database,
+  id: string
+): OutgoingWebhookRow | undefined {
+  const row = db.prepare("SELECT * FROM outgoing_webhooks WHERE id = ?").get(id) as
+    | StoredWebhookRow
+    | undefined;
+  return row ? toWebhook(row) : undefined;
+}
+
+export function createOutgoingWebhook(
+  db: Database.Database,
+  input: {
+    url: string;
+    description: string | null;
+    events: OutgoingWebhookEvent[];
+    secret: string;
+    createdByUserId: string;
+  }
+): OutgoingWebhookRow {
+  const id = crypto.randomUUID();
+  db.prepare(
+    `INSERT INTO outgoing_webhooks (id, url, description, events, secret, created_by_user_id)
+     VALUES (?, ?, ?, ?, ?, ?)`
+  ).run(
+    id,
+    input.url,
+    input.description,
+    JSON.stringify(input.events),
+    input.secret,
+    input.createdByUserId
+  );
+  return getOutgoingWebhook(db, id)!;
+}
+
+export function updateOutgoingWebhook(
+  db: Database.Database,
+  id: string,
+  patch: {
+    url?: string;
+    description?: string | null;
+    events?: OutgoingWebhookEvent[];
+    enabled?: boolean;
+    secret?: string;
+  }
+): OutgoingWebhookRow | undefined {
+  const columns: Record<string, string | number | null> = {};
+  if (patch.url !== undefined) columns.url = patch.url;
+  if (patch.description !== undefined) columns.description = patch.description;
+  if (patch.events !== undefined) columns.events = JSON.stringify(patch.events);
+  if (patch.enabled !== undefined) columns.enabled = patch.enabled ? 1 : 0;
+  if (patch.secret !== undefined) columns.secret = patch.secret;
+  if (Object.keys(columns).length > 0) {
+    const setSql = Object.keys(columns).map((k) => `${k} = @${k}`).join(", ");
+    db.prepare(
+      `UPDATE outgoing_webhooks SET ${setSql}, updated_at = datetime('now') WHERE id = @id`
+    ).run({ id, ...columns });
+  }
+  return getOutgoingWebhook(db, id);
+}
+
+export function deleteOutgoingWebhook(db: Database.Database, id: string): boolean {
+  return db.prepare("DELETE FROM outgoing_webhooks WHERE id = ?").run(id).changes > 0;
+}
+
+export function listOutgoingWebhookDeliveries(
+  db: Database.Database,
+  webhookId: string,
+  options: { status?: OutgoingWebhookDeliveryRow["status"]; limit: number }
+): OutgoingWebhookDeliveryRow[] {
+  return db
+    .prepare(
+      `SELECT *
+       FROM outgoing_webhook_deliveries
+       WHERE webhook_id = ? AND (? IS NULL OR status = ?)
+       ORDER BY created_at DESC
+       LIMIT ?`
+    )
+    .all(webhookId, options.status ?? null, options.status ?? null, options.limit) as
+    OutgoingWebhookDeliveryRow[];
+}
+
+/** Put a failed delivery back in the queue for an immediate attempt. */
+export function retryOutgoingWebhookDelivery(db: Database.Database, id: string): boolean {
+  const result = db
+    .prepare(
+      `UPDATE outgoing_webhook_deliveries
+       SET status = 'pending', attempts = 0, next_attempt_at = ?
+       WHERE id = ? AND status = 'failed'`
+    )
+    .run(new Date().toISOString(), id);
+  return result.changes > 0;
+}
+
+/**
+ * Queue an event for every enabled webhook subscribed to it. Delivery
+ * happens later in runOutgoingWebhookDeliveries, so callers never wait on
+ * a remote endpoint.
+ */
+export function enqueueOutgoingWebhookEvent(
+  db: Database.Database,
+  event: OutgoingWebhookEvent,
+  data: Record<string, unknown>
+) {
+  const webhooks = listOutgoingWebhooks(db).filter(
+    (webhook) => webhook.enabled && webhook.events.includes(event)
+  );
+  if (!webhooks.length) return;
+  const createdAt = new Date().toISOString();
+  const insert = db.prepare(
+    `INSERT INTO outgoing_webhook_deliveries (id, webhook_id, event, payload, next_attempt_at, created_at)
+     VALUES (?, ?, ?, ?, ?, ?)`
+  );
+  const txn = db.transaction(() => {
+    for (const webhook of webhooks) {
+      const id = crypto.randomUUID();
+      const payload = JSON.stringify({ id, event, created_at: createdAt, data });
+      insert.run(id, webhook.id, event, payload, createdAt, createdAt);
+    }
+  });
+  txn();
+}
+
+export function signWebhookPayload(secret: string, timestamp: string, body: string) {
+  return crypto.createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+}
+
+function nextRetryDelayMs(attempts: number) {
+  return Math.min(RETRY_MAX_MS, RETRY_BASE_MS * 2 ** Math.max(0, attempts - 1));
+}
+
+async function attemptDelivery(
+  delivery: OutgoingWebhookDeliveryRow,
+  webhook: StoredWebhookRow
+): Promise<{ ok: boolean; status: number | null; error: string | null }> {
+  const timestamp = Math.floor(Date.now() / 1000).toString();
+  try {
+    const response = await fetch(webhook.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "User-Agent": "ChitChat-Webhooks/1.0",
+        "X-ChitChat-Event": delivery.event,
+        "X-ChitChat-Delivery": delivery.id,
+        "X-ChitChat-Timestamp": timestamp,
+        "X-ChitChat-Signature": `sha256=${signWebhookPayload(
+          webhook.secret,
+          timestamp,
+          delivery.payload
+        )}`,
+      },
+      body: delivery.payload,
+      redirect: "manual",
+      signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+    });
+    if (response.ok) return { ok: true, status: response.status, error: null };
+    return { ok: false, status: response.status, error: `Endpoint responded ${response.status}` };
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    return { ok: false, status: null, error: message.slice(0, MAX_ERROR_LENGTH) };
+  }
+}
+
+/**
+ * Send every queued delivery that has come due. Failures are retried with
+ * exponential backoff until MAX_DELIVERY_ATTEMPTS, then marked failed. The
+ * queue lives in the database, so pending deliveries survive restarts.
+ */
+export async function runOutgoingWebhookDeliveries(
+  db: Database.Database
+): Promise<{ delivered: number; retried: number; failed: number }> {
+  const result = { delivered: 0, retried: 0, failed: 0 };
+  db.prepare(
+    `DELETE FROM outgoing_webhook_deliveries
+     WHERE status != 'pending' AND datetime(created_at) <= datetime('now', ?)`
+  ).run(`-${DELIVERY_LOG_RETENTION_DAYS} days`);
+
+  const due = db
+    .prepare(
+      `SELECT *
+       FROM outgoing_webhook_deliveries
+       WHERE status = 'pending' AND next_attempt_at <= ?
+       ORDER BY next_attempt_at ASC
+       LIMIT ?`
+    )
+    .all(new Date().toISOString(), DELIVERY_BATCH_SIZE) as OutgoingWebhookDeliveryRow[];
+
+  for (const delivery of due) {
+    const webhook = db
+      .prepare("SELECT * FROM outgoing_webhooks WHERE id = ?")
+      .get(delivery.webhook_id) as StoredWebhookRow | undefined;
+    if (!webhook || webhook.enabled !== 1) {
+      db.prepare(
+        `UPDATE outgoing_webhook_deliveries
+         SET status = 'failed', last_error = 'Webhook disabled'
+         WHERE id = ?`
+      ).run(delivery.id);
+      result.failed += 1;
+      continue;
+    }
+
+    const outcome = await attemptDelivery(delivery, webhook);
+    const attempts = delivery.attempts + 1;
+    const now = new Date();
+    if (outcome.ok) {
+      db.prepare(
+        `UPDATE outgoing_webhook_deliveries
+         SET status = 'succeeded', attempts = ?, last_attempt_at = ?, delivered_at = ?,
+             response_status = ?, last_error = NULL
+         WHERE id = ?`
+      ).run(attempts, now.toISOString(), now.toISOString(), outcome.status, delivery.id);
+      result.delivered += 1;
+      continue;
+    }
+
+    const exhausted = attempts >= MAX_DELIVERY_ATTEMPTS;
+    db.prepare(
+      `UPDATE outgoing_webhook_deliveries
+       SET status = ?, attempts = ?, last_attempt_at = ?, next_attempt_at = ?,
+           response_status = ?, last_error = ?
+       WHERE id = ?`
+    ).run(
+      exhausted ? "failed" : "pending",
+      attempts,
+      now.toISOString(),
+      new Date(now.getTime() + nextRetryDelayMs(attempts)).toISOString(),
+      outcome.status,
+      outcome.error,
+      delivery.id
+    );
+    if (exhausted) result.failed += 1;
+    else result.retried += 1;
+  }
+  return result;
+}
@@ -0,0 +1,198 @@
+import crypto from "crypto";
+import type Database from "better-sqlite3";
+import { isUserAdmin } from "../permissions.js";
+
+// Like bot tokens, personal access tokens are opaque, stored hashed and
+// recognized by their prefix.
+export const PERSONAL_ACCESS_TOKEN_PREFIX = "ccp_";
+
+export type PersonalAccessTokenScope = "messages:read" | "files:write" | "admin";
+
+export const PERSONAL_ACCESS_TOKEN_SCOPES: PersonalAccessTokenScope[] = [
+  "messages:read",
+  "files:write",
+  "admin",
+];
+
+export const MAX_PERSONAL_ACCESS_TOKENS_PER_USER = 25;
+export const MAX_PERSONAL_ACCESS_TOKEN_NAME_LENGTH = 80;
+export const MAX_PERSONAL_ACCESS_TOKEN_EXPIRY_DAYS = 365;
+const LAST_USED_RESOLUTION_SECONDS = 60;
+
+export type PersonalAccessTokenRow = {
+  id: string;
+  user_id: string;
+  name: string;
+  token_prefix: string;
+  scopes: PersonalAccessTokenScope[];
+  expires_at: string | null;
+  created_at: string;
+  last_used_at: string | null;
+  revoked_at: string | null;
+};
+
+type StoredPersonalAccessTokenRow = Omit<PersonalAccessTokenRow, "scopes"> & { scopes: string };
+
+function hashPersonalAccessToken(token: string) {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}
+
+function toPersonalAccessToken(row: StoredPersonalAccessTokenRow): PersonalAccessTokenRow {
+  let scopes: PersonalAccessTokenScope[] = [];
+  try {
+    scopes = parsePersonalAccessTokenScopes(JSON.parse(row.scopes)) ?? [];
+  } catch {
+    scopes = [];
+  }
+  return { ...row, scopes };
+}
+
+export function isPersonalAccessToken(token: string): boolean {
+  return token.startsWith(PERSONAL_ACCESS_TOKEN_PREFIX);
+}
+
+/** Validate requested scopes; null when any entry is unknown or none are given */
+export function parsePersonalAccessTokenScopes(raw: unknown): PersonalAccessTokenScope[] | null {
+  if (!Array.isArray(raw) || raw.length === 0) return null;
+  const scopes: PersonalAccessTokenScope[] = [];
+  for (const entry of raw) {
+    const scope = PERSONAL_ACCESS_TOKEN_SCOPES.find((candidate) => candidate === entry);
+    if (!scope) return null;
+    if (!scopes.includes(scope)) scopes.push(scope);
+  }
+  return scopes;
+}
+
+export function listPersonalAccessTokens(
+  db: Database.Database,
+  userId: string
+): PersonalAccessTokenRow[] {
+  const rows = db
+    .prepare(
+      `SELECT id, user_id, name, token_prefix, scopes, expires_at, created_at, last_used_at, revoked_at
+       FROM personal_access_tokens
+       WHERE user_id = ?
+       ORDER BY created_at DESC`
+    )
+    .all(userId) as StoredPersonalAccessTokenRow[];
+  return rows.map(toPersonalAccessToken);
+}
+
+export function countActivePersonalAccessTokens(db: Database.Database, userId: string): number {
+  const row = db
+    .prepare(
+      `SELECT COUNT(*) AS count
+       FROM personal_access_tokens
+       WHERE user_id = ?
+         AND revoked_at IS NULL
+         AND (expires_at IS NULL OR expires_at > ?)`
+    )
+    .get(userId, new Date().toISOString()) as { count: number };
+  return row.count;
+}
+
+/** Issue a token. The plaintext is returned once and never stored. */
+export function createPersonalAccessToken(
+  db: Database.Database,
+  input: {
+    userId: string;
+    name: string;
+    scopes: PersonalAccessTokenScope[];
+    expiresAt: string | null;
+  }
+): { token: string; row: PersonalAccessTokenRow } {
+  const id = crypto.randomUUID();
+  const token = `${PERSONAL_ACCESS_TOKEN_PREFIX}${crypto.randomBytes(32).toString("base64url")}`;
+  db.prepare(
+    `INSERT INTO personal_access_tokens (id, user_id, name, token_hash, token_prefix, scopes, expires_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?)`
+  ).run(
+    id,
+    input.userId,
+    input.name,
+    hashPersonalAccessToken(token),
+    token.slice(0, PERSONAL_ACCESS_TOKEN_PREFIX.length + 6),
+    JSON.stringify(input.scopes),
+    input.expiresAt
+  );
+  const row = db
+    .prepare(
+      `SELECT id, user_id, name, token_prefix, scopes, expires_at, created_at, last_used_at, revoked_at
+       FROM personal_access_tokens
+       WHERE id = ?`
+    )
+    .get(id) as StoredPersonalAccessTokenRow;
+  return { token, row: toPersonalAccessToken(row) };
+}
+
+export function revokePersonalAccessToken(
+  db: Database.Database,
+  userId: string,
+  tokenId: string
+): boolean {
+  const result = db
+    .prepare(
+      `UPDATE personal_access_tokens
+       SET revoked_at = datetime('now')
+       WHERE id = ? AND user_id = ? AND revoked_at IS NULL`
+    )
+    .run(tokenId, userId);
+  return result.changes > 0;
+}
+
+/**
+ * Resolve a personal access token to its owner, or null when it is unknown,
+ * revoked, expired, or the owner is banned or deactivated.
+ */
+export function authenticatePersonalAccessToken(
+  db: Database.Database,
+  token: string
+): {
+  userId: string;
+  username: string;
+  email: string;
+  isAdmin: boolean;
+  scopes: PersonalAccessTokenScope[];
+} | null {
+  const row = db
+    .prepare(
+      `SELECT pat.id AS token_id, pat.scopes, pat.expires_at, u.id, u.username, u.email
+       FROM personal_access_tokens pat
+       JOIN users u ON u.id = pat.user_id
+       WHERE pat.token_hash = ? AND pat.revoked_at IS NULL AND u.deactivated_at IS NULL`
+    )
+    .get(hashPersonalAccessToken(token)) as
+    | {
+        token_id: string;
+        scopes: string;
+        expires_at: string | null;
+        id: string;
+        username: string;
+        email: string;
+      }
+    | undefined;
+  if (!row) return null;
+  if (row.expires_at && new Date(row.expires_at).getTime() <= Date.now()) return null;
+  const banned = db.prepare("SELECT 1 FROM server_bans WHERE user_id = ?").get(row.id);
+  if (banned) return null;
+
+  db.prepare(
+    `UPDATE personal_access_tokens
+     SET last_used_at = datetime('now')
+     WHERE id = ? AND (last_used_at IS NULL OR last_used_at < datetime('now', ?))`
+  ).run(row.token_id, `-${LAST_USED_RESOLUTION_SECONDS} seconds`);
+
+  let scopes: PersonalAccessTokenScope[] = [];
+  try {
+    scopes = parsePersonalAccessTokenScopes(JSON.parse(row.scopes)) ?? [];
+  } catch {
+    scopes = [];
+  }
+  return {
+    userId: row.id,
+    username: row.username,
+    email: row.email,
+    isAdmin: isUserAdmin(db, row.id),
+    scopes,
+  };
+}
@@ -0,0 +1,321 @@
+import crypto from "crypto";
+import type Database from "better-sqlite3";
+
+export const MIN_POLL_OPTIONS = 2;
+export const MAX_POLL_OPTIONS = 10;
+export const MAX_POLL_QUESTION_LENGTH = 300;
+export const MAX_POLL_OPTION_LENGTH = 100;
+export const MAX_POLL_DURATION_MS = 30 * 24 * 60 * 60_000;
+
+export type PollDraft = {
+  question: string;
+  options: string[];
+  allowMultiple: boolean;
+  anonymous: boolean;
+  closesAt: string | null;
+};
+
+export type PollOptionPayload = {
+  id: string;
+  label: string;
+  votes: number;
+  /** Omitted for anonymous polls */
+  voter_ids?: string[];
+};
+
+export type PollPayload = {
+  id: string;
+  message_id: string;
+  question: string;
+  allow_multiple: boolean;
+  anonymous: boolean;
+  closes_at: string | null;
+  closed: boolean;
+  closed_at: string | null;
+  options: PollOptionPayload[];
+  voter_count: number;
+  /** The viewer's own choices; only present when a viewer is known */
+  my_option_ids?: string[];
+};
+
+type PollRow = {
+  id: string;
+  message_id: string;
+  question: string;
+  allow_multiple: number;
+  anonymous: number;
+  closes_at: string | null;
+  closed_at: string | null;
+};
+
+export type PollTarget = PollRow & {
+  room_id: string;
+  thread_parent_id: string | null;
+  author_id: string;
+};
+
+/**
+ * Validate a poll submitted with message:send. Returns the normalized draft
+ * or an error suitable for an ack.
+ */
+export function parsePollDraft(
+  raw: unknown
+): { ok: true; poll: PollDraft } | { ok: false; error: string } {
+  if (!raw || typeof raw !== "object") return { ok: false, error: "Invalid poll" };
+  const input = raw as Record<string, unknown>;
+
+  const question = typeof input.question === "string" ? input.question.trim() : "";
+  if (!question || question.length > MAX_POLL_QUESTION_LENGTH) {
+    return {
+      ok: false,
+      error: `Poll question is required (max ${MAX_POLL_QUESTION_LENGTH} characters)`,
+    };
+  }
+
+  if (!Array.isArray(input.options)) return { ok: false, error: "Poll options are required" };
+  const options: string[] = [];
+  const seen = new Set<string>();
+  for (const option of input.options) {
+    const label = typeof option === "string" ? option.trim() : "";
+    if (!label) continue;
+    if (label.length > MAX_POLL_OPTION_LENGTH) {
+      return {
+        ok: false,
+        error: `Poll options must be at most ${MAX_POLL_OPTION_LENGTH} characters`,
+      };
+    }
+    if (seen.has(label.toLowerCase())) return { ok: false, error: "Poll options must be unique" };
+    seen.add(label.toLowerCase());
+    options.push(label);
+  }
+  if (options.length < MIN_POLL_OPTIONS || options.length > MAX_POLL_OPTIONS) {
+    return {
+      ok: false,
+      error: `Polls need between ${MIN_POLL_OPTIONS} and ${MAX_POLL_OPTIONS} options`,
+    };
+  }
+
+  let closesAt: string | null = null;
+  if (input.closesAt !== undefined && input.closesAt !== null && input.closesAt !== "") {
+    const ms =
+      typeof input.closesAt === "string" || typeof input.closesAt === "number"
+        ? new Date(input.closesAt).getTime()
+        : NaN;
+    if (Number.isNaN(ms)) return { ok: false, error: "closesAt must be a valid date" };
+    const now = Date.now();
+    if (ms <= now) return { ok: false, error: "closesAt must be in the future" };
+    if (ms - now > MAX_POLL_DURATION_MS) {
+      return { ok: false, error: "closesAt must be within 30 days" };
+    }
+    closesAt = new Date(ms).toISOString();
+  }
+
+  return {
+    ok: true,
+    poll: {
+      question,
+      options,
+      allowMultiple: input.allowMultiple === true,
+      anonymous: input.anonymous === true,
+      closesAt,
+    },
+  };
+}
+
+/** Store a poll for a freshly inserted message; call inside its transaction */
+export function insertPoll(db: Database.Database, messageId: string, draft: PollDraft): string {
+  const pollId = crypto.randomUUID();
+  db.prepare(
+    `INSERT INTO polls (id, message_id, question, allow_multiple, anonymous, closes_at)
+     VALUES (?, ?, ?, ?, ?, ?)`
+  ).run(
+    pollId,
+    messageId,
+    draft.question,
+    draft.allowMultiple ? 1 : 0,
+    draft.anonymous ? 1 : 0,
+    draft.closesAt
+  );
+  const insertOption = db.prepare(
+    "INSERT INTO poll_options (id, poll_id, position, label) VALUES (?, ?, ?, ?)"
+  );
+  draft.options.forEach((label, position) => {
+    insertOption.run(crypto.randomUUID(), pollId, position, label);
+  });
+  return pollId;
+}
+
+function isPollClosed(poll: Pick<PollRow, "closes_at" | "closed_at">, nowMs = Date.now()): boolean {
+  if (poll.closed_at) return true;
+  return Boolean(poll.closes_at && new Date(poll.closes_at).getTime() <= nowMs);
+}
+
+/**
+ * Build wire payloads for the polls attached to the given messages, keyed by
+ * message id. With a viewer, each payload also carries their own choices so
+ * anonymous polls can still show what the viewer picked.
+ */
+export function getPollPayloads(
+  db: Database.Database,
+  messageIds: string[],
+  viewerUserId: string | null = null
+): Map<string, PollPayload> {
+  const byMessageId = new Map<string, PollPayload>();
+  if (!messageIds.length) return byMessageId;
+
+  const placeholders = messageIds.map(() => "?").join(", ");
+  const polls = db
+    .prepare(
+      `SELECT id, message_id, question, allow_multiple, anonymous, closes_at, closed_at
+       FROM polls
+       WHERE message_id IN (${placeholders})`
+    )
+    .all(...messageIds) as PollRow[];
+  if (!polls.length) return byMessageId;
+
+  const pollPlaceholders = polls.map(() => "?").join(", ");
+  const pollIds = polls.map((poll) => poll.id);
+  const options = db
+    .prepare(
+      `SELECT id, poll_id, label
+       FROM poll_options
+       WHERE poll_id IN (${pollPlaceholders})
+       ORDER BY position ASC`
+    )
+    .all(...pollIds) as Array<{ id: string; poll_id: string; label: string }>;
+  const votes = db
+    .prepare(
+      `SELECT poll_id, option_id, user_id
+       FROM poll_votes
+       WHERE poll_id IN (${pollPlaceholders})
+       ORDER BY created_at ASC`
+    )
+    .all(...pollIds) as Array<{ poll_id: string; option_id: string; user_id: string }>;
+
+  const votersByOption = new Map<string, string[]>();
+  const votersByPoll = new Map<string, Set<string>>();
+  for (const vote of votes) {
+    if (!votersByOption.has(vote.option_id)) votersByOption.set(vote.option_id, []);
+    votersByOption.get(vote.option_id)!.push(vote.user_id);
+    if (!votersByPoll.has(vote.poll_id)) votersByPoll.set(vote.poll_id, new Set<string>());
+    votersByPoll.get(vote.poll_id)!.add(vote.user_id);
+  }
+
+  const now = Date.now();
+  for (const poll of polls) {
+    const anonymous = poll.anonymous === 1;
+    const closed = isPollClosed(poll, now);
+    const pollOptions = options.filter((option) => option.poll_id === poll.id);
+    const payload: PollPayload = {
+      id: poll.id,
+      message_id: poll.message_id,
+      question: poll.question,
+      allow_multiple: poll.allow_multiple === 1,
+      anonymous,
+      closes_at: poll.closes_at,
+      closed,
+      closed_at: poll.closed_at ?? (closed ? poll.closes_at : null),
+      options: pollOptions.map((option) => {
+        const voterIds = votersByOption.get(option.id) ?? [];
+        return {
+          id: option.id,
+          label: option.label,
+          votes: voterIds.length,
+          ...(!anonymous && { voter_ids: voterIds }),
+        };
+      }),
+      voter_count: votersByPoll.get(poll.id)?.size ?? 0,
+    };
+    if (viewerUserId) {
+      payload.my_option_ids = pollOptions
+        .filter((option) => (votersByOption.get(option.id) ?? []).includes(viewerUserId))
+        .map((option) => option.id);
+    }
+    byMessageId.set(poll.message_id, payload);
+  }
+  return byMessageId;
+}
+
+/** The poll attached to a message, with what's needed to authorize and route updates */
+export function getPollTarget(db: Database.Database, messageId: string): PollTarget | undefined {
+  return db
+    .prepare(
+      `SELECT p.id, p.message_id, p.question, p.allow_multiple, p.anonymous, p.closes_at,
+              p.closed_at, m.room_id, m.thread_parent_id, m.user_id AS author_id
+       FROM polls p
+       JOIN messages m ON m.id = p.message_id
+       WHERE p.message_id = ?`
+    )
+    .get(messageId) as PollTarget | undefined;
+}
+
+/**
+ * Replace a user's choices on a poll. An empty list withdraws their vote;
+ * single-choice polls accept at most one option.
+ */
+export function castPollVote(
+  db: Database.Database,
+  poll: PollTarget,
+  userId: string,
+  optionIds: unknown
+): { ok: true } | { ok: false; error: string } {
+  if (isPollClosed(poll)) return { ok: false, error: "This poll is closed" };
+  if (!Array.isArray(optionIds) || optionIds.some((id) => typeof id !== "string")) {
+    return { ok: false, error: "optionIds must be an array of option ids" };
+  }
+  const chosen = Array.from(new Set(optionIds as string[]));
+  if (poll.allow_multiple !== 1 && chosen.length > 1) {
+    return { ok: false, error: "This poll only allows one choice" };
+  }
+
+  const validIds = new Set(
+    (
+      db.prepare("SELECT id FROM poll_options WHERE poll_id = ?").all(poll.id) as Array<{
+        id: string;
+      }>
+    ).map((row) => row.id)
+  );
+  if (chosen.some((id) => !validIds.has(id))) {
+    return { ok: false, error: "Unknown poll option" };
+  }
+
+  const txn = db.transaction(() => {
+    db.prepare("DELETE FROM poll_votes WHERE poll_id = ? AND user_id = ?").run(poll.id, userId);
+    const insertVote = db.prepare(
+      `INSERT INTO poll_votes (poll_id, option_id, user_id, created_at)
+       VALUES (?, ?, ?, datetime('now'))`
+    );
+    for (const optionId of chosen) insertVote.run(poll.id, optionId, userId);
+  });
+  txn();
+  return { ok: true };
+}
+
+export function closePoll(db: Database.Database, pollId: string, closedByUserId: string): boolean {
+  const result = db
+    .prepare(
+      `UPDATE polls
+       SET closed_at = ?, closed_by_user_id = ?
+       WHERE id = ? AND closed_at IS NULL`
+    )
+    .run(new Date().toISOString(), closedByUserId, pollId);
+  return result.changes > 0;
+}
+
+/**
+ * Mark polls whose close time has passed as closed and return their message
+ * ids so final tallies can be broadcast. Votes are already refused past
+ * closes_at; this just makes the closure visible to connected clients.
+ */
+export function closeDuePolls(db: Database.Database, nowIso: string): string[] {
+  const due = db
+    .prepare(
+      `SELECT id, message_id, closes_at
+       FROM polls
+       WHERE closed_at IS NULL AND closes_at IS NOT NULL AND closes_at <= ?`
+    )
+    .all(nowIso) as Array<{ id: string; message_id: string; closes_at: string }>;
+  const markClosed = db.prepare("UPDATE polls SET closed_at = ? WHERE id = ? AND closed_at IS NULL");
+  for (const poll of due) markClosed.run(poll.closes_at, poll.id);
+  return due.map((poll) => poll.message_id);
+}
@@ -0,0 +1,185 @@
+import crypto from "crypto";
+import webpush from "web-push";
+import type Database from "better-sqlite3";
+import { getConfig, updateConfig } from "../config.js";
+
+type VapidDetails = {
+  subject: string;
+  publicKey: string;
+  privateKey: string;
+};
+
+type PushSubscriptionRow = {
+  id: string;
+  user_id: string;
+  endpoint: string;
+  p256dh: string;
+  auth: string;
+};
+
+export type PushPayload = {
+  type: "message";
+  title: string;
+  body: string;
+  room_id: string;
+  message_id: string;
+  thread_parent_id: string | null;
+};
+
+const PUSH_TTL_SECONDS = 60 * 60 * 24;
+const PUSH_BODY_MAX_LENGTH = 140;
+
+function readVapidDetails(): VapidDetails | null {
+  const config = getConfig();
+  const push = config.push;
+  if (!push.enabled) return null;
+  const publicKey = (push.vapidPublicKey || "").trim();
+  const privateKey = (push.vapidPrivateKey || "").trim();
+  if (!publicKey || !privateKey) return null;
+  const fallbackEmail = config.adminEmails[0]?.trim();
+  const subject =
+    (push.subject || "").trim() || (fallbackEmail ? `mailto:${fallbackEmail}` : "");
+  if (!subject) return null;
+  return { subject, publicKey, privateKey };
+}
+
+export function isPushConfigured(): boolean {
+  return readVapidDetails() !== null;
+}
+
+export function getVapidPublicKey(): string | null {
+  return readVapidDetails()?.publicKey ?? null;
+}
+
+/**
+ * Generate a fresh VAPID key pair and store it in config. Existing browser
+ * subscriptions are bound to the old public key and can never be delivered
+ * to again, so they are dropped and clients resubscribe on next launch.
+ */
+export function rotateVapidKeys(db: Database.Database): { publicKey: string; removed: number } {
+  const keys = webpush.generateVAPIDKeys();
+  updateConfig({
+    push: {
+      ...getConfig().push,
+      vapidPublicKey: keys.publicKey,
+      vapidPrivateKey: keys.privateKey,
+    },
+  });
+  const removed = db.prepare("DELETE FROM push_subscriptions").run().changes;
+  return { publicKey: keys.publicKey, removed };
+}
+
+export function savePushSubscription(
+  db: Database.Database,
+  userId: string,
+  input: { endpoint: string; p256dh: string; auth: string; userAgent?: string | null }
+) {
+  // Endpoints are unique per browser install; re-registering moves it to this user.
+  db.prepare(
+    `INSERT INTO push_subscriptions (id, user_id, endpoint, p256dh, auth, user_agent, created_at)
+     VALUES (?, ?, ?, ?, ?, ?, datetime('now'))
+     ON CONFLICT(endpoint) DO UPDATE SET
+       user_id = excluded.user_id,
+       p256dh = excluded.p256dh,
+       auth = excluded.auth,
+       user_agent = excluded.user_agent`
+  ).run(crypto.randomUUID(), userId, input.endpoint, input.p256dh, input.auth, input.userAgent ?? null);
+}
+
+export function removePushSubscription(
+  db: Database.Database,
+  userId: string,
+  endpoint: string
+): boolean {
+  const result = db
+    .prepare("DELETE FROM push_subscriptions WHERE user_id = ? AND endpoint = ?")
+    .run(userId, endpoint);
+  return result.changes > 0;
+}
+
+export function getUserIdsWithPushSubscriptions(db: Database.Database): string[] {
+  const rows = db
+    .prepare("SELECT DISTINCT user_id FROM push_subscriptions")
+    .all() as Array<{ user_id: string }>;
+  return rows.map((row) => row.user_id);
+}
+
+export function buildMessagePushPayload(input: {
+  roomName: string;
+  roomType: string;
+  authorName: string;
+  content: string;
+  roomId: string;
+  messageId: string;
+  threadParentId: string | null;
+}): PushPayload {
+  const content = input.content.trim() || "Sent an attachment";
+  return {
+    type: "message",
+    title: input.roomType === "dm" ? input.authorName : `${input.authorName} in #${input.roomName}`,
+    body:
+      content.length > PUSH_BODY_MAX_LENGTH
+        ? `${content.slice(0, PUSH_BODY_MAX_LENGTH - 1)}…`
+        : content,
+    room_id: input.roomId,
+    message_id: input.messageId,
+    thread_parent_id: input.threadParentId,
+  };
+}
+
+// Deliveries run one at a time in the background so a slow push service
+// never holds up message sending.
+let deliveryQueue: Promise<void> = Promise.resolve();
+
+export function queuePushDelivery(db: Database.Database, userIds: string[], payload: PushPayload) {
+  if (!userIds.length || !isPushConfigured()) return;
+  deliveryQueue = deliveryQueue
+    .then(() => deliverPush(db, userIds, payload))
+    .catch((err) => {
+      console.error("Push delivery failed:", err);
+    });
+}
+
+async function deliverPush(db: Database.Database, userIds: string[], payload: PushPayload) {
+  const vapid = readVapidDetails();
+  if (!vapid) return;
+  const subscriptions = db
+    .prepare(
+      `SELECT id, user_id, endpoint, p256dh, auth
+       FROM push_subscriptions
+       WHERE user_id IN (SELECT value FROM json_each(?))`
+    )
+    .all(JSON.stringify(userIds)) as PushSubscriptionRow[];
+  const body = JSON.stringify(payload);
+
+  for (const subscription of subscriptions) {
+    try {
+      await webpush.sendNotification(
+        {
+          endpoint: subscription.endpoint,
+          keys: { p256dh: subscription.p256dh, auth: subscription.auth },
+        },
+        body,
+        {
+          vapidDetails: vapid,
+          TTL: PUSH_TTL_SECONDS,
+          timeout: 10_000,
+        }
+      );
+      db.prepare("UPDATE push_subscriptions SET last_success_at = datetime('now') WHERE id = ?").run(
+        subscription.id
+      );
+    } catch (err) {
+      const statusCode = (err as { statusCode?: number }).statusCode;
+      // 404/410 mean the browser unsubscribed; anything else may be transient.
+      if (statusCode === 404 || statusCode === 410) {
+        db.prepare("DELETE FROM push_subscriptions WHERE id = ?").run(subscription.id);
+      } else {
+        console.error(
+          `Push to subscription ${subscription.id} failed:`,
+          err instanceof Error ? err.message : err
+        );
+      }
+    }
+  }
+}
@@ -0,0 +1,136 @@
+import type Database from "better-sqlite3";
+
+export type RoomReadState = {
+  room_id: string;
+  last_read_message_id: string | null;
+  last_read_at: string | null;
+  unread_count: number;
+  mention_count: number;
+};
+
+function toIsoTimestamp(value: string | null | undefined): string | null {
+  if (!value) return null;
+  // SQLite datetime('now') values have no "T"/zone; messages use ISO strings.
+  const normalized = value.includes("T") ? value : `${value.replace(" ", "T")}Z`;
+  const ms = Date.parse(normalized);
+  return Number.isNaN(ms) ? null : new Date(ms).toISOString();
+}
+
+/**
+ * Without a stored read marker, only messages posted after the account was
+ * created count as unread so upgrading does not light up every old room.
+ */
+function getDefaultReadBaseline(db: Database.Database, userId: string): string {
+  const row = db
+    .prepare("SELECT created_at FROM users WHERE id = ?")
+    .get(userId) as { created_at: string | null } | undefined;
+  return toIsoTimestamp(row?.created_at) ?? new Date(0).toISOString();
+}
+
+/**
+ * Read markers plus unread and mention counts for many rooms, computed in a
+ * single grouped query so room list broadcasts stay cheap.
+ */
+export function getRoomReadStates(
+  db: Database.Database,
+  userId: string,
+  roomIds: string[]
+): Map<string, RoomReadState> {
+  const out = new Map<string, RoomReadState>();
+  if (!roomIds.length) return out;
+
+  const rows = db
+    .prepare(
+      `WITH marker AS (
+         SELECT t.value AS room_id,
+                rs.last_read_message_id,
+                rs.last_read_at,
+                COALESCE(rs.last_read_at, @baseline) AS since
+         FROM json_each(@roomIds) t
+         LEFT JOIN room_read_state rs ON rs.room_id = t.value AND rs.user_id = @userId
+       ),
+       unread AS (
+         SELECT m.room_id, COUNT(*) AS count
+         FROM marker k
+         JOIN messages m ON m.room_id = k.room_id AND m.created_at > k.since
+         WHERE m.user_id != @userId AND m.thread_parent_id IS NULL
+         GROUP BY m.room_id
+       ),
+       mentioned AS (
+         SELECT mm.room_id, COUNT(*) AS count
+         FROM marker k
+         JOIN message_mentions mm
+           ON mm.room_id = k.room_id AND mm.user_id = @userId AND mm.created_at > k.since
+         JOIN messages m ON m.id = mm.message_id
+         WHERE m.thread_parent_id IS NULL
+         GROUP BY mm.room_id
+       )
+       SELECT k.room_id,
+              k.last_read_message_id,
+              k.last_read_at,
+              COALESCE(u.count, 0) AS unread_count,
+              COALESCE(n.count, 0) AS mention_count
+       FROM marker k
+       LEFT JOIN unread u ON u.room_id = k.room_id
+       LEFT JOIN mentioned n ON n.room_id = k.room_id`
+    )
+    .all({
+      userId,
+      roomIds: JSON.stringify(roomIds),
+      baseline: getDefaultReadBaseline(db, userId),
+    }) as RoomReadState[];
+
+  for (const row of rows) out.set(row.room_id, row);
+  return out;
+}
+
+export function getRoomReadState(
+  db: Database.Database,
+  userId: string,
+  roomId: string
+): RoomReadState {
+  return getRoomReadStates(db, userId, [roomId]).get(roomId)!;
+}
+
+/**
+ * Move a user's read marker forward to the given message (or the latest
+ * message in the room). Markers never move backwards, so a stale device
+ * cannot undo a read made elsewhere.
+ */
+export function markRoomRead(
+  db: Database.Database,
+  userId: string,
+  roomId: string,
+  messageId?: string | null
+): { ok: true; state: RoomReadState } | { ok: false; error: string } {
+  const target = messageId
+    ? (db
+        .prepare("SELECT id, room_id, created_at FROM messages WHERE id = ?")
+        .get(messageId) as { id: string; room_id: string; created_at: string } | undefined)
+    : (db
+        .prepare(
+          `SELECT id, room_id, created_at
+           FROM messages
+           WHERE room_id = ? AND thread_parent_id IS NULL
+           ORDER BY created_at DESC
+           LIMIT 1`
+        )
+        .get(roomId) as { id: string; room_id: string; created_at: string } | undefined);
+
+  if (messageId && (!target || target.room_id !== roomId)) {
+    return { ok: false, error: "Message not found in this room" };
+  }
+
+  const lastReadAt = target?.created_at ?? new Date().toISOString();
+  db.prepare(
+    `INSERT INTO room_read_state (user_id, room_id, last_read_message_id, last_read_at, updated_at)
+     VALUES (?, ?, ?, ?, datetime('now'))
+     ON CONFLICT(user_id, room_id) DO UPDATE SET
+       last_read_message_id = excluded.last_read_message_id,
+       last_read_at = excluded.last_read_at,
+       updated_at = datetime('now')
+     WHERE excluded.last_read_at > room_read_state.last_read_at`
+  ).run(userId, roomId, target?.id ?? null, lastReadAt);
+
+  return { ok: true, state: getRoomReadState(db, userId, roomId) };
+}
@@ -0,0 +1,70 @@
+import crypto from "crypto";
+import type Database from "better-sqlite3";
+import { getConfig } from "../config.js";
+import { SYSTEM_USER_ID } from "./systemUser.js";
+
+const USERNAME_MAX_LENGTH = 32;
+
+/** Patterns are either a full address or a domain, with or without a leading "@" */
+function matchesEmailPattern(normalizedEmail: string, pattern: string): boolean {
+  return (
+    normalizedEmail === pattern.toLowerCase() ||
+    normalizedEmail.endsWith((pattern.startsWith("@") ? pattern : `@${pattern}`).toLowerCase())
+  );
+}
+
+/**
+ * Apply the server's account-creation limits (email allowlist and blocklist,
+ * maxUsers) to a new account. Returns the reason it is refused, or null.
+ */
+export function checkNewAccountAllowed(
+  db: Database.Database,
+  normalizedEmail: string
+): string | null {
+  const config = getConfig();
+
+  if (
+    config.registration.emailAllowlist.length > 0 &&
+    !config.registration.emailAllowlist.some((pattern) =>
+      matchesEmailPattern(normalizedEmail, pattern)
+    )
+  ) {
+    return "Email not allowed on this server";
+  }
+
+  if (
+    config.registration.emailBlocklist.some((pattern) =>
+      matchesEmailPattern(normalizedEmail, pattern)
+    )
+  ) {
+    return "Email not allowed on this server";
+  }
+
+  if (config.maxUsers > 0) {
+    const count = db
+      .prepare("SELECT COUNT(*) as count FROM users WHERE is_bot = 0 AND id != ?")
+      .get(SYSTEM_USER_ID) as { count: number };
+    if (count.count >= config.maxUsers) {
+      return "Server has reached maximum user capacity";
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Turn a name from an external identity source into a valid, unused
+ * username, adding a numeric suffix when the name is taken.
+ */
+export function pickAvailableUsername(db: Database.Database, raw: string): string {
+  let base = raw.replace(/[^a-zA-Z0-9._-]+/g, "_").slice(0, USERNAME_MAX_LENGTH);
+  if (base.length < 2) base = `user_${base}`;
+
+  const taken = db.prepare("SELECT 1 FROM users WHERE username = ?");
+  if (!taken.get(base)) return base;
+  for (let suffix = 2; suffix < 100; suffix += 1) {
+    const candidate = `${base.slice(0, USERNAME_MAX_LENGTH - String(suffix).length - 1)}_${suffix}`;
+    if (!taken.get(candidate)) return candidate;
+  }
+  return `${base.slice(0, USERNAME_MAX_LENGTH - 9)}_${crypto.randomBytes(4).toString("hex")}`;
+}
@@ -43,6 +43,9 @@ function deleteOrphanAttachments(
        FROM attachments a
        WHERE NOT EXISTS (
          SELECT 1 FROM message_attachments ma WHERE ma.attachment_id = a.id
+       )
+       AND NOT EXISTS (
+         SELECT 1 FROM custom_emojis ce WHERE ce.attachment_id = a.id
        )`
     )
     .all() as Array<{ id: string; storage_path: string }>;
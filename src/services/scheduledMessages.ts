@@ -0,0 +1,180 @@
+import crypto from "crypto";
+import type Database from "better-sqlite3";
+
+export type ScheduledMessageKind = "message" | "reminder";
+export type ScheduledMessageStatus = "pending" | "sent" | "failed" | "cancelled";
+
+export type ScheduledMessageRow = {
+  id: string;
+  user_id: string;
+  kind: ScheduledMessageKind;
+  room_id: string;
+  target_message_id: string | null;
+  content: string;
+  send_at: string;
+  status: ScheduledMessageStatus;
+  failure_reason: string | null;
+  sent_message_id: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+export const MAX_PENDING_SCHEDULED_MESSAGES = 50;
+export const MAX_SCHEDULE_AHEAD_MS = 365 * 24 * 60 * 60_000;
+
+/**
+ * Validate a requested delivery time. Returns the normalized ISO timestamp
+ * or an error suitable for an ack.
+ */
+export function parseSendAt(
+  raw: unknown
+): { ok: true; sendAt: string } | { ok: false; error: string } {
+  const ms = typeof raw === "string" || typeof raw === "number" ? new Date(raw).getTime() : NaN;
+  if (Number.isNaN(ms)) return { ok: false, error: "sendAt must be a valid date" };
+  const now = Date.now();
+  if (ms <= now) return { ok: false, error: "sendAt must be in the future" };
+  if (ms - now > MAX_SCHEDULE_AHEAD_MS) {
+    return { ok: false, error: "sendAt must be within one year" };
+  }
+  return { ok: true, sendAt: new Date(ms).toISOString() };
+}
+
+export function countPendingScheduledMessages(db: Database.Database, userId: string): number {
+  const row = db
+    .prepare(
+      "SELECT COUNT(*) AS count FROM scheduled_messages WHERE user_id = ? AND status = 'pending'"
+    )
+    .get(userId) as { count: number };
+  return row.count;
+}
+
+export function createScheduledMessage(
+  db: Database.Database,
+  input: {
+    userId: string;
+    kind: ScheduledMessageKind;
+    roomId: string;
+    targetMessageId?: string | null;
+    content: string;
+    sendAt: string;
+  }
+): ScheduledMessageRow {
+  const id = crypto.randomUUID();
+  db.prepare(
+    `INSERT INTO scheduled_messages (id, user_id, kind, room_id, target_message_id, content, send_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?)`
+  ).run(
+    id,
+    input.userId,
+    input.kind,
+    input.roomId,
+    input.targetMessageId ?? null,
+    input.content,
+    input.sendAt
+  );
+  return getScheduledMessage(db, id)!;
+}
+
+export function getScheduledMessage(
+  db: Database.Database,
+  id: string
+): ScheduledMessageRow | undefined {
+  return db.prepare("SELECT * FROM scheduled_messages WHERE id = ?").get(id) as
+    | ScheduledMessageRow
+    | undefined;
+}
+
+export function listScheduledMessages(
+  db: Database.Database,
+  userId: string
+): ScheduledMessageRow[] {
+  return db
+    .prepare(
+      `SELECT *
+       FROM scheduled_messages
+       WHERE user_id = ? AND status = 'pending'
+       ORDER BY send_at ASC`
+    )
+    .all(userId) as ScheduledMessageRow[];
+}
+
+export function cancelScheduledMessage(
+  db: Database.Database,
+  userId: string,
+  id: string
+): boolean {
+  const result = db
+    .prepare(
+      `UPDATE scheduled_messages
+       SET status = 'cancelled', updated_at = datetime('now')
+       WHERE id = ? AND user_id = ? AND status = 'pending'`
+    )
+    .run(id, userId);
+  return result.changes > 0;
+}
+
+/** Cancel everything a user still has queued, e.g. when they are banned */
+export function cancelUserScheduledMessages(db: Database.Database, userId: string): number {
+  const result = db
+    .prepare(
+      `UPDATE scheduled_messages
+       SET status = 'cancelled', updated_at = datetime('now')
+       WHERE user_id = ? AND status = 'pending'`
+    )
+    .run(userId);
+  return result.changes;
+}
+
+/**
+ * Why a queued item can no longer be sent on the author's behalf, or null.
+ * Banned and deactivated accounts lose their queue at send time.
+ */
+export function getScheduledAuthorBlock(db: Database.Database, userId: string): string | null {
+  const row = db
+    .prepare(
+      `SELECT u.deactivated_at, b.user_id AS banned_user_id
+       FROM users u
+       LEFT JOIN server_bans b ON b.user_id = u.id
+       WHERE u.id = ?`
+    )
+    .get(userId) as { deactivated_at: string | null; banned_user_id: string | null } | undefined;
+  if (!row || row.deactivated_at) return "Your account was deactivated when this message was due";
+  if (row.banned_user_id) return "You were banned when this message was due";
+  return null;
+}
+
+export function getDueScheduledMessages(
+  db: Database.Database,
+  now: string,
+  limit = 100
+): ScheduledMessageRow[] {
+  return db
+    .prepare(
+      `SELECT *
+       FROM scheduled_messages
+       WHERE status = 'pending' AND send_at <= ?
+       ORDER BY send_at ASC
+       LIMIT ?`
+    )
+    .all(now, limit) as ScheduledMessageRow[];
+}
+
+export function markScheduledMessageSent(
+  db: Database.Database,
+  id: string,
+  sentMessageId: string
+) {
+  db.prepare(
+    `UPDATE scheduled_messages
+     SET status = 'sent', sent_message_id = ?, updated_at = datetime('now')
+     WHERE id = ?`
+  ).run(sentMessageId, id);
+}
+
+export function markScheduledMessageFailed(db: Database.Database, id: string, reason: string) {
+  db.prepare(
+    `UPDATE scheduled_messages
+     SET status = 'failed', failure_reason = ?, updated_at = datetime('now')
+     WHERE id = ?`
+  ).run(reason, id);
+}
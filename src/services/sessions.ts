@@ -0,0 +1,202 @@
+import crypto from "crypto";
+import type Database from "better-sqlite3";
+
+export type UserSessionRow = {
+  id: string;
+  user_id: string;
+  device_name: string | null;
+  ip_address: string | null;
+  user_agent: string | null;
+  created_at: string;
+  last_seen_at: string;
+  expires_at: string;
+  revoked_at: string | null;
+};
+
+// Refresh tokens are opaque and single-use. Each refresh swaps the token for
+// a new one; presenting a token that was already swapped means it leaked, so
+// the whole session is revoked.
+export const REFRESH_TOKEN_PREFIX = "ccr_";
+
+const MAX_DEVICE_NAME_LENGTH = 100;
+const MAX_USER_AGENT_LENGTH = 255;
+const LAST_SEEN_RESOLUTION_SECONDS = 60;
+// Revoked and expired rows are kept around briefly so "signed out" shows up
+// in the session list before disappearing.
+const ENDED_SESSION_RETENTION_DAYS = 7;
+
+export function createUserSession(
+  db: Database.Database,
+  input: {
+    userId: string;
+    deviceName: string | null;
+    ipAddress: string | null;
+    userAgent: string | null;
+    expiresAt: string;
+  }
+): UserSessionRow {
+  const id = crypto.randomUUID();
+  db.prepare(
+    `DELETE FROM user_sessions
+     WHERE user_id = ?
+       AND (revoked_at < datetime('now', ?) OR expires_at < ?)`
+  ).run(input.userId, `-${ENDED_SESSION_RETENTION_DAYS} days`, new Date().toISOString());
+  db.prepare(
+    `INSERT INTO user_sessions (id, user_id, device_name, ip_address, user_agent, expires_at)
+     VALUES (?, ?, ?, ?, ?, ?)`
+  ).run(
+    id,
+    input.userId,
+    input.deviceName?.trim().slice(0, MAX_DEVICE_NAME_LENGTH) || null,
+    input.ipAddress,
+    input.userAgent?.slice(0, MAX_USER_AGENT_LENGTH) || null,
+    input.expiresAt
+  );
+  return db.prepare("SELECT * FROM user_sessions WHERE id = ?").get(id) as UserSessionRow;
+}
+
+/**
+ * True when the session exists, belongs to the user and has not been revoked
+ * or expired. Refreshes last_seen_at at most once a minute.
+ */
+export function touchUserSession(
+  db: Database.Database,
+  sessionId: string,
+  userId: string
+): boolean {
+  const row = db
+    .prepare("SELECT user_id, expires_at, revoked_at FROM user_sessions WHERE id = ?")
+    .get(sessionId) as
+    | { user_id: string; expires_at: string; revoked_at: string | null }
+    | undefined;
+  if (!row || row.user_id !== userId || row.revoked_at) return false;
+  if (new Date(row.expires_at).getTime() <= Date.now()) return false;
+  db.prepare(
+    `UPDATE user_sessions
+     SET last_seen_at = datetime('now')
+     WHERE id = ? AND last_seen_at < datetime('now', ?)`
+  ).run(sessionId, `-${LAST_SEEN_RESOLUTION_SECONDS} seconds`);
+  return true;
+}
+
+export function listUserSessions(db: Database.Database, userId: string): UserSessionRow[] {
+  return db
+    .prepare(
+      `SELECT *
+       FROM user_sessions
+       WHERE user_id = ? AND revoked_at IS NULL AND expires_at > ?
+       ORDER BY last_seen_at DESC`
+    )
+    .all(userId, new Date().toISOString()) as UserSessionRow[];
+}
+
+export function revokeUserSession(
+  db: Database.Database,
+  userId: string,
+  sessionId: string
+): boolean {
+  const result = db
+    .prepare(
+      `UPDATE user_sessions
+       SET revoked_at = datetime('now')
+       WHERE id = ? AND user_id = ? AND revoked_at IS NULL`
+    )
+    .run(sessionId, userId);
+  return result.changes > 0;
+}
+
+/**
+ * Revoke every active session for a user, optionally keeping one (the
+ * caller's own). Returns the revoked session ids so their sockets can be
+ * disconnected.
+ */
+export function revokeUserSessions(
+  db: Database.Database,
+  userId: string,
+  keepSessionId: string | null = null
+): string[] {
+  const rows = db
+    .prepare(
+      `SELECT id FROM user_sessions
+       WHERE user_id = ? AND revoked_at IS NULL AND (? IS NULL OR id != ?)`
+    )
+    .all(userId, keepSessionId, keepSessionId) as Array<{ id: string }>;
+  if (!rows.length) return [];
+  db.prepare(
+    `UPDATE user_sessions
+     SET revoked_at = datetime('now')
+     WHERE user_id = ? AND revoked_at IS NULL AND (? IS NULL OR id != ?)`
+  ).run(userId, keepSessionId, keepSessionId);
+  return rows.map((row) => row.id);
+}
+
+function hashRefreshToken(token: string) {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}
+
+export function issueRefreshToken(db: Database.Database, sessionId: string): string {
+  const token = `${REFRESH_TOKEN_PREFIX}${crypto.randomBytes(32).toString("base64url")}`;
+  db.prepare(
+    `INSERT INTO session_refresh_tokens (id, session_id, token_hash)
+     VALUES (?, ?, ?)`
+  ).run(crypto.randomUUID(), sessionId, hashRefreshToken(token));
+  return token;
+}
+
+/**
+ * Exchange a refresh token for a new one and slide the session's expiry
+ * forward. Reusing an already exchanged token revokes the session and
+ * reports its id so the caller can disconnect its sockets.
+ */
+export function rotateRefreshToken(
+  db: Database.Database,
+  token: string,
+  sessionLifetimeMs: number
+):
+  | { ok: true; session: UserSessionRow; refreshToken: string }
+  | { ok: false; error: string; revokedSessionId?: string } {
+  return db.transaction(() => {
+    const row = db
+      .prepare(
+        `SELECT rt.id, rt.used_at, s.id AS session_id, s.user_id, s.expires_at, s.revoked_at
+         FROM session_refresh_tokens rt
+         JOIN user_sessions s ON s.id = rt.session_id
+         WHERE rt.token_hash = ?`
+      )
+      .get(hashRefreshToken(token)) as
+      | {
+          id: string;
+          used_at: string | null;
+          session_id: string;
+          user_id: string;
+          expires_at: string;
+          revoked_at: string | null;
+        }
+      | undefined;
+    if (!row || row.revoked_at || new Date(row.expires_at).getTime() <= Date.now()) {
+      return { ok: false as const, error: "Invalid or expired refresh token" };
+    }
+    if (row.used_at) {
+      revokeUserSession(db, row.user_id, row.session_id);
+      return {
+        ok: false as const,
+        error: "Refresh token was already used; the session has been signed out",
+        revokedSessionId: row.session_id,
+      };
+    }
+
+    db.prepare(
+      "UPDATE session_refresh_tokens SET used_at = datetime('now') WHERE id = ?"
+    ).run(row.id);
+    db.prepare(
+      `UPDATE user_sessions
+       SET expires_at = ?, last_seen_at = datetime('now')
+       WHERE id = ?`
+    ).run(new Date(Date.now() + sessionLifetimeMs).toISOString(), row.session_id);
+    const refreshToken = issueRefreshToken(db, row.session_id);
+    const session = db
+      .prepare("SELECT * FROM user_sessions WHERE id = ?")
+      .get(row.session_id) as UserSessionRow;
+    return { ok: true as const, session, refreshToken };
+  })();
+}
@@ -0,0 +1,408 @@
+import crypto from "crypto";
+import type Database from "better-sqlite3";
+import { PERMISSION_KEYS, type PermissionKey } from "../permissions.js";
+
+export type SlashCommandOptionType = "string" | "text" | "integer" | "user" | "duration";
+
+export type SlashCommandOption = {
+  name: string;
+  description: string;
+  type: SlashCommandOptionType;
+  required: boolean;
+};
+
+export type SlashCommandDefinition = {
+  name: string;
+  description: string;
+  options: SlashCommandOption[];
+  /** Permission the caller needs, checked against getUserPermissions */
+  permission: PermissionKey | null;
+};
+
+export type SlashCommand = SlashCommandDefinition &
+  (
+    | { source: "builtin"; postsMessage: boolean }
+    | { source: "bot"; bot_user_id: string; bot_username: string }
+  );
+
+export type SlashCommandArgValue = string | number | { id: string; username: string };
+
+export type SlashCommandInvocation = {
+  name: string;
+  rawArgs: string;
+};
+
+const SLASH_COMMAND_OPTION_TYPES: SlashCommandOptionType[] = [
+  "string",
+  "text",
+  "integer",
+  "user",
+  "duration",
+];
+const COMMAND_NAME_PATTERN = /^[a-z0-9_-]{1,32}$/;
+const MAX_COMMANDS_PER_BOT = 25;
+const MAX_COMMAND_OPTIONS = 10;
+const MAX_DESCRIPTION_LENGTH = 100;
+const DURATION_UNIT_MS: Record<string, number> = {
+  s: 1000,
+  m: 60_000,
+  h: 60 * 60_000,
+  d: 24 * 60 * 60_000,
+  w: 7 * 24 * 60 * 60_000,
+};
+
+export const BUILTIN_SLASH_COMMANDS: SlashCommand[] = [
+  {
+    source: "builtin",
+    name: "me",
+    description: "Describe what you are doing",
+    options: [{ name: "action", description: "What you are doing", type: "text", required: true }],
+    permission: null,
+    postsMessage: true,
+  },
+  {
+    source: "builtin",
+    name: "shrug",
+    description: "Append ¯\\_(ツ)_/¯ to your message",
+    options: [{ name: "message", description: "Optional message", type: "text", required: false }],
+    permission: null,
+    postsMessage: true,
+  },
+  {
+    source: "builtin",
+    name: "topic",
+    description: "Set or clear the channel topic",
+    options: [{ name: "topic", description: "New topic, empty to clear", type: "text", required: false }],
+    permission: "canManageChannels",
+    postsMessage: false,
+  },
+  {
+    source: "builtin",
+    name: "nick",
+    description: "Change your username",
+    options: [{ name: "name", description: "New username", type: "string", required: true }],
+    permission: null,
+    postsMessage: false,
+  },
+  {
+    source: "builtin",
+    name: "timeout",
+    description: "Stop a member from sending messages for a while",
+    options: [
+      { name: "user", description: "Member to time out", type: "user", required: true },
+      { name: "duration", description: "How long, e.g. 10m, 2h, 1d", type: "duration", required: true },
+      { name: "reason", description: "Optional reason", type: "text", required: false },
+    ],
+    permission: "canTimeoutMembers",
+    postsMessage: false,
+  },
+  {
+    source: "builtin",
+    name: "poll",
+    description: "Start a poll",
+    options: [
+      { name: "question", description: "Question, quoted if it has spaces", type: "string", required: true },
+      { name: "choices", description: "Choices separated by |", type: "text", required: true },
+    ],
+    permission: null,
+    postsMessage: true,
+  },
+  {
+    source: "builtin",
+    name: "remind",
+    description: "Get a reminder from the server later",
+    options: [
+      { name: "in", description: "When, e.g. 30m, 2h, 1d", type: "duration", required: true },
+      { name: "note", description: "What to remind you about", type: "text", required: true },
+    ],
+    permission: null,
+    postsMessage: false,
+  },
+];
+
+/**
+ * Split `/name args` into its parts. Anything that does not look like a
+ * command (including `//escaped` text and paths like `/usr/bin`) returns null
+ * and is sent as a normal message.
+ */
+export function parseSlashCommand(content: unknown): SlashCommandInvocation | null {
+  if (typeof content !== "string") return null;
+  const match = /^\/([a-zA-Z0-9_-]{1,32})(?:\s+([\s\S]*))?$/.exec(content.trim());
+  if (!match) return null;
+  return { name: match[1].toLowerCase(), rawArgs: (match[2] ?? "").trim() };
+}
+
+/** Parse `10m`, `2h`, `1h30m` and friends into milliseconds. */
+export function parseDuration(raw: string): number | null {
+  const value = raw.trim().toLowerCase();
+  if (!/^(\d+[smhdw])+$/.test(value)) return null;
+  let total = 0;
+  for (const [, amount, unit] of value.matchAll(/(\d+)([smhdw])/g)) {
+    total += Number(amount) * DURATION_UNIT_MS[unit];
+  }
+  return total > 0 ? total : null;
+}
+
+export function formatSlashCommandUsage(command: SlashCommandDefinition): string {
+  const parts = command.options.map((option) =>
+    option.required ? `<${option.name}>` : `[${option.name}]`
+  );
+  return [`/${command.name}`, ...parts].join(" ");
+}
+
+function nextToken(input: string): { token: string; rest: string } | null {
+  const trimmed = input.trimStart();
+  if (!trimmed) return null;
+  const quoted = /^"((?:[^"\\]|\\.)*)"(?:\s+|$)/.exec(trimmed);
+  if (quoted) {
+    return {
+      token: quoted[1].replace(/\\(.)/g, "$1"),
+      rest: trimmed.slice(quoted[0].length),
+    };
+  }
+  const bare = /^(\S+)(?:\s+|$)/.exec(trimmed)!;
+  return { token: bare[1], rest: trimmed.slice(bare[0].length) };
+}
+
+/**
+ * Match raw argument text against a command's options. Words fill options in
+ * order, double quotes group words, and a trailing `text` option takes the
+ * rest of the line verbatim.
+ */
+export function parseSlashCommandArgs(
+  db: Database.Database,
+  command: SlashCommandDefinition,
+  rawArgs: string
+): { ok: true; args: Record<string, SlashCommandArgValue> } | { ok: false; error: string } {
+  const usage = `Usage: ${formatSlashCommandUsage(command)}`;
+  const args: Record<string, SlashCommandArgValue> = {};
+  let rest = rawArgs;
+
+  for (const option of command.options) {
+    if (option.type === "text") {
+      const text = rest.trim();
+      rest = "";
+      if (!text) {
+        if (option.required) return { ok: false, error: `Missing ${option.name}. ${usage}` };
+        continue;
+      }
+      args[option.name] = text;
+      continue;
+    }
+
+    const next = nextToken(rest);
+    if (!next) {
+      if (option.required) return { ok: false, error: `Missing ${option.name}. ${usage}` };
+      continue;
+    }
+    rest = next.rest;
+
+    if (option.type === "integer") {
+      if (!/^-?\d+$/.test(next.token)) {
+        return { ok: false, error: `${option.name} must be a whole number. ${usage}` };
+      }
+      args[option.name] = Number(next.token);
+    } else if (option.type === "duration") {
+      const ms = parseDuration(next.token);
+      if (ms === null) {
+        return { ok: false, error: `${option.name} must be a duration like 10m, 2h or 1d. ${usage}` };
+      }
+      args[option.name] = ms;
+    } else if (option.type === "user") {
+      const username = next.token.replace(/^@/, "");
+      const user = db
+        .prepare("SELECT id, username FROM users WHERE lower(username) = lower(?)")
+        .get(username) as { id: string; username: string } | undefined;
+      if (!user) return { ok: false, error: `User @${username} was not found` };
+      args[option.name] = user;
+    } else {
+      args[option.name] = next.token;
+    }
+  }
+
+  if (rest.trim()) return { ok: false, error: `Too many arguments. ${usage}` };
+  return { ok: true, args };
+}
+
+type StoredSlashCommandRow = {
+  name: string;
+  description: string;
+  options: string;
+  permission_key: string | null;
+  bot_user_id: string;
+  bot_username: string;
+};
+
+function toSlashCommand(row: StoredSlashCommandRow): SlashCommand {
+  let options: SlashCommandOption[] = [];
+  try {
+    options = JSON.parse(row.options) as SlashCommandOption[];
+  } catch {
+    options = [];
+  }
+  return {
+    source: "bot",
+    name: row.name,
+    description: row.description,
+    options,
+    permission: PERMISSION_KEYS.find((key) => key === row.permission_key) ?? null,
+    bot_user_id: row.bot_user_id,
+    bot_username: row.bot_username,
+  };
+}
+
+/** Built-ins first, then every command registered by a bot */
+export function listSlashCommands(db: Database.Database): SlashCommand[] {
+  const rows = db
+    .prepare(
+      `SELECT sc.name, sc.description, sc.options, sc.permission_key, sc.bot_user_id,
+              u.username AS bot_username
+       FROM slash_commands sc
+       JOIN users u ON u.id = sc.bot_user_id
+       ORDER BY sc.name ASC`
+    )
+    .all() as StoredSlashCommandRow[];
+  return [...BUILTIN_SLASH_COMMANDS, ...rows.map(toSlashCommand)];
+}
+
+export function findSlashCommand(db: Database.Database, name: string): SlashCommand | undefined {
+  const builtin = BUILTIN_SLASH_COMMANDS.find((command) => command.name === name);
+  if (builtin) return builtin;
+  const row = db
+    .prepare(
+      `SELECT sc.name, sc.description, sc.options, sc.permission_key, sc.bot_user_id,
+              u.username AS bot_username
+       FROM slash_commands sc
+       JOIN users u ON u.id = sc.bot_user_id
+       WHERE sc.name = ?`
+    )
+    .get(name) as StoredSlashCommandRow | undefined;
+  return row ? toSlashCommand(row) : undefined;
+}
+
+function parseCommandDefinition(
+  raw: unknown
+): { ok: true; command: SlashCommandDefinition } | { ok: false; error: string } {
+  const input = (raw ?? {}) as {
+    name?: unknown;
+    description?: unknown;
+    options?: unknown;
+    permission?: unknown;
+  };
+  const name = typeof input.name === "string" ? input.name.trim().toLowerCase() : "";
+  if (!COMMAND_NAME_PATTERN.test(name)) {
+    return {
+      ok: false,
+      error: "Command names must be 1-32 characters of lowercase letters, numbers, '_' or '-'",
+    };
+  }
+  const description = typeof input.description === "string" ? input.description.trim() : "";
+  if (description.length > MAX_DESCRIPTION_LENGTH) {
+    return {
+      ok: false,
+      error: `/${name}: description must be at most ${MAX_DESCRIPTION_LENGTH} characters`,
+    };
+  }
+  let permission: PermissionKey | null = null;
+  if (input.permission !== undefined && input.permission !== null) {
+    permission = PERMISSION_KEYS.find((key) => key === input.permission) ?? null;
+    if (!permission) return { ok: false, error: `/${name}: unknown permission` };
+  }
+
+  const rawOptions = input.options ?? [];
+  if (!Array.isArray(rawOptions) || rawOptions.length > MAX_COMMAND_OPTIONS) {
+    return {
+      ok: false,
+      error: `/${name}: options must be an array of at most ${MAX_COMMAND_OPTIONS} entries`,
+    };
+  }
+  const options: SlashCommandOption[] = [];
+  for (const [index, entry] of (rawOptions as unknown[]).entries()) {
+    const option = (entry ?? {}) as Record<string, unknown>;
+    const optionName = typeof option.name === "string" ? option.name.trim().toLowerCase() : "";
+    if (!COMMAND_NAME_PATTERN.test(optionName) || options.some((o) => o.name === optionName)) {
+      return { ok: false, error: `/${name}: option names must be unique and valid` };
+    }
+    const type = SLASH_COMMAND_OPTION_TYPES.find((candidate) => candidate === option.type);
+    if (!type) {
+      return {
+        ok: false,
+        error: `/${name}: option type must be one of ${SLASH_COMMAND_OPTION_TYPES.join(", ")}`,
+      };
+    }
+    if (type === "text" && index !== rawOptions.length - 1) {
+      return { ok: false, error: `/${name}: only the last option can have type text` };
+    }
+    const required = option.required === true;
+    if (required && options.some((o) => !o.required)) {
+      return { ok: false, error: `/${name}: required options must come before optional ones` };
+    }
+    options.push({
+      name: optionName,
+      description:
+        typeof option.description === "string"
+          ? option.description.trim().slice(0, MAX_DESCRIPTION_LENGTH)
+          : "",
+      type,
+      required,
+    });
+  }
+
+  return { ok: true, command: { name, description, options, permission } };
+}
+
+/**
+ * Replace every command a bot has registered. Names are server-wide, so a
+ * bot cannot shadow a built-in or another bot's command.
+ */
+export function replaceBotSlashCommands(
+  db: Database.Database,
+  botUserId: string,
+  raw: unknown
+): { ok: true; commands: SlashCommand[] } | { ok: false; error: string } {
+  if (!Array.isArray(raw) || raw.length > MAX_COMMANDS_PER_BOT) {
+    return {
+      ok: false,
+      error: `commands must be an array of at most ${MAX_COMMANDS_PER_BOT} entries`,
+    };
+  }
+  const commands: SlashCommandDefinition[] = [];
+  for (const entry of raw) {
+    const parsed = parseCommandDefinition(entry);
+    if (!parsed.ok) return parsed;
+    const { name } = parsed.command;
+    if (commands.some((command) => command.name === name)) {
+      return { ok: false, error: `/${name} is listed more than once` };
+    }
+    const existing = findSlashCommand(db, name);
+    if (existing && (existing.source === "builtin" || existing.bot_user_id !== botUserId)) {
+      return { ok: false, error: `/${name} is already taken` };
+    }
+    commands.push(parsed.command);
+  }
+
+  const insert = db.prepare(
+    `INSERT INTO slash_commands (id, bot_user_id, name, description, options, permission_key)
+     VALUES (?, ?, ?, ?, ?, ?)`
+  );
+  db.transaction(() => {
+    db.prepare("DELETE FROM slash_commands WHERE bot_user_id = ?").run(botUserId);
+    for (const command of commands) {
+      insert.run(
+        crypto.randomUUID(),
+        botUserId,
+        command.name,
+        command.description,
+        JSON.stringify(command.options),
+        command.permission
+      );
+    }
+  })();
+
+  return {
+    ok: true,
+    commands: listSlashCommands(db).filter(
+      (command) => command.source === "bot" && command.bot_user_id === botUserId
+    ),
+  };
+}
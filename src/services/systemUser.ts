@@ -0,0 +1,63 @@
+import crypto from "crypto";
+import type Database from "better-sqlite3";
+
+// Server-authored messages (reminders, integrations) are posted as this user.
+// It has no usable password hash, so it can never log in.
+export const SYSTEM_USER_ID = "system";
+const SYSTEM_USERNAME = "System";
+const SYSTEM_EMAIL = "system@chitchat.invalid";
+
+export function ensureSystemUser(db: Database.Database) {
+  const existing = db.prepare("SELECT 1 FROM users WHERE id = ?").get(SYSTEM_USER_ID);
+  if (existing) {
+    db.prepare("UPDATE users SET is_bot = 1 WHERE id = ? AND is_bot = 0").run(SYSTEM_USER_ID);
+    return;
+  }
+  const taken = db
+    .prepare("SELECT 1 FROM users WHERE lower(username) = lower(?)")
+    .get(SYSTEM_USERNAME);
+  const username = taken
+    ? `${SYSTEM_USERNAME}-${crypto.randomBytes(2).toString("hex")}`
+    : SYSTEM_USERNAME;
+  db.prepare(
+    `INSERT OR IGNORE INTO users (id, username, email, password_hash, status, is_bot)
+     VALUES (?, ?, ?, '!', 'offline', 1)`
+  ).run(SYSTEM_USER_ID, username, SYSTEM_EMAIL);
+}
+
+/**
+ * Find or create the one-to-one DM between the system user and a user.
+ * `created` tells the caller to announce the new room with dm:new.
+ */
+export function getSystemDmRoom(
+  db: Database.Database,
+  userId: string
+): { roomId: string; created: boolean } {
+  ensureSystemUser(db);
+  const existing = db
+    .prepare(
+      `SELECT r.id
+       FROM rooms r
+       JOIN room_members rm1 ON rm1.room_id = r.id AND rm1.user_id = ?
+       JOIN room_members rm2 ON rm2.room_id = r.id AND rm2.user_id = ?
+       WHERE r.type = 'dm'
+         AND (SELECT COUNT(*) FROM room_members rm WHERE rm.room_id = r.id) = 2
+       LIMIT 1`
+    )
+    .get(SYSTEM_USER_ID, userId) as { id: string } | undefined;
+  if (existing) return { roomId: existing.id, created: false };
+
+  const roomId = crypto.randomUUID();
+  const txn = db.transaction(() => {
+    db.prepare(
+      "INSERT INTO rooms (id, name, type, created_by) VALUES (?, ?, 'dm', ?)"
+    ).run(roomId, `dm-${roomId}`, SYSTEM_USER_ID);
+    db.prepare("INSERT INTO room_members (room_id, user_id) VALUES (?, ?)").run(
+      roomId,
+      SYSTEM_USER_ID
+    );
+    db.prepare("INSERT INTO room_members (room_id, user_id) VALUES (?, ?)").run(roomId, userId);
+  });
+  txn();
+  return { roomId, created: true };
+}
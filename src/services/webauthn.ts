@@ -0,0 +1,342 @@
+import crypto from "crypto";
+import type Database from "better-sqlite3";
+import {
+  generateAuthenticationOptions,
+  generateRegistrationOptions,
+  verifyAuthenticationResponse,
+  verifyRegistrationResponse,
+  type AuthenticationResponseJSON,
+  type AuthenticatorTransportFuture,
+  type PublicKeyCredentialCreationOptionsJSON,
+  type PublicKeyCredentialRequestOptionsJSON,
+  type RegistrationResponseJSON,
+} from "@simplewebauthn/server";
+import { getConfig } from "../config.js";
+
+export const MAX_WEBAUTHN_CREDENTIALS_PER_USER = 10;
+export const MAX_WEBAUTHN_NICKNAME_LENGTH = 64;
+const CEREMONY_TTL_MS = 5 * 60_000;
+const MAX_PENDING_CEREMONIES = 1000;
+
+/** Where the browser thinks it is; credentials are scoped to the RP ID */
+export type RelyingParty = {
+  id: string;
+  name: string;
+  origins: string[];
+};
+
+type CeremonyPurpose = "register" | "login" | "second_factor";
+
+type PendingCeremony = {
+  purpose: CeremonyPurpose;
+  challenge: string;
+  userId: string | null;
+  expiresAt: number;
+};
+
+type WebAuthnCredentialRow = {
+  id: string;
+  user_id: string;
+  public_key: Buffer;
+  counter: number;
+  transports: string;
+  nickname: string;
+  device_type: string;
+  backed_up: number;
+  created_at: string;
+  last_used_at: string | null;
+};
+
+export type WebAuthnCredentialSummary = {
+  id: string;
+  nickname: string;
+  deviceType: string;
+  backedUp: boolean;
+  transports: AuthenticatorTransportFuture[];
+  createdAt: string;
+  lastUsedAt: string | null;
+};
+
+export type WebAuthnResult<T> = ({ ok: true } & T) | { ok: false; error: string };
+
+// Challenges are single-use and short-lived, so like OIDC login state they
+// live in memory; a restart only means the user taps their key again.
+const pendingCeremonies = new Map<string, PendingCeremony>();
+
+/**
+ * The relying party comes from twoFactor.webauthn* when set, otherwise from
+ * publicUrl (or the request's own base URL). Clients served from another
+ * origin, such as the desktop app, must be listed in webauthnOrigins.
+ */
+export function getRelyingParty(serverBaseUrl: string): RelyingParty {
+  const config = getConfig();
+  const baseUrl = new URL(config.publicUrl || serverBaseUrl);
+  return {
+    id: config.twoFactor.webauthnRpId || baseUrl.hostname,
+    name: config.twoFactor.webauthnRpName || config.serverName || "ChitChat",
+    origins: config.twoFactor.webauthnOrigins.length
+      ? config.twoFactor.webauthnOrigins
+      : [baseUrl.origin],
+  };
+}
+
+function pruneCeremonies() {
+  const now = Date.now();
+  for (const [id, ceremony] of pendingCeremonies) {
+    if (ceremony.expiresAt <= now) pendingCeremonies.delete(id);
+  }
+  while (pendingCeremonies.size >= MAX_PENDING_CEREMONIES) {
+    const oldest = pendingCeremonies.keys().next().value;
+    if (oldest === undefined) break;
+    pendingCeremonies.delete(oldest);
+  }
+}
+
+function storeCeremony(purpose: CeremonyPurpose, challenge: string, userId: string | null): string {
+  pruneCeremonies();
+  const ceremonyId = crypto.randomBytes(24).toString("base64url");
+  pendingCeremonies.set(ceremonyId, {
+    purpose,
+    challenge,
+    userId,
+    expiresAt: Date.now() + CEREMONY_TTL_MS,
+  });
+  return ceremonyId;
+}
+
+/** Look up and forget a ceremony, so each challenge can be answered once */
+function takeCeremony(
+  ceremonyId: unknown,
+  purpose: CeremonyPurpose,
+  userId: string | null
+): PendingCeremony | null {
+  if (typeof ceremonyId !== "string" || !ceremonyId) return null;
+  const ceremony = pendingCeremonies.get(ceremonyId);
+  if (!ceremony || ceremony.purpose !== purpose || ceremony.userId !== userId) return null;
+  pendingCeremonies.delete(ceremonyId);
+  if (ceremony.expiresAt <= Date.now()) return null;
+  return ceremony;
+}
+
+function parseTransports(raw: string): AuthenticatorTransportFuture[] {
+  try {
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed)
+      ? parsed.filter((entry): entry is AuthenticatorTransportFuture => typeof entry === "string")
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+function toSummary(row: WebAuthnCredentialRow): WebAuthnCredentialSummary {
+  return {
+    id: row.id,
+    nickname: row.nickname,
+    deviceType: row.device_type,
+    backedUp: row.backed_up === 1,
+    transports: parseTransports(row.transports),
+    createdAt: row.created_at,
+    lastUsedAt: row.last_used_at,
+  };
+}
+
+function getUserCredentialRows(db: Database.Database, userId: string): WebAuthnCredentialRow[] {
+  return db
+    .prepare("SELECT * FROM webauthn_credentials WHERE user_id = ? ORDER BY created_at ASC")
+    .all(userId) as WebAuthnCredentialRow[];
+}
+
+export function listWebAuthnCredentials(
+  db: Database.Database,
+  userId: string
+): WebAuthnCredentialSummary[] {
+  return getUserCredentialRows(db, userId).map(toSummary);
+}
+
+export function countWebAuthnCredentials(db: Database.Database, userId: string): number {
+  const row = db
+    .prepare("SELECT COUNT(*) AS count FROM webauthn_credentials WHERE user_id = ?")
+    .get(userId) as { count: number };
+  return row.count;
+}
+
+export function renameWebAuthnCredential(
+  db: Database.Database,
+  userId: string,
+  credentialId: string,
+  nickname: string
+): boolean {
+  const result = db
+    .prepare("UPDATE webauthn_credentials SET nickname = ? WHERE id = ? AND user_id = ?")
+    .run(nickname, credentialId, userId);
+  return result.changes > 0;
+}
+
+export function deleteWebAuthnCredential(
+  db: Database.Database,
+  userId: string,
+  credentialId: string
+): boolean {
+  const result = db
+    .prepare("DELETE FROM webauthn_credentials WHERE id = ? AND user_id = ?")
+    .run(credentialId, userId);
+  return result.changes > 0;
+}
+
+/** Options for navigator.credentials.create(); existing keys are excluded */
+export async function startWebAuthnRegistration(
+  db: Database.Database,
+  user: { id: string; username: string; email: string },
+  rp: RelyingParty
+): Promise<{ ceremonyId: string; options: PublicKeyCredentialCreationOptionsJSON }> {
+  const existing = getUserCredentialRows(db, user.id);
+  const options = await generateRegistrationOptions({
+    rpName: rp.name,
+    rpID: rp.id,
+    userID: new Uint8Array(Buffer.from(user.id, "utf8")),
+    userName: user.email,
+    userDisplayName: user.username,
+    attestationType: "none",
+    excludeCredentials: existing.map((row) => ({
+      id: row.id,
+      transports: parseTransports(row.transports),
+    })),
+    // Resident keys make the credential usable for passwordless login;
+    // plain security keys that can't store one still work as a second factor.
+    authenticatorSelection: { residentKey: "preferred", userVerification: "preferred" },
+  });
+  return { ceremonyId: storeCeremony("register", options.challenge, user.id), options };
+}
+
+export async function finishWebAuthnRegistration(
+  db: Database.Database,
+  userId: string,
+  input: { ceremonyId: unknown; response: unknown; nickname: string },
+  rp: RelyingParty
+): Promise<WebAuthnResult<{ credential: WebAuthnCredentialSummary }>> {
+  const ceremony = takeCeremony(input.ceremonyId, "register", userId);
+  if (!ceremony) return { ok: false, error: "Registration expired. Please try again." };
+
+  let verification;
+  try {
+    verification = await verifyRegistrationResponse({
+      response: input.response as RegistrationResponseJSON,
+      expectedChallenge: ceremony.challenge,
+      expectedOrigin: rp.origins,
+      expectedRPID: rp.id,
+      requireUserVerification: false,
+    });
+  } catch (err) {
+    console.warn("WebAuthn registration rejected:", err instanceof Error ? err.message : err);
+    return { ok: false, error: "Security key response could not be verified" };
+  }
+  if (!verification.verified) {
+    return { ok: false, error: "Security key response could not be verified" };
+  }
+
+  const { credential, credentialDeviceType, credentialBackedUp } = verification.registrationInfo;
+  const taken = db.prepare("SELECT 1 FROM webauthn_credentials WHERE id = ?").get(credential.id);
+  if (taken) return { ok: false, error: "This security key is already registered" };
+
+  db.prepare(
+    `INSERT INTO webauthn_credentials
+       (id, user_id, public_key, counter, transports, nickname, device_type, backed_up)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+  ).run(
+    credential.id,
+    userId,
+    Buffer.from(credential.publicKey),
+    credential.counter,
+    JSON.stringify(credential.transports ?? []),
+    input.nickname,
+    credentialDeviceType,
+    credentialBackedUp ? 1 : 0
+  );
+  const row = db
+    .prepare("SELECT * FROM webauthn_credentials WHERE id = ?")
+    .get(credential.id) as WebAuthnCredentialRow;
+  return { ok: true, credential: toSummary(row) };
+}
+
+/**
+ * Options for navigator.credentials.get(). With a user this is a second
+ * factor limited to their keys; without one it is a passwordless login that
+ * lets the authenticator offer any passkey it holds for this server.
+ */
+export async function startWebAuthnAuthentication(
+  db: Database.Database,
+  userId: string | null,
+  rp: RelyingParty
+): Promise<{ ceremonyId: string; options: PublicKeyCredentialRequestOptionsJSON } | null> {
+  const allowCredentials = userId
+    ? getUserCredentialRows(db, userId).map((row) => ({
+        id: row.id,
+        transports: parseTransports(row.transports),
+      }))
+    : undefined;
+  if (allowCredentials && !allowCredentials.length) return null;
+
+  const options = await generateAuthenticationOptions({
+    rpID: rp.id,
+    allowCredentials,
+    // A passkey replaces both the password and the second factor, so it has
+    // to prove the person (PIN/biometric), not just the device.
+    userVerification: userId ? "preferred" : "required",
+  });
+  const purpose: CeremonyPurpose = userId ? "second_factor" : "login";
+  return { ceremonyId: storeCeremony(purpose, options.challenge, userId), options };
+}
+
+export async function finishWebAuthnAuthentication(
+  db: Database.Database,
+  userId: string | null,
+  input: { ceremonyId: unknown; response: unknown },
+  rp: RelyingParty
+): Promise<WebAuthnResult<{ userId: string }>> {
+  const ceremony = takeCeremony(input.ceremonyId, userId ? "second_factor" : "login", userId);
+  if (!ceremony) return { ok: false, error: "Sign-in request expired. Please try again." };
+
+  const response = input.response as AuthenticationResponseJSON | null;
+  const credentialId = typeof response?.id === "string" ? response.id : "";
+  const row = db
+    .prepare("SELECT * FROM webauthn_credentials WHERE id = ?")
+    .get(credentialId) as WebAuthnCredentialRow | undefined;
+  if (!row || (userId && row.user_id !== userId)) {
+    return { ok: false, error: "This security key is not registered" };
+  }
+
+  let verification;
+  try {
+    verification = await verifyAuthenticationResponse({
+      response: response as AuthenticationResponseJSON,
+      expectedChallenge: ceremony.challenge,
+      expectedOrigin: rp.origins,
+      expectedRPID: rp.id,
+      credential: {
+        id: row.id,
+        publicKey: new Uint8Array(row.public_key),
+        counter: row.counter,
+        transports: parseTransports(row.transports),
+      },
+      requireUserVerification: !userId,
+    });
+  } catch (err) {
+    console.warn("WebAuthn assertion rejected:", err instanceof Error ? err.message : err);
+    return { ok: false, error: "Security key response could not be verified" };
+  }
+  if (!verification.verified) {
+    return { ok: false, error: "Security key response could not be verified" };
+  }
+
+  db.prepare(
+    `UPDATE webauthn_credentials
+     SET counter = ?, backed_up = ?, last_used_at = datetime('now')
+     WHERE id = ?`
+  ).run(
+    verification.authenticationInfo.newCounter,
+    verification.authenticationInfo.credentialBackedUp ? 1 : 0,
+    row.id
+  );
+  return { ok: true, userId: row.user_id };
+}
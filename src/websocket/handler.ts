@@ -2,7 +2,7 @@ import type { Server, Socket } from "socket.io";
 import crypto from "crypto";
 import { getDb } from "../db/database.js";
 import { getConfig } from "../config.js";
-import { verifyToken } from "../middleware/auth.js";
+import { authenticateToken, type JwtPayload } from "../middleware/auth.js";
 import {
   getUserModerationState,
   getUserPermissionOverrides,
@@ -12,20 +12,108 @@ import {
   hasCustomRoomPermissions,
   hasRoomPermissionByRole,
   canAccessRoom,
+  isUserAdmin,
   type PermissionKey,
   type PermissionSet,
   PERMISSION_KEYS,
 } from "../permissions.js";
+import {
+  SEARCH_HIGHLIGHT_END,
+  SEARCH_HIGHLIGHT_START,
+  decodeSearchCursor,
+  encodeSearchCursor,
+  searchMessages,
+  type SearchSort,
+} from "../services/messageSearch.js";
+import { getRoomReadStates, markRoomRead } from "../services/readState.js";
+import {
+  getRecentMentions,
+  resolveMentions,
+  syncMessageMentions,
+  type ResolvedMention,
+} from "../services/mentions.js";
+import {
+  routeMessageNotification,
+  type NotificationMode,
+} from "../services/notificationRouting.js";
+import {
+  buildMessagePushPayload,
+  getUserIdsWithPushSubscriptions,
+  isPushConfigured,
+  queuePushDelivery,
+} from "../services/pushNotifications.js";
+import {
+  MAX_PENDING_SCHEDULED_MESSAGES,
+  cancelScheduledMessage,
+  cancelUserScheduledMessages,
+  countPendingScheduledMessages,
+  createScheduledMessage,
+  getDueScheduledMessages,
+  getScheduledAuthorBlock,
+  getScheduledMessage,
+  listScheduledMessages,
+  markScheduledMessageFailed,
+  markScheduledMessageSent,
+  parseSendAt,
+  type ScheduledMessageRow,
+} from "../services/scheduledMessages.js";
+import { SYSTEM_USER_ID, getSystemDmRoom } from "../services/systemUser.js";
+import {
+  castPollVote,
+  closeDuePolls,
+  closePoll,
+  getPollPayloads,
+  getPollTarget,
+  insertPoll,
+  parsePollDraft,
+  type PollDraft,
+  type PollPayload,
+} from "../services/polls.js";
+import {
+  listBookmarks,
+  parseBookmarkDetails,
+  removeBookmark,
+  saveBookmark,
+  type BookmarkRow,
+} from "../services/bookmarks.js";
+import {
+  findUnknownCustomEmoji,
+  listCustomEmojis,
+  resolveCustomReaction,
+  type CustomEmojiPayload,
+} from "../services/customEmojis.js";
+import { getMessageEmbeds, unfurlMessageLinks } from "../services/linkPreviews.js";
+import {
+  MAX_WEBHOOK_NAME_LENGTH,
+  MAX_WEBHOOKS_PER_ROOM,
+  buildWebhookUrl,
+  createIncomingWebhook,
+  deleteIncomingWebhook,
+  getIncomingWebhook,
+  listIncomingWebhooks,
+  rotateIncomingWebhookToken,
+  type IncomingWebhookRow,
+} from "../services/incomingWebhooks.js";
+import { enqueueOutgoingWebhookEvent } from "../services/outgoingWebhooks.js";
+import { revokeUserSessions } from "../services/sessions.js";
+import {
+  findSlashCommand,
+  listSlashCommands,
+  parseSlashCommand,
+  parseSlashCommandArgs,
+  replaceBotSlashCommands,
+  type SlashCommand,
+  type SlashCommandInvocation,
+} from "../services/slashCommands.js";
 
 interface ConnectedUser {
   socketId: string;
   userId: string;
   username: string;
   avatarUrl?: string;
+  sessionId?: string;
 }
 
-type NotificationMode = "all" | "mentions" | "mute";
-
 const connectedUsers = new Map<string, ConnectedUser>();
 const pendingOfflineTimers = new Map<string, NodeJS.Timeout>();
 const pendingRemoteControlRequests = new Map<
@@ -56,6 +144,9 @@ const activeRemoteControlSessions = new Map<
 
 // Rate limiting: track message timestamps per user
 const rateLimitBuckets = new Map<string, number[]>();
+// Slow mode: `${roomId}:${userId}` -> timestamp of the user's last message in the room
+const slowModeLastSent = new Map<string, number>();
+const MAX_SLOW_MODE_SECONDS = 21600;
 const OFFLINE_GRACE_MS = 8000;
 
 // Voice channel occupancy: roomId -> Set<userId>
@@ -75,6 +166,14 @@ const pendingDmCallRings = new Map<string, PendingDmCallRing>();
 // dmRoomId -> active call (both connected)
 const activeDmCalls = new Map<string, ActiveDmCall>();
 const DM_CALL_RING_TIMEOUT_MS = 30_000;
+const AUTH_EXPIRY_WARNING_MS = 60_000;
+const AUTH_EXPIRY_GRACE_MS = 30_000;
+const MAX_TIMEOUT_MS = 28 * 24 * 60 * 60_000;
+const MAX_ROOM_TOPIC_LENGTH = 300;
+const NICK_PATTERN = /^[a-zA-Z0-9._-]{2,32}$/;
+const SCHEDULED_MESSAGE_POLL_MS = 15_000;
+const POLL_CLOSE_CHECK_MS = 15_000;
+const SLOW_MODE_PRUNE_MS = 60_000;
 
 function getRemoteControlTimeoutMs(db: ReturnType<typeof getDb>): number {
   const row = db
@@ -102,7 +201,7 @@ function requiresModeratorPermission(db: ReturnType<typeof getDb>): boolean {
   return (row?.require_moderator_permission ?? 1) === 1;
 }
 
-/** Broadcast the full user list to all connected clients */
+/** Broadcast the full user list (minus the internal system user) to all connected clients */
 function broadcastPresence(io: Server) {
   const db = getDb();
   const users = db
@@ -114,6 +213,7 @@ function broadcastPresence(io: Server) {
          u.status,
          u.about,
          u.activity_game,
+         u.is_bot,
          COALESCE(
            (
              SELECT r.color
@@ -126,9 +226,10 @@ function broadcastPresence(io: Server) {
            '#94a3b8'
          ) AS role_color
        FROM users u
+       WHERE u.id != ?
        ORDER BY u.username COLLATE NOCASE ASC`
     )
-    .all();
+    .all(SYSTEM_USER_ID);
   io.emit("users:list", users);
 }
 
@@ -211,12 +312,26 @@ type MessageRow = {
   reply_to_message_id?: string | null;
   content: string;
   created_at: string;
+  edited_at?: string | null;
+  thread_parent_id?: string | null;
+  thread_reply_count?: number;
+  thread_last_activity_at?: string | null;
   username?: string;
   avatar_url?: string | null;
   role_color?: string | null;
   client_nonce?: string;
 };
 
+/** Where a forwarded message came from, as stored on the new message */
+type ForwardSource = {
+  messageId: string | null;
+  userId: string | null;
+  roomId: string | null;
+  createdAt: string;
+  /** The message whose attachments and link previews the forward shares */
+  attachmentsFromMessageId: string;
+};
+
 type AttachmentRow = {
   id: string;
   original_name: string;
@@ -255,6 +370,9 @@ type RoleRow = {
   can_upload_files: number;
   can_use_emojis: number;
   can_start_voice: number;
+  can_mention_everyone: number;
+  can_bypass_slow_mode: number;
+  can_manage_emojis: number;
   is_system: number;
   created_at: string;
 };
@@ -342,6 +460,22 @@ function withReactions(db: ReturnType<typeof getDb>, rows: MessageRow[]) {
   });
 }
 
+function withPolls(
+  db: ReturnType<typeof getDb>,
+  rows: MessageRow[],
+  viewerUserId: string | null
+) {
+  const polls = getPollPayloads(
+    db,
+    rows.map((row) => row.id),
+    viewerUserId
+  );
+  return rows.map((row) => ({
+    ...row,
+    poll: polls.get(row.id) ?? null,
+  }));
+}
+
 function withReplyMeta(db: ReturnType<typeof getDb>, rows: MessageRow[]) {
   if (!rows.length) return rows;
 
@@ -386,6 +520,503 @@ function withReplyMeta(db: ReturnType<typeof getDb>, rows: MessageRow[]) {
   });
 }
 
+function withEmbeds(db: ReturnType<typeof getDb>, rows: MessageRow[]) {
+  const embeds = getMessageEmbeds(
+    db,
+    rows.map((row) => row.id)
+  );
+  return rows.map((row) => ({
+    ...row,
+    embeds: embeds.get(row.id) ?? [],
+  }));
+}
+
+/**
+ * Attribute forwarded messages to where they came from. Direct message rooms
+ * have no meaningful name, so only their id and type are exposed.
+ */
+function withForwardMeta(db: ReturnType<typeof getDb>, rows: MessageRow[]) {
+  if (!rows.length) return rows;
+
+  const placeholders = rows.map(() => "?").join(", ");
+  const forwardRows = db
+    .prepare(
+      `SELECT
+         m.id,
+         m.forwarded_from_message_id,
+         m.forwarded_from_user_id,
+         m.forwarded_from_room_id,
+         m.forwarded_from_created_at,
+         u.username,
+         r.name AS room_name,
+         r.type AS room_type
+       FROM messages m
+       LEFT JOIN users u ON u.id = m.forwarded_from_user_id
+       LEFT JOIN rooms r ON r.id = m.forwarded_from_room_id
+       WHERE m.id IN (${placeholders}) AND m.forwarded_from_created_at IS NOT NULL`
+    )
+    .all(...rows.map((row) => row.id)) as Array<{
+    id: string;
+    forwarded_from_message_id: string | null;
+    forwarded_from_user_id: string | null;
+    forwarded_from_room_id: string | null;
+    forwarded_from_created_at: string;
+    username: string | null;
+    room_name: string | null;
+    room_type: string | null;
+  }>;
+  const byId = new Map(forwardRows.map((row) => [row.id, row]));
+
+  return rows.map((row) => {
+    const forward = byId.get(row.id);
+    if (!forward) return { ...row, forwarded_from: null };
+    return {
+      ...row,
+      forwarded_from: {
+        message_id: forward.forwarded_from_message_id,
+        user_id: forward.forwarded_from_user_id,
+        username: forward.username,
+        room_id: forward.forwarded_from_room_id,
+        room_name: forward.room_type === "dm" ? null : forward.room_name,
+        room_type: forward.room_type,
+        created_at: forward.forwarded_from_created_at,
+      },
+    };
+  });
+}
+
+/** Show webhook-authored messages under the webhook's name and avatar */
+function withWebhookMeta(db: ReturnType<typeof getDb>, rows: MessageRow[]) {
+  if (!rows.length) return rows;
+
+  const placeholders = rows.map(() => "?").join(", ");
+  const webhookRows = db
+    .prepare(
+      `SELECT id, webhook_id, webhook_username, webhook_avatar_url
+       FROM messages
+       WHERE id IN (${placeholders}) AND webhook_id IS NOT NULL`
+    )
+    .all(...rows.map((row) => row.id)) as Array<{
+    id: string;
+    webhook_id: string;
+    webhook_username: string | null;
+    webhook_avatar_url: string | null;
+  }>;
+  const byId = new Map(webhookRows.map((row) => [row.id, row]));
+
+  return rows.map((row) => {
+    const webhook = byId.get(row.id);
+    if (!webhook) return { ...row, webhook_id: null };
+    return {
+      ...row,
+      webhook_id: webhook.webhook_id,
+      username: webhook.webhook_username || row.username,
+      avatar_url: webhook.webhook_avatar_url ?? null,
+    };
+  });
+}
+
+/**
+ * Attach attachments, reactions, polls, link previews, reply and forward
+ * metadata to message rows for the wire. Pass the viewer when the result goes
+ * to a single user so polls include their own votes.
+ */
+function enrichMessages(
+  db: ReturnType<typeof getDb>,
+  rows: MessageRow[],
+  viewerUserId: string | null = null
+) {
+  return withForwardMeta(
+    db,
+    withReplyMeta(
+      db,
+      withEmbeds(
+        db,
+        withPolls(
+          db,
+          withReactions(
+            db,
+            withAttachments(db, withWebhookMeta(db, rows) as MessageRow[]) as MessageRow[]
+          ) as MessageRow[],
+          viewerUserId
+        ) as MessageRow[]
+      ) as MessageRow[]
+    ) as MessageRow[]
+  ) as Array<Record<string, unknown>>;
+}
+
+function getMessageById(db: ReturnType<typeof getDb>, messageId: string): MessageRow | undefined {
+  return db
+    .prepare(
+      `SELECT m.id, m.room_id, m.user_id, m.content, m.created_at, m.edited_at,
+              m.reply_to_message_id, m.thread_parent_id, m.thread_reply_count,
+              m.thread_last_activity_at,
+              EXISTS(SELECT 1 FROM pinned_messages pm WHERE pm.message_id = m.id) AS pinned,
+              u.username, u.avatar_url,
+              COALESCE(
+                (
+                  SELECT r.color
+                  FROM user_roles ur
+                  JOIN roles r ON r.id = ur.role_id
+                  WHERE ur.user_id = m.user_id
+                  ORDER BY r.position DESC, r.created_at DESC
+                  LIMIT 1
+                ),
+                '#94a3b8'
+              ) AS role_color
+       FROM messages m
+       LEFT JOIN users u ON m.user_id = u.id
+       WHERE m.id = ?`
+    )
+    .get(messageId) as MessageRow | undefined;
+}
+
+/**
+ * Send a poll's current tallies to everyone viewing its message. Broadcasts
+ * carry no viewer, so clients keep their own choices from the vote ack.
+ */
+function broadcastPollUpdate(io: Server, db: ReturnType<typeof getDb>, messageId: string) {
+  const target = getPollTarget(db, messageId);
+  const poll = getPollPayloads(db, [messageId]).get(messageId);
+  if (!target || !poll) return;
+  const audience = target.thread_parent_id
+    ? io.to(target.room_id).to(threadRoomName(target.thread_parent_id))
+    : io.to(target.room_id);
+  audience.emit("poll:update", { room_id: target.room_id, messageId, poll });
+}
+
+/**
+ * Fetch link previews for a message that has already been delivered and push
+ * them with message:embeds:update. Runs in the background; a failed fetch
+ * just means no preview. Edits that remove every link announce an empty list.
+ */
+function unfurlInBackground(
+  io: Server,
+  db: ReturnType<typeof getDb>,
+  message: Record<string, unknown>
+) {
+  const messageId = String(message.id);
+  const roomId = String(message.room_id);
+  const threadParentId =
+    typeof message.thread_parent_id === "string" ? message.thread_parent_id : null;
+  const hadEmbeds = Array.isArray(message.embeds) && message.embeds.length > 0;
+  unfurlMessageLinks(db, {
+    id: messageId,
+    content: typeof message.content === "string" ? message.content : "",
+  })
+    .then((embeds) => {
+      if (!embeds || (!embeds.length && !hadEmbeds)) return;
+      const audience = threadParentId
+        ? io.to(roomId).to(threadRoomName(threadParentId))
+        : io.to(roomId);
+      audience.emit("message:embeds:update", { room_id: roomId, messageId, embeds });
+    })
+    .catch((err) => console.error("Failed to unfurl message links:", err));
+}
+
+/** Sliding one-minute window shared by every message-producing event */
+function consumeMessageRateLimit(userId: string): boolean {
+  const config = getConfig();
+  if (config.rateLimitPerMinute <= 0) return true;
+  const now = Date.now();
+  const windowStart = now - 60_000;
+  let bucket = rateLimitBuckets.get(userId) ?? [];
+  bucket = bucket.filter((ts) => ts > windowStart);
+  if (bucket.length >= config.rateLimitPerMinute) {
+    rateLimitBuckets.set(userId, bucket);
+    return false;
+  }
+  bucket.push(now);
+  rateLimitBuckets.set(userId, bucket);
+  return true;
+}
+
+/**
+ * Remaining slow-mode cooldown for a user in a room, in milliseconds.
+ * Zero when the room has no slow mode or the user may bypass it.
+ */
+function getSlowModeCooldown(
+  db: ReturnType<typeof getDb>,
+  roomId: string,
+  userId: string,
+  isAdmin: boolean
+): { intervalSeconds: number; remainingMs: number } {
+  const room = db
+    .prepare("SELECT slow_mode_seconds FROM rooms WHERE id = ?")
+    .get(roomId) as { slow_mode_seconds: number } | undefined;
+  const intervalSeconds = room?.slow_mode_seconds ?? 0;
+  if (intervalSeconds <= 0 || getUserPermissions(db, userId, isAdmin).canBypassSlowMode) {
+    return { intervalSeconds: 0, remainingMs: 0 };
+  }
+  const lastSent = slowModeLastSent.get(`${roomId}:${userId}`) ?? 0;
+  const remainingMs = Math.max(0, lastSent + intervalSeconds * 1000 - Date.now());
+  return { intervalSeconds, remainingMs };
+}
+
+function recordSlowModeMessage(roomId: string, userId: string) {
+  slowModeLastSent.set(`${roomId}:${userId}`, Date.now());
+}
+
+/** Drop slow-mode entries whose cooldown has passed under the room's current interval */
+function pruneSlowModeEntries(db: ReturnType<typeof getDb>) {
+  if (!slowModeLastSent.size) return;
+  const rooms = db
+    .prepare("SELECT id, slow_mode_seconds FROM rooms WHERE slow_mode_seconds > 0")
+    .all() as Array<{ id: string; slow_mode_seconds: number }>;
+  const intervals = new Map(rooms.map((room) => [room.id, room.slow_mode_seconds * 1000]));
+  const now = Date.now();
+  for (const [key, sentAt] of slowModeLastSent) {
+    const intervalMs = intervals.get(key.slice(0, key.indexOf(":"))) ?? 0;
+    if (sentAt + intervalMs <= now) slowModeLastSent.delete(key);
+  }
+}
+
+function validateMessageDraft(
+  db: ReturnType<typeof getDb>,
+  userId: string,
+  isAdmin: boolean,
+  content: string | undefined,
+  attachmentIds: string[] | undefined
+): { ok: true; content: string; attachmentIds: string[] } | { ok: false; error: string } {
+  const config = getConfig();
+  const trimmed = (content || "").trim();
+  const ids = Array.isArray(attachmentIds)
+    ? attachmentIds.filter((id) => typeof id === "string" && id.length > 0)
+    : [];
+  if (ids.length > 0 && !getUserPermissions(db, userId, isAdmin).canUploadFiles) {
+    return { ok: false, error: "Missing permission to upload files" };
+  }
+  if (!trimmed && ids.length === 0) {
+    return { ok: false, error: "Message or attachment is required" };
+  }
+  if (trimmed.length > config.maxMessageLength) {
+    return {
+      ok: false,
+      error: `Message exceeds maximum length of ${config.maxMessageLength} characters`,
+    };
+  }
+  const unknownEmoji = findUnknownCustomEmoji(db, trimmed);
+  if (unknownEmoji.length > 0) {
+    return { ok: false, error: `Unknown custom emoji :${unknownEmoji[0]}:` };
+  }
+  return { ok: true, content: trimmed, attachmentIds: ids };
+}
+
+function threadRoomName(parentMessageId: string): string {
+  return `thread:${parentMessageId}`;
+}
+
+/**
+ * Insert a message, link the author's own uploads to it, record its mentions
+ * and, for thread replies, bump the parent's reply count. Forwarded messages
+ * share the source message's attachments. Returns the enriched wire payload.
+ */
+function insertMessage(
+  db: ReturnType<typeof getDb>,
+  input: {
+    roomId: string;
+    userId: string;
+    content: string;
+    attachmentIds?: string[];
+    replyToMessageId?: string | null;
+    threadParentId?: string | null;
+    mentions?: ResolvedMention[];
+    webhook?: { id: string; username: string | null; avatarUrl: string | null };
+    poll?: PollDraft;
+    forwardedFrom?: ForwardSource;
+  }
+): Record<string, unknown> {
+  const id = crypto.randomUUID();
+  const createdAt = new Date().toISOString();
+  const attachmentIds = input.attachmentIds ?? [];
+  const txn = db.transaction(() => {
+    db.prepare(
+      `INSERT INTO messages (
+        id, room_id, user_id, reply_to_message_id, thread_parent_id, content, created_at,
+        webhook_id, webhook_username, webhook_avatar_url, forwarded_from_message_id,
+        forwarded_from_user_id, forwarded_from_room_id, forwarded_from_created_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    ).run(
+      id,
+      input.roomId,
+      input.userId,
+      input.replyToMessageId ?? null,
+      input.threadParentId ?? null,
+      input.content,
+      createdAt,
+      input.webhook?.id ?? null,
+      input.webhook?.username ?? null,
+      input.webhook?.avatarUrl ?? null,
+      input.forwardedFrom?.messageId ?? null,
+      input.forwardedFrom?.userId ?? null,
+      input.forwardedFrom?.roomId ?? null,
+      input.forwardedFrom?.createdAt ?? null
+    );
+
+    if (attachmentIds.length > 0) {
+      const placeholders = attachmentIds.map(() => "?").join(", ");
+      const ownedAttachments = db
+        .prepare(
+          `SELECT id
+           FROM attachments
+           WHERE uploaded_by = ? AND id IN (${placeholders})`
+        )
+        .all(input.userId, ...attachmentIds) as Array<{ id: string }>;
+      const ownedSet = new Set(ownedAttachments.map((row) => row.id));
+      for (const attachmentId of attachmentIds) {
+        if (!ownedSet.has(attachmentId)) continue;
+        db.prepare(
+          "INSERT OR IGNORE INTO message_attachments (message_id, attachment_id) VALUES (?, ?)"
+        ).run(id, attachmentId);
+      }
+    }
+
+    if (input.forwardedFrom) {
+      db.prepare(
+        `INSERT OR IGNORE INTO message_attachments (message_id, attachment_id)
+         SELECT ?, attachment_id FROM message_attachments WHERE message_id = ?`
+      ).run(id, input.forwardedFrom.attachmentsFromMessageId);
+      // The text is unchanged, so its link previews can be reused as-is.
+      db.prepare(
+        `INSERT INTO message_embeds
+           (message_id, position, url, title, description, site_name, image_url, type)
+         SELECT ?, position, url, title, description, site_name, image_url, type
+         FROM message_embeds WHERE message_id = ?`
+      ).run(id, input.forwardedFrom.attachmentsFromMessageId);
+    }
+
+    if (input.mentions?.length) {
+      syncMessageMentions(db, { id, room_id: input.roomId, created_at: createdAt }, input.mentions);
+    }
+
+    if (input.poll) insertPoll(db, id, input.poll);
+
+    if (input.threadParentId) {
+      db.prepare(
+        `UPDATE messages
+         SET thread_reply_count = thread_reply_count + 1, thread_last_activity_at = ?
+         WHERE id = ?`
+      ).run(createdAt, input.threadParentId);
+    }
+  });
+  txn();
+
+  const row = getMessageById(db, id);
+  if (!row) throw new Error("Inserted message could not be loaded");
+  const payload = enrichMessages(db, [row])[0];
+
+  // Direct messages are private and never leave the server.
+  const room = db
+    .prepare("SELECT id, name, type FROM rooms WHERE id = ?")
+    .get(input.roomId) as { id: string; name: string; type: string } | undefined;
+  if (room && room.type !== "dm") {
+    enqueueOutgoingWebhookEvent(db, "message.created", {
+      room: { id: room.id, name: room.name },
+      message: payload,
+    });
+  }
+  return payload;
+}
+
+/** Recount a thread after one of its replies was removed */
+function refreshThreadSummary(db: ReturnType<typeof getDb>, parentMessageId: string) {
+  const summary = db
+    .prepare(
+      `SELECT COUNT(*) AS count, MAX(created_at) AS last_activity
+       FROM messages
+       WHERE thread_parent_id = ?`
+    )
+    .get(parentMessageId) as { count: number; last_activity: string | null };
+  db.prepare(
+    "UPDATE messages SET thread_reply_count = ?, thread_last_activity_at = ? WHERE id = ?"
+  ).run(summary.count, summary.last_activity, parentMessageId);
+  return {
+    thread_reply_count: summary.count,
+    thread_last_activity_at: summary.last_activity,
+  };
+}
+
+type ThreadParentRow = {
+  id: string;
+  room_id: string;
+  thread_parent_id: string | null;
+  room_type: "text" | "voice" | "dm";
+  is_temporary: number;
+};
+
+/** Threads can only branch off top-level messages in permanent text channels */
+function getThreadParent(
+  db: ReturnType<typeof getDb>,
+  messageId: string
+): ThreadParentRow | undefined {
+  const row = db
+    .prepare(
+      `SELECT m.id, m.room_id, m.thread_parent_id, r.type AS room_type, r.is_temporary
+       FROM messages m
+       JOIN rooms r ON r.id = m.room_id
+       WHERE m.id = ?`
+    )
+    .get(messageId) as ThreadParentRow | undefined;
+  if (!row || row.thread_parent_id || row.room_type !== "text" || row.is_temporary === 1) {
+    return undefined;
+  }
+  return row;
+}
+
+function getThreadMessages(
+  db: ReturnType<typeof getDb>,
+  parentMessageId: string,
+  before: string | null,
+  limit: number
+): MessageRow[] {
+  return db
+    .prepare(
+      `SELECT * FROM (
+         SELECT m.id, m.room_id, m.user_id, m.content, m.created_at, m.edited_at,
+                m.reply_to_message_id, m.thread_parent_id, m.thread_reply_count,
+                m.thread_last_activity_at,
+                EXISTS(SELECT 1 FROM pinned_messages pm WHERE pm.message_id = m.id) AS pinned,
+                u.username, u.avatar_url,
+                COALESCE(
+                  (
+                    SELECT r.color
+                    FROM user_roles ur
+                    JOIN roles r ON r.id = ur.role_id
+                    WHERE ur.user_id = m.user_id
+                    ORDER BY r.position DESC, r.created_at DESC
+                    LIMIT 1
+                  ),
+                  '#94a3b8'
+                ) AS role_color
+         FROM messages m
+         LEFT JOIN users u ON m.user_id = u.id
+         WHERE m.thread_parent_id = ? AND (? IS NULL OR m.created_at < ?)
+         ORDER BY m.created_at DESC
+         LIMIT ?
+       ) sub ORDER BY sub.created_at ASC`
+    )
+    .all(parentMessageId, before, before, limit) as MessageRow[];
+}
+
+function setUserTimeout(
+  db: ReturnType<typeof getDb>,
+  userId: string,
+  timedOutUntil: string | null,
+  reason: string | null,
+  actorId: string
+) {
+  db.prepare(
+    `INSERT INTO user_moderation_states
+     (user_id, timed_out_until, reason, updated_by_user_id, updated_at)
+     VALUES (?, ?, ?, ?, datetime('now'))
+     ON CONFLICT(user_id)
+     DO UPDATE SET timed_out_until = excluded.timed_out_until,
+                   reason = excluded.reason,
+                   updated_by_user_id = excluded.updated_by_user_id,
+                   updated_at = datetime('now')`
+  ).run(userId, timedOutUntil, reason, actorId);
+}
+
 function getUserManagementPermissions(
   db: ReturnType<typeof getDb>,
   userId: string,
@@ -458,6 +1089,8 @@ type RoomLayoutRow = {
   position: number;
   is_temporary: number;
   owner_user_id: string | null;
+  slow_mode_seconds: number;
+  topic: string | null;
 };
 
 function ensureDefaultCategory(db: ReturnType<typeof getDb>) {
@@ -484,7 +1117,8 @@ function getStructuredRooms(db: ReturnType<typeof getDb>): RoomLayoutRow[] {
   ).run();
   return db
     .prepare(
-      `SELECT id, name, type, created_by, created_at, category_id, position, is_temporary, owner_user_id
+      `SELECT id, name, type, created_by, created_at, category_id, position, is_temporary, owner_user_id,
+              slow_mode_seconds, topic
        FROM rooms
        WHERE type != 'dm' AND is_temporary = 0
        ORDER BY category_id ASC, position ASC, created_at ASC`
@@ -492,6 +1126,24 @@ function getStructuredRooms(db: ReturnType<typeof getDb>): RoomLayoutRow[] {
     .all() as RoomLayoutRow[];
 }
 
+/** Attach the user's read marker plus unread and mention counts to each room */
+function withReadState<T extends { id: string }>(
+  db: ReturnType<typeof getDb>,
+  userId: string,
+  rooms: T[]
+) {
+  const states = getRoomReadStates(db, userId, rooms.map((room) => room.id));
+  return rooms.map((room) => {
+    const state = states.get(room.id);
+    return {
+      ...room,
+      last_read_message_id: state?.last_read_message_id ?? null,
+      unread_count: state?.unread_count ?? 0,
+      mention_count: state?.mention_count ?? 0,
+    };
+  });
+}
+
 function getStructuredRoomsForUser(
   db: ReturnType<typeof getDb>,
   userId: string,
@@ -557,10 +1209,11 @@ function emitRoomStructure(io: Server, db: ReturnType<typeof getDb>) {
       | { userId: string; isAdmin: boolean }
       | undefined;
     if (!jwtUser) continue;
-    const rooms = getStructuredRoomsForUser(
+    const userId = connected.userId || jwtUser.userId;
+    const rooms = withReadState(
       db,
-      connected.userId || jwtUser.userId,
-      Boolean(jwtUser.isAdmin)
+      userId,
+      getStructuredRoomsForUser(db, userId, Boolean(jwtUser.isAdmin))
     );
     io.to(sid).emit("rooms:structure", { categories, rooms });
     io.to(sid).emit("rooms:list", rooms);
@@ -617,7 +1270,7 @@ function getRoles(db: ReturnType<typeof getDb>): RoleRow[] {
       `SELECT id, name, color, position, can_manage_channels, can_manage_roles, can_manage_server,
               can_kick_members, can_ban_members, can_timeout_members, can_moderate_voice,
               can_pin_messages, can_manage_messages, can_upload_files, can_use_emojis, can_start_voice,
-              is_system, created_at
+              can_mention_everyone, can_bypass_slow_mode, can_manage_emojis, is_system, created_at
        FROM roles
        ORDER BY is_system ASC, position ASC, created_at ASC`
     )
@@ -708,79 +1361,413 @@ function emitRoleStateToAdmins(io: Server, db: ReturnType<typeof getDb>) {
   }
 }
 
-export function setupSocketHandlers(io: Server) {
-  // Authenticate socket connections via JWT
-  io.use((socket, next) => {
-    const token = socket.handshake.auth.token;
-    if (!token) {
-      return next(new Error("Authentication required"));
-    }
-    try {
-      const payload = verifyToken(token);
-      (socket as any).user = payload;
-      next();
-    } catch {
-      next(new Error("Invalid token"));
+function emitToUserSockets(
+  io: Server,
+  userId: string,
+  event: string,
+  payload: Record<string, unknown>
+) {
+  for (const [sid, cu] of connectedUsers.entries()) {
+    if (cu.userId === userId) {
+      io.to(sid).emit(event, payload);
     }
-  });
+  }
+}
 
-  function emitToUser(userId: string, event: string, payload: Record<string, unknown>) {
-    for (const [sid, cu] of connectedUsers.entries()) {
-      if (cu.userId === userId) {
-        io.to(sid).emit(event, payload);
-      }
-    }
+/** Force every socket a user has open to re-authenticate. */
+function disconnectUserSockets(io: Server, userId: string, reason: string) {
+  for (const [sid, cu] of connectedUsers.entries()) {
+    if (cu.userId !== userId) continue;
+    const target = io.sockets.sockets.get(sid);
+    target?.emit("auth:error", { error: reason });
+    target?.disconnect(true);
   }
+}
 
-  function recordRemoteControlAudit(
-    db: ReturnType<typeof getDb>,
-    actor: { userId: string; username: string; isAdmin: boolean },
-    action: string,
-    roomId: string,
-    details: Record<string, unknown>
-  ) {
-    db.prepare(
-      `INSERT INTO audit_logs (
-        actor_user_id,
-        actor_username,
-        actor_is_admin,
-        method,
-        path,
-        status_code,
-        success,
-        action,
-        ip,
-        user_agent,
-        query_json,
-        body_json,
-        error_message,
-        duration_ms,
-        response_bytes
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
-    ).run(
-      actor.userId,
-      actor.username,
-      actor.isAdmin ? 1 : 0,
-      "WS",
-      `/ws/remote-control/${action}`,
-      200,
-      1,
-      `WS remote-control ${action}`,
-      null,
-      null,
-      "{}",
-      JSON.stringify({ roomId, ...details }),
-      null,
-      0,
-      0
-    );
+/** Disconnect the sockets that authenticated with any of the given sessions. */
+function disconnectSessionSockets(io: Server, sessionIds: string[], reason: string) {
+  if (!sessionIds.length) return;
+  const ended = new Set(sessionIds);
+  for (const [sid, cu] of connectedUsers.entries()) {
+    if (!cu.sessionId || !ended.has(cu.sessionId)) continue;
+    const target = io.sockets.sockets.get(sid);
+    target?.emit("auth:error", { error: reason });
+    target?.disconnect(true);
   }
+}
 
-  function clearRemoteControlSession(
-    db: ReturnType<typeof getDb>,
-    sessionId: string,
-    endedByUserId: string | null,
-    reason: "revoked" | "expired" | "disconnect" | "host-left"
+function emitMentions(
+  io: Server,
+  roomId: string,
+  message: Record<string, unknown>,
+  mentions: ResolvedMention[]
+) {
+  for (const mention of mentions) {
+    emitToUserSockets(io, mention.userId, "mention:new", {
+      room_id: roomId,
+      mention_type: mention.type,
+      message,
+    });
+  }
+}
+
+/**
+ * Fan out message:notify to connected users according to their room
+ * notification mode, DND status and access. Silent deliveries carry
+ * `silent: true` so clients update badges without alerting. Users with no
+ * live socket get a Web Push instead, but only for DMs and mentions.
+ */
+function notifyMessage(
+  io: Server,
+  db: ReturnType<typeof getDb>,
+  roomId: string,
+  message: Record<string, unknown>,
+  authorId: string,
+  mentions: ResolvedMention[],
+  threadParentId: string | null = null
+) {
+  const connectedUserIds = new Set(Array.from(connectedUsers.values(), (cu) => cu.userId));
+  const routes = routeMessageNotification(db, {
+    roomId,
+    authorId,
+    candidateUserIds: connectedUserIds,
+    mentionedUserIds: mentions.map((mention) => mention.userId),
+    threadParentId,
+  });
+  for (const route of routes) {
+    if (route.decision === "suppress") continue;
+    emitToUserSockets(io, route.userId, "message:notify", {
+      ...message,
+      mentioned: route.mentioned,
+      silent: route.decision === "silent",
+    });
+  }
+
+  if (!isPushConfigured()) return;
+  const offlineUserIds = getUserIdsWithPushSubscriptions(db).filter(
+    (userId) => !connectedUserIds.has(userId)
+  );
+  if (!offlineUserIds.length) return;
+  const room = db
+    .prepare("SELECT name, type FROM rooms WHERE id = ?")
+    .get(roomId) as { name: string; type: string } | undefined;
+  if (!room) return;
+  const pushUserIds = routeMessageNotification(db, {
+    roomId,
+    authorId,
+    candidateUserIds: offlineUserIds,
+    mentionedUserIds: mentions.map((mention) => mention.userId),
+    threadParentId,
+  })
+    .filter((route) => route.decision === "deliver" && (route.mentioned || room.type === "dm"))
+    .map((route) => route.userId);
+  queuePushDelivery(
+    db,
+    pushUserIds,
+    buildMessagePushPayload({
+      roomName: room.name,
+      roomType: room.type,
+      authorName: typeof message.username === "string" ? message.username : "Someone",
+      content: typeof message.content === "string" ? message.content : "",
+      roomId,
+      messageId: String(message.id),
+      threadParentId,
+    })
+  );
+}
+
+/**
+ * Post a message that did not come from a user socket (incoming webhooks and
+ * other integrations) and fan it out exactly like message:send.
+ */
+function publishIntegrationMessage(
+  io: Server,
+  input: {
+    roomId: string;
+    userId: string;
+    content: string;
+    attachmentIds?: string[];
+    canMentionEveryone: boolean;
+    webhook?: { id: string; username: string | null; avatarUrl: string | null };
+  }
+): Record<string, unknown> {
+  const db = getDb();
+  const mentions = resolveMentions(db, {
+    content: input.content,
+    authorId: input.userId,
+    roomId: input.roomId,
+    canMentionEveryone: input.canMentionEveryone,
+  });
+  const payload = insertMessage(db, {
+    roomId: input.roomId,
+    userId: input.userId,
+    content: input.content,
+    attachmentIds: input.attachmentIds,
+    mentions,
+    webhook: input.webhook,
+  });
+  io.to(input.roomId).emit("message:new", payload);
+  emitMentions(io, input.roomId, payload, mentions);
+  notifyMessage(io, db, input.roomId, payload, input.userId, mentions);
+  unfurlInBackground(io, db, payload);
+  return payload;
+}
+
+function formatDuration(ms: number): string {
+  const units: Array<[string, number]> = [
+    ["d", 24 * 60 * 60_000],
+    ["h", 60 * 60_000],
+    ["m", 60_000],
+    ["s", 1000],
+  ];
+  const parts: string[] = [];
+  let remaining = ms;
+  for (const [unit, size] of units) {
+    const amount = Math.floor(remaining / size);
+    if (amount > 0) parts.push(`${amount}${unit}`);
+    remaining -= amount * size;
+  }
+  return parts.join(" ") || "0s";
+}
+
+/**
+ * Run a slash command typed into message:send. Commands that produce a
+ * message return its content so the caller can send it through the normal
+ * pipeline (slow mode, rate limit, validation); everything else is handled
+ * here and returns a notice for the invoking user only.
+ */
+function runSlashCommand(
+  io: Server,
+  db: ReturnType<typeof getDb>,
+  actor: { userId: string; username: string; isAdmin: boolean },
+  roomId: string,
+  invocation: SlashCommandInvocation
+):
+  | { ok: true; content?: string; poll?: PollDraft; notice?: string }
+  | { ok: false; error: string } {
+  const command = findSlashCommand(db, invocation.name);
+  if (!command) return { ok: false, error: `Unknown command /${invocation.name}` };
+  const perms = getUserPermissions(db, actor.userId, actor.isAdmin);
+  if (command.permission && !perms[command.permission]) {
+    return { ok: false, error: `You don't have permission to use /${command.name}` };
+  }
+  const parsed = parseSlashCommandArgs(db, command, invocation.rawArgs);
+  if (!parsed.ok) return parsed;
+  const args = parsed.args;
+  const postsMessage = command.source === "builtin" && command.postsMessage;
+  if (!postsMessage && !consumeMessageRateLimit(actor.userId)) {
+    return { ok: false, error: "You're sending messages too fast. Slow down!" };
+  }
+
+  const room = db.prepare("SELECT id, type FROM rooms WHERE id = ?").get(roomId) as {
+    id: string;
+    type: "text" | "voice" | "dm";
+  };
+
+  if (command.source === "bot") {
+    if (room.type === "dm") {
+      return { ok: false, error: "Bot commands can only be used in channels" };
+    }
+    const payload = {
+      id: crypto.randomUUID(),
+      command: command.name,
+      args,
+      raw_args: invocation.rawArgs,
+      room_id: roomId,
+      user: { id: actor.userId, username: actor.username },
+      created_at: new Date().toISOString(),
+    };
+    emitToUserSockets(io, command.bot_user_id, "command:invoke", payload);
+    enqueueOutgoingWebhookEvent(db, "command.invoked", payload);
+    return { ok: true, notice: `Sent /${command.name} to ${command.bot_username}` };
+  }
+
+  switch (command.name) {
+    case "me":
+      return { ok: true, content: `_${args.action}_` };
+
+    case "shrug":
+      return { ok: true, content: `${args.message ?? ""} ¯\\_(ツ)_/¯`.trim() };
+
+    case "poll": {
+      const parsedPoll = parsePollDraft({
+        question: args.question,
+        options: String(args.choices).split("|"),
+      });
+      if (!parsedPoll.ok) return parsedPoll;
+      return { ok: true, content: parsedPoll.poll.question, poll: parsedPoll.poll };
+    }
+
+    case "topic": {
+      if (room.type === "dm") return { ok: false, error: "Direct messages have no topic" };
+      const topic = typeof args.topic === "string" ? args.topic : null;
+      if (topic && topic.length > MAX_ROOM_TOPIC_LENGTH) {
+        return {
+          ok: false,
+          error: `Topic exceeds maximum length of ${MAX_ROOM_TOPIC_LENGTH} characters`,
+        };
+      }
+      db.prepare("UPDATE rooms SET topic = ? WHERE id = ?").run(topic, roomId);
+      emitRoomStructure(io, db);
+      return { ok: true, notice: topic ? "Topic updated" : "Topic cleared" };
+    }
+
+    case "nick": {
+      const name = String(args.name);
+      if (!NICK_PATTERN.test(name)) {
+        return {
+          ok: false,
+          error: "username must be 2-32 characters and use only letters, numbers, '.', '_' or '-'",
+        };
+      }
+      const taken = db
+        .prepare("SELECT id FROM users WHERE lower(username) = lower(?) AND id != ?")
+        .get(name, actor.userId);
+      if (taken) return { ok: false, error: "Username already taken" };
+      db.prepare("UPDATE users SET username = ?, updated_at = datetime('now') WHERE id = ?").run(
+        name,
+        actor.userId
+      );
+      for (const cu of connectedUsers.values()) {
+        if (cu.userId === actor.userId) cu.username = name;
+      }
+      broadcastPresence(io);
+      return { ok: true, notice: `You are now known as ${name}` };
+    }
+
+    case "timeout": {
+      const target = args.user as { id: string; username: string };
+      if (target.id === actor.userId) {
+        return { ok: false, error: "You cannot moderate yourself" };
+      }
+      const duration = args.duration as number;
+      if (duration > MAX_TIMEOUT_MS) {
+        return { ok: false, error: "Timeouts can last at most 28 days" };
+      }
+      const reason = typeof args.reason === "string" ? args.reason.slice(0, 300) : null;
+      setUserTimeout(
+        db,
+        target.id,
+        new Date(Date.now() + duration).toISOString(),
+        reason,
+        actor.userId
+      );
+      return {
+        ok: true,
+        notice: `Timed out @${target.username} for ${formatDuration(duration)}`,
+      };
+    }
+
+    case "remind": {
+      const when = parseSendAt(Date.now() + (args.in as number));
+      if (!when.ok) return when;
+      if (countPendingScheduledMessages(db, actor.userId) >= MAX_PENDING_SCHEDULED_MESSAGES) {
+        return {
+          ok: false,
+          error: `You can have at most ${MAX_PENDING_SCHEDULED_MESSAGES} scheduled messages`,
+        };
+      }
+      const note = String(args.note);
+      if (note.length > 500) {
+        return { ok: false, error: "Reminder note exceeds maximum length of 500 characters" };
+      }
+      const scheduled = createScheduledMessage(db, {
+        userId: actor.userId,
+        kind: "reminder",
+        roomId,
+        content: note,
+        sendAt: when.sendAt,
+      });
+      emitToUserSockets(io, actor.userId, "message:schedule:update", scheduled);
+      return { ok: true, notice: `I'll remind you in ${formatDuration(args.in as number)}` };
+    }
+
+    default:
+      return { ok: false, error: `Unknown command /${command.name}` };
+  }
+}
+
+/** Commands the user may run, for client autocomplete */
+function getAvailableSlashCommands(
+  db: ReturnType<typeof getDb>,
+  userId: string,
+  isAdmin: boolean
+): SlashCommand[] {
+  const perms = getUserPermissions(db, userId, isAdmin);
+  return listSlashCommands(db).filter((command) => !command.permission || perms[command.permission]);
+}
+
+export function setupSocketHandlers(io: Server) {
+  // Authenticate socket connections via JWT
+  io.use((socket, next) => {
+    const token = socket.handshake.auth.token;
+    if (!token) {
+      return next(new Error("Authentication required"));
+    }
+    try {
+      const payload = authenticateToken(token);
+      // Personal access tokens are for the REST API only.
+      if (payload.scopes) return next(new Error("Invalid token"));
+      (socket as any).user = payload;
+      next();
+    } catch {
+      next(new Error("Invalid token"));
+    }
+  });
+
+  function emitToUser(userId: string, event: string, payload: Record<string, unknown>) {
+    emitToUserSockets(io, userId, event, payload);
+  }
+
+  function recordRemoteControlAudit(
+    db: ReturnType<typeof getDb>,
+    actor: { userId: string; username: string; isAdmin: boolean },
+    action: string,
+    roomId: string,
+    details: Record<string, unknown>
+  ) {
+    db.prepare(
+      `INSERT INTO audit_logs (
+        actor_user_id,
+        actor_username,
+        actor_is_admin,
+        method,
+        path,
+        status_code,
+        success,
+        action,
+        ip,
+        user_agent,
+        query_json,
+        body_json,
+        error_message,
+        duration_ms,
+        response_bytes
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    ).run(
+      actor.userId,
+      actor.username,
+      actor.isAdmin ? 1 : 0,
+      "WS",
+      `/ws/remote-control/${action}`,
+      200,
+      1,
+      `WS remote-control ${action}`,
+      null,
+      null,
+      "{}",
+      JSON.stringify({ roomId, ...details }),
+      null,
+      0,
+      0
+    );
+  }
+
+  function clearRemoteControlSession(
+    db: ReturnType<typeof getDb>,
+    sessionId: string,
+    endedByUserId: string | null,
+    reason: "revoked" | "expired" | "disconnect" | "host-left"
   ) {
     const session = activeRemoteControlSessions.get(sessionId);
     if (!session) return;
@@ -800,12 +1787,140 @@ export function setupSocketHandlers(io: Server) {
     emitToUser(session.hostUserId, "remote-control:session-ended", payload);
   }
 
+  function deliverScheduledMessage(
+    db: ReturnType<typeof getDb>,
+    scheduled: ScheduledMessageRow
+  ): { ok: true; messageId: string } | { ok: false; error: string } {
+    const isAdmin = isUserAdmin(db, scheduled.user_id);
+    if (!isAdmin && getUserModerationState(db, scheduled.user_id).isTimedOut) {
+      return { ok: false, error: "You were timed out when this message was due" };
+    }
+    if (!canSendRoomMessage(db, scheduled.room_id, scheduled.user_id, isAdmin)) {
+      return { ok: false, error: "Not authorized for this room" };
+    }
+    const mentions = resolveMentions(db, {
+      content: scheduled.content,
+      authorId: scheduled.user_id,
+      roomId: scheduled.room_id,
+      canMentionEveryone: getUserPermissions(db, scheduled.user_id, isAdmin).canMentionEveryone,
+    });
+    const payload = insertMessage(db, {
+      roomId: scheduled.room_id,
+      userId: scheduled.user_id,
+      content: scheduled.content,
+      mentions,
+    });
+    io.to(scheduled.room_id).emit("message:new", payload);
+    emitMentions(io, scheduled.room_id, payload, mentions);
+    notifyMessage(io, db, scheduled.room_id, payload, scheduled.user_id, mentions);
+    unfurlInBackground(io, db, payload);
+    return { ok: true, messageId: String(payload.id) };
+  }
+
+  function deliverReminder(
+    db: ReturnType<typeof getDb>,
+    scheduled: ScheduledMessageRow
+  ): { ok: true; messageId: string } | { ok: false; error: string } {
+    let content = `Reminder: ${scheduled.content}`;
+    // Reminders set with /remind are not attached to a message.
+    if (scheduled.target_message_id) {
+      const target = getMessageById(db, scheduled.target_message_id);
+      if (!target) return { ok: false, error: "The message no longer exists" };
+      if (
+        !canAccessRoom(db, target.room_id, scheduled.user_id, isUserAdmin(db, scheduled.user_id))
+      ) {
+        return { ok: false, error: "You can no longer view this message" };
+      }
+      const room = db
+        .prepare("SELECT name, type FROM rooms WHERE id = ?")
+        .get(target.room_id) as { name: string; type: string } | undefined;
+      const where = room?.type === "dm" ? "a direct message" : `#${room?.name ?? "unknown"}`;
+      const quoted = target.content.replace(/\s+/g, " ").trim();
+      const excerpt = quoted.length > 200 ? `${quoted.slice(0, 199)}…` : quoted || "(attachment)";
+      content = [
+        `Reminder: ${scheduled.content || "you asked to be reminded about this message"}`,
+        `> ${target.username ?? "Someone"} in ${where}: ${excerpt}`,
+      ].join("\n");
+    }
+
+    const dm = getSystemDmRoom(db, scheduled.user_id);
+    if (dm.created) {
+      const system = db
+        .prepare("SELECT username, avatar_url, status FROM users WHERE id = ?")
+        .get(SYSTEM_USER_ID) as { username: string; avatar_url: string | null; status: string };
+      const view = db.prepare("SELECT * FROM rooms WHERE id = ?").get(dm.roomId) as Record<
+        string,
+        unknown
+      >;
+      emitToUser(scheduled.user_id, "dm:new", {
+        ...view,
+        other_user_id: SYSTEM_USER_ID,
+        other_username: system.username,
+        other_avatar_url: system.avatar_url,
+        other_status: system.status,
+      });
+    }
+    const payload = insertMessage(db, { roomId: dm.roomId, userId: SYSTEM_USER_ID, content });
+    io.to(dm.roomId).emit("message:new", payload);
+    notifyMessage(io, db, dm.roomId, payload, SYSTEM_USER_ID, []);
+    return { ok: true, messageId: String(payload.id) };
+  }
+
+  /**
+   * Post every scheduled message and reminder that has come due. Room access
+   * and moderation are checked again at send time since either may have
+   * changed since scheduling. Rows live in the database, so anything that
+   * came due while the server was down goes out on the next run.
+   */
+  function dispatchScheduledMessages() {
+    const db = getDb();
+    const due = getDueScheduledMessages(db, new Date().toISOString());
+    for (const scheduled of due) {
+      try {
+        const blocked = getScheduledAuthorBlock(db, scheduled.user_id);
+        const result: { ok: true; messageId: string } | { ok: false; error: string } = blocked
+          ? { ok: false, error: blocked }
+          : scheduled.kind === "reminder"
+            ? deliverReminder(db, scheduled)
+            : deliverScheduledMessage(db, scheduled);
+        if (result.ok) {
+          markScheduledMessageSent(db, scheduled.id, result.messageId);
+        } else {
+          markScheduledMessageFailed(db, scheduled.id, result.error);
+        }
+      } catch (err) {
+        console.error(`Failed to deliver scheduled message ${scheduled.id}:`, err);
+        markScheduledMessageFailed(db, scheduled.id, "Failed to send message");
+      }
+      const updated = getScheduledMessage(db, scheduled.id);
+      if (updated) emitToUser(scheduled.user_id, "message:schedule:update", updated);
+    }
+  }
+
+  dispatchScheduledMessages();
+  setInterval(dispatchScheduledMessages, SCHEDULED_MESSAGE_POLL_MS);
+
+  /** Announce final tallies for polls whose close time has passed */
+  function closeExpiredPolls() {
+    const db = getDb();
+    for (const messageId of closeDuePolls(db, new Date().toISOString())) {
+      broadcastPollUpdate(io, db, messageId);
+    }
+  }
+
+  closeExpiredPolls();
+  setInterval(closeExpiredPolls, POLL_CLOSE_CHECK_MS);
+
+  setInterval(() => pruneSlowModeEntries(getDb()), SLOW_MODE_PRUNE_MS);
+
   io.on("connection", (socket: Socket) => {
     const jwtUser = (socket as any).user as {
       userId: string;
       username: string;
       email: string;
       isAdmin: boolean;
+      isBot?: boolean;
+      sessionId?: string;
     };
     console.log(`Client connected: ${jwtUser.username} (${socket.id})`);
     clearPendingOffline(jwtUser.userId);
@@ -815,6 +1930,7 @@ export function setupSocketHandlers(io: Server) {
       socketId: socket.id,
       userId: jwtUser.userId,
       username: jwtUser.username,
+      sessionId: jwtUser.sessionId,
     });
 
     // Update user status to online
@@ -840,6 +1956,66 @@ export function setupSocketHandlers(io: Server) {
       emitRoleStateToAdmins(io, db);
     }
 
+    // Access tokens are short-lived. Warn the client shortly before expiry so
+    // it can refresh and send user:reauth; drop the socket if it never does.
+    // Bot tokens have no expiry.
+    let authExpiryWarning: ReturnType<typeof setTimeout> | null = null;
+    let authExpiryTimer: ReturnType<typeof setTimeout> | null = null;
+    const clearAuthExpiry = () => {
+      if (authExpiryWarning) clearTimeout(authExpiryWarning);
+      if (authExpiryTimer) clearTimeout(authExpiryTimer);
+      authExpiryWarning = null;
+      authExpiryTimer = null;
+    };
+    const scheduleAuthExpiry = (exp: number | undefined) => {
+      clearAuthExpiry();
+      if (!exp) return;
+      const expiresAt = new Date(exp * 1000).toISOString();
+      const remainingMs = exp * 1000 - Date.now();
+      authExpiryWarning = setTimeout(() => {
+        socket.emit("auth:expiring", { expires_at: expiresAt });
+      }, Math.max(0, remainingMs - AUTH_EXPIRY_WARNING_MS));
+      authExpiryTimer = setTimeout(() => {
+        socket.emit("auth:error", { error: "Access token expired" });
+        socket.disconnect(true);
+      }, Math.max(0, remainingMs + AUTH_EXPIRY_GRACE_MS));
+    };
+    scheduleAuthExpiry((socket as any).user.exp);
+
+    // Swap in a refreshed access token without reconnecting
+    socket.on(
+      "user:reauth",
+      (
+        { token }: { token: string },
+        ack?: (payload: { ok: boolean; error?: string; expires_at?: string | null }) => void
+      ) => {
+        let payload: JwtPayload & { exp?: number };
+        try {
+          payload = authenticateToken(typeof token === "string" ? token : "");
+        } catch {
+          if (ack) ack({ ok: false, error: "Invalid or expired token" });
+          return;
+        }
+        if (payload.userId !== jwtUser.userId || payload.scopes) {
+          if (ack) ack({ ok: false, error: "Token does not belong to this connection" });
+          return;
+        }
+        (socket as any).user = payload;
+        jwtUser.username = payload.username;
+        jwtUser.isAdmin = payload.isAdmin;
+        jwtUser.sessionId = payload.sessionId;
+        const connected = connectedUsers.get(socket.id);
+        if (connected) connected.sessionId = payload.sessionId;
+        scheduleAuthExpiry(payload.exp);
+        if (ack) {
+          ack({
+            ok: true,
+            expires_at: payload.exp ? new Date(payload.exp * 1000).toISOString() : null,
+          });
+        }
+      }
+    );
+
     // User identifies themselves (updates avatar, etc.)
     socket.on(
       "user:identify",
@@ -855,6 +2031,7 @@ export function setupSocketHandlers(io: Server) {
           userId: jwtUser.userId,
           username,
           avatarUrl,
+          sessionId: jwtUser.sessionId,
         });
         broadcastPresence(io);
       }
@@ -888,7 +2065,11 @@ export function setupSocketHandlers(io: Server) {
     // Get rooms list (excludes DM rooms)
     socket.on("rooms:get", () => {
       const categories = getRoomCategories(db);
-      const rooms = getStructuredRoomsForUser(db, jwtUser.userId, jwtUser.isAdmin);
+      const rooms = withReadState(
+        db,
+        jwtUser.userId,
+        getStructuredRoomsForUser(db, jwtUser.userId, jwtUser.isAdmin)
+      );
       socket.emit("rooms:structure", { categories, rooms });
       socket.emit("rooms:list", rooms);
     });
@@ -1003,9 +2184,9 @@ export function setupSocketHandlers(io: Server) {
     );
 
     socket.on(
-      "category:rename",
+      "room:slowmode",
       (
-        { categoryId, name }: { categoryId: string; name: string },
+        { roomId, seconds }: { roomId: string; seconds: number },
         ack?: (payload: { ok: boolean; error?: string }) => void
       ) => {
         const perms = getManagePerms();
@@ -1013,76 +2194,217 @@ export function setupSocketHandlers(io: Server) {
           if (ack) ack({ ok: false, error: "Missing channel management permission" });
           return;
         }
-        const trimmed = (name || "").trim();
-        if (!categoryId || !trimmed) {
-          if (ack) ack({ ok: false, error: "Category name is required" });
+        if (!Number.isInteger(seconds) || seconds < 0 || seconds > MAX_SLOW_MODE_SECONDS) {
+          if (ack) {
+            ack({
+              ok: false,
+              error: `Slow mode must be between 0 and ${MAX_SLOW_MODE_SECONDS} seconds`,
+            });
+          }
           return;
         }
-        const category = db
-          .prepare("SELECT id FROM room_categories WHERE id = ?")
-          .get(categoryId) as { id: string } | undefined;
-        if (!category) {
-          if (ack) ack({ ok: false, error: "Category not found" });
+        const room = roomId
+          ? (db.prepare("SELECT id, type FROM rooms WHERE id = ?").get(roomId) as
+              | { id: string; type: "text" | "voice" | "dm" }
+              | undefined)
+          : undefined;
+        if (!room || room.type === "dm") {
+          if (ack) ack({ ok: false, error: "Channel not found" });
           return;
         }
-        db.prepare("UPDATE room_categories SET name = ? WHERE id = ?").run(trimmed, categoryId);
+        db.prepare("UPDATE rooms SET slow_mode_seconds = ? WHERE id = ?").run(seconds, roomId);
         emitRoomStructure(io, db);
         if (ack) ack({ ok: true });
       }
     );
 
+    // ── Incoming webhooks ──────────────────────────────────────
+
     socket.on(
-      "room:delete",
+      "webhook:list",
       (
         { roomId }: { roomId: string },
-        ack?: (payload: { ok: boolean; error?: string }) => void
+        ack?: (payload: { ok: boolean; error?: string; webhooks?: IncomingWebhookRow[] }) => void
       ) => {
-        const perms = getManagePerms();
-        if (!perms.canManageChannels) {
+        if (!getManagePerms().canManageChannels) {
           if (ack) ack({ ok: false, error: "Missing channel management permission" });
           return;
         }
-        if (!roomId) {
-          if (ack) ack({ ok: false, error: "Channel is required" });
-          return;
-        }
-        const room = db
-          .prepare("SELECT id, type, is_temporary FROM rooms WHERE id = ?")
-          .get(roomId) as { id: string; type: "text" | "voice" | "dm"; is_temporary: number } | undefined;
-        if (!room || room.type === "dm" || room.is_temporary === 1) {
-          if (ack) ack({ ok: false, error: "Channel not found" });
-          return;
-        }
-        db.prepare("DELETE FROM rooms WHERE id = ?").run(roomId);
-        emitRoomStructure(io, db);
-        if (ack) ack({ ok: true });
+        if (ack) ack({ ok: true, webhooks: roomId ? listIncomingWebhooks(db, roomId) : [] });
       }
     );
 
     socket.on(
-      "category:delete",
+      "webhook:create",
       (
-        { categoryId }: { categoryId: string },
-        ack?: (payload: { ok: boolean; error?: string }) => void
+        { roomId, name }: { roomId: string; name: string },
+        ack?: (payload: {
+          ok: boolean;
+          error?: string;
+          webhook?: IncomingWebhookRow;
+          url?: string;
+        }) => void
       ) => {
-        const perms = getManagePerms();
-        if (!perms.canManageChannels) {
+        if (!getManagePerms().canManageChannels) {
           if (ack) ack({ ok: false, error: "Missing channel management permission" });
           return;
         }
-        if (!categoryId || categoryId === "default") {
-          if (ack) ack({ ok: false, error: "Cannot delete default category" });
+        const trimmed = (name || "").trim();
+        if (!trimmed || trimmed.length > MAX_WEBHOOK_NAME_LENGTH) {
+          if (ack) {
+            ack({
+              ok: false,
+              error: `Webhook name must be between 1 and ${MAX_WEBHOOK_NAME_LENGTH} characters`,
+            });
+          }
           return;
         }
-        const category = db
-          .prepare("SELECT id FROM room_categories WHERE id = ?")
-          .get(categoryId) as { id: string } | undefined;
-        if (!category) {
-          if (ack) ack({ ok: false, error: "Category not found" });
+        const room = roomId
+          ? (db.prepare("SELECT id, type FROM rooms WHERE id = ?").get(roomId) as
+              | { id: string; type: "text" | "voice" | "dm" }
+              | undefined)
+          : undefined;
+        if (!room || room.type !== "text") {
+          if (ack) ack({ ok: false, error: "Webhooks can only post into text channels" });
           return;
         }
-
-        ensureDefaultCategory(db);
+        if (listIncomingWebhooks(db, roomId).length >= MAX_WEBHOOKS_PER_ROOM) {
+          if (ack) {
+            ack({
+              ok: false,
+              error: `A channel can have at most ${MAX_WEBHOOKS_PER_ROOM} webhooks`,
+            });
+          }
+          return;
+        }
+        const { webhook, token } = createIncomingWebhook(db, {
+          roomId,
+          name: trimmed,
+          createdByUserId: jwtUser.userId,
+        });
+        if (ack) ack({ ok: true, webhook, url: buildWebhookUrl(webhook.id, token) });
+      }
+    );
+
+    socket.on(
+      "webhook:rotate",
+      (
+        { webhookId }: { webhookId: string },
+        ack?: (payload: { ok: boolean; error?: string; url?: string }) => void
+      ) => {
+        if (!getManagePerms().canManageChannels) {
+          if (ack) ack({ ok: false, error: "Missing channel management permission" });
+          return;
+        }
+        const webhook = webhookId ? getIncomingWebhook(db, webhookId) : undefined;
+        if (!webhook) {
+          if (ack) ack({ ok: false, error: "Webhook not found" });
+          return;
+        }
+        const token = rotateIncomingWebhookToken(db, webhook.id);
+        if (ack) ack({ ok: true, url: buildWebhookUrl(webhook.id, token) });
+      }
+    );
+
+    socket.on(
+      "webhook:delete",
+      (
+        { webhookId }: { webhookId: string },
+        ack?: (payload: { ok: boolean; error?: string }) => void
+      ) => {
+        if (!getManagePerms().canManageChannels) {
+          if (ack) ack({ ok: false, error: "Missing channel management permission" });
+          return;
+        }
+        if (!webhookId || !deleteIncomingWebhook(db, webhookId)) {
+          if (ack) ack({ ok: false, error: "Webhook not found" });
+          return;
+        }
+        if (ack) ack({ ok: true });
+      }
+    );
+
+    socket.on(
+      "category:rename",
+      (
+        { categoryId, name }: { categoryId: string; name: string },
+        ack?: (payload: { ok: boolean; error?: string }) => void
+      ) => {
+        const perms = getManagePerms();
+        if (!perms.canManageChannels) {
+          if (ack) ack({ ok: false, error: "Missing channel management permission" });
+          return;
+        }
+        const trimmed = (name || "").trim();
+        if (!categoryId || !trimmed) {
+          if (ack) ack({ ok: false, error: "Category name is required" });
+          return;
+        }
+        const category = db
+          .prepare("SELECT id FROM room_categories WHERE id = ?")
+          .get(categoryId) as { id: string } | undefined;
+        if (!category) {
+          if (ack) ack({ ok: false, error: "Category not found" });
+          return;
+        }
+        db.prepare("UPDATE room_categories SET name = ? WHERE id = ?").run(trimmed, categoryId);
+        emitRoomStructure(io, db);
+        if (ack) ack({ ok: true });
+      }
+    );
+
+    socket.on(
+      "room:delete",
+      (
+        { roomId }: { roomId: string },
+        ack?: (payload: { ok: boolean; error?: string }) => void
+      ) => {
+        const perms = getManagePerms();
+        if (!perms.canManageChannels) {
+          if (ack) ack({ ok: false, error: "Missing channel management permission" });
+          return;
+        }
+        if (!roomId) {
+          if (ack) ack({ ok: false, error: "Channel is required" });
+          return;
+        }
+        const room = db
+          .prepare("SELECT id, type, is_temporary FROM rooms WHERE id = ?")
+          .get(roomId) as { id: string; type: "text" | "voice" | "dm"; is_temporary: number } | undefined;
+        if (!room || room.type === "dm" || room.is_temporary === 1) {
+          if (ack) ack({ ok: false, error: "Channel not found" });
+          return;
+        }
+        db.prepare("DELETE FROM rooms WHERE id = ?").run(roomId);
+        emitRoomStructure(io, db);
+        if (ack) ack({ ok: true });
+      }
+    );
+
+    socket.on(
+      "category:delete",
+      (
+        { categoryId }: { categoryId: string },
+        ack?: (payload: { ok: boolean; error?: string }) => void
+      ) => {
+        const perms = getManagePerms();
+        if (!perms.canManageChannels) {
+          if (ack) ack({ ok: false, error: "Missing channel management permission" });
+          return;
+        }
+        if (!categoryId || categoryId === "default") {
+          if (ack) ack({ ok: false, error: "Cannot delete default category" });
+          return;
+        }
+        const category = db
+          .prepare("SELECT id FROM room_categories WHERE id = ?")
+          .get(categoryId) as { id: string } | undefined;
+        if (!category) {
+          if (ack) ack({ ok: false, error: "Category not found" });
+          return;
+        }
+
+        ensureDefaultCategory(db);
         db.prepare(
           "UPDATE rooms SET category_id = 'default' WHERE type != 'dm' AND is_temporary = 0 AND category_id = ?"
         ).run(categoryId);
@@ -1203,6 +2525,9 @@ export function setupSocketHandlers(io: Server) {
           canUploadFiles,
           canUseEmojis,
           canStartVoice,
+          canMentionEveryone,
+          canBypassSlowMode,
+          canManageEmojis,
         }: {
           name: string;
           color?: string;
@@ -1218,6 +2543,9 @@ export function setupSocketHandlers(io: Server) {
           canUploadFiles?: boolean;
           canUseEmojis?: boolean;
           canStartVoice?: boolean;
+          canMentionEveryone?: boolean;
+          canBypassSlowMode?: boolean;
+          canManageEmojis?: boolean;
         },
         ack?: (payload: { ok: boolean; error?: string; role?: RoleRow }) => void
       ) => {
@@ -1246,8 +2574,8 @@ export function setupSocketHandlers(io: Server) {
               id, name, color, position, can_manage_channels, can_manage_roles, can_manage_server,
               can_kick_members, can_ban_members, can_timeout_members, can_moderate_voice,
               can_pin_messages, can_manage_messages, can_upload_files, can_use_emojis, can_start_voice,
-              is_system
-            ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 0)`
+              can_mention_everyone, can_bypass_slow_mode, can_manage_emojis, is_system
+            ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 0)`
           ).run(
             id,
             trimmedName,
@@ -1264,7 +2592,10 @@ export function setupSocketHandlers(io: Server) {
             canManageMessages ? 1 : 0,
             canUploadFiles !== false ? 1 : 0,
             canUseEmojis !== false ? 1 : 0,
-            canStartVoice !== false ? 1 : 0
+            canStartVoice !== false ? 1 : 0,
+            canMentionEveryone ? 1 : 0,
+            canBypassSlowMode ? 1 : 0,
+            canManageEmojis ? 1 : 0
           );
         } catch {
           if (ack) ack({ ok: false, error: "Role name already exists" });
@@ -1275,7 +2606,7 @@ export function setupSocketHandlers(io: Server) {
             `SELECT id, name, color, position, can_manage_channels, can_manage_roles, can_manage_server,
                     can_kick_members, can_ban_members, can_timeout_members, can_moderate_voice,
                     can_pin_messages, can_manage_messages, can_upload_files, can_use_emojis, can_start_voice,
-                    is_system, created_at
+                    can_mention_everyone, can_bypass_slow_mode, can_manage_emojis, is_system, created_at
              FROM roles WHERE id = ?`
           )
           .get(id) as RoleRow;
@@ -1304,6 +2635,9 @@ export function setupSocketHandlers(io: Server) {
           canUploadFiles,
           canUseEmojis,
           canStartVoice,
+          canMentionEveryone,
+          canBypassSlowMode,
+          canManageEmojis,
         }: {
           roleId: string;
           name?: string;
@@ -1321,6 +2655,9 @@ export function setupSocketHandlers(io: Server) {
           canUploadFiles?: boolean;
           canUseEmojis?: boolean;
           canStartVoice?: boolean;
+          canMentionEveryone?: boolean;
+          canBypassSlowMode?: boolean;
+          canManageEmojis?: boolean;
         },
         ack?: (payload: { ok: boolean; error?: string }) => void
       ) => {
@@ -1396,6 +2733,15 @@ export function setupSocketHandlers(io: Server) {
         if (canStartVoice !== undefined) {
           patch.can_start_voice = canStartVoice ? 1 : 0;
         }
+        if (canMentionEveryone !== undefined) {
+          patch.can_mention_everyone = canMentionEveryone ? 1 : 0;
+        }
+        if (canBypassSlowMode !== undefined) {
+          patch.can_bypass_slow_mode = canBypassSlowMode ? 1 : 0;
+        }
+        if (canManageEmojis !== undefined) {
+          patch.can_manage_emojis = canManageEmojis ? 1 : 0;
+        }
         if (Object.keys(patch).length === 0) {
           if (ack) ack({ ok: false, error: "No fields to update" });
           return;
@@ -1601,6 +2947,14 @@ export function setupSocketHandlers(io: Server) {
              VALUES (?, ?, ?, datetime('now'))
              ON CONFLICT(user_id) DO UPDATE SET banned_by_user_id = excluded.banned_by_user_id, reason = excluded.reason, created_at = datetime('now')`
           ).run(userId, jwtUser.userId, normalizedReason);
+          // Banned users have to sign in again, which the ban then refuses.
+          revokeUserSessions(db, userId);
+          cancelUserScheduledMessages(db, userId);
+          enqueueOutgoingWebhookEvent(db, "member.banned", {
+            user: { id: target.id, username: target.username },
+            banned_by: { id: jwtUser.userId, username: jwtUser.username },
+            reason: normalizedReason,
+          });
           for (const [sid, cu] of connectedUsers.entries()) {
             if (cu.userId !== userId) continue;
             const targetSocket = io.sockets.sockets.get(sid);
@@ -1628,16 +2982,7 @@ export function setupSocketHandlers(io: Server) {
                       60_000
                 ).toISOString()
               : null;
-          db.prepare(
-            `INSERT INTO user_moderation_states
-             (user_id, timed_out_until, reason, updated_by_user_id, updated_at)
-             VALUES (?, ?, ?, ?, datetime('now'))
-             ON CONFLICT(user_id)
-             DO UPDATE SET timed_out_until = excluded.timed_out_until,
-                           reason = excluded.reason,
-                           updated_by_user_id = excluded.updated_by_user_id,
-                           updated_at = datetime('now')`
-          ).run(userId, timeoutAt, normalizedReason, jwtUser.userId);
+          setUserTimeout(db, userId, timeoutAt, normalizedReason, jwtUser.userId);
           if (ack) ack({ ok: true });
           return;
         }
@@ -1809,8 +3154,9 @@ export function setupSocketHandlers(io: Server) {
       const messages = db
         .prepare(
           `SELECT * FROM (
-             SELECT m.id, m.room_id, m.user_id, m.content, m.created_at,
-                    m.reply_to_message_id,
+             SELECT m.id, m.room_id, m.user_id, m.content, m.created_at, m.edited_at,
+                    m.reply_to_message_id, m.thread_parent_id, m.thread_reply_count,
+                    m.thread_last_activity_at,
                     EXISTS(SELECT 1 FROM pinned_messages pm WHERE pm.message_id = m.id) AS pinned,
                     u.username, u.avatar_url,
                     COALESCE(
@@ -1826,18 +3172,14 @@ export function setupSocketHandlers(io: Server) {
                     ) AS role_color
              FROM messages m
              LEFT JOIN users u ON m.user_id = u.id
-             WHERE m.room_id = ?
+             WHERE m.room_id = ? AND m.thread_parent_id IS NULL
              ORDER BY m.created_at DESC
              LIMIT ?
            ) sub ORDER BY sub.created_at ASC`
         )
         .all(roomId, config.messageHistoryLimit) as MessageRow[];
 
-      const messagesWithAttachments = withAttachments(db, messages);
-      const messagesWithMeta = withReplyMeta(
-        db,
-        withReactions(db, messagesWithAttachments as MessageRow[]) as MessageRow[]
-      );
+      const messagesWithMeta = enrichMessages(db, messages, jwtUser.userId);
 
       const hasMore = messages.length >= config.messageHistoryLimit;
       socket.emit("message:history", { messages: messagesWithMeta, hasMore });
@@ -1853,14 +3195,23 @@ export function setupSocketHandlers(io: Server) {
     socket.on("voice:join", ({ roomId }: { roomId?: string }) => {
       if (!roomId) return;
       const roomMeta = db
-        .prepare("SELECT type FROM rooms WHERE id = ? AND type = 'voice' AND is_temporary = 0")
-        .get(roomId) as { type: string } | undefined;
+        .prepare(
+          "SELECT name, type FROM rooms WHERE id = ? AND type = 'voice' AND is_temporary = 0"
+        )
+        .get(roomId) as { name: string; type: string } | undefined;
       if (!roomMeta) return;
       if (!canAccessRoom(db, roomId, jwtUser.userId, jwtUser.isAdmin)) return;
       if (!voiceChannelOccupancy.has(roomId)) {
         voiceChannelOccupancy.set(roomId, new Set());
       }
-      voiceChannelOccupancy.get(roomId)!.add(jwtUser.userId);
+      const occupants = voiceChannelOccupancy.get(roomId)!;
+      if (!occupants.has(jwtUser.userId)) {
+        enqueueOutgoingWebhookEvent(db, "voice.joined", {
+          room: { id: roomId, name: roomMeta.name },
+          user: { id: jwtUser.userId, username: jwtUser.username },
+        });
+      }
+      occupants.add(jwtUser.userId);
       broadcastVoiceState(io);
     });
 
@@ -1895,8 +3246,9 @@ export function setupSocketHandlers(io: Server) {
         const messages = db
           .prepare(
             `SELECT * FROM (
-               SELECT m.id, m.room_id, m.user_id, m.content, m.created_at,
-                      m.reply_to_message_id,
+               SELECT m.id, m.room_id, m.user_id, m.content, m.created_at, m.edited_at,
+                      m.reply_to_message_id, m.thread_parent_id, m.thread_reply_count,
+                      m.thread_last_activity_at,
                       EXISTS(SELECT 1 FROM pinned_messages pm WHERE pm.message_id = m.id) AS pinned,
                       u.username, u.avatar_url,
                       COALESCE(
@@ -1912,7 +3264,7 @@ export function setupSocketHandlers(io: Server) {
                       ) AS role_color
                FROM messages m
                LEFT JOIN users u ON m.user_id = u.id
-               WHERE m.room_id = ? AND m.created_at < ?
+               WHERE m.room_id = ? AND m.thread_parent_id IS NULL AND m.created_at < ?
                ORDER BY m.created_at DESC
                LIMIT ?
              ) sub ORDER BY sub.created_at ASC`
@@ -1923,74 +3275,97 @@ export function setupSocketHandlers(io: Server) {
         >[];
 
         const hasMore = messages.length >= config.messageHistoryLimit;
-        const messagesWithAttachments = withAttachments(
-          db,
-          messages as MessageRow[]
-        );
-        const messagesWithMeta = withReplyMeta(
-          db,
-          withReactions(db, messagesWithAttachments as MessageRow[]) as MessageRow[]
-        );
+        const messagesWithMeta = enrichMessages(db, messages as MessageRow[], jwtUser.userId);
         if (ack) ack({ messages: messagesWithMeta, hasMore });
       }
     );
 
+    // Full-text search across every room the caller can see
     socket.on(
       "message:search",
       (
-        { roomId, query, limit }: { roomId: string; query: string; limit?: number },
-        ack?: (payload: { ok: boolean; error?: string; messages?: Record<string, unknown>[] }) => void
+        {
+          roomId,
+          query,
+          limit,
+          cursor,
+          sort,
+        }: {
+          roomId?: string | null;
+          query: string;
+          limit?: number;
+          cursor?: string | null;
+          sort?: SearchSort;
+        },
+        ack?: (payload: {
+          ok: boolean;
+          error?: string;
+          messages?: Record<string, unknown>[];
+          nextCursor?: string | null;
+          highlight?: { start: string; end: string };
+        }) => void
       ) => {
         const q = (query || "").trim();
         const max = Math.min(Math.max(Number(limit) || 25, 1), 100);
-        if (!roomId) {
-          if (ack) ack({ ok: false, error: "Room is required" });
+        const highlight = { start: SEARCH_HIGHLIGHT_START, end: SEARCH_HIGHLIGHT_END };
+        if (q.length < 2) {
+          if (ack) ack({ ok: true, messages: [], nextCursor: null, highlight });
           return;
         }
-        if (q.length < 2) {
-          if (ack) ack({ ok: true, messages: [] });
+        if (roomId && !canAccessRoom(db, roomId, jwtUser.userId, jwtUser.isAdmin)) {
+          if (ack) ack({ ok: false, error: "Not authorized for this room" });
           return;
         }
-        if (!canAccessRoom(db, roomId, jwtUser.userId, jwtUser.isAdmin)) {
+        try {
+          const offset = decodeSearchCursor(cursor);
+          const { rows, hasMore } = searchMessages(db, {
+            userId: jwtUser.userId,
+            isAdmin: jwtUser.isAdmin,
+            query: q,
+            roomId: roomId || null,
+            sort: sort === "recent" ? "recent" : "relevance",
+            limit: max,
+            offset,
+          });
+          const enriched = enrichMessages(db, rows as MessageRow[], jwtUser.userId);
+          if (ack) {
+            ack({
+              ok: true,
+              messages: enriched,
+              nextCursor: hasMore ? encodeSearchCursor(offset + rows.length) : null,
+              highlight,
+            });
+          }
+        } catch (err) {
+          console.error("Failed to search messages:", err);
+          if (ack) ack({ ok: false, error: "Search failed" });
+        }
+      }
+    );
+
+    // Advance the caller's read marker; other devices follow via room:read:update
+    socket.on(
+      "room:markRead",
+      (
+        { roomId, messageId }: { roomId: string; messageId?: string | null },
+        ack?: (payload: { ok: boolean; error?: string; state?: Record<string, unknown> }) => void
+      ) => {
+        if (!roomId || !canAccessRoom(db, roomId, jwtUser.userId, jwtUser.isAdmin)) {
           if (ack) ack({ ok: false, error: "Not authorized for this room" });
           return;
         }
-        const like = `%${q.replace(/[%_]/g, "\\$&")}%`;
-        const rows = db
-          .prepare(
-            `SELECT
-               m.id,
-               m.room_id,
-               m.user_id,
-               m.reply_to_message_id,
-               EXISTS(SELECT 1 FROM pinned_messages pm WHERE pm.message_id = m.id) AS pinned,
-               m.content,
-               m.created_at,
-               u.username,
-               u.avatar_url,
-               COALESCE(
-                 (
-                   SELECT r.color
-                   FROM user_roles ur
-                   JOIN roles r ON r.id = ur.role_id
-                   WHERE ur.user_id = m.user_id
-                   ORDER BY r.position DESC, r.created_at DESC
-                   LIMIT 1
-                 ),
-                 '#94a3b8'
-               ) AS role_color
-             FROM messages m
-             LEFT JOIN users u ON m.user_id = u.id
-             WHERE m.room_id = ? AND m.content LIKE ? ESCAPE '\\'
-             ORDER BY m.created_at DESC
-             LIMIT ?`
-          )
-          .all(roomId, like, max) as MessageRow[];
-        const enriched = withReplyMeta(
-          db,
-          withReactions(db, withAttachments(db, rows) as MessageRow[]) as MessageRow[]
-        );
-        if (ack) ack({ ok: true, messages: enriched });
+        try {
+          const result = markRoomRead(db, jwtUser.userId, roomId, messageId || null);
+          if (!result.ok) {
+            if (ack) ack({ ok: false, error: result.error });
+            return;
+          }
+          emitToUser(jwtUser.userId, "room:read:update", result.state);
+          if (ack) ack({ ok: true, state: result.state });
+        } catch (err) {
+          console.error("Failed to update read state:", err);
+          if (ack) ack({ ok: false, error: "Failed to update read state" });
+        }
       }
     );
 
@@ -2029,23 +3404,24 @@ export function setupSocketHandlers(io: Server) {
           client_nonce,
           attachment_ids,
           reply_to_message_id,
+          poll,
         }: {
           room_id: string;
           content: string;
           client_nonce?: string;
           attachment_ids?: string[];
           reply_to_message_id?: string | null;
+          poll?: unknown;
         },
         ack?: (payload: {
           ok: boolean;
           error?: string;
           message?: Record<string, unknown>;
           client_nonce?: string;
+          slow_mode_remaining_ms?: number;
+          notice?: string;
         }) => void
       ) => {
-        const config = getConfig();
-        const userPerms = getUserPermissions(db, jwtUser.userId, jwtUser.isAdmin);
-        const limiterKey = jwtUser.userId;
         if (!room_id || !canSendRoomMessage(db, room_id, jwtUser.userId, jwtUser.isAdmin)) {
           if (ack) {
             ack({
@@ -2057,76 +3433,80 @@ export function setupSocketHandlers(io: Server) {
           return;
         }
 
-        // Rate limiting
-        if (config.rateLimitPerMinute > 0) {
-          const now = Date.now();
-          const windowStart = now - 60_000;
-          let bucket = rateLimitBuckets.get(limiterKey) ?? [];
-          bucket = bucket.filter((ts) => ts > windowStart);
-          if (bucket.length >= config.rateLimitPerMinute) {
-            if (ack) {
-              ack({
-                ok: false,
-                error: "You're sending messages too fast. Slow down!",
-                client_nonce,
-              });
-            }
+        let pollDraft: PollDraft | undefined;
+        if (poll !== undefined && poll !== null) {
+          const parsedPoll = parsePollDraft(poll);
+          if (!parsedPoll.ok) {
+            if (ack) ack({ ok: false, error: parsedPoll.error, client_nonce });
+            return;
+          }
+          pollDraft = parsedPoll.poll;
+          // The question doubles as the message text so search, previews
+          // and notifications have something to show.
+          if (typeof content !== "string" || !content.trim()) content = pollDraft.question;
+        }
+
+        // "/name args" runs a command; "//text" sends "/text" as written.
+        const invocation = pollDraft ? null : parseSlashCommand(content);
+        if (invocation) {
+          const outcome = runSlashCommand(io, db, jwtUser, room_id, invocation);
+          if (!outcome.ok) {
+            if (ack) ack({ ok: false, error: outcome.error, client_nonce });
+            return;
+          }
+          if (outcome.content === undefined) {
+            if (ack) ack({ ok: true, notice: outcome.notice, client_nonce });
             return;
           }
-          bucket.push(now);
-          rateLimitBuckets.set(limiterKey, bucket);
+          content = outcome.content;
+          pollDraft = outcome.poll;
+        } else if (typeof content === "string" && content.startsWith("//")) {
+          content = content.slice(1);
         }
 
-        const trimmed = (content || "").trim();
-        const attachmentIds = Array.isArray(attachment_ids)
-          ? attachment_ids.filter((id) => typeof id === "string" && id.length > 0)
-          : [];
-        if (attachmentIds.length > 0 && !userPerms.canUploadFiles) {
+        const slowMode = getSlowModeCooldown(db, room_id, jwtUser.userId, jwtUser.isAdmin);
+        if (slowMode.remainingMs > 0) {
           if (ack) {
             ack({
               ok: false,
-              error: "Missing permission to upload files",
+              error: `Slow mode is on. You can send another message in ${Math.ceil(slowMode.remainingMs / 1000)}s`,
               client_nonce,
+              slow_mode_remaining_ms: slowMode.remainingMs,
             });
           }
           return;
         }
-        const replyToMessageId =
-          typeof reply_to_message_id === "string" && reply_to_message_id.length > 0
-            ? reply_to_message_id
-            : null;
 
-        if (!trimmed && attachmentIds.length === 0) {
+        if (!consumeMessageRateLimit(jwtUser.userId)) {
           if (ack) {
             ack({
               ok: false,
-              error: "Message or attachment is required",
+              error: "You're sending messages too fast. Slow down!",
               client_nonce,
             });
           }
           return;
         }
 
-        if (trimmed.length > config.maxMessageLength) {
-          if (ack) {
-            ack({
-              ok: false,
-              error: `Message exceeds maximum length of ${config.maxMessageLength} characters`,
-              client_nonce,
-            });
-          }
+        const draft = validateMessageDraft(db, jwtUser.userId, jwtUser.isAdmin, content, attachment_ids);
+        if (!draft.ok) {
+          if (ack) ack({ ok: false, error: draft.error, client_nonce });
           return;
         }
+        const replyToMessageId =
+          typeof reply_to_message_id === "string" && reply_to_message_id.length > 0
+            ? reply_to_message_id
+            : null;
 
         const user = connectedUsers.get(socket.id);
-        const id = crypto.randomUUID();
-        const created_at = new Date().toISOString();
         const userId = user?.userId || socket.id;
         if (replyToMessageId) {
           const replyTarget = db
-            .prepare("SELECT id, room_id FROM messages WHERE id = ?")
-            .get(replyToMessageId) as { id: string; room_id: string } | undefined;
-          if (!replyTarget || replyTarget.room_id !== room_id) {
+            .prepare("SELECT id, room_id, thread_parent_id FROM messages WHERE id = ?")
+            .get(replyToMessageId) as
+            | { id: string; room_id: string; thread_parent_id: string | null }
+            | undefined;
+          if (!replyTarget || replyTarget.room_id !== room_id || replyTarget.thread_parent_id) {
             if (ack) {
               ack({
                 ok: false,
@@ -2137,223 +3517,949 @@ export function setupSocketHandlers(io: Server) {
             return;
           }
         }
-
-        try {
-          db.prepare(
-            `INSERT INTO messages (
-              id, room_id, user_id, reply_to_message_id, content, created_at
-            ) VALUES (?, ?, ?, ?, ?, ?)`
-          ).run(id, room_id, userId, replyToMessageId, trimmed, created_at);
-
-          if (attachmentIds.length > 0) {
-            const placeholders = attachmentIds.map(() => "?").join(", ");
-            const ownedAttachments = db
-              .prepare(
-                `SELECT id
-                 FROM attachments
-                 WHERE uploaded_by = ? AND id IN (${placeholders})`
-              )
-              .all(userId, ...attachmentIds) as Array<{ id: string }>;
-            const ownedSet = new Set(ownedAttachments.map((row) => row.id));
-            for (const attachmentId of attachmentIds) {
-              if (!ownedSet.has(attachmentId)) continue;
-              db.prepare(
-                "INSERT OR IGNORE INTO message_attachments (message_id, attachment_id) VALUES (?, ?)"
-              ).run(id, attachmentId);
-            }
+
+        try {
+          const mentions = resolveMentions(db, {
+            content: draft.content,
+            authorId: userId,
+            roomId: room_id,
+            canMentionEveryone: getUserPermissions(db, jwtUser.userId, jwtUser.isAdmin)
+              .canMentionEveryone,
+          });
+          const inserted = insertMessage(db, {
+            roomId: room_id,
+            userId,
+            content: draft.content,
+            attachmentIds: draft.attachmentIds,
+            replyToMessageId,
+            mentions,
+            poll: pollDraft,
+          });
+          const payloadWithMeta = { ...inserted, client_nonce };
+          if (slowMode.intervalSeconds > 0) recordSlowModeMessage(room_id, jwtUser.userId);
+
+          io.to(room_id).emit("message:new", payloadWithMeta);
+          emitMentions(io, room_id, payloadWithMeta, mentions);
+
+          // Sending implies having read the room up to this message.
+          const readResult = markRoomRead(db, userId, room_id, inserted.id as string);
+          if (readResult.ok) {
+            emitToUser(userId, "room:read:update", readResult.state);
+          }
+
+          // Lightweight notification events for unread/mention tracking, separate
+          // from message:new so clients can badge rooms they have not joined.
+          notifyMessage(io, db, room_id, payloadWithMeta, userId, mentions);
+          unfurlInBackground(io, db, inserted);
+
+          if (ack) {
+            ack({
+              ok: true,
+              message: payloadWithMeta,
+              client_nonce,
+              slow_mode_remaining_ms: slowMode.intervalSeconds * 1000,
+            });
+          }
+        } catch (err) {
+          console.error("Failed to insert message:", err);
+          if (ack) {
+            ack({ ok: false, error: "Failed to send message", client_nonce });
+          }
+        }
+      }
+    );
+
+    // Forward a message into another room or DM. The copy keeps the source's
+    // attachments and points back to it through forwarded_from.
+    socket.on(
+      "message:forward",
+      (
+        {
+          messageId,
+          targetRoomId,
+          client_nonce,
+        }: { messageId: string; targetRoomId: string; client_nonce?: string },
+        ack?: (payload: {
+          ok: boolean;
+          error?: string;
+          message?: Record<string, unknown>;
+          client_nonce?: string;
+          slow_mode_remaining_ms?: number;
+        }) => void
+      ) => {
+        const source = db
+          .prepare(
+            `SELECT id, room_id, user_id, content, created_at, forwarded_from_message_id,
+                    forwarded_from_user_id, forwarded_from_room_id, forwarded_from_created_at
+             FROM messages
+             WHERE id = ?`
+          )
+          .get(messageId) as
+          | {
+              id: string;
+              room_id: string;
+              user_id: string;
+              content: string;
+              created_at: string;
+              forwarded_from_message_id: string | null;
+              forwarded_from_user_id: string | null;
+              forwarded_from_room_id: string | null;
+              forwarded_from_created_at: string | null;
+            }
+          | undefined;
+        if (!source || !canAccessRoom(db, source.room_id, jwtUser.userId, jwtUser.isAdmin)) {
+          if (ack) ack({ ok: false, error: "Message not found", client_nonce });
+          return;
+        }
+        if (
+          !targetRoomId ||
+          !canSendRoomMessage(db, targetRoomId, jwtUser.userId, jwtUser.isAdmin)
+        ) {
+          if (ack) ack({ ok: false, error: "Not authorized for this room", client_nonce });
+          return;
+        }
+
+        // The copy re-posts the source's files and text under this user's
+        // name, so it has to pass the same checks as a new message.
+        const sourceAttachmentIds = (
+          db
+            .prepare("SELECT attachment_id FROM message_attachments WHERE message_id = ?")
+            .all(source.id) as Array<{ attachment_id: string }>
+        ).map((row) => row.attachment_id);
+        const draft = validateMessageDraft(
+          db,
+          jwtUser.userId,
+          jwtUser.isAdmin,
+          source.content,
+          sourceAttachmentIds
+        );
+        if (!draft.ok) {
+          if (ack) ack({ ok: false, error: draft.error, client_nonce });
+          return;
+        }
+
+        const slowMode = getSlowModeCooldown(db, targetRoomId, jwtUser.userId, jwtUser.isAdmin);
+        if (slowMode.remainingMs > 0) {
+          if (ack) {
+            ack({
+              ok: false,
+              error: `Slow mode is on. You can send another message in ${Math.ceil(slowMode.remainingMs / 1000)}s`,
+              client_nonce,
+              slow_mode_remaining_ms: slowMode.remainingMs,
+            });
+          }
+          return;
+        }
+
+        if (!consumeMessageRateLimit(jwtUser.userId)) {
+          if (ack) {
+            ack({
+              ok: false,
+              error: "You're sending messages too fast. Slow down!",
+              client_nonce,
+            });
+          }
+          return;
+        }
+
+        // Forwarding a forward credits the original author, not the middleman.
+        const forwardedFrom: ForwardSource = source.forwarded_from_created_at
+          ? {
+              messageId: source.forwarded_from_message_id,
+              userId: source.forwarded_from_user_id,
+              roomId: source.forwarded_from_room_id,
+              createdAt: source.forwarded_from_created_at,
+              attachmentsFromMessageId: source.id,
+            }
+          : {
+              messageId: source.id,
+              userId: source.user_id,
+              roomId: source.room_id,
+              createdAt: source.created_at,
+              attachmentsFromMessageId: source.id,
+            };
+
+        try {
+          // Mentions in the original are not re-resolved, so forwarding an
+          // @everyone message does not ping the target room again.
+          const inserted = insertMessage(db, {
+            roomId: targetRoomId,
+            userId: jwtUser.userId,
+            content: draft.content,
+            forwardedFrom,
+          });
+          const payloadWithMeta = { ...inserted, client_nonce };
+          if (slowMode.intervalSeconds > 0) recordSlowModeMessage(targetRoomId, jwtUser.userId);
+
+          io.to(targetRoomId).emit("message:new", payloadWithMeta);
+
+          const readResult = markRoomRead(db, jwtUser.userId, targetRoomId, inserted.id as string);
+          if (readResult.ok) {
+            emitToUser(jwtUser.userId, "room:read:update", readResult.state);
+          }
+          notifyMessage(io, db, targetRoomId, payloadWithMeta, jwtUser.userId, []);
+
+          if (ack) {
+            ack({
+              ok: true,
+              message: payloadWithMeta,
+              client_nonce,
+              slow_mode_remaining_ms: slowMode.intervalSeconds * 1000,
+            });
+          }
+        } catch (err) {
+          console.error("Failed to forward message:", err);
+          if (ack) ack({ ok: false, error: "Failed to forward message", client_nonce });
+        }
+      }
+    );
+
+    // ── Thread events ──────────────────────────────────────────
+
+    // Subscribe to a thread and receive its latest replies
+    socket.on(
+      "thread:join",
+      (
+        { messageId }: { messageId: string },
+        ack?: (payload: {
+          ok: boolean;
+          error?: string;
+          parent?: Record<string, unknown>;
+          messages?: Record<string, unknown>[];
+          hasMore?: boolean;
+        }) => void
+      ) => {
+        const parent = messageId ? getThreadParent(db, messageId) : undefined;
+        if (!parent) {
+          if (ack) ack({ ok: false, error: "Thread not found" });
+          return;
+        }
+        if (!canAccessRoom(db, parent.room_id, jwtUser.userId, jwtUser.isAdmin)) {
+          if (ack) ack({ ok: false, error: "Not authorized for this room" });
+          return;
+        }
+        socket.join(threadRoomName(parent.id));
+
+        const config = getConfig();
+        const parentRow = getMessageById(db, parent.id);
+        const messages = getThreadMessages(db, parent.id, null, config.messageHistoryLimit);
+        if (ack) {
+          ack({
+            ok: true,
+            parent: parentRow ? enrichMessages(db, [parentRow], jwtUser.userId)[0] : undefined,
+            messages: enrichMessages(db, messages, jwtUser.userId),
+            hasMore: messages.length >= config.messageHistoryLimit,
+          });
+        }
+      }
+    );
+
+    socket.on("thread:leave", ({ messageId }: { messageId: string }) => {
+      if (!messageId) return;
+      socket.leave(threadRoomName(messageId));
+    });
+
+    // Load older thread replies before a given timestamp
+    socket.on(
+      "thread:history",
+      (
+        { messageId, before }: { messageId: string; before?: string },
+        ack?: (payload: {
+          ok: boolean;
+          error?: string;
+          messages?: Record<string, unknown>[];
+          hasMore?: boolean;
+        }) => void
+      ) => {
+        const parent = messageId ? getThreadParent(db, messageId) : undefined;
+        if (!parent) {
+          if (ack) ack({ ok: false, error: "Thread not found" });
+          return;
+        }
+        if (!canAccessRoom(db, parent.room_id, jwtUser.userId, jwtUser.isAdmin)) {
+          if (ack) ack({ ok: false, error: "Not authorized for this room" });
+          return;
+        }
+        const config = getConfig();
+        const messages = getThreadMessages(
+          db,
+          parent.id,
+          typeof before === "string" && before.length > 0 ? before : null,
+          config.messageHistoryLimit
+        );
+        if (ack) {
+          ack({
+            ok: true,
+            messages: enrichMessages(db, messages, jwtUser.userId),
+            hasMore: messages.length >= config.messageHistoryLimit,
+          });
+        }
+      }
+    );
+
+    // Reply in a thread
+    socket.on(
+      "thread:send",
+      (
+        {
+          messageId,
+          content,
+          client_nonce,
+          attachment_ids,
+        }: {
+          messageId: string;
+          content: string;
+          client_nonce?: string;
+          attachment_ids?: string[];
+        },
+        ack?: (payload: {
+          ok: boolean;
+          error?: string;
+          message?: Record<string, unknown>;
+          client_nonce?: string;
+          slow_mode_remaining_ms?: number;
+        }) => void
+      ) => {
+        const parent = messageId ? getThreadParent(db, messageId) : undefined;
+        if (!parent) {
+          if (ack) ack({ ok: false, error: "Thread not found", client_nonce });
+          return;
+        }
+        if (!canSendRoomMessage(db, parent.room_id, jwtUser.userId, jwtUser.isAdmin)) {
+          if (ack) ack({ ok: false, error: "Not authorized for this room", client_nonce });
+          return;
+        }
+        const slowMode = getSlowModeCooldown(db, parent.room_id, jwtUser.userId, jwtUser.isAdmin);
+        if (slowMode.remainingMs > 0) {
+          if (ack) {
+            ack({
+              ok: false,
+              error: `Slow mode is on. You can send another message in ${Math.ceil(slowMode.remainingMs / 1000)}s`,
+              client_nonce,
+              slow_mode_remaining_ms: slowMode.remainingMs,
+            });
+          }
+          return;
+        }
+        if (!consumeMessageRateLimit(jwtUser.userId)) {
+          if (ack) {
+            ack({
+              ok: false,
+              error: "You're sending messages too fast. Slow down!",
+              client_nonce,
+            });
+          }
+          return;
+        }
+        const draft = validateMessageDraft(db, jwtUser.userId, jwtUser.isAdmin, content, attachment_ids);
+        if (!draft.ok) {
+          if (ack) ack({ ok: false, error: draft.error, client_nonce });
+          return;
+        }
+
+        try {
+          const mentions = resolveMentions(db, {
+            content: draft.content,
+            authorId: jwtUser.userId,
+            roomId: parent.room_id,
+            canMentionEveryone: getUserPermissions(db, jwtUser.userId, jwtUser.isAdmin)
+              .canMentionEveryone,
+          });
+          const payload = {
+            ...insertMessage(db, {
+              roomId: parent.room_id,
+              userId: jwtUser.userId,
+              content: draft.content,
+              attachmentIds: draft.attachmentIds,
+              threadParentId: parent.id,
+              mentions,
+            }),
+            client_nonce,
+          };
+          if (slowMode.intervalSeconds > 0) recordSlowModeMessage(parent.room_id, jwtUser.userId);
+          const summary = db
+            .prepare(
+              "SELECT thread_reply_count, thread_last_activity_at FROM messages WHERE id = ?"
+            )
+            .get(parent.id) as { thread_reply_count: number; thread_last_activity_at: string | null };
+
+          io.to(threadRoomName(parent.id)).emit("thread:message:new", payload);
+          emitMentions(io, parent.room_id, payload, mentions);
+          notifyMessage(io, db, parent.room_id, payload, jwtUser.userId, mentions, parent.id);
+          unfurlInBackground(io, db, payload);
+          io.to(parent.room_id).emit("thread:updated", {
+            room_id: parent.room_id,
+            messageId: parent.id,
+            ...summary,
+          });
+          if (ack) {
+            ack({
+              ok: true,
+              message: payload,
+              client_nonce,
+              slow_mode_remaining_ms: slowMode.intervalSeconds * 1000,
+            });
+          }
+        } catch (err) {
+          console.error("Failed to insert thread reply:", err);
+          if (ack) ack({ ok: false, error: "Failed to send message", client_nonce });
+        }
+      }
+    );
+
+    socket.on(
+      "message:reaction:set",
+      (
+        {
+          messageId,
+          emoji,
+          active,
+        }: { messageId: string; emoji: string; active: boolean },
+        ack?: (payload: { ok: boolean; error?: string }) => void
+      ) => {
+        const perms = getUserPermissions(db, jwtUser.userId, jwtUser.isAdmin);
+        if (!perms.canUseEmojis) {
+          if (ack) ack({ ok: false, error: "Missing emoji permission" });
+          return;
+        }
+        let normalizedEmoji = (emoji || "").trim();
+        // Long enough for a "<:shortcode:id>" custom emoji token.
+        if (!messageId || !normalizedEmoji || normalizedEmoji.length > 80) {
+          if (ack) ack({ ok: false, error: "Invalid reaction payload" });
+          return;
+        }
+        // Removing a reaction must still work after its custom emoji is gone.
+        if (active) {
+          const customReaction = resolveCustomReaction(db, normalizedEmoji);
+          if (customReaction === null) {
+            if (ack) ack({ ok: false, error: "Unknown custom emoji" });
+            return;
+          }
+          if (customReaction) normalizedEmoji = customReaction;
+        }
+
+        const message = db
+          .prepare("SELECT id, room_id, thread_parent_id FROM messages WHERE id = ?")
+          .get(messageId) as
+          | { id: string; room_id: string; thread_parent_id: string | null }
+          | undefined;
+        if (!message) {
+          if (ack) ack({ ok: false, error: "Message not found" });
+          return;
+        }
+
+        if (!canAccessRoom(db, message.room_id, jwtUser.userId, jwtUser.isAdmin)) {
+          if (ack) ack({ ok: false, error: "Not authorized for this room" });
+          return;
+        }
+
+        try {
+          if (active) {
+            db.prepare(
+              `INSERT OR IGNORE INTO message_reactions (message_id, user_id, emoji, created_at)
+               VALUES (?, ?, ?, datetime('now'))`
+            ).run(messageId, jwtUser.userId, normalizedEmoji);
+          } else {
+            db.prepare(
+              "DELETE FROM message_reactions WHERE message_id = ? AND user_id = ? AND emoji = ?"
+            ).run(messageId, jwtUser.userId, normalizedEmoji);
+          }
+
+          const reactionRows = withReactions(db, [
+            {
+              id: messageId,
+              room_id: message.room_id,
+              user_id: "",
+              content: "",
+              created_at: "",
+            } as MessageRow,
+          ]);
+          const reactions = (reactionRows[0] as MessageRow & { reactions?: MessageReactionPayload[] })
+            .reactions ?? [];
+
+          const audience = message.thread_parent_id
+            ? io.to(message.room_id).to(threadRoomName(message.thread_parent_id))
+            : io.to(message.room_id);
+          audience.emit("message:reaction:update", {
+            room_id: message.room_id,
+            messageId,
+            reactions,
+          });
+          if (ack) ack({ ok: true });
+        } catch (err) {
+          console.error("Failed to update reaction:", err);
+          if (ack) ack({ ok: false, error: "Failed to update reaction" });
+        }
+      }
+    );
+
+    // Vote on a poll; optionIds replaces the caller's previous choices
+    socket.on(
+      "poll:vote",
+      (
+        { messageId, optionIds }: { messageId: string; optionIds: string[] },
+        ack?: (payload: { ok: boolean; error?: string; poll?: PollPayload }) => void
+      ) => {
+        const poll = typeof messageId === "string" ? getPollTarget(db, messageId) : undefined;
+        if (!poll) {
+          if (ack) ack({ ok: false, error: "Poll not found" });
+          return;
+        }
+        if (!canAccessRoom(db, poll.room_id, jwtUser.userId, jwtUser.isAdmin)) {
+          if (ack) ack({ ok: false, error: "Not authorized for this room" });
+          return;
+        }
+
+        try {
+          const result = castPollVote(db, poll, jwtUser.userId, optionIds);
+          if (!result.ok) {
+            if (ack) ack({ ok: false, error: result.error });
+            return;
+          }
+          broadcastPollUpdate(io, db, poll.message_id);
+          if (ack) {
+            ack({ ok: true, poll: getPollPayloads(db, [poll.message_id], jwtUser.userId).get(poll.message_id) });
+          }
+        } catch (err) {
+          console.error("Failed to record poll vote:", err);
+          if (ack) ack({ ok: false, error: "Failed to record vote" });
+        }
+      }
+    );
+
+    // Close a poll early; only its author or message managers may
+    socket.on(
+      "poll:close",
+      (
+        { messageId }: { messageId: string },
+        ack?: (payload: { ok: boolean; error?: string }) => void
+      ) => {
+        const poll = typeof messageId === "string" ? getPollTarget(db, messageId) : undefined;
+        if (!poll) {
+          if (ack) ack({ ok: false, error: "Poll not found" });
+          return;
+        }
+        if (!canAccessRoom(db, poll.room_id, jwtUser.userId, jwtUser.isAdmin)) {
+          if (ack) ack({ ok: false, error: "Not authorized for this room" });
+          return;
+        }
+        const perms = getUserPermissions(db, jwtUser.userId, jwtUser.isAdmin);
+        if (poll.author_id !== jwtUser.userId && !jwtUser.isAdmin && !perms.canManageMessages) {
+          if (ack) ack({ ok: false, error: "Not authorized to close this poll" });
+          return;
+        }
+        if (!closePoll(db, poll.id, jwtUser.userId)) {
+          if (ack) ack({ ok: false, error: "This poll is already closed" });
+          return;
+        }
+        broadcastPollUpdate(io, db, poll.message_id);
+        if (ack) ack({ ok: true });
+      }
+    );
+
+    // Delete a message
+    socket.on(
+      "message:delete",
+      (
+        { messageId }: { messageId: string },
+        ack?: (payload: { ok: boolean; error?: string }) => void
+      ) => {
+        const msg = db
+          .prepare("SELECT id, room_id, user_id, thread_parent_id FROM messages WHERE id = ?")
+          .get(messageId) as
+          | { id: string; room_id: string; user_id: string; thread_parent_id: string | null }
+          | undefined;
+
+        if (!msg) {
+          if (ack) ack({ ok: false, error: "Message not found" });
+          return;
+        }
+
+        const perms = getUserPermissions(db, jwtUser.userId, jwtUser.isAdmin);
+        // Only the author, admins, or users with message-management permission can delete.
+        if (msg.user_id !== jwtUser.userId && !jwtUser.isAdmin && !perms.canManageMessages) {
+          if (ack)
+            ack({ ok: false, error: "Not authorized to delete this message" });
+          return;
+        }
+
+        db.prepare("DELETE FROM messages WHERE id = ?").run(messageId);
+        if (msg.thread_parent_id) {
+          const summary = refreshThreadSummary(db, msg.thread_parent_id);
+          io.to(msg.room_id).to(threadRoomName(msg.thread_parent_id)).emit("message:deleted", {
+            messageId,
+            room_id: msg.room_id,
+            thread_parent_id: msg.thread_parent_id,
+          });
+          io.to(msg.room_id).emit("thread:updated", {
+            room_id: msg.room_id,
+            messageId: msg.thread_parent_id,
+            ...summary,
+          });
+        } else {
+          io.to(msg.room_id).emit("message:deleted", {
+            messageId,
+            room_id: msg.room_id,
+          });
+        }
+        if (ack) ack({ ok: true });
+      }
+    );
+
+    // Edit a message; the replaced content is kept in message_revisions
+    socket.on(
+      "message:edit",
+      (
+        { messageId, content }: { messageId: string; content: string },
+        ack?: (payload: { ok: boolean; error?: string; message?: Record<string, unknown> }) => void
+      ) => {
+        const config = getConfig();
+        const msg = db
+          .prepare(
+            `SELECT id, room_id, user_id, content, created_at, forwarded_from_created_at
+             FROM messages WHERE id = ?`
+          )
+          .get(messageId) as
+          | {
+              id: string;
+              room_id: string;
+              user_id: string;
+              content: string;
+              created_at: string;
+              forwarded_from_created_at: string | null;
+            }
+          | undefined;
+        if (!msg) {
+          if (ack) ack({ ok: false, error: "Message not found" });
+          return;
+        }
+        // Only the author can edit; moderators can delete but never rewrite.
+        if (msg.user_id !== jwtUser.userId) {
+          if (ack) ack({ ok: false, error: "Not authorized to edit this message" });
+          return;
+        }
+        // A forward quotes someone else's words, so it can't be rewritten.
+        if (msg.forwarded_from_created_at) {
+          if (ack) ack({ ok: false, error: "Forwarded messages cannot be edited" });
+          return;
+        }
+        if (!canSendRoomMessage(db, msg.room_id, jwtUser.userId, jwtUser.isAdmin)) {
+          if (ack) ack({ ok: false, error: "Not authorized for this room" });
+          return;
+        }
+
+        const trimmed = (content || "").trim();
+        if (!trimmed) {
+          const hasAttachments = db
+            .prepare("SELECT 1 FROM message_attachments WHERE message_id = ? LIMIT 1")
+            .get(messageId);
+          if (!hasAttachments) {
+            if (ack) ack({ ok: false, error: "Message or attachment is required" });
+            return;
+          }
+        }
+        if (trimmed.length > config.maxMessageLength) {
+          if (ack) {
+            ack({
+              ok: false,
+              error: `Message exceeds maximum length of ${config.maxMessageLength} characters`,
+            });
           }
+          return;
+        }
+        const unknownEmoji = findUnknownCustomEmoji(db, trimmed);
+        if (unknownEmoji.length > 0) {
+          if (ack) ack({ ok: false, error: `Unknown custom emoji :${unknownEmoji[0]}:` });
+          return;
+        }
+        if (trimmed === msg.content) {
+          const unchanged = getMessageById(db, messageId);
+          if (ack) ack({ ok: true, message: unchanged ? enrichMessages(db, [unchanged])[0] : undefined });
+          return;
+        }
 
-          const profile = db
-            .prepare(
-              `SELECT
-                 u.username,
-                 u.avatar_url,
-                 COALESCE(
-                   (
-                     SELECT r.color
-                     FROM user_roles ur
-                     JOIN roles r ON r.id = ur.role_id
-                     WHERE ur.user_id = u.id
-                     ORDER BY r.position DESC, r.created_at DESC
-                     LIMIT 1
-                   ),
-                   '#94a3b8'
-                 ) AS role_color
-               FROM users u
-               WHERE u.id = ?`
-            )
-            .get(userId) as
-            | { username: string; avatar_url: string | null; role_color: string }
-            | undefined;
-
-          const payload = {
-            id,
-            room_id,
-            user_id: userId,
-            reply_to_message_id: replyToMessageId,
-            pinned: 0,
+        try {
+          const editedAt = new Date().toISOString();
+          const mentions = resolveMentions(db, {
             content: trimmed,
-            created_at,
-            username: profile?.username || user?.username || "Anonymous",
-            avatar_url: profile?.avatar_url || user?.avatarUrl,
-            role_color: profile?.role_color || "#94a3b8",
-            client_nonce,
-          };
-
-          const payloadWithAttachments = withAttachments(db, [
-            payload as MessageRow,
-          ])[0] as Record<string, unknown>;
-          const payloadWithMeta = withReplyMeta(
-            db,
-            withReactions(db, [payloadWithAttachments as MessageRow]) as MessageRow[]
-          )[0] as Record<string, unknown>;
-
-          io.to(room_id).emit("message:new", payloadWithMeta);
-
-          // Room metadata (used for direct DM delivery and unread notifications)
-          const roomInfo = db
-            .prepare("SELECT type FROM rooms WHERE id = ?")
-            .get(room_id) as { type: string } | undefined;
-
-          // Emit lightweight notification events for unread/mention tracking.
-          // This is separate from message:new so clients can track badges for rooms
-          // they are not currently joined to.
-          if (roomInfo?.type === "dm") {
-            const otherMember = db
-              .prepare(
-                "SELECT user_id FROM room_members WHERE room_id = ? AND user_id != ?"
-              )
-              .get(room_id, userId) as { user_id: string } | undefined;
-            if (otherMember) {
-              for (const [sid, cu] of connectedUsers.entries()) {
-                if (cu.userId === otherMember.user_id) {
-                  io.to(sid).emit("message:notify", payloadWithMeta);
-                }
-              }
-            }
-          } else {
-            for (const [sid, cu] of connectedUsers.entries()) {
-              if (cu.userId !== userId) {
-                io.to(sid).emit("message:notify", payloadWithMeta);
-              }
-            }
-          }
+            authorId: jwtUser.userId,
+            roomId: msg.room_id,
+            canMentionEveryone: getUserPermissions(db, jwtUser.userId, jwtUser.isAdmin)
+              .canMentionEveryone,
+          });
+          let addedMentions: ResolvedMention[] = [];
+          const txn = db.transaction(() => {
+            db.prepare(
+              `INSERT INTO message_revisions (id, message_id, content, edited_by_user_id, created_at)
+               VALUES (?, ?, ?, ?, ?)`
+            ).run(crypto.randomUUID(), messageId, msg.content, jwtUser.userId, editedAt);
+            db.prepare("UPDATE messages SET content = ?, edited_at = ? WHERE id = ?").run(
+              trimmed,
+              editedAt,
+              messageId
+            );
+            // Only users newly mentioned by the edit are notified.
+            addedMentions = syncMessageMentions(db, msg, mentions);
+          });
+          txn();
 
-          if (ack) {
-            ack({ ok: true, message: payloadWithMeta, client_nonce });
+          const updated = getMessageById(db, messageId);
+          if (!updated) {
+            if (ack) ack({ ok: false, error: "Message not found" });
+            return;
           }
+          const payload = enrichMessages(db, [updated])[0];
+          const audience = updated.thread_parent_id
+            ? io.to(msg.room_id).to(threadRoomName(updated.thread_parent_id))
+            : io.to(msg.room_id);
+          audience.emit("message:updated", payload);
+          emitMentions(io, msg.room_id, payload, addedMentions);
+          unfurlInBackground(io, db, payload);
+          if (ack) ack({ ok: true, message: payload });
         } catch (err) {
-          console.error("Failed to insert message:", err);
-          if (ack) {
-            ack({ ok: false, error: "Failed to send message", client_nonce });
-          }
+          console.error("Failed to edit message:", err);
+          if (ack) ack({ ok: false, error: "Failed to edit message" });
         }
       }
     );
 
     socket.on(
-      "message:reaction:set",
+      "message:revisions:get",
       (
-        {
-          messageId,
-          emoji,
-          active,
-        }: { messageId: string; emoji: string; active: boolean },
-        ack?: (payload: { ok: boolean; error?: string }) => void
+        { messageId }: { messageId: string },
+        ack?: (payload: {
+          ok: boolean;
+          error?: string;
+          revisions?: Array<{
+            id: string;
+            content: string;
+            edited_by_user_id: string | null;
+            edited_by_username: string | null;
+            created_at: string;
+          }>;
+        }) => void
       ) => {
         const perms = getUserPermissions(db, jwtUser.userId, jwtUser.isAdmin);
-        if (!perms.canUseEmojis) {
-          if (ack) ack({ ok: false, error: "Missing emoji permission" });
-          return;
-        }
-        const normalizedEmoji = (emoji || "").trim();
-        if (!messageId || !normalizedEmoji || normalizedEmoji.length > 64) {
-          if (ack) ack({ ok: false, error: "Invalid reaction payload" });
+        if (!perms.canManageMessages) {
+          if (ack) ack({ ok: false, error: "Missing message management permission" });
           return;
         }
-
-        const message = db
+        const msg = db
           .prepare("SELECT id, room_id FROM messages WHERE id = ?")
           .get(messageId) as { id: string; room_id: string } | undefined;
-        if (!message) {
+        if (!msg) {
           if (ack) ack({ ok: false, error: "Message not found" });
           return;
         }
-
-        if (!canAccessRoom(db, message.room_id, jwtUser.userId, jwtUser.isAdmin)) {
+        if (!canAccessRoom(db, msg.room_id, jwtUser.userId, jwtUser.isAdmin)) {
           if (ack) ack({ ok: false, error: "Not authorized for this room" });
           return;
         }
+        const revisions = db
+          .prepare(
+            `SELECT mr.id, mr.content, mr.edited_by_user_id, u.username AS edited_by_username, mr.created_at
+             FROM message_revisions mr
+             LEFT JOIN users u ON u.id = mr.edited_by_user_id
+             WHERE mr.message_id = ?
+             ORDER BY mr.created_at ASC`
+          )
+          .all(messageId) as Array<{
+          id: string;
+          content: string;
+          edited_by_user_id: string | null;
+          edited_by_username: string | null;
+          created_at: string;
+        }>;
+        if (ack) ack({ ok: true, revisions });
+      }
+    );
 
-        try {
-          if (active) {
-            db.prepare(
-              `INSERT OR IGNORE INTO message_reactions (message_id, user_id, emoji, created_at)
-               VALUES (?, ?, ?, datetime('now'))`
-            ).run(messageId, jwtUser.userId, normalizedEmoji);
-          } else {
-            db.prepare(
-              "DELETE FROM message_reactions WHERE message_id = ? AND user_id = ? AND emoji = ?"
-            ).run(messageId, jwtUser.userId, normalizedEmoji);
-          }
+    // Recent mentions of the current user across rooms they can still view
+    socket.on(
+      "mentions:list",
+      (
+        { before, limit }: { before?: string; limit?: number } = {},
+        ack?: (payload: {
+          ok: boolean;
+          error?: string;
+          mentions?: Array<{
+            room_id: string;
+            mention_type: string;
+            created_at: string;
+            message: Record<string, unknown>;
+          }>;
+          hasMore?: boolean;
+        }) => void
+      ) => {
+        const config = getConfig();
+        const pageSize = Math.max(
+          1,
+          Math.min(Number.isInteger(limit) ? Number(limit) : 25, config.messageHistoryLimit)
+        );
+        const { rows, hasMore } = getRecentMentions(db, {
+          userId: jwtUser.userId,
+          isAdmin: jwtUser.isAdmin,
+          before: typeof before === "string" && before.length > 0 ? before : null,
+          limit: pageSize,
+        });
+        const messages = new Map<string, Record<string, unknown>>();
+        const loaded = rows
+          .map((row) => getMessageById(db, row.message_id))
+          .filter((row): row is MessageRow => Boolean(row));
+        for (const message of enrichMessages(db, loaded, jwtUser.userId)) {
+          messages.set(message.id as string, message);
+        }
+        const mentions = rows
+          .filter((row) => messages.has(row.message_id))
+          .map((row) => ({
+            room_id: row.room_id,
+            mention_type: row.mention_type,
+            created_at: row.created_at,
+            message: messages.get(row.message_id)!,
+          }));
+        if (ack) ack({ ok: true, mentions, hasMore });
+      }
+    );
 
-          const reactionRows = withReactions(db, [
-            {
-              id: messageId,
-              room_id: message.room_id,
-              user_id: "",
-              content: "",
-              created_at: "",
-            } as MessageRow,
-          ]);
-          const reactions = (reactionRows[0] as MessageRow & { reactions?: MessageReactionPayload[] })
-            .reactions ?? [];
+    // ── Scheduled messages and reminders ───────────────────────
 
-          io.to(message.room_id).emit("message:reaction:update", {
-            room_id: message.room_id,
-            messageId,
-            reactions,
+    // Schedule a message for later, or a reminder about an existing message
+    socket.on(
+      "message:schedule",
+      (
+        {
+          roomId,
+          content,
+          sendAt,
+          remindAboutMessageId,
+        }: {
+          roomId?: string;
+          content?: string;
+          sendAt: string | number;
+          remindAboutMessageId?: string;
+        },
+        ack?: (payload: { ok: boolean; error?: string; scheduled?: ScheduledMessageRow }) => void
+      ) => {
+        const when = parseSendAt(sendAt);
+        if (!when.ok) {
+          if (ack) ack({ ok: false, error: when.error });
+          return;
+        }
+        if (countPendingScheduledMessages(db, jwtUser.userId) >= MAX_PENDING_SCHEDULED_MESSAGES) {
+          if (ack) {
+            ack({
+              ok: false,
+              error: `You can have at most ${MAX_PENDING_SCHEDULED_MESSAGES} scheduled messages`,
+            });
+          }
+          return;
+        }
+
+        if (remindAboutMessageId) {
+          const target = db
+            .prepare("SELECT id, room_id FROM messages WHERE id = ?")
+            .get(remindAboutMessageId) as { id: string; room_id: string } | undefined;
+          if (!target || !canAccessRoom(db, target.room_id, jwtUser.userId, jwtUser.isAdmin)) {
+            if (ack) ack({ ok: false, error: "Message not found" });
+            return;
+          }
+          const note = (content || "").trim();
+          if (note.length > 500) {
+            if (ack) ack({ ok: false, error: "Reminder note exceeds maximum length of 500 characters" });
+            return;
+          }
+          const scheduled = createScheduledMessage(db, {
+            userId: jwtUser.userId,
+            kind: "reminder",
+            roomId: target.room_id,
+            targetMessageId: target.id,
+            content: note,
+            sendAt: when.sendAt,
           });
-          if (ack) ack({ ok: true });
-        } catch (err) {
-          console.error("Failed to update reaction:", err);
-          if (ack) ack({ ok: false, error: "Failed to update reaction" });
+          if (ack) ack({ ok: true, scheduled });
+          return;
+        }
+
+        if (!roomId || !canSendRoomMessage(db, roomId, jwtUser.userId, jwtUser.isAdmin)) {
+          if (ack) ack({ ok: false, error: "Not authorized for this room" });
+          return;
+        }
+        const draft = validateMessageDraft(db, jwtUser.userId, jwtUser.isAdmin, content || "", []);
+        if (!draft.ok) {
+          if (ack) ack({ ok: false, error: draft.error });
+          return;
         }
+        const scheduled = createScheduledMessage(db, {
+          userId: jwtUser.userId,
+          kind: "message",
+          roomId,
+          content: draft.content,
+          sendAt: when.sendAt,
+        });
+        if (ack) ack({ ok: true, scheduled });
       }
     );
 
-    // Delete a message
     socket.on(
-      "message:delete",
+      "message:schedule:list",
       (
-        { messageId }: { messageId: string },
-        ack?: (payload: { ok: boolean; error?: string }) => void
+        _payload: unknown,
+        ack?: (payload: { ok: boolean; scheduled?: ScheduledMessageRow[] }) => void
       ) => {
-        const msg = db
-          .prepare("SELECT id, room_id, user_id FROM messages WHERE id = ?")
-          .get(messageId) as
-          | { id: string; room_id: string; user_id: string }
-          | undefined;
+        if (typeof ack !== "function") return;
+        ack({ ok: true, scheduled: listScheduledMessages(db, jwtUser.userId) });
+      }
+    );
 
-        if (!msg) {
-          if (ack) ack({ ok: false, error: "Message not found" });
+    socket.on(
+      "message:schedule:cancel",
+      (
+        { id }: { id: string },
+        ack?: (payload: { ok: boolean; error?: string }) => void
+      ) => {
+        if (!id || !cancelScheduledMessage(db, jwtUser.userId, id)) {
+          if (ack) ack({ ok: false, error: "Scheduled message not found" });
           return;
         }
+        if (ack) ack({ ok: true });
+      }
+    );
 
-        const perms = getUserPermissions(db, jwtUser.userId, jwtUser.isAdmin);
-        // Only the author, admins, or users with message-management permission can delete.
-        if (msg.user_id !== jwtUser.userId && !jwtUser.isAdmin && !perms.canManageMessages) {
-          if (ack)
-            ack({ ok: false, error: "Not authorized to delete this message" });
-          return;
-        }
+    // ── Slash commands ─────────────────────────────────────────
 
-        db.prepare("DELETE FROM messages WHERE id = ?").run(messageId);
-        io.to(msg.room_id).emit("message:deleted", {
-          messageId,
-          room_id: msg.room_id,
+    // Commands this user may run, for autocomplete
+    socket.on(
+      "commands:list",
+      (
+        _payload: unknown,
+        ack?: (payload: { ok: boolean; commands?: SlashCommand[] }) => void
+      ) => {
+        if (typeof ack !== "function") return;
+        ack({
+          ok: true,
+          commands: getAvailableSlashCommands(db, jwtUser.userId, jwtUser.isAdmin),
         });
-        if (ack) ack({ ok: true });
+      }
+    );
+
+    // Bots replace their full set of commands; invocations arrive as command:invoke
+    socket.on(
+      "commands:register",
+      (
+        { commands }: { commands: unknown },
+        ack?: (payload: { ok: boolean; error?: string; commands?: SlashCommand[] }) => void
+      ) => {
+        if (!jwtUser.isBot) {
+          if (ack) ack({ ok: false, error: "Only bots can register commands" });
+          return;
+        }
+        const result = replaceBotSlashCommands(db, jwtUser.userId, commands);
+        if (!result.ok) {
+          if (ack) ack(result);
+          return;
+        }
+        io.emit("commands:updated", {});
+        if (ack) ack(result);
       }
     );
 
@@ -2423,6 +4529,117 @@ export function setupSocketHandlers(io: Server) {
       }
     );
 
+    // ── Bookmarks ──────────────────────────────────────────────
+
+    // Save a message privately, or change an existing bookmark's note/folder
+    socket.on(
+      "bookmark:add",
+      (
+        {
+          messageId,
+          note,
+          folder,
+        }: { messageId: string; note?: string | null; folder?: string | null },
+        ack?: (payload: { ok: boolean; error?: string; bookmark?: BookmarkRow }) => void
+      ) => {
+        const msg = db
+          .prepare("SELECT id, room_id FROM messages WHERE id = ?")
+          .get(messageId) as { id: string; room_id: string } | undefined;
+        if (!msg || !canAccessRoom(db, msg.room_id, jwtUser.userId, jwtUser.isAdmin)) {
+          if (ack) ack({ ok: false, error: "Message not found" });
+          return;
+        }
+        const parsed = parseBookmarkDetails({ note, folder });
+        if (!parsed.ok) {
+          if (ack) ack({ ok: false, error: parsed.error });
+          return;
+        }
+        const result = saveBookmark(db, jwtUser.userId, msg.id, parsed.details);
+        if (!result.ok) {
+          if (ack) ack({ ok: false, error: result.error });
+          return;
+        }
+        // Keep the user's other devices in sync.
+        emitToUser(jwtUser.userId, "bookmark:update", {
+          messageId: msg.id,
+          bookmark: result.bookmark,
+        });
+        if (ack) ack({ ok: true, bookmark: result.bookmark });
+      }
+    );
+
+    socket.on(
+      "bookmark:remove",
+      (
+        { messageId }: { messageId: string },
+        ack?: (payload: { ok: boolean; error?: string }) => void
+      ) => {
+        if (typeof messageId !== "string" || !removeBookmark(db, jwtUser.userId, messageId)) {
+          if (ack) ack({ ok: false, error: "Bookmark not found" });
+          return;
+        }
+        emitToUser(jwtUser.userId, "bookmark:update", { messageId, bookmark: null });
+        if (ack) ack({ ok: true });
+      }
+    );
+
+    // Saved messages, newest first, with full message payloads
+    socket.on(
+      "bookmark:list",
+      (
+        {
+          folder,
+          before,
+          limit,
+        }: { folder?: string | null; before?: string; limit?: number } = {},
+        ack?: (payload: {
+          ok: boolean;
+          error?: string;
+          bookmarks?: Array<BookmarkRow & { message: Record<string, unknown> }>;
+          folders?: string[];
+          hasMore?: boolean;
+        }) => void
+      ) => {
+        const config = getConfig();
+        const pageSize = Math.max(
+          1,
+          Math.min(Number.isInteger(limit) ? Number(limit) : 25, config.messageHistoryLimit)
+        );
+        const { rows, folders, hasMore } = listBookmarks(db, {
+          userId: jwtUser.userId,
+          isAdmin: jwtUser.isAdmin,
+          folder: typeof folder === "string" && folder.trim() ? folder.trim() : null,
+          before: typeof before === "string" && before.length > 0 ? before : null,
+          limit: pageSize,
+        });
+        const messages = new Map<string, Record<string, unknown>>();
+        const loaded = rows
+          .map((row) => getMessageById(db, row.message_id))
+          .filter((row): row is MessageRow => Boolean(row));
+        for (const message of enrichMessages(db, loaded, jwtUser.userId)) {
+          messages.set(message.id as string, message);
+        }
+        const bookmarks = rows
+          .filter((row) => messages.has(row.message_id))
+          .map((row) => ({ ...row, message: messages.get(row.message_id)! }));
+        if (ack) ack({ ok: true, bookmarks, folders, hasMore });
+      }
+    );
+
+    // ── Custom emoji ───────────────────────────────────────────
+
+    // Custom emoji and stickers; uploads and deletes go through /api/files/emojis
+    socket.on(
+      "emojis:list",
+      (
+        _payload: unknown,
+        ack?: (payload: { ok: boolean; emojis?: CustomEmojiPayload[] }) => void
+      ) => {
+        if (typeof ack !== "function") return;
+        ack({ ok: true, emojis: listCustomEmojis(db) });
+      }
+    );
+
     // ── DM events ──────────────────────────────────────────────
 
     // Open (find or create) a DM room with another user
@@ -2549,7 +4766,10 @@ export function setupSocketHandlers(io: Server) {
         return result;
       });
 
-      socket.emit("dm:list", dmRooms);
+      socket.emit(
+        "dm:list",
+        withReadState(db, myUserId, dmRooms as Array<Record<string, unknown> & { id: string }>)
+      );
     });
 
     // Create a group DM with multiple members
@@ -3330,6 +5550,7 @@ export function setupSocketHandlers(io: Server) {
 
     // Disconnect
     socket.on("disconnect", () => {
+      clearAuthExpiry();
       const user = connectedUsers.get(socket.id);
       if (user) {
         for (const request of Array.from(pendingRemoteControlRequests.values())) {
@@ -3446,5 +5667,11 @@ export function setupSocketHandlers(io: Server) {
 }
 
 /** Export for use by REST routes that need to broadcast presence */
-export { broadcastPresence, broadcastRoomStructure };
+export {
+  broadcastPresence,
+  broadcastRoomStructure,
+  disconnectSessionSockets,
+  disconnectUserSockets,
+  publishIntegrationMessage,
+};
 